@@ -0,0 +1,145 @@
+/**
+ * Wiretap capture log
+ *
+ * A ring buffer of recent wiretap captures for the Capture Inspector in
+ * Settings: what came in, what it was classified as and, when nothing was
+ * saved, why. Kept in chrome.storage.session, so it survives service worker
+ * restarts but not the browser session.
+ *
+ * Payloads are stored under their own keys so listing the log stays cheap,
+ * and only when small enough to re-run through classification later.
+ */
+
+import { getServerSideRowCount } from './wiretap-detectors'
+import type { CaptureLogEntry, CaptureCost, WiretapMessage, WiretapResult, WiretapCompleteness } from '../types'
+
+const LOG_KEY = 'pp_capture_log'
+const PAYLOAD_KEY_PREFIX = 'pp_capture_payload_'
+const MAX_ENTRIES = 50
+const MAX_STORED_PAYLOAD = 256 * 1024
+// Session storage is capped at 10 MB in total; keep payloads well under it.
+// Older payloads are let go first, their log entries stay.
+const MAX_STORED_PAYLOAD_TOTAL = 6 * 1024 * 1024
+
+function payloadKey(id: string): string {
+  return `${PAYLOAD_KEY_PREFIX}${id}`
+}
+
+// Captures arrive concurrently; chain the read-modify-writes so none are lost
+let writeQueue: Promise<void> = Promise.resolve()
+
+export async function getCaptureLog(): Promise<CaptureLogEntry[]> {
+  const result = await chrome.storage.session.get(LOG_KEY)
+  return (result[LOG_KEY] as CaptureLogEntry[] | undefined) ?? []
+}
+
+export async function getCapturePayload(id: string): Promise<unknown> {
+  const key = payloadKey(id)
+  const result = await chrome.storage.session.get(key)
+  return result[key]
+}
+
+export interface CaptureRecord {
+  message: WiretapMessage
+  result: WiretapResult
+  itemCount: number
+  completeness?: WiretapCompleteness
+  cost?: Omit<CaptureCost, 'rawSize' | 'stripMs'>
+}
+
+// Posted size of the payload. Unstripped payloads were measured in the page,
+// which saves serializing a multi-megabyte response a second time.
+function measurePayload(message: WiretapMessage): number | undefined {
+  if (message.stats && !message.stats.stripped) return message.stats.rawSize
+  try {
+    return JSON.stringify(message.payload)?.length ?? 0
+  } catch {
+    return undefined   // Unserializable - logged without its payload
+  }
+}
+
+function toEntry({ message, result, itemCount, completeness, cost }: CaptureRecord): CaptureLogEntry {
+  const size = measurePayload(message)
+  const entry: CaptureLogEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: Date.now(),
+    source: message.source,
+    projectId: message.ids.projectId ?? undefined,
+    size: size ?? 0,
+    headers: message.headers ?? {},
+    itemCount,
+    saves: result.saves ?? [],
+    reason: result.reason,
+    unclassified: result.unclassified,
+    hasPayload: size !== undefined && size <= MAX_STORED_PAYLOAD,
+    request: message.request,
+    completeness,
+  }
+  if (message.grid) {
+    entry.grid = { ...message.grid, rowCount: getServerSideRowCount(message.payload, message.grid) }
+  }
+  if (cost) {
+    entry.cost = { ...cost, rawSize: message.stats?.rawSize, stripMs: message.stats?.stripMs }
+  }
+  return entry
+}
+
+// Drop payloads past the byte budget, oldest first. Returns the ids let go.
+function trimPayloads(log: CaptureLogEntry[]): string[] {
+  let total = 0
+  const dropped: string[] = []
+  log.forEach((entry, i) => {
+    if (!entry.hasPayload) return
+    total += entry.size
+    if (total > MAX_STORED_PAYLOAD_TOTAL) {
+      log[i] = { ...entry, hasPayload: false }
+      dropped.push(entry.id)
+    }
+  })
+  return dropped
+}
+
+/**
+ * Record a chunk of captures, newest first, in one write. Never throws: the
+ * inspector is a diagnostic and must not break the captures it describes.
+ */
+export function recordCaptures(records: CaptureRecord[]): Promise<void> {
+  if (records.length === 0) return writeQueue
+  writeQueue = writeQueue.then(async () => {
+    const entries = records.map(toEntry)
+    const payloads: Record<string, unknown> = {}
+    entries.forEach((entry, i) => {
+      if (entry.hasPayload) payloads[payloadKey(entry.id)] = records[i].message.payload
+    })
+
+    const log = [...entries.reverse(), ...await getCaptureLog()]
+    const evicted = log.splice(MAX_ENTRIES).filter(e => e.hasPayload).map(e => e.id)
+    const evictedIds = [...evicted, ...trimPayloads(log)]
+    evictedIds.forEach(id => delete payloads[payloadKey(id)])
+
+    // Free the space before writing, so a full session store still takes the new entries
+    const evictedKeys = evictedIds.map(payloadKey)
+    if (evictedKeys.length > 0) {
+      await chrome.storage.session.remove(evictedKeys)
+    }
+    try {
+      await chrome.storage.session.set({ [LOG_KEY]: log, ...payloads })
+    } catch (err) {
+      // Over quota: keep the log going without this chunk's payloads
+      console.warn('PP Background: Capture log over quota, recording without payloads:', err)
+      const newIds = new Set(Object.keys(payloads).map(key => key.slice(PAYLOAD_KEY_PREFIX.length)))
+      await chrome.storage.session.set({
+        [LOG_KEY]: log.map(entry => newIds.has(entry.id) ? { ...entry, hasPayload: false } : entry),
+      })
+    }
+  }).catch((err) => console.error('PP Background: Failed to record captures:', err))
+  return writeQueue
+}
+
+export function clearCaptureLog(): Promise<void> {
+  writeQueue = writeQueue.then(async () => {
+    const log = await getCaptureLog()
+    await chrome.storage.session.remove([LOG_KEY, ...log.filter(e => e.hasPayload).map(e => payloadKey(e.id))])
+  }).catch((err) => console.error('PP Background: Failed to clear capture log:', err))
+  return writeQueue
+}
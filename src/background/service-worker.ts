@@ -11,185 +11,109 @@
 
 import { StorageService } from '../services/storage'
 import { ApiService } from '../services/api'
+import { runMigrations } from '../services/migrations'
 import { PREFERENCE_KEYS } from '../types/preferences'
-import type { WiretapMessage, Drawing, Commitment, Specification, DisciplineMap, DivisionMap } from '../types'
+import { classifyItems, findDataInObject, getCaptureCompleteness, isProjectNamesUrl, findProjectNames } from './wiretap-detectors'
+import { recordCaptures, getCaptureLog, getCapturePayload, clearCaptureLog } from './capture-log'
+import type { FetchOptions } from '../services/api'
+import type { WiretapContext, WiretapClassification, WiretapDetector, RawDataItem } from './wiretap-detectors'
+import type { WiretapMessage, WiretapResult, WiretapEntityType, WiretapCompleteness, CaptureReclassification, SyncEntityType } from '../types'
 
 // ============================================
-// DATA DETECTION FUNCTIONS (ported from v1)
+// SCHEMA MIGRATIONS
 // ============================================
 
-interface RawDataItem {
-  id?: number | string
-  name?: string  // Used by discipline items
-  number?: string
-  drawing_number?: string
-  title?: string
-  description?: string  // Used by specifications
-  vendor?: string
-  vendor_name?: string
-  contract_date?: string
-  type?: string
-  discipline?: number | { id?: number; name?: string }
-  discipline_name?: string
-  subject?: string
-  status?: string
-  total_revisions?: number  // Used by discipline items
-  specification_section_division_id?: string  // Used by specifications
-  specification_area_id?: string  // Used by specifications
-  [key: string]: unknown
-}
+// Runs once per service worker start. Handlers that write to storage wait for it
+// so they never mix old- and new-shape records.
+const migrationsReady: Promise<void> = runMigrations()
+  .then((results) => {
+    for (const result of results) {
+      if (result.error) {
+        console.error('PP Background: Migration failed for', result.database, '-', result.recovery ?? 'not recovered', result.error)
+      } else {
+        console.log('PP Background: Migrated', result.database, `v${result.fromVersion} -> v${result.toVersion}`)
+      }
+    }
+  })
+  .catch((err) => console.error('PP Background: Migrations failed:', err))
 
-function isCommitment(item: RawDataItem): boolean {
-  if (!item || !item.id) return false
-  if (item.drawing_number) return false
-  const hasInfo = item.number || item.title || item.contract_date
-  const hasContext = item.vendor || item.vendor_name || 
-    (item.type && String(item.type).includes('Contract'))
-  return !!(hasInfo && hasContext)
-}
+// ============================================
+// WIRETAP DATA HANDLER
+// ============================================
 
-function isDrawing(item: RawDataItem): boolean {
-  if (!item || !item.id) return false
-  const hasNum = item.number || item.drawing_number
-  if (!hasNum) return false
-  if (item.vendor || item.vendor_name || item.contract_date) return false
-  return true
+// Captures wait here until the worker gets to them, and are ingested in chunks
+// with one read-modify-write per entity type per chunk: a grid paging through a
+// long log costs a handful of writes instead of one per response.
+interface QueuedCapture {
+  message: WiretapMessage
+  receivedAt: number
 }
 
-function isRFI(item: RawDataItem): boolean {
-  return !(!item || !item.id || item.drawing_number || item.vendor || item.vendor_name) && 
-    !!(item.subject && item.status && item.number !== undefined)
+interface ClassifiedCapture extends WiretapClassification {
+  message: WiretapMessage
+  queuedMs: number
+  itemCount: number
+  completeness?: WiretapCompleteness
+  reason?: string
 }
 
-function isSpecification(item: RawDataItem): boolean {
-  if (!item || !item.id) return false
-  // Must have specification-specific fields (description + number, or division ID)
-  if (item.specification_section_division_id || item.specification_area_id) return true
-  // Has description (title) and number but NOT drawing/commitment/RFI specific fields
-  if (item.description && item.number) {
-    if (item.drawing_number) return false
-    if (item.vendor || item.vendor_name || item.contract_date) return false
-    if (item.subject && item.status) return false  // RFI has subject + status
-    return true
+const WIRETAP_CHUNK_SIZE = 10
+const WIRETAP_QUEUE_LIMIT = 100   // Beyond this new captures are turned away
+
+const wiretapQueue: QueuedCapture[] = []
+let isDrainingWiretap = false
+
+// Returns the backlog, which the content script uses to slow its flushes down
+function enqueueWiretapData(messages: WiretapMessage[]): number {
+  const receivedAt = Date.now()
+  // Keep what is already queued: those are the first pages of a paged list,
+  // and losing page 1 costs more than losing the tail
+  const room = Math.max(0, WIRETAP_QUEUE_LIMIT - wiretapQueue.length)
+  const dropped = messages.slice(room)
+  wiretapQueue.push(...messages.slice(0, room).map(message => ({ message, receivedAt })))
+
+  if (dropped.length > 0) {
+    console.warn('PP Background: Wiretap queue full, dropped', dropped.length, 'captures')
+    recordCaptures(dropped.map(message => ({
+      message,
+      result: { saved: false, reason: 'Dropped: the capture queue was full' },
+      itemCount: 0,
+    })))
   }
-  return false
-}
 
-function findDataInObject(obj: unknown): RawDataItem[] {
-  if (!obj) return []
-  if (Array.isArray(obj)) return obj as RawDataItem[]
-  const record = obj as Record<string, unknown>
-  if (record.data && Array.isArray(record.data)) return record.data as RawDataItem[]
-  if (record.entities && Array.isArray(record.entities)) return record.entities as RawDataItem[]
-  for (const key in record) {
-    if (Array.isArray(record[key]) && (record[key] as unknown[]).length > 0) {
-      return record[key] as RawDataItem[]
-    }
-  }
-  return []
+  if (!isDrainingWiretap) drainWiretapQueue()
+  return wiretapQueue.length
 }
 
-function normalizeDrawing(item: RawDataItem): Drawing {
-  // Keep discipline as-is (could be object {id, name} or number)
-  // This matches v1 behavior
-  const numericId = typeof item.id === 'string' ? parseInt(item.id, 10) : item.id!
-  const drawing: Drawing = {
-    id: numericId as number,
-    num: (item.number || item.drawing_number || '') as string,
-    title: (item.title || '') as string,
-  }
-  
-  // Store discipline - keep the whole object if it exists
-  if (item.discipline) {
-    drawing.discipline = item.discipline as Drawing['discipline']
-  }
-  
-  // Also capture discipline_name if present directly
-  if (item.discipline_name) {
-    drawing.discipline_name = item.discipline_name as string
-  } else if (typeof item.discipline === 'object' && item.discipline !== null) {
-    const disc = item.discipline as { name?: string }
-    if (disc.name) {
-      drawing.discipline_name = disc.name
-    }
-  }
-  
-  return drawing
-}
-
-function normalizeCommitment(item: RawDataItem): Commitment {
-  const numericId = typeof item.id === 'string' ? parseInt(item.id, 10) : item.id!
-  
-  // Handle vendor which might be a string or object from Procore API
-  const vendorName = typeof item.vendor === 'string' ? item.vendor :
-    (typeof item.vendor === 'object' && item.vendor ? (item.vendor as { name?: string })?.name : undefined)
-  
-  return {
-    id: numericId as number,
-    number: (item.number || '') as string,
-    title: (item.title || '') as string,
-    vendor: vendorName, // Now always a string or undefined
-    vendor_name: (item.vendor_name as string | undefined) || vendorName,
-    status: item.status as string | undefined,
-    contract_date: item.contract_date as string | undefined,
-    type: item.type as string | undefined,
-    approved_amount: item.approved_amount as number | undefined,
-    pending_amount: item.pending_amount as number | undefined,
-    draft_amount: item.draft_amount as number | undefined,
-  }
-}
-
-function findDisciplinesRecursive(obj: unknown, map: DisciplineMap, sortCounter: number, depth: number): void {
-  if (depth > 5 || !obj || typeof obj !== 'object') return
-  const item = obj as Record<string, unknown>
-  if (item.id && item.name && typeof item.name === 'string' && !item.drawing_number && !item.number) {
-    // Convert string IDs to numbers (discipline API returns string IDs like "10931276")
-    const numericId = typeof item.id === 'string' ? parseInt(item.id, 10) : item.id as number
-    if (!isNaN(numericId)) {
-      map[numericId] = { name: item.name as string, index: sortCounter }
-    }
-  }
-  if (Array.isArray(obj)) {
-    obj.forEach((child, index) => findDisciplinesRecursive(child, map, index, depth + 1))
-  } else {
-    for (const key in item) {
-      if (!['permissions', 'metadata', 'view_options'].includes(key)) {
-        findDisciplinesRecursive(item[key], map, sortCounter, depth + 1)
+async function drainWiretapQueue(): Promise<void> {
+  isDrainingWiretap = true
+  try {
+    await migrationsReady
+    while (wiretapQueue.length > 0) {
+      const chunk = wiretapQueue.splice(0, WIRETAP_CHUNK_SIZE)
+      try {
+        await handleWiretapChunk(chunk)
+      } catch (err) {
+        console.error('PP Background: Error handling wiretap:', err)
+        const reason = `Error: ${err instanceof Error ? err.message : String(err)}`
+        recordCaptures(chunk.map(({ message }) => ({ message, result: { saved: false, reason }, itemCount: 0 })))
       }
+      // Give scans and side panel requests a turn between chunks
+      await new Promise(resolve => setTimeout(resolve, 0))
     }
+  } finally {
+    isDrainingWiretap = false
   }
 }
 
-// Check if an item looks like a discipline object (has id + name, but no drawing fields)
-function isDisciplineItem(item: RawDataItem): boolean {
-  if (!item || !item.id) return false
-  // Must have a name
-  if (!item.name || typeof item.name !== 'string') return false
-  // Must NOT have drawing-specific fields
-  if (item.number || item.drawing_number) return false
-  // Must NOT have commitment-specific fields
-  if (item.vendor || item.vendor_name || item.contract_date) return false
-  return true
-}
-
-// ============================================
-// WIRETAP DATA HANDLER
-// ============================================
+async function classifyCapture(wiretapMessage: WiretapMessage, queuedMs: number): Promise<ClassifiedCapture> {
+  const { payload, ids, source, grid } = wiretapMessage
+  const capture: ClassifiedCapture = { message: wiretapMessage, queuedMs, itemCount: 0, groups: [] }
 
-async function handleWiretapData(wiretapMessage: WiretapMessage): Promise<{ saved: boolean; type?: string; count?: number }> {
-  const { payload, ids, source } = wiretapMessage
-  
-  console.log('PP Background: Wiretap received', {
-    source,
-    ids,
-    payloadType: Array.isArray(payload) ? 'array' : typeof payload,
-    payloadLength: Array.isArray(payload) ? payload.length : 'N/A'
-  })
-  
   const activeProjectId = ids.projectId
   if (!activeProjectId) {
     console.log('PP Background: No project ID, skipping')
-    return { saved: false }
+    return { ...capture, reason: 'No project ID in the page URL' }
   }
 
   console.log('PP Background: Processing wiretap from:', source, 'for project:', activeProjectId)
@@ -202,317 +126,508 @@ async function handleWiretapData(wiretapMessage: WiretapMessage): Promise<{ save
   if (Object.keys(projectUpdates).length > 0) {
     await StorageService.updateProjectAccess(activeProjectId, projectUpdates)
   }
+  if (ids.drawingAreaId) {
+    await StorageService.addDrawingAreas(activeProjectId, [{ id: ids.drawingAreaId }])
+  }
+
+  // Project and company records only carry names; there is no list to classify
+  if (isProjectNamesUrl(source)) {
+    const companyId = ids.companyId ?? (await StorageService.getProject(activeProjectId))?.companyId
+    const names = findProjectNames(source, payload, activeProjectId, companyId)
+    if (Object.keys(names).length === 0) {
+      return { ...capture, reason: 'No record for this project or its company in the payload' }
+    }
+    await StorageService.updateProjectAccess(activeProjectId, names)
+    notifyProjectUpdated(activeProjectId)
+    return { ...capture, reason: `Read names only: ${[names.name, names.companyName].filter(Boolean).join(', ')}` }
+  }
 
-  const dataItems = findDataInObject(payload)
+  const dataItems = findDataInObject(payload, grid)
   console.log('PP Background: Found', dataItems.length, 'data items')
   
   if (dataItems.length === 0) {
     console.log('PP Background: No data items found in payload')
-    return { saved: false }
+    return { ...capture, reason: 'No item list found in the payload' }
   }
 
-  const sourceLower = (source || '').toLowerCase()
-  const firstItem = dataItems[0]
-  
-  console.log('PP Background: First item sample:', {
-    id: firstItem?.id,
-    name: firstItem?.name,
-    number: firstItem?.number,
-    drawing_number: firstItem?.drawing_number,
-    title: firstItem?.title,
-    subject: firstItem?.subject,
-    vendor: firstItem?.vendor,
-  })
+  const { groups, unclassified } = classifyItems(source, dataItems)
+  if (unclassified) {
+    console.warn('PP Background: Unclassified wiretap items', unclassified)
+  }
+  const completeness = getCaptureCompleteness(wiretapMessage, dataItems.length)
+  return { ...capture, itemCount: dataItems.length, groups, unclassified, completeness }
+}
 
-  const isCommitmentSrc = sourceLower.includes('commitment') || sourceLower.includes('contract')
-  const isDrawingSrc = sourceLower.includes('drawing') || sourceLower.includes('discipline') || sourceLower.includes('groups')
-  const isRFISrc = sourceLower.includes('/rfis')
-  const isDisciplineSrc = sourceLower.includes('discipline') || sourceLower.includes('groups/discipline')
-  
-  console.log('PP Background: Source detection:', { isCommitmentSrc, isDrawingSrc, isRFISrc, isDisciplineSrc })
-  
-  // PRIORITY 1: Check for discipline data FIRST (before drawings)
-  // Discipline responses have items with {id, name} but no drawing_number/number
-  if (isDisciplineSrc && isDisciplineItem(firstItem)) {
-    console.log('PP Background: Detected discipline data!')
-    const disciplineMap: DisciplineMap = {}
-    
-    dataItems.forEach((item, index) => {
-      if (item.id && item.name && typeof item.name === 'string') {
-        // Convert string IDs to numbers
-        const numericId = typeof item.id === 'string' ? parseInt(item.id as string, 10) : item.id
-        if (!isNaN(numericId)) {
-          disciplineMap[numericId] = { 
-            name: item.name as string, 
-            index 
-          }
-        }
-      }
-    })
-    
-    if (Object.keys(disciplineMap).length > 0) {
-      const existing = await StorageService.getDisciplineMap(activeProjectId)
-      const merged = { ...existing, ...disciplineMap }
-      await StorageService.saveDisciplineMap(activeProjectId, merged)
-      console.log('PP Background: Saved', Object.keys(disciplineMap).length, 'disciplines:', 
-        Object.entries(disciplineMap).map(([id, d]) => `${id}:${d.name}`).join(', '))
-      return { saved: true, type: 'disciplines', count: Object.keys(disciplineMap).length }
-    }
+function toWiretapResult(capture: ClassifiedCapture, saves: NonNullable<WiretapResult['saves']>): WiretapResult {
+  const { groups, unclassified } = capture
+  if (capture.reason) return { saved: false, reason: capture.reason }
+  if (saves.length === 0) {
+    const reason = groups.length === 0
+      ? `No detector accepted the items (listening: ${unclassified?.expected.join(', ') || 'none'})`
+      : 'Matched items were all dropped during normalization'
+    return { saved: false, unclassified, reason }
   }
+  return { saved: true, type: saves[0].type, count: saves[0].count, saves, unclassified }
+}
+
+async function handleWiretapChunk(chunk: QueuedCapture[]): Promise<void> {
+  const startedAt = Date.now()
+  console.log('PP Background: Processing', chunk.length, 'wiretap captures,', wiretapQueue.length, 'still queued')
 
-  // Process RFIs
-  if (isRFISrc && isRFI(firstItem)) {
-    const rfis = dataItems.filter(isRFI).map(item => {
-      const numericId = typeof item.id === 'string' ? parseInt(item.id, 10) : item.id!
-      return {
-        id: numericId as number,
-        number: (item.number || '') as string,
-        subject: (item.subject || '') as string,
-        status: (item.status || 'unknown') as string,
-        created_at: (item.created_at || '') as string,
-        due_date: item.due_date as string | undefined,
-        assignee: item.assignee as string | undefined,
-        ball_in_court: item.ball_in_court as string | undefined,
+  const captures: ClassifiedCapture[] = []
+  for (const { message, receivedAt } of chunk) {
+    captures.push(await classifyCapture(message, startedAt - receivedAt))
+  }
+
+  // Merge what each detector claimed, per project and drawing area
+  const batches = new Map<string, {
+    detector: WiretapDetector
+    projectId: string
+    drawingAreaId?: string
+    items: RawDataItem[]
+    payloads: unknown[]
+    captures: ClassifiedCapture[]
+  }>()
+  for (const capture of captures) {
+    const { projectId, drawingAreaId } = capture.message.ids
+    if (!projectId) continue
+    for (const { detector, items } of capture.groups) {
+      const key = `${projectId}:${drawingAreaId ?? ''}:${detector.type}`
+      const batch = batches.get(key)
+      if (batch) {
+        batch.items.push(...items)
+        batch.payloads.push(capture.message.payload)
+        batch.captures.push(capture)
+      } else {
+        batches.set(key, {
+          detector,
+          projectId,
+          drawingAreaId: drawingAreaId ?? undefined,
+          items: [...items],
+          payloads: [capture.message.payload],
+          captures: [capture],
+        })
       }
-    })
-    
-    if (rfis.length > 0) {
-      await StorageService.mergeRFIs(activeProjectId, rfis)
-      console.log('PP Background: Saved', rfis.length, 'RFIs')
-      return { saved: true, type: 'rfis', count: rfis.length }
     }
   }
-  
-  // Process Commitments
-  if (isCommitmentSrc && isCommitment(firstItem)) {
-    const commitments = dataItems.filter(isCommitment).map(normalizeCommitment)
-    if (commitments.length > 0) {
-      await StorageService.mergeCommitments(activeProjectId, commitments)
-      console.log('PP Background: Saved', commitments.length, 'commitments')
-      return { saved: true, type: 'commitments', count: commitments.length }
+
+  const savesByCapture = new Map<ClassifiedCapture, NonNullable<WiretapResult['saves']>>()
+  const savedByType = new Map<WiretapEntityType, number>()
+  for (const batch of batches.values()) {
+    const context: WiretapContext = {
+      projectId: batch.projectId,
+      drawingAreaId: batch.drawingAreaId,
+      payload: batch.payloads.length === 1 ? batch.payloads[0] : batch.payloads,
+      // Any whole list in the batch means the detector saw everything
+      complete: batch.captures.some(capture => capture.completeness === 'complete'),
+    }
+    const count = await batch.detector.ingest(batch.items, context)
+    if (count === 0) continue
+
+    const type = batch.detector.type
+    savedByType.set(type, (savedByType.get(type) ?? 0) + count)
+    for (const capture of batch.captures) {
+      // A merged batch only reports its total; credit each capture with what it contributed
+      const own = batch.captures.length === 1
+        ? count
+        : capture.groups.find(group => group.detector === batch.detector)?.items.length ?? 0
+      savesByCapture.set(capture, [...(savesByCapture.get(capture) ?? []), { type, count: own }])
     }
   }
 
-  // Process Divisions FIRST (before specifications, since division URLs contain 'specification')
-  const isDivisionSrc = sourceLower.includes('specification_section_divisions')
-  if (isDivisionSrc && firstItem && firstItem.description && !firstItem.specification_section_division_id) {
-    // Division objects have description but NOT specification_section_division_id
-    const divisionMap: DivisionMap = {}
-    dataItems.forEach((item, index) => {
-      if (item.id && (item.description || item.number)) {
-        const id = String(item.id)
-        const number = (item.number || '') as string
-        const name = (item.description || '') as string
-        divisionMap[id] = {
-          number,
-          name,
-          displayName: number && name ? `${number} - ${name}` : name || number || 'Unknown',
-          index
-        }
-      }
-    })
-    
-    if (Object.keys(divisionMap).length > 0) {
-      const existing = await StorageService.getDivisionMap(activeProjectId)
-      const merged = { ...existing, ...divisionMap }
-      await StorageService.saveDivisionMap(activeProjectId, merged)
-      console.log('PP Background: Saved', Object.keys(divisionMap).length, 'divisions from wiretap')
-      return { saved: true, type: 'divisions', count: Object.keys(divisionMap).length }
-    }
+  // One DATA_SAVED per entity type, since tabs filter on payload.type
+  for (const [type, count] of savedByType) {
+    chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { saved: true, type, count } }).catch(() => {})
   }
 
-  // Process Specifications (after divisions check)
-  const isSpecificationSrc = (sourceLower.includes('/specification') || 
-                              sourceLower.includes('specification_sections')) &&
-                             !sourceLower.includes('specification_section_divisions')
-  
-  if (isSpecificationSrc && isSpecification(firstItem)) {
-    const specifications: Specification[] = dataItems.filter(isSpecification).map(item => {
-      // ID comes as string from v2.1 API
-      const numericId = typeof item.id === 'string' ? parseInt(item.id, 10) : item.id!
-      return {
-        id: numericId as number,
-        number: (item.number || '') as string,
-        title: (item.description || '') as string,  // 'description' is the title in Procore API
-        divisionId: item.specification_section_division_id as string | undefined,
-        created_at: item.created_at as string | undefined,
-        updated_at: item.updated_at as string | undefined,
-        revision: item.revision as string | undefined,
-        issued_date: item.issued_date as string | undefined,
-        received_date: item.received_date as string | undefined,
-        url: item.url as string | undefined,
-      }
-    })
-    
-    if (specifications.length > 0) {
-      await StorageService.mergeSpecifications(activeProjectId, specifications)
-      console.log('PP Background: Saved', specifications.length, 'specifications')
-      return { saved: true, type: 'specifications', count: specifications.length }
-    }
+  const projectIds = new Set(captures.map(capture => capture.message.ids.projectId).filter((id): id is string => !!id))
+  for (const projectId of projectIds) {
+    resolveProjectNames(projectId)
   }
 
-  // Process Drawings (default)
-  console.log('PP Background: Checking if drawings...', {
-    isDrawingSrc,
-    isCommitmentSrc,
-    isDrawingCheck: isDrawing(firstItem),
-    condition: (isDrawingSrc || !isCommitmentSrc) && isDrawing(firstItem)
-  })
-  
-  if ((isDrawingSrc || !isCommitmentSrc) && isDrawing(firstItem)) {
-    const drawings = dataItems.filter(isDrawing).map(normalizeDrawing)
-    console.log('PP Background: Filtered to', drawings.length, 'valid drawings')
-    
-    // Log sample drawing with discipline info
-    if (drawings.length > 0) {
-      console.log('PP Background: Sample normalized drawing:', JSON.stringify(drawings[0], null, 2))
-    }
-    
-    if (drawings.length > 0) {
-      await StorageService.mergeDrawings(activeProjectId, drawings)
-      console.log('PP Background: Saved', drawings.length, 'drawings to project', activeProjectId)
-      
-      // Build discipline map from the payload (finds {id, name} objects)
-      const disciplineMap: DisciplineMap = {}
-      findDisciplinesRecursive(payload, disciplineMap, 0, 0)
-      
-      // Also extract disciplines directly from drawings that have discipline objects
-      for (const drawing of drawings) {
-        // Handle discipline as object {id, name}
-        if (drawing.discipline && typeof drawing.discipline === 'object') {
-          const disc = drawing.discipline as { id?: number; name?: string }
-          if (disc.id && disc.name && !disciplineMap[disc.id]) {
-            disciplineMap[disc.id] = { 
-              name: disc.name, 
-              index: Object.keys(disciplineMap).length 
-            }
-          }
-        }
-        // Handle discipline as number with discipline_name
-        else if (typeof drawing.discipline === 'number' && drawing.discipline_name) {
-          if (!disciplineMap[drawing.discipline]) {
-            disciplineMap[drawing.discipline] = { 
-              name: drawing.discipline_name, 
-              index: Object.keys(disciplineMap).length 
-            }
-          }
-        }
-      }
-      
-      console.log('PP Background: Found', Object.keys(disciplineMap).length, 'disciplines:', Object.entries(disciplineMap).map(([id, d]) => `${id}:${d.name}`).join(', '))
-      
-      if (Object.keys(disciplineMap).length > 0) {
-        const existing = await StorageService.getDisciplineMap(activeProjectId)
-        const merged = { ...existing, ...disciplineMap }
-        await StorageService.saveDisciplineMap(activeProjectId, merged)
-        console.log('PP Background: Saved discipline map with', Object.keys(merged).length, 'entries')
-      }
-      
-      return { saved: true, type: 'drawings', count: drawings.length }
+  const processMs = Date.now() - startedAt
+  recordCaptures(captures.map(capture => ({
+    message: capture.message,
+    result: toWiretapResult(capture, savesByCapture.get(capture) ?? []),
+    itemCount: capture.itemCount,
+    completeness: capture.completeness,
+    cost: { queuedMs: capture.queuedMs, processMs, chunkSize: chunk.length },
+  })))
+}
+
+function notifyProjectUpdated(projectId: string): void {
+  chrome.runtime.sendMessage({ type: 'PROJECT_UPDATED', payload: { projectId } }).catch(() => {})
+}
+
+// Projects whose names were looked up since the worker started, so a page
+// that never loads its project record costs one request, not one per capture
+const nameLookups = new Set<string>()
+
+/**
+ * Fetch the project and company names when no capture has supplied them.
+ * Fire-and-forget: a failed lookup just leaves the project showing its id.
+ */
+async function resolveProjectNames(projectId: string): Promise<void> {
+  if (nameLookups.has(projectId)) return
+  nameLookups.add(projectId)
+
+  try {
+    const project = await StorageService.getProject(projectId)
+    if (project?.name && project.companyName) return
+
+    const names = await ApiService.fetchProjectNames(projectId, project?.companyId)
+    if (Object.keys(names).length === 0) {
+      console.log('PP Background: Could not look up names for project', projectId)
+      return
     }
+    await StorageService.updateProjectAccess(projectId, names)
+    console.log('PP Background: Resolved project', projectId, 'as', names.name)
+    notifyProjectUpdated(projectId)
+  } catch (err) {
+    console.error('PP Background: Failed to resolve project names:', err)
+  }
+}
+
+/**
+ * Run a logged capture through classification again, without saving, so the
+ * inspector can show which detectors claim its items. `source` overrides the
+ * captured URL to check how a different URL would be classified.
+ */
+async function handleReclassifyCapture(
+  captureId: string,
+  source: string
+): Promise<{ success: boolean; result?: CaptureReclassification; error?: string }> {
+  const payload = await getCapturePayload(captureId)
+  if (payload === undefined) {
+    return { success: false, error: 'Payload was too large to keep, or has been evicted' }
   }
 
-  return { saved: false }
+  const entry = (await getCaptureLog()).find(e => e.id === captureId)
+  const items = findDataInObject(payload, entry?.grid)
+  const { groups, unclassified } = classifyItems(source, items)
+  return {
+    success: true,
+    result: {
+      itemCount: items.length,
+      groups: groups.map(({ detector, items }) => ({ type: detector.type, count: items.length })),
+      unclassified,
+    },
+  }
 }
 
 // ============================================
 // API SCAN HANDLERS (background has host_permissions)
 // ============================================
 
+// Scan failures are shown on the freshness badges. This runs inside catch
+// blocks, so a storage failure is logged instead of hiding the scan's error.
+async function recordScanError(projectId: string, entityType: SyncEntityType, error: unknown): Promise<void> {
+  try {
+    await StorageService.recordSync(projectId, entityType, { source: 'scan', error: String(error) })
+  } catch (err) {
+    console.error('PP Background: Failed to record scan error for', entityType, err)
+  }
+}
+
+// Headless scans report progress the same way page scans do
+type ProgressReporter = (status: string, percent: number, message?: string) => void
+
+function createProgressReporter(scanType: string): ProgressReporter {
+  return (status, percent, message) => {
+    chrome.runtime.sendMessage({
+      type: 'SCAN_PROGRESS',
+      payload: { status, scanType, percent, message },
+    }).catch(() => {})
+  }
+}
+
+interface EntityScan<T extends { id: number }> {
+  entityType: SyncEntityType
+  name: string                // Singular, capitalized - "Submittal scan failed"
+  label: string               // Plural, for progress and logs - "Fetched 40 of 90 submittals..."
+  fetch: (options: FetchOptions) => Promise<T[]>
+  merge: (items: T[]) => Promise<unknown>
+  reconcile: (scannedIds: number[]) => Promise<number>
+}
+
+/**
+ * Fetch one entity list, with progress reported between `from` and `to`
+ * percent, then merge it, reconcile it and record the sync. Only a complete
+ * list - even an empty one - can tell us what was deleted.
+ */
+async function scanEntity<T extends { id: number }>(
+  projectId: string,
+  scan: EntityScan<T>,
+  sendProgress: ProgressReporter,
+  from = 0,
+  to = 100
+): Promise<T[]> {
+  let complete = false
+  const items = await scan.fetch({
+    onProgress: (loaded, total) => {
+      const percent = total
+        ? Math.min(to - 1, from + Math.floor((loaded / total) * (to - from)))
+        : Math.floor((from + to) / 2)
+      sendProgress('scanning', percent, `Fetched ${loaded}${total ? ` of ${total}` : ''} ${scan.label}...`)
+    },
+    onComplete: (done) => { complete = done },
+  })
+  if (items.length > 0) {
+    await scan.merge(items)
+  }
+  if (complete) {
+    const removed = await scan.reconcile(items.map(item => item.id))
+    console.log('PP Background: Marked', removed, scan.label, 'as removed')
+  }
+
+  await StorageService.recordSync(projectId, scan.entityType, { source: 'scan', complete })
+  return items
+}
+
+async function handleEntityScan<T extends { id: number }>(
+  projectId: string,
+  scan: EntityScan<T>
+): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
+  console.log('PP Background: Scanning', scan.label, 'for project', projectId)
+
+  const sendProgress = createProgressReporter(scan.entityType)
+  try {
+    sendProgress('started', 0)
+    const items = await scanEntity(projectId, scan, sendProgress)
+    sendProgress('complete', 100)
+    console.log('PP Background: Scan complete, found', items.length, scan.label)
+    return { success: true, count: items.length }
+  } catch (error) {
+    console.error(`PP Background: ${scan.name} scan failed`, error)
+    await recordScanError(projectId, scan.entityType, error)
+    sendProgress('complete', 100, `${scan.name} scan failed`)
+    return { success: false, error: String(error) }
+  }
+}
+
 async function handleScanDrawings(projectId: string, drawingAreaId?: string, disciplinesOnly = false): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
   console.log('PP Background: Scanning', disciplinesOnly ? 'disciplines only' : 'drawings', 'for project', projectId)
   
   try {
-    // Get drawing area ID if not provided
-    let areaId = drawingAreaId
-    if (!areaId) {
-      const project = await StorageService.getProject(projectId)
-      areaId = project?.drawingAreaId
-    }
-    
-    if (!areaId) {
-      // Try to fetch drawing areas
+    // Scan the requested area, otherwise every drawing area in the project
+    let areaIds: string[] = drawingAreaId ? [drawingAreaId] : []
+    if (areaIds.length === 0) {
       const areas = await ApiService.fetchDrawingAreas(projectId)
       if (areas.length > 0) {
-        areaId = String(areas[0].id)
-        await StorageService.updateProjectAccess(projectId, { drawingAreaId: areaId })
+        await StorageService.addDrawingAreas(projectId, areas.map(a => ({ id: String(a.id), name: a.name })))
+        areaIds = areas.map(a => String(a.id))
       }
     }
     
-    if (!areaId) {
+    const project = await StorageService.getProject(projectId)
+    if (areaIds.length === 0 && project?.drawingAreaId) {
+      areaIds = [project.drawingAreaId]
+    }
+    
+    if (areaIds.length === 0) {
       return { success: false, error: 'No drawing area found' }
     }
-
-    // Fetch disciplines (always)
-    const disciplines = await ApiService.fetchDisciplines(projectId, areaId)
-    if (Object.keys(disciplines).length > 0) {
-      // Merge with existing to preserve any manually captured data
-      const existing = await StorageService.getDisciplineMap(projectId)
-      const merged = { ...existing, ...disciplines }
-      await StorageService.saveDisciplineMap(projectId, merged)
-      console.log('PP Background: Saved', Object.keys(disciplines).length, 'disciplines (merged total:', Object.keys(merged).length, ')')
+    
+    if (!project?.drawingAreaId) {
+      await StorageService.updateProjectAccess(projectId, { drawingAreaId: areaIds[0] })
     }
 
-    // Fetch drawings only if not disciplines-only mode
+    let disciplineCount = 0
     let drawingCount = 0
+    let allComplete = true
+    
+    for (const areaId of areaIds) {
+      // Fetch disciplines (always)
+      const disciplines = await ApiService.fetchDisciplines(projectId, areaId)
+      if (Object.keys(disciplines).length > 0) {
+        // Merge with existing to preserve any manually captured data
+        const existing = await StorageService.getDisciplineMap(projectId, areaId)
+        const merged = { ...existing, ...disciplines }
+        await StorageService.saveDisciplineMap(projectId, merged, areaId)
+        disciplineCount += Object.keys(disciplines).length
+        console.log('PP Background: Saved', Object.keys(disciplines).length, 'disciplines for area', areaId, '(merged total:', Object.keys(merged).length, ')')
+      }
+
+      // Fetch drawings only if not disciplines-only mode
+      if (!disciplinesOnly) {
+        let complete = false
+        const drawings = await ApiService.fetchDrawings(projectId, areaId, {
+          onComplete: (done) => { complete = done },
+        })
+        allComplete = allComplete && complete
+        if (drawings.length > 0) {
+          await StorageService.mergeDrawings(projectId, drawings, 'scan')
+          drawingCount += drawings.length
+        }
+        // Only a complete result set can tell us what was deleted, even an empty one
+        if (complete) {
+          const removed = await StorageService.reconcileDrawings(projectId, drawings.map(d => d.id), areaId)
+          console.log('PP Background: Marked', removed, 'drawings as removed in area', areaId)
+        }
+        console.log('PP Background: Area', areaId, 'scan complete, found', drawings.length, 'drawings')
+      }
+    }
+
     if (!disciplinesOnly) {
-      const drawings = await ApiService.fetchDrawings(projectId, areaId)
-      if (drawings.length > 0) {
-        await StorageService.mergeDrawings(projectId, drawings)
-        drawingCount = drawings.length
+      await StorageService.recordSync(projectId, 'drawings', { source: 'scan', complete: allComplete })
+      // Re-link favorites/recents/colors to renumbered sheets
+      const repair = await StorageService.repairDrawingRefs(projectId)
+      if (repair.relinked > 0 || repair.unresolved.length > 0) {
+        console.log('PP Background: Re-linked', repair.relinked, 'drawing references,', repair.unresolved.length, 'unresolved')
       }
-      console.log('PP Background: Scan complete, found', drawingCount, 'drawings')
     }
 
-    return { success: true, count: disciplinesOnly ? Object.keys(disciplines).length : drawingCount }
+    return { success: true, count: disciplinesOnly ? disciplineCount : drawingCount }
   } catch (error) {
     console.error('PP Background: Scan failed', error)
+    if (!disciplinesOnly) {
+      await recordScanError(projectId, 'drawings', error)
+    }
+    return { success: false, error: String(error) }
+  }
+}
+
+async function handleScanDrawingRevisions(projectId: string, drawingId: number): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
+  console.log('PP Background: Scanning revisions for drawing', drawingId, 'in project', projectId)
+  
+  try {
+    const [project, drawings] = await Promise.all([
+      StorageService.getProject(projectId),
+      StorageService.getDrawings(projectId),
+    ])
+    const areaId = drawings.find(d => d.id === drawingId)?.drawing_area_id ?? project?.drawingAreaId
+    if (!areaId) {
+      return { success: false, error: 'Drawing area ID not found for project' }
+    }
+    
+    const revisions = await ApiService.fetchDrawingRevisions(projectId, areaId, drawingId)
+    if (revisions.length > 0) {
+      await StorageService.mergeDrawingRevisions(projectId, revisions, 'scan')
+    }
+    
+    return { success: true, count: revisions.length }
+  } catch (error) {
+    console.error('PP Background: Drawing revision scan failed', error)
     return { success: false, error: String(error) }
   }
 }
 
 async function handleScanRFIs(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
   console.log('PP Background: Scanning RFIs for project', projectId)
   
   try {
-    const rfis = await ApiService.fetchRFIs(projectId)
+    let complete = false
+    const rfis = await ApiService.fetchRFIs(projectId, {
+      onComplete: (done) => { complete = done },
+    })
     if (rfis.length > 0) {
-      await StorageService.mergeRFIs(projectId, rfis)
+      await StorageService.mergeRFIs(projectId, rfis, 'scan')
+    }
+    if (complete) {
+      const removed = await StorageService.reconcileRFIs(projectId, rfis.map(r => r.id))
+      console.log('PP Background: Marked', removed, 'RFIs as removed')
     }
     
+    await StorageService.recordSync(projectId, 'rfis', { source: 'scan', complete })
     console.log('PP Background: Scan complete, found', rfis.length, 'RFIs')
     return { success: true, count: rfis.length }
   } catch (error) {
     console.error('PP Background: RFI scan failed', error)
+    await recordScanError(projectId, 'rfis', error)
     return { success: false, error: String(error) }
   }
 }
 
+async function handleScanSubmittals(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  return handleEntityScan(projectId, {
+    entityType: 'submittals',
+    name: 'Submittal',
+    label: 'submittals',
+    fetch: (options) => ApiService.fetchSubmittals(projectId, options),
+    merge: (items) => StorageService.mergeSubmittals(projectId, items, 'scan'),
+    reconcile: (ids) => StorageService.reconcileSubmittals(projectId, ids),
+  })
+}
+
+async function handleScanPunchItems(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  return handleEntityScan(projectId, {
+    entityType: 'punch_items',
+    name: 'Punch item',
+    label: 'punch items',
+    fetch: (options) => ApiService.fetchPunchItems(projectId, options),
+    merge: (items) => StorageService.mergePunchItems(projectId, items, 'scan'),
+    reconcile: (ids) => StorageService.reconcilePunchItems(projectId, ids),
+  })
+}
+
 async function handleScanCommitments(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
   console.log('PP Background: Scanning commitments for project', projectId)
   
   try {
     const commitments = await ApiService.fetchCommitments(projectId)
     if (commitments.length > 0) {
-      await StorageService.mergeCommitments(projectId, commitments)
+      await StorageService.mergeCommitments(projectId, commitments, 'scan')
     }
     
+    await StorageService.recordSync(projectId, 'commitments', { source: 'scan' })
     console.log('PP Background: Scan complete, found', commitments.length, 'commitments')
     return { success: true, count: commitments.length }
   } catch (error) {
     console.error('PP Background: Commitment scan failed', error)
+    await recordScanError(projectId, 'commitments', error)
     return { success: false, error: String(error) }
   }
 }
 
+async function handleScanChangeEvents(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  return handleEntityScan(projectId, {
+    entityType: 'change_events',
+    name: 'Change event',
+    label: 'change events',
+    fetch: (options) => ApiService.fetchChangeEvents(projectId, options),
+    merge: (items) => StorageService.mergeChangeEvents(projectId, items, 'scan'),
+    reconcile: (ids) => StorageService.reconcileChangeEvents(projectId, ids),
+  })
+}
+
+async function handleScanChangeOrders(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  return handleEntityScan(projectId, {
+    entityType: 'change_orders',
+    name: 'Change order',
+    label: 'change orders',
+    fetch: (options) => ApiService.fetchChangeOrders(projectId, options),
+    merge: (items) => StorageService.mergeChangeOrders(projectId, items, 'scan'),
+    reconcile: (ids) => StorageService.reconcileChangeOrders(projectId, ids),
+  })
+}
+
+async function handleScanBudget(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  return handleEntityScan(projectId, {
+    entityType: 'budget_line_items',
+    name: 'Budget',
+    label: 'budget lines',
+    fetch: (options) => ApiService.fetchBudgetLineItems(projectId, options),
+    merge: (items) => StorageService.mergeBudgetLineItems(projectId, items, 'scan'),
+    reconcile: (ids) => StorageService.reconcileBudgetLineItems(projectId, ids),
+  })
+}
+
 async function handleScanSpecifications(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
   console.log('PP Background: Scanning specifications for project', projectId)
   
   try {
     // Get company ID from project data (required for specifications API)
     const project = await StorageService.getProject(projectId)
     if (!project?.companyId) {
-      return { success: false, error: 'Company ID not found. Visit the Specifications page in Procore first.' }
+      const error = 'Company ID not found. Visit the Specifications page in Procore first.'
+      await StorageService.recordSync(projectId, 'specifications', { source: 'scan', error })
+      return { success: false, error }
     }
     
     // Fetch divisions first
@@ -525,19 +640,118 @@ async function handleScanSpecifications(projectId: string): Promise<{ success: b
     }
     
     // Fetch specifications
-    const specifications = await ApiService.fetchSpecifications(projectId, project.companyId)
+    let complete = false
+    const specifications = await ApiService.fetchSpecifications(projectId, project.companyId, {
+      onComplete: (done) => { complete = done },
+    })
     if (specifications.length > 0) {
-      await StorageService.mergeSpecifications(projectId, specifications)
+      await StorageService.mergeSpecifications(projectId, specifications, 'scan')
+    }
+    if (complete) {
+      const removed = await StorageService.reconcileSpecifications(projectId, specifications.map(s => s.id))
+      console.log('PP Background: Marked', removed, 'specifications as removed')
     }
     
+    await StorageService.recordSync(projectId, 'specifications', { source: 'scan', complete })
     console.log('PP Background: Scan complete, found', specifications.length, 'specifications')
     return { success: true, count: specifications.length }
   } catch (error) {
     console.error('PP Background: Specification scan failed', error)
+    await recordScanError(projectId, 'specifications', error)
     return { success: false, error: String(error) }
   }
 }
 
+// People first, then vendor companies; progress is split evenly between the two
+async function handleScanDirectory(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
+  console.log('PP Background: Scanning directory for project', projectId)
+
+  const sendProgress = createProgressReporter('directory')
+  // The entity being fetched when a scan fails carries its error
+  let scanning: SyncEntityType = 'people'
+  try {
+    sendProgress('started', 0)
+    const people = await scanEntity(projectId, {
+      entityType: 'people',
+      name: 'People',
+      label: 'people',
+      fetch: (options) => ApiService.fetchPeople(projectId, options),
+      merge: (items) => StorageService.mergePeople(projectId, items, 'scan'),
+      reconcile: (ids) => StorageService.reconcilePeople(projectId, ids),
+    }, sendProgress, 0, 50)
+
+    scanning = 'companies'
+    const companies = await scanEntity(projectId, {
+      entityType: 'companies',
+      name: 'Company',
+      label: 'companies',
+      fetch: (options) => ApiService.fetchCompanies(projectId, options),
+      merge: (items) => StorageService.mergeCompanies(projectId, items, 'scan'),
+      reconcile: (ids) => StorageService.reconcileCompanies(projectId, ids),
+    }, sendProgress, 50, 100)
+
+    sendProgress('complete', 100)
+    console.log('PP Background: Scan complete, found', people.length, 'people and', companies.length, 'companies')
+    return { success: true, count: people.length + companies.length }
+  } catch (error) {
+    console.error('PP Background: Directory scan failed', error)
+    await recordScanError(projectId, scanning, error)
+    sendProgress('complete', 100, 'Directory scan failed')
+    return { success: false, error: String(error) }
+  }
+}
+
+// Folders and files are reconciled only when the whole tree was walked
+async function handleScanDocuments(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  await migrationsReady
+  console.log('PP Background: Scanning documents for project', projectId)
+
+  const sendProgress = createProgressReporter('documents')
+
+  try {
+    let complete = false
+    sendProgress('started', 0)
+    const { folders, files } = await ApiService.fetchDocuments(projectId, {
+      onProgress: (loaded, total) => {
+        const percent = total ? Math.min(99, Math.floor((loaded / total) * 100)) : 50
+        sendProgress('scanning', percent, `Read ${loaded}${total ? ` of ${total}` : ''} folders...`)
+      },
+      onComplete: (done) => { complete = done },
+    })
+    if (folders.length > 0) {
+      await StorageService.mergeDocumentFolders(projectId, folders, 'scan')
+      await StorageService.mergeDocumentFiles(projectId, files, 'scan')
+    }
+    if (complete) {
+      await StorageService.reconcileDocumentFolders(projectId, folders.map(f => f.id))
+      const removed = await StorageService.reconcileDocumentFiles(projectId, files.map(f => f.id))
+      console.log('PP Background: Marked', removed, 'documents as removed')
+    }
+
+    await StorageService.recordSync(projectId, 'documents', { source: 'scan', complete })
+    sendProgress('complete', 100)
+    console.log('PP Background: Scan complete, found', folders.length, 'folders and', files.length, 'documents')
+    return { success: true, count: files.length }
+  } catch (error) {
+    console.error('PP Background: Documents scan failed', error)
+    await recordScanError(projectId, 'documents', error)
+    sendProgress('complete', 100, 'Documents scan failed')
+    return { success: false, error: String(error) }
+  }
+}
+
+async function handleScanScheduleTasks(projectId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+  return handleEntityScan(projectId, {
+    entityType: 'schedule_tasks',
+    name: 'Schedule',
+    label: 'schedule tasks',
+    fetch: (options) => ApiService.fetchScheduleTasks(projectId, options),
+    merge: (items) => StorageService.mergeScheduleTasks(projectId, items, 'scan'),
+    reconcile: (ids) => StorageService.reconcileScheduleTasks(projectId, ids),
+  })
+}
+
 // ============================================
 // SIDE PANEL LIFECYCLE & STATE TRACKING (Port-based)
 // ============================================
@@ -681,19 +895,32 @@ chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: false })
 // ============================================
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  // Handle WIRETAP_DATA
-  if (message.type === 'WIRETAP_DATA') {
-    handleWiretapData(message.payload as WiretapMessage)
-      .then((result) => {
-        if (result.saved) {
-          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: result }).catch(() => {})
-        }
-        sendResponse(result)
-      })
-      .catch((err) => {
-        console.error('PP Background: Error handling wiretap:', err)
-        sendResponse({ saved: false, error: err.message })
-      })
+  // Handle WIRETAP_BATCH - captures batched by the content script bridge
+  if (message.type === 'WIRETAP_BATCH') {
+    const backlog = enqueueWiretapData(message.payload as WiretapMessage[])
+    sendResponse({ queued: true, backlog })
+    return true
+  }
+
+  // Capture Inspector (Settings)
+  if (message.action === 'GET_CAPTURE_LOG') {
+    getCaptureLog()
+      .then((entries) => sendResponse({ success: true, entries }))
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'CLEAR_CAPTURE_LOG') {
+    clearCaptureLog()
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'RECLASSIFY_CAPTURE') {
+    handleReclassifyCapture(message.captureId, message.source)
+      .then(sendResponse)
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
     return true
   }
 
@@ -711,6 +938,18 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  if (message.action === 'SCAN_DRAWING_REVISIONS') {
+    handleScanDrawingRevisions(message.projectId, message.drawingId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'drawing_revisions', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
   if (message.action === 'SCAN_RFIS') {
     handleScanRFIs(message.projectId)
       .then((result) => {
@@ -723,6 +962,30 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  if (message.action === 'SCAN_SUBMITTALS') {
+    handleScanSubmittals(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'submittals', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'SCAN_PUNCH_ITEMS') {
+    handleScanPunchItems(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'punch_items', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
   if (message.action === 'SCAN_COMMITMENTS') {
     handleScanCommitments(message.projectId)
       .then((result) => {
@@ -735,6 +998,42 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  if (message.action === 'SCAN_CHANGE_EVENTS') {
+    handleScanChangeEvents(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'change_events', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'SCAN_CHANGE_ORDERS') {
+    handleScanChangeOrders(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'change_orders', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'SCAN_BUDGET') {
+    handleScanBudget(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'budget_line_items', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
   if (message.action === 'SCAN_SPECIFICATIONS') {
     handleScanSpecifications(message.projectId)
       .then((result) => {
@@ -747,6 +1046,42 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  if (message.action === 'SCAN_DIRECTORY') {
+    handleScanDirectory(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'directory', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'SCAN_DOCUMENTS') {
+    handleScanDocuments(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'documents', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
+  if (message.action === 'SCAN_SCHEDULE_TASKS') {
+    handleScanScheduleTasks(message.projectId)
+      .then((result) => {
+        if (result.success) {
+          chrome.runtime.sendMessage({ type: 'DATA_SAVED', payload: { type: 'schedule_tasks', count: result.count } }).catch(() => {})
+        }
+        sendResponse(result)
+      })
+      .catch((err) => sendResponse({ success: false, error: String(err) }))
+    return true
+  }
+
   // Handle TOGGLE_SIDEPANEL from content script
   if (message.action === 'TOGGLE_SIDEPANEL') {
     const tabId = sender.tab?.id
@@ -787,12 +1122,18 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     
     (async () => {
       try {
-        const [drawings, disciplineMap, favorites, recents, rfis] = await Promise.all([
-          StorageService.getDrawings(projectId),
+        const [drawings, disciplineMap, favorites, recents, rfis, punchItems, people, notes, tags, statusColors, statusColorScheme] = await Promise.all([
+          StorageService.getDrawings(projectId).then(d => StorageService.filterRemoved(d)),
           StorageService.getDisciplineMap(projectId),
           StorageService.getAllFavoriteDrawings(projectId),
           StorageService.getRecents(projectId),
-          StorageService.getRFIs(projectId),
+          StorageService.getRFIs(projectId).then(r => StorageService.filterRemoved(r)),
+          StorageService.getPunchItems(projectId).then(p => StorageService.filterRemoved(p)),
+          StorageService.getPeople(projectId).then(p => StorageService.filterRemoved(p)),
+          StorageService.getNotes(projectId),
+          StorageService.getProjectTags(projectId),
+          StorageService.getStatusColors(projectId),
+          StorageService.getStatusColorScheme(projectId),
         ])
         
         sendResponse({
@@ -802,6 +1143,12 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           favorites: Array.from(favorites), // Convert Set to Array for JSON serialization
           recents,
           rfis,
+          punchItems,
+          people,
+          notes,
+          tags,
+          statusColors,
+          statusColorScheme,
         })
       } catch (error) {
         console.error('PP Background: Error getting project data:', error)
@@ -910,21 +1257,24 @@ async function handleMessage(
       }
       
       try {
-        const [project, openInBackground] = await Promise.all([
+        const [project, drawings, openInBackground] = await Promise.all([
           StorageService.getProject(projectId),
+          StorageService.getDrawings(projectId),
           StorageService.getPreferences<boolean>(PREFERENCE_KEYS.openInBackground, false)
         ])
         
-        if (!project?.drawingAreaId) {
+        // Each drawing lives in its own area; the project's area is only a fallback
+        const areaId = drawings.find(d => d.id === drawingId)?.drawing_area_id ?? project?.drawingAreaId
+        if (!areaId) {
           return { success: false, error: 'Drawing area ID not found for project' }
         }
         
         // Add to recents list
         if (drawingNum) {
-          await StorageService.addRecent(projectId, drawingNum)
+          await StorageService.addRecent(projectId, { id: drawingId, num: drawingNum })
         }
         
-        const url = `https://app.procore.com/${projectId}/project/drawing_areas/${project.drawingAreaId}/drawing_log/view_fullscreen/${drawingId}`
+        const url = `https://app.procore.com/${projectId}/project/drawing_areas/${areaId}/drawing_log/view_fullscreen/${drawingId}`
         const tab = await chrome.tabs.create({ 
           url, 
           active: !openInBackground 
@@ -0,0 +1,922 @@
+/**
+ * Wiretap entity detectors
+ *
+ * Each entity type declares which capture URLs it listens to, what a single
+ * item looks like, how to normalize the items it claims and where they are
+ * stored. Payloads are classified item by item, so a response mixing several
+ * entity types is split between their detectors, and items nobody claims are
+ * reported instead of being guessed at.
+ *
+ * Registry order is priority: the first detector whose URL and shape both
+ * match an item wins (e.g. disciplines before drawings on discipline URLs).
+ * To support a new Procore tool, add a detector here.
+ */
+
+import { StorageService } from '../services/storage'
+import { ApiService } from '../services/api'
+import { readProjectNames } from '../services/projects'
+import type {
+  Drawing,
+  DrawingRevision,
+  Commitment,
+  ChangeEvent,
+  CommitmentChangeOrder,
+  BudgetLineItem,
+  RFI,
+  Submittal,
+  PunchItem,
+  Specification,
+  DirectoryPerson,
+  DirectoryCompany,
+  DocumentFolder,
+  DocumentFile,
+  ScheduleTask,
+  DisciplineMap,
+  DivisionMap,
+  WiretapEntityType,
+  WiretapUnclassified,
+  WiretapGridRequest,
+  WiretapMessage,
+  WiretapCompleteness,
+  ProjectNames,
+} from '../types'
+
+// ============================================
+// RAW ITEMS AND SHAPE PREDICATES (ported from v1)
+// ============================================
+
+export interface RawDataItem {
+  id?: number | string
+  name?: string  // Used by discipline items
+  number?: string
+  drawing_number?: string
+  title?: string
+  description?: string  // Used by specifications
+  vendor?: string
+  vendor_name?: string
+  contract_date?: string
+  type?: string
+  discipline?: number | { id?: number; name?: string }
+  discipline_name?: string
+  subject?: string
+  status?: string
+  total_revisions?: number  // Used by discipline items
+  specification_section_division_id?: string  // Used by specifications
+  specification_area_id?: string  // Used by specifications
+  revision_number?: string | number  // Used by drawing revisions
+  drawing_id?: number | string  // Used by drawing revisions
+  drawing_area_id?: number | string  // Present on some drawing log payloads
+  current_revision?: Record<string, unknown>  // Nested in drawing log items
+  [key: string]: unknown
+}
+
+function isCommitment(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  if (item.drawing_number) return false
+  const hasInfo = item.number || item.title || item.contract_date
+  const hasContext = item.vendor || item.vendor_name ||
+    (item.type && String(item.type).includes('Contract'))
+  return !!(hasInfo && hasContext)
+}
+
+// Change events carry scope/reason fields or line items; commitments have a vendor
+function isChangeEvent(item: RawDataItem): boolean {
+  if (!item || !item.id || item.number === undefined) return false
+  if (item.drawing_number || item.vendor || item.vendor_name || item.subject) return false
+  return !!(item.event_scope || item.change_reason || item.change_event_status ||
+    Array.isArray(item.change_event_line_items) ||
+    (item.scope && Array.isArray(item.line_items)))
+}
+
+// Commitment change orders point at their contract and carry a grand total
+function isChangeOrder(item: RawDataItem): boolean {
+  if (!item || !item.id || item.number === undefined) return false
+  if (item.drawing_number || item.vendor || item.vendor_name || item.subject) return false
+  return !!(item.contract_id || item.commitment_id || item.grand_total !== undefined)
+}
+
+// Budget rows name a cost code and carry budget columns; nothing else has both
+function isBudgetLineItem(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  if (item.drawing_number || item.vendor || item.vendor_name || item.subject) return false
+  if (!item.cost_code && !item.wbs_code) return false
+  return item.original_budget_amount !== undefined || item.original_budget !== undefined ||
+    item.revised_budget !== undefined || item.committed_costs !== undefined ||
+    item.projected_costs !== undefined || (item.amount !== undefined && item.line_item_type !== undefined)
+}
+
+function isDrawing(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  const hasNum = item.number || item.drawing_number
+  if (!hasNum) return false
+  if (item.vendor || item.vendor_name || item.contract_date) return false
+  return true
+}
+
+function isDrawingRevision(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  if (item.revision_number === undefined || item.revision_number === null) return false
+  // Must reference its parent drawing
+  return !!(item.drawing_id || (item.drawing && typeof item.drawing === 'object'))
+}
+
+function isRFI(item: RawDataItem): boolean {
+  return !(!item || !item.id || item.drawing_number || item.vendor || item.vendor_name) &&
+    !!(item.subject && item.status && item.number !== undefined)
+}
+
+function isSubmittal(item: RawDataItem): boolean {
+  if (!item || !item.id || !item.title) return false
+  if (item.drawing_number || item.vendor || item.vendor_name || item.subject) return false
+  // Submittal-specific fields - a bare {id, title} could be anything
+  return !!(item.specification_section || item.ball_in_court || item.submittal_type ||
+    item.submittal_package || item.required_on_site_date)
+}
+
+// Punch items are named (not titled) and carry a position number or punch-only fields
+function isPunchItem(item: RawDataItem): boolean {
+  if (!item || !item.id || !(item.name || item.title)) return false
+  if (item.drawing_number || item.vendor || item.vendor_name || item.subject) return false
+  return !!(item.punch_item_manager || item.punch_item_type || item.final_approver ||
+    (item.position !== undefined && (item.location || item.assignments)))
+}
+
+// Directory users split their name and carry contact fields; vendors have neither name part
+function isPerson(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  if (item.number || item.drawing_number || item.subject) return false
+  const hasName = item.first_name !== undefined || item.last_name !== undefined
+  return hasName && (item.email_address !== undefined || item.job_title !== undefined || item.login !== undefined)
+}
+
+function isCompany(item: RawDataItem): boolean {
+  if (!item || !item.id || !item.name) return false
+  if (item.first_name !== undefined || item.last_name !== undefined) return false
+  if (item.number || item.drawing_number || item.subject) return false
+  return !!(Array.isArray(item.trades) || item.trade_name !== undefined ||
+    item.abbreviated_name !== undefined || (item.business_phone !== undefined && item.email_address !== undefined))
+}
+
+// Documents tool folders report whether they have children; files carry their versions
+function isDocumentFolder(item: RawDataItem): boolean {
+  if (!item || !item.id || typeof item.name !== 'string') return false
+  if (Array.isArray(item.file_versions)) return false
+  return item.has_children !== undefined || Array.isArray(item.folders) || item.is_recycle_bin !== undefined
+}
+
+function isDocumentFile(item: RawDataItem): boolean {
+  if (!item || !item.id || typeof item.name !== 'string') return false
+  return Array.isArray(item.file_versions) ||
+    (item.name_with_path !== undefined && item.size !== undefined && item.has_children === undefined)
+}
+
+// Schedule tasks are the only items with both a start and a finish date
+function isScheduleTask(item: RawDataItem): boolean {
+  if (!item || !item.id || !(item.name || item.title)) return false
+  if (item.drawing_number || item.vendor || item.vendor_name || item.subject) return false
+  const hasStart = item.start_date !== undefined || item.start !== undefined
+  const hasFinish = item.finish_date !== undefined || item.finish !== undefined || item.end_date !== undefined
+  return hasStart && hasFinish
+}
+
+function isSpecification(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  // Must have specification-specific fields (description + number, or division ID)
+  if (item.specification_section_division_id || item.specification_area_id) return true
+  // Has description (title) and number but NOT drawing/commitment/RFI specific fields
+  if (item.description && item.number) {
+    if (item.drawing_number) return false
+    if (item.vendor || item.vendor_name || item.contract_date) return false
+    if (item.subject && item.status) return false  // RFI has subject + status
+    return true
+  }
+  return false
+}
+
+// Division objects have a description but NOT specification_section_division_id
+function isDivision(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  if (item.specification_section_division_id) return false
+  return !!item.description
+}
+
+// Check if an item looks like a discipline object (has id + name, but no drawing fields)
+function isDisciplineItem(item: RawDataItem): boolean {
+  if (!item || !item.id) return false
+  // Must have a name
+  if (!item.name || typeof item.name !== 'string') return false
+  // Must NOT have drawing-specific fields
+  if (item.number || item.drawing_number) return false
+  // Must NOT have commitment-specific fields
+  if (item.vendor || item.vendor_name || item.contract_date) return false
+  return true
+}
+
+// ============================================
+// AG GRID SERVER-SIDE ROW MODEL
+// ============================================
+
+// Procore's grids load rows in blocks through AG Grid's server-side row model.
+// Responses come as {rowData, rowCount} (AG Grid 28+) or {success, rows, lastRow},
+// sometimes wrapped in {data: ...}. Rows may nest their fields under `data`, and
+// grouped grids return group rows ({group: true, childCount}) until a group is
+// expanded; the leaf rows of an expanded group lack the grouped-by fields.
+
+const SERVER_SIDE_ROW_KEYS = ['rowData', 'rows'] as const
+const SERVER_SIDE_COUNT_KEYS = ['rowCount', 'lastRow', 'totalRowCount', 'total_row_count'] as const
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null
+}
+
+// The object holding the rows, when the payload is a server-side block response
+function findServerSideBlock(obj: unknown, grid?: WiretapGridRequest): Record<string, unknown> | null {
+  const record = asRecord(obj)
+  if (!record) return null
+  for (const block of [record, asRecord(record.data)]) {
+    if (!block) continue
+    const hasRows = SERVER_SIDE_ROW_KEYS.some(key => Array.isArray(block[key]))
+    // A bare {rows: [...]} is only trusted when the request was a grid request
+    const hasGridFields = SERVER_SIDE_COUNT_KEYS.some(key => typeof block[key] === 'number') ||
+      typeof block.success === 'boolean'
+    if (hasRows && (hasGridFields || grid)) return block
+  }
+  return null
+}
+
+function isGroupRow(row: RawDataItem): boolean {
+  return row.group === true || (row.id === undefined && typeof row.childCount === 'number')
+}
+
+// Total rows in the grid, when the server knows it (-1 means "more to come")
+export function getServerSideRowCount(obj: unknown, grid?: WiretapGridRequest): number | undefined {
+  const block = findServerSideBlock(obj, grid)
+  if (!block) return undefined
+  for (const key of SERVER_SIDE_COUNT_KEYS) {
+    const count = block[key]
+    if (typeof count === 'number' && count >= 0) return count
+  }
+  return undefined
+}
+
+/**
+ * Leaf rows of a server-side block as plain items, or null if the payload is
+ * not one. Group rows are dropped, nested `data` is flattened, and rows of an
+ * expanded group get the grouped-by values from the request (e.g. the
+ * discipline of drawings grouped by discipline).
+ */
+export function parseServerSideRows(obj: unknown, grid?: WiretapGridRequest): RawDataItem[] | null {
+  const block = findServerSideBlock(obj, grid)
+  if (!block) return null
+  const key = SERVER_SIDE_ROW_KEYS.find(k => Array.isArray(block[k]))!
+  const groupFields = grid?.rowGroupFields ?? []
+  const groupKeys = grid?.groupKeys ?? []
+
+  const rows: RawDataItem[] = []
+  for (const raw of block[key] as unknown[]) {
+    const record = asRecord(raw)
+    if (!record || isGroupRow(record as RawDataItem)) continue
+
+    const nested = asRecord(record.data)
+    const row: RawDataItem = nested ? { ...nested, id: (nested.id ?? record.id) as RawDataItem['id'] } : { ...record }
+    groupKeys.forEach((value, i) => {
+      const field = groupFields[i]
+      if (field && row[field] === undefined) row[field] = value
+    })
+    rows.push(row)
+  }
+  return rows
+}
+
+// ============================================
+// CAPTURE COMPLETENESS
+// ============================================
+
+// A single record (".../rfis/123") is never the whole list
+const DETAIL_URL = /\/\d+\/?(\?|$)/
+
+/**
+ * Whether a capture held the whole list. Filtered lists ("status=open") and
+ * single pages of a longer list must never be read as "everything else was
+ * deleted" or count as a fresh copy.
+ */
+export function getCaptureCompleteness(message: WiretapMessage, itemCount: number): WiretapCompleteness {
+  const { request, headers, grid, payload } = message
+  if (request && Object.keys(request.filters).length > 0) return 'filtered'
+  if (!request || DETAIL_URL.test(message.source)) return 'partial'
+
+  if (grid) {
+    if ((grid.startRow ?? 0) > 0 || (grid.groupKeys?.length ?? 0) > 0) return 'partial'
+    const rowCount = getServerSideRowCount(payload, grid)
+    return rowCount !== undefined && itemCount >= rowCount ? 'complete' : 'partial'
+  }
+
+  if ((request.page ?? 1) > 1) return 'partial'
+  const total = headers.total ? parseInt(headers.total, 10) : NaN
+  if (!isNaN(total)) return itemCount >= total ? 'complete' : 'partial'
+  // No total: only a page shorter than the page size is known to be the last.
+  // With no page size either, nothing says the list ended here.
+  const perPage = request.perPage ?? (headers.perPage ? parseInt(headers.perPage, 10) : NaN)
+  return !isNaN(perPage) && itemCount < perPage ? 'complete' : 'partial'
+}
+
+export function findDataInObject(obj: unknown, grid?: WiretapGridRequest): RawDataItem[] {
+  if (!obj) return []
+  if (Array.isArray(obj)) return obj as RawDataItem[]
+  const serverSideRows = parseServerSideRows(obj, grid)
+  if (serverSideRows) return serverSideRows
+  const record = obj as Record<string, unknown>
+  if (record.data && Array.isArray(record.data)) return record.data as RawDataItem[]
+  if (record.entities && Array.isArray(record.entities)) return record.entities as RawDataItem[]
+  // A documents folder nests its subfolders and files side by side
+  if (record.id !== undefined && Array.isArray(record.folders) && Array.isArray(record.files)) {
+    return [record as RawDataItem, ...record.folders as RawDataItem[], ...record.files as RawDataItem[]]
+  }
+  for (const key in record) {
+    if (Array.isArray(record[key]) && (record[key] as unknown[]).length > 0) {
+      return record[key] as RawDataItem[]
+    }
+  }
+  return []
+}
+
+// ============================================
+// PROJECT AND COMPANY NAMES
+// ============================================
+
+// A project record or list (".../projects/123", ".../projects?company_id=1"),
+// and the company records Procore loads for its navigation
+const PROJECT_URL = /\/projects(\/\d+)?\/?(\?|$)/
+const COMPANY_URL = /\/companies(\/\d+)?\/?(\?|$)/
+
+export function isProjectNamesUrl(source: string): boolean {
+  const path = source.toLowerCase()
+  return PROJECT_URL.test(path) || COMPANY_URL.test(path)
+}
+
+function findRecords(payload: unknown): Record<string, unknown>[] {
+  const record = asRecord(payload)
+  const list = Array.isArray(payload) ? payload
+    : Array.isArray(record?.data) ? record.data as unknown[]
+    : [asRecord(record?.data) ?? record]
+  return list.map(asRecord).filter((r): r is Record<string, unknown> => r !== null)
+}
+
+/**
+ * Names for the page's project from a project or company capture. Only the
+ * record matching the project (or its company) is read, so a list of every
+ * project the user can see never renames the wrong one.
+ */
+export function findProjectNames(source: string, payload: unknown, projectId: string, companyId?: string): ProjectNames {
+  const path = source.toLowerCase()
+  const records = findRecords(payload)
+
+  if (PROJECT_URL.test(path)) {
+    const project = records.find(r => String(r.id) === projectId)
+    return project ? readProjectNames(project) : {}
+  }
+  if (COMPANY_URL.test(path) && companyId) {
+    const company = records.find(r => String(r.id) === companyId)
+    if (company && typeof company.name === 'string' && company.name.trim()) {
+      return { companyName: company.name.trim() }
+    }
+  }
+  return {}
+}
+
+// ============================================
+// NORMALIZERS
+// ============================================
+
+function toNumericId(id: RawDataItem['id']): number {
+  return (typeof id === 'string' ? parseInt(id, 10) : id) as number
+}
+
+function normalizeDrawing(item: RawDataItem, drawingAreaId?: string | null): Drawing {
+  // Keep discipline as-is (could be object {id, name} or number)
+  // This matches v1 behavior
+  const drawing: Drawing = {
+    id: toNumericId(item.id),
+    num: (item.number || item.drawing_number || '') as string,
+    title: (item.title || '') as string,
+  }
+
+  // Store discipline - keep the whole object if it exists
+  if (item.discipline) {
+    drawing.discipline = item.discipline as Drawing['discipline']
+  }
+
+  // Also capture discipline_name if present directly
+  if (item.discipline_name) {
+    drawing.discipline_name = item.discipline_name as string
+  } else if (typeof item.discipline === 'object' && item.discipline !== null) {
+    const disc = item.discipline as { name?: string }
+    if (disc.name) {
+      drawing.discipline_name = disc.name
+    }
+  }
+
+  const revision = ApiService.getRevisionNumber(item)
+  if (revision) {
+    drawing.revision = revision
+  }
+
+  // Prefer the area on the item itself, fall back to the page's area
+  const areaId = item.drawing_area_id ?? drawingAreaId
+  if (areaId) {
+    drawing.drawing_area_id = String(areaId)
+  }
+
+  return drawing
+}
+
+function normalizeCommitment(item: RawDataItem): Commitment {
+  // Handle vendor which might be a string or object from Procore API
+  const vendorName = typeof item.vendor === 'string' ? item.vendor :
+    (typeof item.vendor === 'object' && item.vendor ? (item.vendor as { name?: string })?.name : undefined)
+
+  return {
+    id: toNumericId(item.id),
+    number: (item.number || '') as string,
+    title: (item.title || '') as string,
+    vendor: vendorName, // Now always a string or undefined
+    vendor_name: (item.vendor_name as string | undefined) || vendorName,
+    status: item.status as string | undefined,
+    contract_date: item.contract_date as string | undefined,
+    type: item.type as string | undefined,
+    approved_amount: item.approved_amount as number | undefined,
+    pending_amount: item.pending_amount as number | undefined,
+    draft_amount: item.draft_amount as number | undefined,
+  }
+}
+
+function normalizeRFI(item: RawDataItem): RFI {
+  return {
+    id: toNumericId(item.id),
+    number: (item.number || '') as string,
+    subject: (item.subject || '') as string,
+    status: (item.status || 'unknown') as string,
+    created_at: (item.created_at || '') as string,
+    due_date: item.due_date as string | undefined,
+    assignee: item.assignee as string | undefined,
+    ball_in_court: item.ball_in_court as string | undefined,
+  }
+}
+
+function normalizeSpecification(item: RawDataItem): Specification {
+  // ID comes as string from v2.1 API
+  return {
+    id: toNumericId(item.id),
+    number: (item.number || '') as string,
+    title: (item.description || '') as string,  // 'description' is the title in Procore API
+    divisionId: item.specification_section_division_id as string | undefined,
+    created_at: item.created_at as string | undefined,
+    updated_at: item.updated_at as string | undefined,
+    revision: item.revision as string | undefined,
+    issued_date: item.issued_date as string | undefined,
+    received_date: item.received_date as string | undefined,
+    url: item.url as string | undefined,
+  }
+}
+
+function normalizeDivisions(items: RawDataItem[]): DivisionMap {
+  const divisionMap: DivisionMap = {}
+  items.forEach((item, index) => {
+    const number = (item.number || '') as string
+    const name = (item.description || '') as string
+    divisionMap[String(item.id)] = {
+      number,
+      name,
+      displayName: number && name ? `${number} - ${name}` : name || number || 'Unknown',
+      index
+    }
+  })
+  return divisionMap
+}
+
+function normalizeDisciplines(items: RawDataItem[]): DisciplineMap {
+  const disciplineMap: DisciplineMap = {}
+  items.forEach((item, index) => {
+    // Convert string IDs to numbers (discipline API returns string IDs like "10931276")
+    const numericId = toNumericId(item.id)
+    if (!isNaN(numericId)) {
+      disciplineMap[numericId] = { name: item.name as string, index }
+    }
+  })
+  return disciplineMap
+}
+
+function findDisciplinesRecursive(obj: unknown, map: DisciplineMap, sortCounter: number, depth: number): void {
+  if (depth > 5 || !obj || typeof obj !== 'object') return
+  const item = obj as Record<string, unknown>
+  if (item.id && item.name && typeof item.name === 'string' && !item.drawing_number && !item.number) {
+    // Convert string IDs to numbers (discipline API returns string IDs like "10931276")
+    const numericId = typeof item.id === 'string' ? parseInt(item.id, 10) : item.id as number
+    if (!isNaN(numericId)) {
+      map[numericId] = { name: item.name as string, index: sortCounter }
+    }
+  }
+  if (Array.isArray(obj)) {
+    obj.forEach((child, index) => findDisciplinesRecursive(child, map, index, depth + 1))
+  } else {
+    for (const key in item) {
+      if (!['permissions', 'metadata', 'view_options'].includes(key)) {
+        findDisciplinesRecursive(item[key], map, sortCounter, depth + 1)
+      }
+    }
+  }
+}
+
+interface DrawingCapture {
+  drawings: Drawing[]
+  currentRevisions: DrawingRevision[]
+  disciplineMap: DisciplineMap
+}
+
+function normalizeDrawingCapture(items: RawDataItem[], context: WiretapContext): DrawingCapture {
+  const drawings = items.map(item => normalizeDrawing(item, context.drawingAreaId))
+
+  // Drawing log items nest their current revision - keep it for the revision timeline
+  const currentRevisions: DrawingRevision[] = items
+    .filter(item => item.current_revision)
+    .flatMap(item => ApiService.normalizeDrawingRevisions([item.current_revision], toNumericId(item.id)))
+
+  // Build discipline map from the payload (finds {id, name} objects)
+  const disciplineMap: DisciplineMap = {}
+  findDisciplinesRecursive(context.payload, disciplineMap, 0, 0)
+
+  // Also extract disciplines directly from drawings that have discipline objects
+  for (const drawing of drawings) {
+    // Handle discipline as object {id, name}
+    if (drawing.discipline && typeof drawing.discipline === 'object') {
+      const disc = drawing.discipline as { id?: number; name?: string }
+      if (disc.id && disc.name && !disciplineMap[disc.id]) {
+        disciplineMap[disc.id] = {
+          name: disc.name,
+          index: Object.keys(disciplineMap).length
+        }
+      }
+    }
+    // Handle discipline as number with discipline_name
+    else if (typeof drawing.discipline === 'number' && drawing.discipline_name) {
+      if (!disciplineMap[drawing.discipline]) {
+        disciplineMap[drawing.discipline] = {
+          name: drawing.discipline_name,
+          index: Object.keys(disciplineMap).length
+        }
+      }
+    }
+  }
+
+  return { drawings, currentRevisions, disciplineMap }
+}
+
+// ============================================
+// STORAGE SINKS
+// ============================================
+
+async function mergeDisciplineMap(context: WiretapContext, disciplineMap: DisciplineMap): Promise<number> {
+  const count = Object.keys(disciplineMap).length
+  if (count === 0) return 0
+  const existing = await StorageService.getDisciplineMap(context.projectId, context.drawingAreaId)
+  await StorageService.saveDisciplineMap(context.projectId, { ...existing, ...disciplineMap }, context.drawingAreaId)
+  console.log('PP Background: Saved', count, 'disciplines:',
+    Object.entries(disciplineMap).map(([id, d]) => `${id}:${d.name}`).join(', '))
+  return count
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export interface WiretapContext {
+  projectId: string
+  drawingAreaId?: string
+  payload: unknown            // The whole response, for detectors that look beyond the item list
+  complete: boolean           // The items are the whole, unfiltered list (see getCaptureCompleteness)
+}
+
+export interface EntityDetector<T> {
+  type: WiretapEntityType
+  sources: string[]           // Lowercased URL substrings this detector listens to
+  excludeSources?: string[]   // URL substrings that rule the detector out
+  fallback?: boolean          // Also used for captures no detector's URL matches
+  isItem: (item: RawDataItem) => boolean
+  normalize: (items: RawDataItem[], context: WiretapContext) => T
+  save: (data: T, context: WiretapContext) => Promise<number>  // Returns the number of items stored
+}
+
+// Type-erased detector so the registry can hold detectors of different entity shapes
+export interface WiretapDetector {
+  type: WiretapEntityType
+  fallback: boolean
+  matchesSource: (sourceLower: string) => boolean
+  isItem: (item: RawDataItem) => boolean
+  ingest: (items: RawDataItem[], context: WiretapContext) => Promise<number>
+}
+
+function defineDetector<T>(detector: EntityDetector<T>): WiretapDetector {
+  return {
+    type: detector.type,
+    fallback: detector.fallback ?? false,
+    matchesSource: (sourceLower) =>
+      detector.sources.some(s => sourceLower.includes(s)) &&
+      !(detector.excludeSources ?? []).some(s => sourceLower.includes(s)),
+    isItem: detector.isItem,
+    ingest: (items, context) => detector.save(detector.normalize(items, context), context),
+  }
+}
+
+export const WIRETAP_DETECTORS: WiretapDetector[] = [
+  // Discipline responses have items with {id, name} but no drawing_number/number
+  defineDetector<DisciplineMap>({
+    type: 'disciplines',
+    sources: ['discipline'],
+    isItem: isDisciplineItem,
+    normalize: normalizeDisciplines,
+    save: (disciplineMap, context) => mergeDisciplineMap(context, disciplineMap),
+  }),
+
+  defineDetector<RFI[]>({
+    type: 'rfis',
+    sources: ['/rfis'],
+    isItem: isRFI,
+    normalize: items => items.map(normalizeRFI),
+    save: async (rfis, context) => {
+      await StorageService.mergeRFIs(context.projectId, rfis)
+      await StorageService.recordSync(context.projectId, 'rfis', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', rfis.length, 'RFIs')
+      return rfis.length
+    },
+  }),
+
+  defineDetector<Submittal[]>({
+    type: 'submittals',
+    sources: ['/submittal'],
+    excludeSources: ['submittal_packages'],
+    isItem: isSubmittal,
+    normalize: items => ApiService.normalizeSubmittals(items),
+    save: async (submittals, context) => {
+      await StorageService.mergeSubmittals(context.projectId, submittals)
+      await StorageService.recordSync(context.projectId, 'submittals', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', submittals.length, 'submittals')
+      return submittals.length
+    },
+  }),
+
+  defineDetector<PunchItem[]>({
+    type: 'punch_items',
+    sources: ['punch_item', '/punch_list'],
+    isItem: isPunchItem,
+    normalize: items => ApiService.normalizePunchItems(items),
+    save: async (punchItems, context) => {
+      await StorageService.mergePunchItems(context.projectId, punchItems)
+      await StorageService.recordSync(context.projectId, 'punch_items', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', punchItems.length, 'punch items')
+      return punchItems.length
+    },
+  }),
+
+  defineDetector<ChangeEvent[]>({
+    type: 'change_events',
+    sources: ['change_event'],
+    isItem: isChangeEvent,
+    normalize: items => ApiService.normalizeChangeEvents(items),
+    save: async (changeEvents, context) => {
+      await StorageService.mergeChangeEvents(context.projectId, changeEvents)
+      await StorageService.recordSync(context.projectId, 'change_events', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', changeEvents.length, 'change events')
+      return changeEvents.length
+    },
+  }),
+
+  // Before commitments: change order URLs contain 'commitment' too
+  defineDetector<CommitmentChangeOrder[]>({
+    type: 'change_orders',
+    sources: ['change_order'],
+    excludeSources: ['prime', 'potential', 'change_order_package', 'change_order_request'],
+    isItem: isChangeOrder,
+    normalize: items => ApiService.normalizeChangeOrders(items),
+    save: async (changeOrders, context) => {
+      await StorageService.mergeChangeOrders(context.projectId, changeOrders)
+      await StorageService.recordSync(context.projectId, 'change_orders', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', changeOrders.length, 'change orders')
+      return changeOrders.length
+    },
+  }),
+
+  defineDetector<Commitment[]>({
+    type: 'commitments',
+    sources: ['commitment', 'contract'],
+    isItem: isCommitment,
+    normalize: items => items.map(normalizeCommitment),
+    save: async (commitments, context) => {
+      await StorageService.mergeCommitments(context.projectId, commitments)
+      await StorageService.recordSync(context.projectId, 'commitments', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', commitments.length, 'commitments')
+      return commitments.length
+    },
+  }),
+
+  defineDetector<BudgetLineItem[]>({
+    type: 'budget_line_items',
+    sources: ['budget'],
+    isItem: isBudgetLineItem,
+    normalize: items => ApiService.normalizeBudgetLineItems(items),
+    save: async (lineItems, context) => {
+      await StorageService.mergeBudgetLineItems(context.projectId, lineItems)
+      await StorageService.recordSync(context.projectId, 'budget_line_items', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', lineItems.length, 'budget line items')
+      return lineItems.length
+    },
+  }),
+
+  // Before specifications: division URLs contain 'specification' too
+  defineDetector<DivisionMap>({
+    type: 'divisions',
+    sources: ['specification_section_divisions'],
+    isItem: isDivision,
+    normalize: normalizeDivisions,
+    save: async (divisionMap, context) => {
+      const existing = await StorageService.getDivisionMap(context.projectId)
+      await StorageService.saveDivisionMap(context.projectId, { ...existing, ...divisionMap })
+      const count = Object.keys(divisionMap).length
+      console.log('PP Background: Saved', count, 'divisions from wiretap')
+      return count
+    },
+  }),
+
+  defineDetector<Specification[]>({
+    type: 'specifications',
+    sources: ['/specification', 'specification_sections'],
+    excludeSources: ['specification_section_divisions'],
+    isItem: isSpecification,
+    normalize: items => items.map(normalizeSpecification),
+    save: async (specifications, context) => {
+      await StorageService.mergeSpecifications(context.projectId, specifications)
+      await StorageService.recordSync(context.projectId, 'specifications', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', specifications.length, 'specifications')
+      return specifications.length
+    },
+  }),
+
+  // Before drawings: the directory lives under /directory/groups/, which drawings listen to
+  defineDetector<DirectoryPerson[]>({
+    type: 'people',
+    sources: ['/directory', '/users'],
+    isItem: isPerson,
+    normalize: items => ApiService.normalizePeople(items),
+    save: async (people, context) => {
+      await StorageService.mergePeople(context.projectId, people)
+      await StorageService.recordSync(context.projectId, 'people', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', people.length, 'directory people')
+      return people.length
+    },
+  }),
+
+  defineDetector<DirectoryCompany[]>({
+    type: 'companies',
+    sources: ['/directory', '/vendors'],
+    isItem: isCompany,
+    normalize: items => ApiService.normalizeCompanies(items),
+    save: async (companies, context) => {
+      await StorageService.mergeCompanies(context.projectId, companies)
+      await StorageService.recordSync(context.projectId, 'companies', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', companies.length, 'directory companies')
+      return companies.length
+    },
+  }),
+
+  defineDetector<DocumentFolder[]>({
+    type: 'document_folders',
+    sources: ['/folders', '/documents'],
+    isItem: isDocumentFolder,
+    normalize: items => ApiService.normalizeDocumentFolders(items),
+    save: async (folders, context) => {
+      await StorageService.mergeDocumentFolders(context.projectId, folders)
+      console.log('PP Background: Saved', folders.length, 'document folders')
+      return folders.length
+    },
+  }),
+
+  defineDetector<DocumentFile[]>({
+    type: 'document_files',
+    sources: ['/folders', '/documents'],
+    isItem: isDocumentFile,
+    normalize: items => ApiService.normalizeDocumentFiles(items),
+    save: async (files, context) => {
+      await StorageService.mergeDocumentFiles(context.projectId, files)
+      // One folder's contents, however complete, is never the whole tree
+      await StorageService.recordSync(context.projectId, 'documents', { source: 'wiretap' })
+      console.log('PP Background: Saved', files.length, 'documents')
+      return files.length
+    },
+  }),
+
+  defineDetector<ScheduleTask[]>({
+    type: 'schedule_tasks',
+    sources: ['/schedule', '/tasks', '/calendar'],
+    isItem: isScheduleTask,
+    normalize: items => ApiService.normalizeScheduleTasks(items),
+    save: async (tasks, context) => {
+      await StorageService.mergeScheduleTasks(context.projectId, tasks)
+      await StorageService.recordSync(context.projectId, 'schedule_tasks', { source: 'wiretap', complete: context.complete })
+      console.log('PP Background: Saved', tasks.length, 'schedule tasks')
+      return tasks.length
+    },
+  }),
+
+  // Before drawings: revision items also carry a drawing number
+  defineDetector<DrawingRevision[]>({
+    type: 'drawing_revisions',
+    sources: ['drawing_revisions'],
+    isItem: isDrawingRevision,
+    normalize: items => ApiService.normalizeDrawingRevisions(items),
+    save: async (revisions, context) => {
+      await StorageService.mergeDrawingRevisions(context.projectId, revisions)
+      console.log('PP Background: Saved', revisions.length, 'drawing revisions')
+      return revisions.length
+    },
+  }),
+
+  // Drawing grids load through AG Grid server-side URLs that name no tool, hence the fallback
+  defineDetector<DrawingCapture>({
+    type: 'drawings',
+    sources: ['drawing', 'discipline', 'groups'],
+    fallback: true,
+    isItem: isDrawing,
+    normalize: normalizeDrawingCapture,
+    save: async ({ drawings, currentRevisions, disciplineMap }, context) => {
+      await StorageService.mergeDrawings(context.projectId, drawings)
+      // A drawing log covers one drawing area; the project may have others
+      await StorageService.recordSync(context.projectId, 'drawings', { source: 'wiretap' })
+      console.log('PP Background: Saved', drawings.length, 'drawings to project', context.projectId)
+
+      if (currentRevisions.length > 0) {
+        await StorageService.mergeDrawingRevisions(context.projectId, currentRevisions)
+      }
+      await mergeDisciplineMap(context, disciplineMap)
+      return drawings.length
+    },
+  }),
+]
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+export interface WiretapClassification {
+  groups: Array<{ detector: WiretapDetector; items: RawDataItem[] }>
+  unclassified?: WiretapUnclassified
+}
+
+/**
+ * Assign each item to the first detector whose URL and shape match. Items no
+ * listening detector accepts are reported, along with the types whose shape
+ * they would fit (a sign the URL matchers are wrong).
+ */
+export function classifyItems(
+  source: string,
+  items: RawDataItem[],
+  detectors: WiretapDetector[] = WIRETAP_DETECTORS
+): WiretapClassification {
+  const sourceLower = (source || '').toLowerCase()
+  const listening = detectors.filter(d => d.matchesSource(sourceLower))
+  const candidates = listening.length > 0 ? listening : detectors.filter(d => d.fallback)
+
+  const byDetector = new Map<WiretapDetector, RawDataItem[]>()
+  const leftover: RawDataItem[] = []
+  for (const item of items) {
+    const detector = candidates.find(d => d.isItem(item))
+    if (detector) {
+      const claimed = byDetector.get(detector)
+      if (claimed) {
+        claimed.push(item)
+      } else {
+        byDetector.set(detector, [item])
+      }
+    } else {
+      leftover.push(item)
+    }
+  }
+
+  const groups = candidates
+    .filter(d => byDetector.has(d))
+    .map(detector => ({ detector, items: byDetector.get(detector)! }))
+
+  if (leftover.length === 0) return { groups }
+
+  const sample = leftover[0]
+  return {
+    groups,
+    unclassified: {
+      source,
+      count: leftover.length,
+      expected: candidates.map(d => d.type),
+      looksLike: detectors
+        .filter(d => !candidates.includes(d) && leftover.some(item => d.isItem(item)))
+        .map(d => d.type),
+      sampleKeys: sample && typeof sample === 'object' ? Object.keys(sample).slice(0, 20) : [],
+    },
+  }
+}
@@ -38,6 +38,56 @@ let scrollInterval: ReturnType<typeof setInterval> | null = null
 // WIRETAP MESSAGE FORWARDING
 // ============================================
 
+// Captures are forwarded in batches: a grid paging through a long log fires
+// many responses in quick succession, and each message is a structured clone.
+// A batch goes out once captures stop arriving for a moment, after at most a
+// second, or early when it gets large - unless the service worker reports a
+// backlog, when every batch is held back a little longer.
+const WIRETAP_FLUSH_DELAY = 250
+const WIRETAP_MAX_WAIT = 1000
+const WIRETAP_MAX_BATCH = 20
+const WIRETAP_MAX_BATCH_SIZE = 4 * 1024 * 1024
+const WIRETAP_BACKLOG_LIMIT = 20       // Captures queued in the background before we slow down
+const WIRETAP_BACKLOG_DELAY = 2000
+
+let pendingCaptures: WiretapMessage[] = []
+let pendingSize = 0
+let firstPendingAt = 0
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let backlogDelay = 0
+
+function flushCaptures(): void {
+  if (flushTimer) clearTimeout(flushTimer)
+  flushTimer = null
+  if (pendingCaptures.length === 0) return
+
+  const batch = pendingCaptures
+  pendingCaptures = []
+  pendingSize = 0
+
+  chrome.runtime.sendMessage({ type: 'WIRETAP_BATCH', payload: batch })
+    .then((response?: { backlog?: number }) => {
+      // Backpressure: hold batches longer while the service worker catches up
+      backlogDelay = (response?.backlog ?? 0) > WIRETAP_BACKLOG_LIMIT ? WIRETAP_BACKLOG_DELAY : 0
+    })
+    .catch(() => {})
+}
+
+function scheduleFlush(): void {
+  const full = pendingCaptures.length >= WIRETAP_MAX_BATCH || pendingSize >= WIRETAP_MAX_BATCH_SIZE
+  if (full && backlogDelay === 0) {
+    flushCaptures()
+    return
+  }
+  if (flushTimer) clearTimeout(flushTimer)
+  const waited = Date.now() - firstPendingAt
+  // While the service worker is backed up, even a full batch waits out the backlog delay
+  const delay = full
+    ? backlogDelay - waited
+    : Math.min(WIRETAP_FLUSH_DELAY, WIRETAP_MAX_WAIT - waited) + backlogDelay
+  flushTimer = setTimeout(flushCaptures, Math.max(0, delay))
+}
+
 window.addEventListener('message', (event) => {
   if (event.origin !== window.location.origin) return
   if (event.source !== window) return
@@ -45,12 +95,15 @@ window.addEventListener('message', (event) => {
 
   const message = event.data as WiretapMessage
 
-  chrome.runtime.sendMessage({
-    type: 'WIRETAP_DATA',
-    payload: message,
-  }).catch(() => {})
+  if (pendingCaptures.length === 0) firstPendingAt = Date.now()
+  pendingCaptures.push(message)
+  pendingSize += message.stats?.rawSize ?? 0
+  scheduleFlush()
 })
 
+// Don't lose a pending batch when the user navigates away
+window.addEventListener('pagehide', flushCaptures)
+
 // ============================================
 // PAGE-BASED SCANNING (like v1)
 // ============================================
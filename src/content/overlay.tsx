@@ -6,10 +6,11 @@
  */
 
 import { render } from 'preact'
-import { useState, useEffect, useCallback } from 'preact/hooks'
+import { useState, useEffect, useCallback, useMemo } from 'preact/hooks'
 import { CommandPalette } from '../sidepanel/components/CommandPalette'
 import type { CommandPaletteDataProvider } from '@/types/command-palette'
-import type { Drawing, DisciplineMap, RecentsList, Project, RFI } from '@/types'
+import { defaultStatusColorScheme } from '@/services'
+import type { Drawing, DisciplineMap, RecentsList, Project, RFI, PunchItem, DirectoryPerson, EntityNotes, ProjectTags, DrawingStatusColors, StatusColorScheme } from '@/types'
 
 // Import CSS as inline string
 // @ts-ignore - Vite handles ?inline imports
@@ -22,75 +23,102 @@ function extractProjectIdFromUrl(): string | null {
   return projectMatch?.[1] ?? null
 }
 
+// GET_PROJECT_DATA response: every dataset the palette reads, in one message
+interface ProjectDataResponse {
+  success: boolean
+  error?: string
+  drawings?: Drawing[]
+  disciplineMap?: DisciplineMap
+  favorites?: string[]              // Set sent as an array for JSON serialization
+  recents?: RecentsList
+  rfis?: RFI[]
+  punchItems?: PunchItem[]
+  people?: DirectoryPerson[]
+  notes?: EntityNotes
+  tags?: ProjectTags
+  statusColors?: DrawingStatusColors
+  statusColorScheme?: StatusColorScheme
+}
+
 /**
- * Data provider that fetches data from background service worker
+ * Data provider that fetches data from background service worker.
+ * One provider serves one palette open: the getters share a single
+ * GET_PROJECT_DATA per project instead of each loading the whole project.
  */
 class OverlayDataProvider implements CommandPaletteDataProvider {
-  async getDrawings(projectId: string): Promise<Drawing[]> {
-    const response = await chrome.runtime.sendMessage({
-      action: 'GET_PROJECT_DATA',
-      projectId,
-    })
-    
-    if (!response?.success) {
-      throw new Error(response?.error || 'Failed to get drawings')
+  private projectData = new Map<string, Promise<ProjectDataResponse>>()
+
+  private getProjectData(projectId: string): Promise<ProjectDataResponse> {
+    let request = this.projectData.get(projectId)
+    if (!request) {
+      request = chrome.runtime.sendMessage({ action: 'GET_PROJECT_DATA', projectId })
+        .then((response: ProjectDataResponse | undefined) => {
+          if (!response?.success) {
+            throw new Error(response?.error || 'Failed to get project data')
+          }
+          return response
+        })
+      // A failed read is retried by the next getter instead of being shared
+      request.catch(() => this.projectData.delete(projectId))
+      this.projectData.set(projectId, request)
     }
-    
+    return request
+  }
+
+  async getDrawings(projectId: string): Promise<Drawing[]> {
+    const response = await this.getProjectData(projectId)
     return response.drawings || []
   }
 
   async getDisciplineMap(projectId: string): Promise<DisciplineMap> {
-    const response = await chrome.runtime.sendMessage({
-      action: 'GET_PROJECT_DATA',
-      projectId,
-    })
-    
-    if (!response?.success) {
-      throw new Error(response?.error || 'Failed to get discipline map')
-    }
-    
+    const response = await this.getProjectData(projectId)
     return response.disciplineMap || {}
   }
 
   async getAllFavoriteDrawings(projectId: string): Promise<Set<string>> {
-    const response = await chrome.runtime.sendMessage({
-      action: 'GET_PROJECT_DATA',
-      projectId,
-    })
-    
-    if (!response?.success) {
-      throw new Error(response?.error || 'Failed to get favorites')
-    }
-    
-    // Convert array back to Set
+    const response = await this.getProjectData(projectId)
     return new Set(response.favorites || [])
   }
 
   async getRecents(projectId: string): Promise<RecentsList> {
-    const response = await chrome.runtime.sendMessage({
-      action: 'GET_PROJECT_DATA',
-      projectId,
-    })
-    
-    if (!response?.success) {
-      throw new Error(response?.error || 'Failed to get recents')
-    }
-    
+    const response = await this.getProjectData(projectId)
     return response.recents || []
   }
 
   async getRFIs(projectId: string): Promise<RFI[]> {
-    const response = await chrome.runtime.sendMessage({
-      action: 'GET_PROJECT_DATA',
-      projectId,
-    })
-    
-    if (!response?.success) {
-      throw new Error(response?.error || 'Failed to get RFIs')
-    }
-    
+    const response = await this.getProjectData(projectId)
     return response.rfis || []
   }
+
+  async getPunchItems(projectId: string): Promise<PunchItem[]> {
+    const response = await this.getProjectData(projectId)
+    return response.punchItems || []
+  }
+
+  async getPeople(projectId: string): Promise<DirectoryPerson[]> {
+    const response = await this.getProjectData(projectId)
+    return response.people || []
+  }
+
+  async getNotes(projectId: string): Promise<EntityNotes> {
+    const response = await this.getProjectData(projectId)
+    return response.notes || {}
+  }
+
+  async getTags(projectId: string): Promise<ProjectTags> {
+    const response = await this.getProjectData(projectId)
+    return response.tags || { tags: [], assignments: {} }
+  }
+
+  async getStatusColors(projectId: string): Promise<DrawingStatusColors> {
+    const response = await this.getProjectData(projectId)
+    return response.statusColors || {}
+  }
+
+  async getStatusColorScheme(projectId: string): Promise<StatusColorScheme> {
+    const response = await this.getProjectData(projectId)
+    return response.statusColorScheme || defaultStatusColorScheme()
+  }
 }
 
 /**
@@ -103,7 +131,8 @@ function OverlayApp({ onVisibilityChange }: { onVisibilityChange: (visible: bool
   const [urlProjectId, setUrlProjectId] = useState<string | null>(null)
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null)
   const [availableProjects, setAvailableProjects] = useState<Project[]>([])
-  const dataProvider = new OverlayDataProvider()
+  // A fresh provider per open, so each open reads the project once and sees current data
+  const dataProvider = useMemo(() => new OverlayDataProvider(), [isVisible])
 
   // The active project is the user's selection, or fallback to URL-detected project
   const projectId = selectedProjectId || urlProjectId
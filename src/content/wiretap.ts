@@ -19,6 +19,34 @@
     perPage: string | null
   }
 
+  interface WiretapGridRequest {
+    startRow?: number
+    endRow?: number
+    groupKeys?: string[]
+    rowGroupFields?: string[]
+  }
+
+  interface WiretapRequestContext {
+    method: string
+    query: Record<string, string>
+    filters: Record<string, unknown>
+    page?: number
+    perPage?: number
+  }
+
+  interface WiretapCaptureStats {
+    rawSize: number
+    stripped: boolean
+    stripMs: number
+  }
+
+  interface FieldProfile {
+    matches: (lower: string) => boolean
+    fields: string[]
+    nested?: Record<string, string[]>   // Object fields (or lists of objects) cut down as well
+    lists?: string[]                    // Keys of a response object that hold items (default data, entities)
+  }
+
   function getIds(): WiretapIds {
     const url = window.location.href
     const projectMatch = url.match(/projects\/(\d+)/) || url.match(/\/(\d+)\/project/)
@@ -32,7 +60,14 @@
     }
   }
 
-  function broadcast(data: unknown, sourceUrl: string, headers: WiretapHeaders = { total: null, perPage: null }) {
+  function broadcast(
+    data: unknown,
+    sourceUrl: string,
+    headers: WiretapHeaders = { total: null, perPage: null },
+    grid?: WiretapGridRequest,
+    stats?: WiretapCaptureStats,
+    request?: WiretapRequestContext
+  ) {
     // Log what we're capturing for debugging
     const dataLength = Array.isArray(data) ? data.length : 'object'
     console.log('PP Wiretap: Captured', dataLength, 'items from:', sourceUrl.substring(0, 100))
@@ -43,9 +78,333 @@
       ids: getIds(),
       source: sourceUrl,
       headers,
+      grid,
+      stats,
+      request,
     }, window.location.origin)
   }
 
+  // --- FIELD STRIPPING ---
+  // Long lists are cut down to the fields the background detectors read before
+  // they are posted: a drawing log row carries URLs, thumbnails and permissions
+  // nothing downstream uses, and every byte is structured-cloned twice on its
+  // way to the service worker. Keep these in step with the shape checks and
+  // normalizers in background/wiretap-detectors.ts - including the fields a
+  // shape check rules items out by, and the fields of every detector that
+  // listens to the same URLs.
+  const REVISION_FIELDS = [
+    'id', 'number', 'drawing_number', 'title', 'revision_number', 'drawing_id', 'drawing', 'drawing_date',
+    'received_date', 'issued_date', 'received_from', 'drawing_set', 'drawing_set_name', 'current',
+  ]
+
+  // Most shape checks turn away items that carry these
+  const EXCLUDING_FIELDS = ['drawing_number', 'vendor', 'vendor_name', 'subject']
+
+  const COMMITMENT_FIELDS = [
+    'id', 'number', 'title', 'contract_date', 'vendor', 'vendor_name', 'type', 'status', 'drawing_number',
+    'approved_amount', 'pending_amount', 'draft_amount',
+  ]
+
+  const CHANGE_ORDER_FIELDS = [
+    ...EXCLUDING_FIELDS, 'id', 'number', 'title', 'status', 'contract_id', 'commitment_id', 'contract',
+    'grand_total', 'total_amount', 'amount', 'due_date', 'executed', 'created_at',
+  ]
+
+  const PERSON_FIELDS = [
+    'id', 'number', 'drawing_number', 'subject', 'name', 'first_name', 'last_name', 'login', 'job_title',
+    'permission_template', 'vendor', 'vendor_id', 'vendor_name', 'company', 'email_address', 'email',
+    'business_phone', 'mobile_phone',
+  ]
+
+  const COMPANY_FIELDS = [
+    'id', 'number', 'drawing_number', 'subject', 'name', 'first_name', 'last_name', 'trades', 'trade_name',
+    'abbreviated_name', 'email_address', 'business_phone', 'mobile_phone',
+  ]
+
+  const FOLDER_FIELDS = [
+    'id', 'name', 'parent_id', 'name_with_path', 'has_children', 'folders', 'is_recycle_bin', 'is_deleted',
+  ]
+
+  const FILE_FIELDS = [
+    'id', 'name', 'parent_id', 'folder_id', 'name_with_path', 'size', 'updated_at', 'file_versions',
+    'has_children', 'is_deleted',
+  ]
+
+  const FIELD_PROFILES: FieldProfile[] = [
+    // Before the drawing log: revision URLs contain "drawing" too
+    {
+      matches: (lower) => lower.includes('drawing_revisions'),
+      fields: REVISION_FIELDS,
+      nested: { drawing: ['id'], drawing_set: ['name'], received_from: ['name'] },
+    },
+    // Discipline and group URLs are left whole, the discipline map is built from them
+    {
+      matches: (lower) => (lower.includes('drawing_log') || lower.includes('/drawings')) &&
+        !lower.includes('discipline') && !lower.includes('groups'),
+      fields: [
+        'id', 'number', 'drawing_number', 'title', 'discipline', 'discipline_name',
+        'drawing_area_id', 'revision_number', 'current_revision', 'vendor', 'vendor_name', 'contract_date',
+      ],
+      nested: { discipline: ['id', 'name'], current_revision: REVISION_FIELDS },
+    },
+    {
+      matches: (lower) => lower.includes('/rfis'),
+      fields: [
+        'id', 'number', 'subject', 'status', 'created_at', 'due_date', 'assignee', 'ball_in_court',
+        'drawing_number', 'vendor', 'vendor_name',
+      ],
+    },
+    {
+      matches: (lower) => lower.includes('/submittal') && !lower.includes('submittal_packages'),
+      fields: [
+        ...EXCLUDING_FIELDS, 'id', 'number', 'formatted_number', 'title', 'revision', 'revision_number', 'status',
+        'specification_section', 'ball_in_court', 'submittal_type', 'submittal_package', 'due_date',
+        'final_due_date', 'required_on_site_date', 'created_at',
+      ],
+      nested: {
+        status: ['name'], specification_section: ['number', 'description', 'label'],
+        ball_in_court: ['name', 'login'], submittal_type: ['id', 'name'], submittal_package: ['id', 'name'],
+      },
+    },
+    {
+      matches: (lower) => lower.includes('punch_item') || lower.includes('/punch_list'),
+      fields: [
+        ...EXCLUDING_FIELDS, 'id', 'name', 'title', 'position', 'number', 'location', 'status', 'workflow_status',
+        'punch_item_manager', 'punch_item_type', 'final_approver', 'assignments', 'assignees', 'assignee',
+        'ball_in_court', 'due_date', 'created_at',
+      ],
+      nested: {
+        location: ['node_name', 'name'], status: ['name'], workflow_status: ['name'],
+        punch_item_manager: ['id', 'name', 'login'], punch_item_type: ['id', 'name'],
+        final_approver: ['id', 'name', 'login'], assignments: ['login_information', 'assignee', 'vendor', 'name', 'login'],
+        assignees: ['name', 'login'], assignee: ['name', 'login'], ball_in_court: ['name', 'login'],
+      },
+    },
+    {
+      matches: (lower) => lower.includes('change_event'),
+      fields: [
+        ...EXCLUDING_FIELDS, 'id', 'number', 'title', 'description', 'status', 'change_event_status',
+        'event_scope', 'scope', 'change_reason', 'line_items', 'change_event_line_items', 'estimated_cost_amount',
+        'rom_amount', 'total_amount', 'amount', 'commitment_id', 'contract_id', 'created_at',
+      ],
+      nested: {
+        status: ['name'], change_event_status: ['name'], event_scope: ['name'], scope: ['name'],
+        change_reason: ['name'], line_items: ['commitment_id', 'contract_id', 'contract'],
+        change_event_line_items: ['commitment_id', 'contract_id', 'contract'],
+      },
+    },
+    // Commitment change order URLs are listened to by commitments as well
+    {
+      matches: (lower) => lower.includes('change_order') &&
+        !['prime', 'potential', 'change_order_package', 'change_order_request'].some(s => lower.includes(s)),
+      fields: [...CHANGE_ORDER_FIELDS, ...COMMITMENT_FIELDS],
+      nested: { status: ['name'], contract: ['id'], vendor: ['id', 'name'] },
+    },
+    {
+      matches: (lower) => lower.includes('commitment') || lower.includes('contract'),
+      fields: COMMITMENT_FIELDS,
+      nested: { vendor: ['id', 'name'] },
+    },
+    {
+      matches: (lower) => lower.includes('budget'),
+      fields: [
+        ...EXCLUDING_FIELDS, 'id', 'cost_code', 'wbs_code', 'cost_code_name', 'line_item_type', 'category',
+        'cost_type', 'original_budget_amount', 'original_budget', 'amount', 'approved_budget_changes',
+        'approved_changes', 'approved_cos', 'revised_budget', 'revised_budget_amount', 'committed_costs',
+        'committed_cost', 'projected_costs', 'projected_cost',
+      ],
+      nested: {
+        cost_code: ['full_code', 'flat_code', 'code', 'name', 'description'],
+        wbs_code: ['full_code', 'flat_code', 'code', 'name', 'description'],
+        line_item_type: ['name'], category: ['name'], cost_type: ['name'],
+      },
+    },
+    // Before specifications: division URLs contain "specification" too
+    {
+      matches: (lower) => lower.includes('specification_section_divisions'),
+      fields: ['id', 'number', 'description', 'specification_section_division_id'],
+    },
+    {
+      matches: (lower) => lower.includes('/specification') || lower.includes('specification_sections'),
+      fields: [
+        'id', 'number', 'description', 'specification_section_division_id', 'specification_area_id',
+        'drawing_number', 'vendor', 'vendor_name', 'contract_date', 'subject', 'status', 'created_at',
+        'updated_at', 'revision', 'issued_date', 'received_date', 'url',
+      ],
+    },
+    // Directory URLs are listened to by both people and companies
+    {
+      matches: (lower) => lower.includes('/directory') || lower.includes('/users') || lower.includes('/vendors'),
+      fields: [...PERSON_FIELDS, ...COMPANY_FIELDS],
+      nested: {
+        vendor: ['id', 'name', 'login'], company: ['id', 'name', 'login'],
+        permission_template: ['name', 'login'], trades: ['name', 'login'],
+      },
+    },
+    // A folder response is the folder itself, its children listed beside it
+    {
+      matches: (lower) => lower.includes('/folders') || lower.includes('/documents'),
+      fields: [...FOLDER_FIELDS, ...FILE_FIELDS],
+      nested: { folders: ['id'], file_versions: ['size', 'created_at'] },
+      lists: ['data', 'entities', 'folders', 'files'],
+    },
+    {
+      matches: (lower) => lower.includes('/schedule') || lower.includes('/tasks') || lower.includes('/calendar'),
+      fields: [
+        ...EXCLUDING_FIELDS, 'id', 'name', 'title', 'parent_id', 'parent', 'start_date', 'start', 'finish_date',
+        'finish', 'end_date', 'percentage', 'percent_complete', 'resources', 'resource_names', 'resource_name',
+        'resource',
+      ],
+      nested: { parent: ['id'], resources: ['name', 'login'], resource_names: ['name', 'login'], resource: ['name', 'login'] },
+    },
+  ]
+
+  function pickFields(source: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+    const picked: Record<string, unknown> = {}
+    for (const field of fields) {
+      if (source[field] !== undefined) picked[field] = source[field]
+    }
+    return picked
+  }
+
+  // Objects, and the objects in a list, are cut down; strings and numbers are kept
+  function pickNested(value: unknown, fields: string[]): unknown {
+    if (Array.isArray(value)) return value.map(entry => pickNested(entry, fields))
+    return value && typeof value === 'object' ? pickFields(value as Record<string, unknown>, fields) : value
+  }
+
+  function stripItems(items: unknown[], profile: FieldProfile): unknown[] {
+    return items.map((item) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) return item
+      const stripped = pickFields(item as Record<string, unknown>, profile.fields)
+      for (const [field, nestedFields] of Object.entries(profile.nested ?? {})) {
+        if (stripped[field] !== undefined) stripped[field] = pickNested(stripped[field], nestedFields)
+      }
+      return stripped
+    })
+  }
+
+  // Strips the item lists where the background looks for them; everything else is kept
+  function stripPayload(data: unknown, profile: FieldProfile): unknown {
+    if (Array.isArray(data)) return stripItems(data, profile)
+    if (!data || typeof data !== 'object') return data
+    const record = { ...data as Record<string, unknown> }
+    for (const key of profile.lists ?? ['data', 'entities']) {
+      if (Array.isArray(record[key])) record[key] = stripItems(record[key] as unknown[], profile)
+    }
+    return record
+  }
+
+  // Parse a response body, strip it if a profile applies, and post it with
+  // its cost and the request that asked for it
+  function capture(text: string, url: string, headers: WiretapHeaders, method: string, requestBody?: unknown) {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      return   // Ignore JSON parse errors
+    }
+
+    const started = performance.now()
+    const lower = url.toLowerCase()
+    // Grid rows vary in shape (nested `data`, group rows) - leave them whole
+    const profile = isServerSideUrl(lower) ? undefined : FIELD_PROFILES.find(p => p.matches(lower))
+    if (profile) data = stripPayload(data, profile)
+
+    const stats: WiretapCaptureStats = {
+      rawSize: text.length,
+      stripped: profile !== undefined,
+      stripMs: Math.round(performance.now() - started),
+    }
+
+    const body = parseJsonBody(requestBody)
+    const grid = isServerSideUrl(lower) ? readGridRequest(body) : undefined
+    broadcast(data, url, headers, grid, stats, readRequestContext(url, method, body))
+  }
+
+  function isServerSideUrl(url: string): boolean {
+    const lower = url.toLowerCase()
+    return lower.includes('server_side') || lower.includes('serverside')
+  }
+
+  // --- REQUEST CONTEXT ---
+  // How a response was asked for tells a whole list from a filtered or paged one
+
+  const MAX_REQUEST_BODY = 64 * 1024   // Larger bodies are uploads, not list queries
+
+  // Query parameters and JSON body keys that narrow a list down
+  const FILTER_PARAM = /^(filters?|search|search_term|q|query|keyword|status)(\[|$)/
+  const FILTER_BODY_KEYS = ['filters', 'filter', 'filterModel', 'search', 'searchTerm', 'query', 'q']
+
+  function parseJsonBody(body: unknown): Record<string, unknown> | undefined {
+    if (typeof body !== 'string' || body.length > MAX_REQUEST_BODY) return undefined
+    try {
+      const parsed = JSON.parse(body)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  function isEmptyFilter(value: unknown): boolean {
+    if (value === null || value === undefined || value === '') return true
+    if (Array.isArray(value)) return value.length === 0
+    return typeof value === 'object' && Object.keys(value as object).length === 0
+  }
+
+  function toNumber(value: string | null | undefined): number | undefined {
+    const number = value ? parseInt(value, 10) : NaN
+    return isNaN(number) ? undefined : number
+  }
+
+  function readRequestContext(url: string, method: string, body?: Record<string, unknown>): WiretapRequestContext {
+    const query: Record<string, string> = {}
+    const filters: Record<string, unknown> = {}
+    let params: URLSearchParams
+    try {
+      params = new URL(url, window.location.origin).searchParams
+    } catch {
+      params = new URLSearchParams()
+    }
+    params.forEach((value, key) => {
+      query[key] = value
+      if (FILTER_PARAM.test(key) && value !== '') filters[key] = value
+    })
+
+    // Grid requests nest theirs under {request}
+    for (const source of [body, body?.request as Record<string, unknown> | undefined]) {
+      if (!source || typeof source !== 'object') continue
+      for (const key of FILTER_BODY_KEYS) {
+        if (!isEmptyFilter(source[key])) filters[key] = source[key]
+      }
+    }
+
+    return {
+      method: method.toUpperCase(),
+      query,
+      filters,
+      page: toNumber(params.get('page')),
+      perPage: toNumber(params.get('per_page')),
+    }
+  }
+
+  // AG Grid server-side requests post the block they want:
+  // {startRow, endRow, rowGroupCols, groupKeys, ...}, sometimes wrapped in {request}
+  function readGridRequest(body: Record<string, unknown> | undefined): WiretapGridRequest | undefined {
+    const request = (body?.request ?? body) as Record<string, unknown> | undefined
+    if (!request || typeof request !== 'object') return undefined
+    if (typeof request.startRow !== 'number' && !Array.isArray(request.groupKeys)) return undefined
+
+    return {
+      startRow: typeof request.startRow === 'number' ? request.startRow : undefined,
+      endRow: typeof request.endRow === 'number' ? request.endRow : undefined,
+      groupKeys: Array.isArray(request.groupKeys) ? request.groupKeys.map(String) : undefined,
+      rowGroupFields: Array.isArray(request.rowGroupCols)
+        ? request.rowGroupCols.map((col: { field?: string; id?: string }) => col?.field ?? col?.id ?? '')
+        : undefined,
+    }
+  }
+
   function isRelevantUrl(url: string | null): boolean {
     if (!url) return false
 
@@ -74,7 +433,7 @@
       return true
     }
     // AG Grid server-side row model requests (Procore uses AG Grid)
-    if (lower.includes('server_side') || lower.includes('serverside')) {
+    if (isServerSideUrl(lower)) {
       return true
     }
 
@@ -83,24 +442,53 @@
       return true
     }
 
-    // 3. Commitments
-    if (lower.includes('commitment') || lower.includes('contract')) {
+    // 3. Submittals (list endpoints and the submittal log)
+    if (lower.includes('/submittal')) {
+      return true
+    }
+
+    // 4. Punch list
+    if (lower.includes('punch_item') || lower.includes('/punch_list')) {
       return true
     }
 
-    // 4. Specifications
+    // 5. Commitments, change events, commitment change orders and the budget
+    if (lower.includes('commitment') || lower.includes('contract') ||
+        lower.includes('change_event') || lower.includes('change_order') || lower.includes('budget')) {
+      return true
+    }
+
+    // 6. Specifications
     if (lower.includes('/specification') || lower.includes('specification_sections') || lower.includes('specification_section_divisions')) {
       return true
     }
 
+    // 7. Directory (project users and vendor companies)
+    if (lower.includes('/directory') || lower.includes('/users') || lower.includes('/vendors')) {
+      return true
+    }
+
+    // 8. Documents (folder contents list subfolders and files)
+    if (lower.includes('/folders') || lower.includes('/documents')) {
+      return true
+    }
+
+    // 9. Schedule tasks
+    if (lower.includes('/schedule') || lower.includes('/tasks') || lower.includes('/calendar')) {
+      return true
+    }
+
+    // 10. Project and company records (names for the project selector)
+    if (/\/projects(\/\d+)?\/?(\?|$)/.test(lower) || /\/companies(\/\d+)?\/?(\?|$)/.test(lower)) {
+      return true
+    }
+
     return false
   }
 
   // --- FETCH INTERCEPTOR ---
   const originalFetch = window.fetch
   window.fetch = async function(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
-    const response = await originalFetch.call(window, input, init)
-
     // Handle Request object or string URL
     let url: string
     if (input instanceof Request) {
@@ -111,7 +499,19 @@
       url = input
     }
 
-    if (isRelevantUrl(url)) {
+    const method = init?.method ?? (input instanceof Request ? input.method : 'GET')
+    const isRelevant = isRelevantUrl(url)
+
+    // POST bodies carry grid blocks and filters; read before fetch consumes them
+    const requestBody: Promise<unknown> | undefined = isRelevant && method.toUpperCase() !== 'GET'
+      ? (init?.body !== undefined && init.body !== null
+        ? Promise.resolve(init.body)
+        : input instanceof Request ? input.clone().text().catch(() => undefined) : undefined)
+      : undefined
+
+    const response = await originalFetch.call(window, input, init)
+
+    if (isRelevant) {
       const clone = response.clone()
 
       // Capture pagination headers
@@ -122,9 +522,9 @@
 
       const contentType = response.headers.get('content-type')
       if (contentType?.includes('application/json')) {
-        clone.json()
-          .then((data) => broadcast(data, url, headers))
-          .catch(() => { /* Ignore JSON parse errors */ })
+        Promise.all([clone.text(), requestBody])
+          .then(([text, body]) => capture(text, url, headers, method, body))
+          .catch(() => { /* Ignore unreadable bodies */ })
       }
     }
 
@@ -132,6 +532,13 @@
   }
 
   // --- XHR INTERCEPTOR ---
+  const xhrMethods = new WeakMap<XMLHttpRequest, string>()
+  const originalXHROpen = XMLHttpRequest.prototype.open
+  XMLHttpRequest.prototype.open = function(this: XMLHttpRequest, method: string, ...rest: unknown[]) {
+    xhrMethods.set(this, method)
+    return (originalXHROpen as (...args: unknown[]) => void).call(this, method, ...rest)
+  } as typeof XMLHttpRequest.prototype.open
+
   const originalXHRSend = XMLHttpRequest.prototype.send
   XMLHttpRequest.prototype.send = function(body?: Document | XMLHttpRequestBodyInit | null) {
     this.addEventListener('load', function(this: XMLHttpRequest) {
@@ -144,11 +551,10 @@
               total: this.getResponseHeader('total'),
               perPage: this.getResponseHeader('per-page'),
             }
-            const data = JSON.parse(this.responseText)
-            broadcast(data, url, headers)
+            capture(this.responseText, url, headers, xhrMethods.get(this) ?? 'GET', body)
           }
         } catch {
-          /* Ignore parse errors */
+          /* responseText is unavailable for non-text response types */
         }
       }
     })
@@ -7,13 +7,16 @@
  * The side panel should send messages to the background to trigger scans.
  */
 
-import type { Drawing, RFI, Commitment, Specification, DisciplineMap, DivisionMap } from '@/types'
+import type { Drawing, DrawingRevision, RFI, Submittal, PunchItem, Commitment, ChangeEvent, CommitmentChangeOrder, BudgetLineItem, Specification, DirectoryPerson, DirectoryCompany, DocumentFolder, DocumentFile, ScheduleTask, DisciplineMap, DivisionMap, ProjectNames } from '@/types'
+import { readProjectNames } from './projects'
 
 const PROCORE_BASE = 'https://app.procore.com'
 
 export interface FetchOptions {
   signal?: AbortSignal
   onProgress?: (loaded: number, total: number | null) => void
+  // Called once a paginated fetch ends; false if it gave up early (errors or page limit)
+  onComplete?: (complete: boolean) => void
 }
 
 interface PaginatedResponse<T> {
@@ -22,6 +25,62 @@ interface PaginatedResponse<T> {
   perPage: number | null
 }
 
+// Cost fields come back as numbers or decimal strings ("1250.00") depending on the endpoint
+function toAmount(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value === 'string' && value.trim() !== '') {
+    const amount = Number(value)
+    return Number.isFinite(amount) ? amount : undefined
+  }
+  return undefined
+}
+
+function toId(value: unknown): number | undefined {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && /^\d+$/.test(value)) return parseInt(value, 10)
+  if (value && typeof value === 'object' && 'id' in value) return toId((value as { id: unknown }).id)
+  return undefined
+}
+
+// Paging is judged on the raw rows: normalizing drops some, and a short
+// normalized page is not the end of the list. A list that ends with fewer
+// rows than the server counted changed while paging, and is not complete.
+function isLastPage(response: PaginatedResponse<unknown>, fetched: number, perPage: number): boolean {
+  if (response.data.length === 0) return true
+  return response.total !== null ? fetched >= response.total : response.data.length < perPage
+}
+
+// Cost codes come as { full_code, name }, as "03-300 - Concrete", or only as a WBS code
+function costCodeOf(item: Record<string, unknown>): { code?: string; name?: string } {
+  const value = item.cost_code ?? item.wbs_code
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const code = (record.full_code || record.flat_code || record.code) as string | undefined
+    return { code: code ? String(code) : undefined, name: nameOf(record) || (record.description as string | undefined) || undefined }
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const [code, ...name] = value.split(' - ')
+    return { code: code.trim(), name: name.join(' - ').trim() || (item.cost_code_name as string | undefined) || undefined }
+  }
+  return {}
+}
+
+// "Specs/Div 03.pdf" -> "pdf"
+function extensionOf(name: string): string | undefined {
+  const match = name.match(/\.([a-z0-9]{1,8})$/i)
+  return match ? match[1].toLowerCase() : undefined
+}
+
+function nameOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value || undefined
+  if (value && typeof value === 'object') {
+    const record = value as { name?: unknown; login?: unknown }
+    if (typeof record.name === 'string') return record.name
+    if (typeof record.login === 'string') return record.login
+  }
+  return undefined
+}
+
 export const ApiService = {
   /**
    * Generic fetch wrapper with credentials and error handling
@@ -88,6 +147,8 @@ export const ApiService = {
     const perPage = 500
     let hasMore = true
     let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
 
     console.log('ApiService: Starting drawing fetch for project', projectId, 'area', drawingAreaId)
 
@@ -96,20 +157,21 @@ export const ApiService = {
         const url = `${PROCORE_BASE}/rest/v1.1/projects/${projectId}/drawing_areas/${drawingAreaId}/drawing_log?page=${page}&per_page=${perPage}`
         
         const response = await this.fetchPaginated<unknown>(url, options)
-        const drawings = this.normalizeDrawings(response.data)
+        const drawings = this.normalizeDrawings(response.data, drawingAreaId)
         
         console.log('ApiService: Page', page, 'returned', drawings.length, 'drawings')
         
         allDrawings.push(...drawings)
         consecutiveErrors = 0
+        rawFetched += response.data.length
         
         if (options?.onProgress) {
           options.onProgress(allDrawings.length, response.total)
         }
 
-        // Stop conditions
-        if (drawings.length === 0 || drawings.length < perPage) {
+        if (isLastPage(response, rawFetched, perPage)) {
           hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
         } else {
           page++
         }
@@ -117,6 +179,7 @@ export const ApiService = {
         // Safety limit
         if (page > 100) {
           console.warn('ApiService: Hit page limit, stopping')
+          complete = false
           hasMore = false
         }
       } catch (error) {
@@ -124,12 +187,14 @@ export const ApiService = {
         consecutiveErrors++
         if (consecutiveErrors >= 3) {
           console.error('ApiService: Too many consecutive errors, stopping')
+          complete = false
           hasMore = false
         }
       }
     }
 
     console.log('ApiService: Finished, total drawings:', allDrawings.length)
+    options?.onComplete?.(complete)
     return allDrawings
   },
 
@@ -155,7 +220,7 @@ export const ApiService = {
     }
   },
 
-  normalizeDrawings(data: unknown[]): Drawing[] {
+  normalizeDrawings(data: unknown[], drawingAreaId?: string): Drawing[] {
     return data
       .filter((item): item is Record<string, unknown> => 
         item !== null && typeof item === 'object' && 'id' in item
@@ -176,9 +241,83 @@ export const ApiService = {
             ? (item.discipline as { name?: string }).name 
             : undefined)
         ) as string | undefined,
+        revision: this.getRevisionNumber(item),
+        drawing_area_id: drawingAreaId,
       }))
   },
 
+  /**
+   * Current revision number from a drawing log item.
+   * Procore nests it under current_revision, some endpoints flatten it.
+   */
+  getRevisionNumber(item: Record<string, unknown>): string | undefined {
+    const current = item.current_revision as Record<string, unknown> | undefined
+    const value = current?.revision_number ?? item.revision_number
+    return value !== undefined && value !== null ? String(value) : undefined
+  },
+
+  // ============================================
+  // DRAWING REVISIONS
+  // ============================================
+
+  async fetchDrawingRevisions(
+    projectId: string,
+    drawingAreaId: string,
+    drawingId: number,
+    options?: FetchOptions
+  ): Promise<DrawingRevision[]> {
+    const url = `${PROCORE_BASE}/rest/v1.0/projects/${projectId}/drawing_revisions?drawing_area_id=${drawingAreaId}&filters[drawing_id]=${drawingId}&per_page=100`
+
+    try {
+      const response = await this.fetchPaginated<unknown>(url, options)
+      const revisions = this.normalizeDrawingRevisions(response.data, drawingId)
+      console.log('ApiService: Fetched', revisions.length, 'revisions for drawing', drawingId)
+      return revisions
+    } catch (error) {
+      console.error('ApiService: Error fetching drawing revisions', error)
+      return []
+    }
+  },
+
+  /**
+   * Normalize drawing revision items.
+   * fallbackDrawingId is used for current_revision objects nested in drawing log items,
+   * which don't carry their parent drawing's id.
+   */
+  normalizeDrawingRevisions(data: unknown[], fallbackDrawingId?: number): DrawingRevision[] {
+    return data
+      .filter((item): item is Record<string, unknown> => 
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .filter(item => item.revision_number !== undefined && item.revision_number !== null)
+      .map(item => {
+        const drawingId = item.drawing_id ??
+          (item.drawing && typeof item.drawing === 'object' ? (item.drawing as { id?: number }).id : undefined) ??
+          fallbackDrawingId
+        const drawingSet = item.drawing_set as { name?: string } | undefined
+        const receivedFrom = item.received_from
+        
+        return {
+          id: typeof item.id === 'string' ? parseInt(item.id, 10) : item.id as number,
+          drawing_id: typeof drawingId === 'string' ? parseInt(drawingId, 10) : drawingId as number,
+          num: (item.number || item.drawing_number) as string | undefined,
+          title: item.title as string | undefined,
+          revision_number: String(item.revision_number),
+          drawing_date: item.drawing_date as string | undefined,
+          received_date: item.received_date as string | undefined,
+          issued_date: item.issued_date as string | undefined,
+          received_from: (
+            receivedFrom && typeof receivedFrom === 'object'
+              ? (receivedFrom as { name?: string }).name
+              : receivedFrom
+          ) as string | undefined,
+          set_name: (drawingSet?.name || item.drawing_set_name) as string | undefined,
+          current: item.current as boolean | undefined,
+        }
+      })
+      .filter(revision => !!revision.drawing_id)
+  },
+
   // ============================================
   // RFIs
   // ============================================
@@ -192,6 +331,8 @@ export const ApiService = {
     const perPage = 100
     let hasMore = true
     let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
 
     while (hasMore && consecutiveErrors < 3) {
       try {
@@ -202,29 +343,34 @@ export const ApiService = {
         
         allRFIs.push(...rfis)
         consecutiveErrors = 0
+        rawFetched += response.data.length
         
         if (options?.onProgress) {
           options.onProgress(allRFIs.length, response.total)
         }
 
-        if (rfis.length === 0 || rfis.length < perPage) {
+        if (isLastPage(response, rawFetched, perPage)) {
           hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
         } else {
           page++
         }
         
         if (page > 100) {
+          complete = false
           hasMore = false
         }
       } catch (error) {
         console.error('ApiService: Error fetching RFIs page', page, error)
         consecutiveErrors++
         if (consecutiveErrors >= 3) {
+          complete = false
           hasMore = false
         }
       }
     }
 
+    options?.onComplete?.(complete)
     return allRFIs
   },
 
@@ -245,6 +391,197 @@ export const ApiService = {
       }))
   },
 
+  // ============================================
+  // SUBMITTALS
+  // ============================================
+
+  async fetchSubmittals(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<Submittal[]> {
+    const allSubmittals: Submittal[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/projects/${projectId}/submittals?page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const submittals = this.normalizeSubmittals(response.data)
+
+        allSubmittals.push(...submittals)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allSubmittals.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          // Fewer rows than the server counted: the list changed, or paging went wrong
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching submittals page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allSubmittals
+  },
+
+  /**
+   * Normalize submittal items from the REST API or the submittal log.
+   * Status, spec section and ball in court come as objects or plain strings
+   * depending on the endpoint.
+   */
+  normalizeSubmittals(data: unknown[]): Submittal[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .map(item => {
+        const section = item.specification_section as { number?: string; description?: string; label?: string } | string | undefined
+        const specSection = typeof section === 'string'
+          ? section
+          : section?.label || [section?.number, section?.description].filter(Boolean).join(' - ') || undefined
+        const ballInCourt = Array.isArray(item.ball_in_court)
+          ? item.ball_in_court.map(nameOf).filter(Boolean).join(', ')
+          : nameOf(item.ball_in_court)
+        const revision = item.revision ?? item.revision_number
+
+        return {
+          id: typeof item.id === 'string' ? parseInt(item.id, 10) : item.id as number,
+          number: String(item.number ?? item.formatted_number ?? ''),
+          title: (item.title || '') as string,
+          revision: revision !== undefined && revision !== null && revision !== '' ? String(revision) : undefined,
+          status: nameOf(item.status) || 'unknown',
+          spec_section: specSection,
+          ball_in_court: ballInCourt || undefined,
+          due_date: (item.due_date || item.final_due_date) as string | undefined,
+          required_on_site_date: item.required_on_site_date as string | undefined,
+          created_at: item.created_at as string | undefined,
+        }
+      })
+  },
+
+  // ============================================
+  // PUNCH ITEMS
+  // ============================================
+
+  async fetchPunchItems(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<PunchItem[]> {
+    const allPunchItems: PunchItem[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/punch_items?project_id=${projectId}&page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const punchItems = this.normalizePunchItems(response.data)
+
+        allPunchItems.push(...punchItems)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allPunchItems.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          // Fewer rows than the server counted: the list changed, or paging went wrong
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching punch items page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allPunchItems
+  },
+
+  /**
+   * Normalize punch items from the REST API or the punch list grid.
+   * Procore calls the item number "position" and the title "name"; the
+   * location is a node whose node_name holds the full path.
+   */
+  normalizePunchItems(data: unknown[]): PunchItem[] {
+    const namesOf = (value: unknown): string | undefined => {
+      if (!Array.isArray(value)) return nameOf(value)
+      const names = value
+        .map(entry => {
+          const record = entry as Record<string, unknown> | null
+          // Assignments wrap the person: { login_information: { name } } or { assignee: { name } }
+          return nameOf(record?.login_information) || nameOf(record?.assignee) || nameOf(record?.vendor) || nameOf(entry)
+        })
+        .filter((name): name is string => !!name)
+      return names.length > 0 ? Array.from(new Set(names)).join(', ') : undefined
+    }
+
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .map(item => {
+        const location = item.location as { node_name?: string; name?: string } | string | null | undefined
+        const number = item.position ?? item.number
+
+        return {
+          id: toId(item.id) as number,
+          number: number !== undefined && number !== null ? String(number) : '',
+          title: (item.name || item.title || '') as string,
+          location: typeof location === 'string'
+            ? location || undefined
+            : location?.node_name || location?.name || undefined,
+          status: nameOf(item.status) || nameOf(item.workflow_status) || 'unknown',
+          assignee: namesOf(item.assignments ?? item.assignees ?? item.assignee),
+          ball_in_court: namesOf(item.ball_in_court),
+          due_date: item.due_date as string | undefined,
+          created_at: item.created_at as string | undefined,
+        }
+      })
+  },
+
   // ============================================
   // COMMITMENTS
   // ============================================
@@ -330,6 +667,270 @@ export const ApiService = {
       }))
   },
 
+  // ============================================
+  // CHANGE EVENTS & CHANGE ORDERS
+  // ============================================
+
+  async fetchChangeEvents(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<ChangeEvent[]> {
+    const allChangeEvents: ChangeEvent[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/change_events?project_id=${projectId}&page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const changeEvents = this.normalizeChangeEvents(response.data)
+
+        allChangeEvents.push(...changeEvents)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allChangeEvents.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching change events page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allChangeEvents
+  },
+
+  /**
+   * Change events don't belong to a commitment themselves - the link comes
+   * from line items that name a contract, so the first one found is used.
+   */
+  normalizeChangeEvents(data: unknown[]): ChangeEvent[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .filter(item => 'number' in item && ('status' in item || 'change_event_status' in item))
+      .map(item => {
+        const lineItems = Array.isArray(item.line_items)
+          ? item.line_items
+          : Array.isArray(item.change_event_line_items) ? item.change_event_line_items : []
+        const commitmentId = toId(item.commitment_id ?? item.contract_id) ?? lineItems
+          .map(line => {
+            const record = line as Record<string, unknown> | null
+            return record ? toId(record.commitment_id ?? record.contract_id ?? record.contract) : undefined
+          })
+          .find(id => id !== undefined)
+
+        return {
+          id: toId(item.id) as number,
+          number: String(item.number ?? ''),
+          title: (item.title || item.description || '') as string,
+          status: nameOf(item.status ?? item.change_event_status) || 'unknown',
+          scope: nameOf(item.event_scope ?? item.scope),
+          change_reason: nameOf(item.change_reason),
+          amount: toAmount(item.estimated_cost_amount ?? item.rom_amount ?? item.total_amount ?? item.amount),
+          commitment_id: commitmentId,
+          created_at: item.created_at as string | undefined,
+        }
+      })
+  },
+
+  async fetchChangeOrders(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<CommitmentChangeOrder[]> {
+    const allChangeOrders: CommitmentChangeOrder[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/commitment_change_orders?project_id=${projectId}&page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const changeOrders = this.normalizeChangeOrders(response.data)
+
+        allChangeOrders.push(...changeOrders)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allChangeOrders.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching change orders page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allChangeOrders
+  },
+
+  normalizeChangeOrders(data: unknown[]): CommitmentChangeOrder[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .filter(item => 'number' in item && ('contract_id' in item || 'commitment_id' in item || 'grand_total' in item))
+      .map(item => ({
+        id: toId(item.id) as number,
+        number: String(item.number ?? ''),
+        title: (item.title || '') as string,
+        status: nameOf(item.status) || 'unknown',
+        amount: toAmount(item.grand_total ?? item.total_amount ?? item.amount),
+        commitment_id: toId(item.contract_id ?? item.commitment_id ?? item.contract),
+        due_date: item.due_date as string | undefined,
+        executed: typeof item.executed === 'boolean' ? item.executed : undefined,
+        created_at: item.created_at as string | undefined,
+      }))
+  },
+
+  /**
+   * Budget columns come from a budget view's detail rows; the plain
+   * budget_line_items endpoint only has the original amount. The project's
+   * standard view is used when there is one.
+   */
+  async fetchBudgetLineItems(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<BudgetLineItem[]> {
+    let rowsUrl = `${PROCORE_BASE}/rest/v1.0/budget_line_items?project_id=${projectId}`
+    try {
+      const views = await this.fetchJson<Array<{ id: number; name?: string }>>(
+        `${PROCORE_BASE}/rest/v1.0/budget_views?project_id=${projectId}`,
+        options
+      )
+      const view = views.find(v => /standard/i.test(v.name ?? '')) ?? views[0]
+      if (view) {
+        rowsUrl = `${PROCORE_BASE}/rest/v1.0/budget_views/${view.id}/detail_rows?project_id=${projectId}`
+      }
+    } catch (error) {
+      console.error('ApiService: Error fetching budget views, falling back to line items', error)
+    }
+
+    const allLineItems: BudgetLineItem[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${rowsUrl}&page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const lineItems = this.normalizeBudgetLineItems(response.data)
+
+        allLineItems.push(...lineItems)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allLineItems.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching budget page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allLineItems
+  },
+
+  /**
+   * Normalize budget line items and budget view detail rows. Column names
+   * differ between the two; the revised budget is derived when only the
+   * original budget and approved changes are present.
+   */
+  normalizeBudgetLineItems(data: unknown[]): BudgetLineItem[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .map(item => {
+        const { code, name } = costCodeOf(item)
+        const original = toAmount(item.original_budget_amount ?? item.original_budget ?? item.amount)
+        const approved = toAmount(item.approved_budget_changes ?? item.approved_changes ?? item.approved_cos)
+
+        return {
+          id: toId(item.id) as number,
+          cost_code: code ?? '',
+          cost_code_name: name,
+          category: nameOf(item.line_item_type) || nameOf(item.category) || nameOf(item.cost_type) || undefined,
+          original_budget: original,
+          approved_changes: approved,
+          revised_budget: toAmount(item.revised_budget ?? item.revised_budget_amount) ??
+            (original !== undefined ? original + (approved ?? 0) : undefined),
+          committed_costs: toAmount(item.committed_costs ?? item.committed_cost),
+          projected_costs: toAmount(item.projected_costs ?? item.projected_cost),
+        }
+      })
+      .filter(lineItem => lineItem.id !== undefined && !!lineItem.cost_code)
+  },
+
   // ============================================
   // SPECIFICATIONS
   // ============================================
@@ -344,6 +945,8 @@ export const ApiService = {
     const perPage = 100
     let hasMore = true
     let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
 
     console.log('ApiService: Starting specification fetch for project', projectId, 'company', companyId)
 
@@ -359,31 +962,36 @@ export const ApiService = {
         
         allSpecifications.push(...specifications)
         consecutiveErrors = 0
+        rawFetched += response.data.length
         
         if (options?.onProgress) {
           options.onProgress(allSpecifications.length, response.total)
         }
 
-        if (specifications.length === 0 || specifications.length < perPage) {
+        if (isLastPage(response, rawFetched, perPage)) {
           hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
         } else {
           page++
         }
         
         if (page > 100) {
           console.warn('ApiService: Hit page limit, stopping')
+          complete = false
           hasMore = false
         }
       } catch (error) {
         console.error('ApiService: Error fetching specifications page', page, error)
         consecutiveErrors++
         if (consecutiveErrors >= 3) {
+          complete = false
           hasMore = false
         }
       }
     }
 
     console.log('ApiService: Finished, total specifications:', allSpecifications.length)
+    options?.onComplete?.(complete)
     return allSpecifications
   },
 
@@ -439,6 +1047,355 @@ export const ApiService = {
       }))
   },
 
+  // ============================================
+  // DIRECTORY
+  // ============================================
+
+  async fetchPeople(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<DirectoryPerson[]> {
+    const allPeople: DirectoryPerson[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/projects/${projectId}/users?page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const people = this.normalizePeople(response.data)
+
+        allPeople.push(...people)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allPeople.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching directory users page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allPeople
+  },
+
+  /**
+   * Normalize directory users. The REST API splits first and last name and
+   * nests the person's company as vendor: { id, name }.
+   */
+  normalizePeople(data: unknown[]): DirectoryPerson[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .map(item => {
+        const fullName = [item.first_name, item.last_name].filter(Boolean).join(' ')
+
+        return {
+          id: toId(item.id) as number,
+          name: (item.name as string | undefined) || fullName || nameOf(item.login) || '',
+          company: nameOf(item.vendor) || nameOf(item.company) || (item.vendor_name as string | undefined) || undefined,
+          company_id: toId(item.vendor ?? item.vendor_id),
+          role: (item.job_title as string | undefined) || nameOf(item.permission_template) || undefined,
+          email: (item.email_address || item.email || undefined) as string | undefined,
+          phone: (item.business_phone || item.mobile_phone || undefined) as string | undefined,
+        }
+      })
+      .filter(person => !!person.name)
+  },
+
+  async fetchCompanies(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<DirectoryCompany[]> {
+    const allCompanies: DirectoryCompany[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/projects/${projectId}/vendors?page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const companies = this.normalizeCompanies(response.data)
+
+        allCompanies.push(...companies)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allCompanies.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching directory vendors page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allCompanies
+  },
+
+  // Vendors list their trades as [{ id, name }]; older payloads only have trade_name
+  normalizeCompanies(data: unknown[]): DirectoryCompany[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .map(item => {
+        const trades = Array.isArray(item.trades)
+          ? item.trades.map(trade => nameOf(trade)).filter((name): name is string => !!name)
+          : []
+
+        return {
+          id: toId(item.id) as number,
+          name: (item.name || '') as string,
+          trade: trades.length > 0 ? trades.join(', ') : (item.trade_name as string | undefined) || undefined,
+          email: (item.email_address || undefined) as string | undefined,
+          phone: (item.business_phone || item.mobile_phone || undefined) as string | undefined,
+        }
+      })
+      .filter(company => !!company.name)
+  },
+
+  // ============================================
+  // DOCUMENTS
+  // ============================================
+
+  /**
+   * Walk the Documents tool folder tree. Each folder request returns its
+   * direct subfolders and files, so the tree is fetched one folder at a time
+   * starting from the project root.
+   */
+  async fetchDocuments(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<{ folders: DocumentFolder[]; files: DocumentFile[] }> {
+    const folders: DocumentFolder[] = []
+    const files: DocumentFile[] = []
+    // null is the root folder
+    const queue: Array<number | null> = [null]
+    const visited = new Set<number>()
+    let consecutiveErrors = 0
+    let complete = true
+
+    while (queue.length > 0 && consecutiveErrors < 3) {
+      const folderId = queue.shift() as number | null
+      try {
+        const url = folderId === null
+          ? `${PROCORE_BASE}/rest/v1.0/folders?project_id=${projectId}`
+          : `${PROCORE_BASE}/rest/v1.0/folders/${folderId}?project_id=${projectId}`
+
+        const response = await this.fetchJson<Record<string, unknown>>(url, options)
+        consecutiveErrors = 0
+
+        // The response is the folder itself, with its children nested
+        const [folder] = this.normalizeDocumentFolders([response])
+        if (folder && !visited.has(folder.id)) {
+          visited.add(folder.id)
+          folders.push(folder)
+        }
+
+        const subfolders = this.normalizeDocumentFolders(Array.isArray(response.folders) ? response.folders : [])
+        for (const subfolder of subfolders) {
+          if (visited.has(subfolder.id)) continue
+          visited.add(subfolder.id)
+          folders.push(subfolder)
+          queue.push(subfolder.id)
+        }
+        files.push(...this.normalizeDocumentFiles(Array.isArray(response.files) ? response.files : []))
+
+        if (options?.onProgress) {
+          options.onProgress(folders.length - queue.length, folders.length)
+        }
+
+        if (visited.size > 2000) {
+          complete = false
+          break
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching document folder', folderId ?? 'root', error)
+        // A folder we could not read leaves a gap in the tree
+        complete = false
+        consecutiveErrors++
+      }
+    }
+
+    if (queue.length > 0) complete = false
+    options?.onComplete?.(complete)
+    return { folders, files }
+  },
+
+  // Deleted items and the recycle bin show up in folder listings too
+  normalizeDocumentFolders(data: unknown[]): DocumentFolder[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item &&
+        !(item as Record<string, unknown>).is_deleted && !(item as Record<string, unknown>).is_recycle_bin
+      )
+      .map(item => ({
+        id: toId(item.id) as number,
+        name: (item.name || '') as string,
+        parent_id: toId(item.parent_id),
+        path: (item.name_with_path as string | undefined) || undefined,
+      }))
+  },
+
+  normalizeDocumentFiles(data: unknown[]): DocumentFile[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item &&
+        !(item as Record<string, unknown>).is_deleted
+      )
+      .map(item => {
+        const name = (item.name || '') as string
+        const versions = Array.isArray(item.file_versions) ? item.file_versions as Array<Record<string, unknown>> : []
+        const latest = versions[versions.length - 1]
+
+        return {
+          id: toId(item.id) as number,
+          name,
+          folder_id: toId(item.parent_id ?? item.folder_id),
+          path: (item.name_with_path as string | undefined) || undefined,
+          file_type: extensionOf(name),
+          size: toAmount(item.size ?? latest?.size),
+          updated_at: (item.updated_at || latest?.created_at || undefined) as string | undefined,
+        }
+      })
+      .filter(file => !!file.name)
+  },
+
+  // ============================================
+  // SCHEDULE
+  // ============================================
+
+  async fetchScheduleTasks(
+    projectId: string,
+    options?: FetchOptions
+  ): Promise<ScheduleTask[]> {
+    const allTasks: ScheduleTask[] = []
+    let page = 1
+    const perPage = 100
+    let hasMore = true
+    let consecutiveErrors = 0
+    let complete = true
+    let rawFetched = 0
+
+    while (hasMore && consecutiveErrors < 3) {
+      try {
+        const url = `${PROCORE_BASE}/rest/v1.0/tasks?project_id=${projectId}&page=${page}&per_page=${perPage}`
+
+        const response = await this.fetchPaginated<unknown>(url, options)
+        const tasks = this.normalizeScheduleTasks(response.data)
+
+        allTasks.push(...tasks)
+        consecutiveErrors = 0
+        rawFetched += response.data.length
+
+        if (options?.onProgress) {
+          options.onProgress(allTasks.length, response.total)
+        }
+
+        if (isLastPage(response, rawFetched, perPage)) {
+          hasMore = false
+          if (response.total !== null && rawFetched < response.total) complete = false
+        } else {
+          page++
+        }
+
+        if (page > 100) {
+          complete = false
+          hasMore = false
+        }
+      } catch (error) {
+        console.error('ApiService: Error fetching schedule tasks page', page, error)
+        consecutiveErrors++
+        if (consecutiveErrors >= 3) {
+          complete = false
+          hasMore = false
+        }
+      }
+    }
+
+    options?.onComplete?.(complete)
+    return allTasks
+  },
+
+  /**
+   * Normalize schedule tasks. The REST API uses start_date/finish_date and
+   * percentage; the schedule page's own payloads use start/finish and
+   * percent_complete, with resources as [{ name }].
+   */
+  normalizeScheduleTasks(data: unknown[]): ScheduleTask[] {
+    return data
+      .filter((item): item is Record<string, unknown> =>
+        item !== null && typeof item === 'object' && 'id' in item
+      )
+      .map(item => {
+        const resourceList = Array.isArray(item.resources) ? item.resources
+          : Array.isArray(item.resource_names) ? item.resource_names
+          : []
+        const resources = resourceList.map(resource => nameOf(resource)).filter((name): name is string => !!name)
+
+        return {
+          id: toId(item.id) as number,
+          name: (item.name || item.title || '') as string,
+          parent_id: toId(item.parent_id ?? item.parent),
+          start: (item.start_date || item.start || undefined) as string | undefined,
+          finish: (item.finish_date || item.finish || item.end_date || undefined) as string | undefined,
+          percent_complete: toAmount(item.percentage ?? item.percent_complete),
+          resource: resources.length > 0
+            ? resources.join(', ')
+            : (item.resource_name as string | undefined) || nameOf(item.resource) || undefined,
+        }
+      })
+      .filter(task => !!task.name)
+  },
+
   // ============================================
   // PROJECT INFO
   // ============================================
@@ -453,6 +1410,40 @@ export const ApiService = {
     }
   },
 
+  /**
+   * Project and company names from the project endpoint. It needs the
+   * company id; when that isn't known, the user's companies are tried in turn.
+   * Returns an empty object if the project can't be read.
+   */
+  async fetchProjectNames(projectId: string, companyId?: string, options?: FetchOptions): Promise<ProjectNames> {
+    let companies: Array<{ id: number; name?: string }> = []
+    if (!companyId) {
+      try {
+        companies = await this.fetchJson(`${PROCORE_BASE}/rest/v1.0/companies`, options)
+      } catch (error) {
+        console.error('ApiService: Error fetching companies', error)
+        return {}
+      }
+    }
+
+    const companyIds = companyId ? [companyId] : companies.slice(0, 10).map(c => String(c.id))
+    for (const id of companyIds) {
+      try {
+        const project = await this.fetchJson<Record<string, unknown>>(
+          `${PROCORE_BASE}/rest/v1.0/projects/${projectId}?company_id=${id}`,
+          options
+        )
+        const names: ProjectNames = { companyId: id, ...readProjectNames(project) }
+        const companyName = companies.find(c => String(c.id) === id)?.name
+        if (companyName && !names.companyName) names.companyName = companyName
+        return names
+      } catch {
+        // Not this company's project (or not visible to the user) - try the next one
+      }
+    }
+    return {}
+  },
+
   parseProjectUrl(url: string): { companyId: string | null; projectId: string | null; drawingAreaId: string | null } {
     const projectMatch = url.match(/projects\/(\d+)/) || url.match(/\/(\d+)\/project/)
     const areaMatch = url.match(/areas\/(\d+)/) || url.match(/drawing_areas\/(\d+)/)
@@ -0,0 +1,687 @@
+/**
+ * BackupService - Export and restore all Power-Up data
+ *
+ * A backup is a single JSON file with every cached project (entities,
+ * discipline/division maps, status colors and their labels, recents,
+ * favorites folders, notes, tags)
+ * plus the global preferences in PREFERENCE_KEYS.
+ *
+ * Restore modes:
+ * - merge: missing entities are added and empty fields filled, maps and
+ *   colors gain the keys missing locally, favorites
+ *   folders and tags with the same name are unioned, the newer of two notes wins,
+ *   local status color labels are kept if the project has any, pins are
+ *   unioned with the local pinboard.
+ *   Nothing local is deleted.
+ * - replace: every local project is deleted and the backup is loaded as-is.
+ */
+
+import { StorageService } from './storage'
+import { getLatestSchemaVersion, upgradeProjectBackup } from './migrations'
+import {
+  drawingRefKey,
+  sameDrawingRef,
+  compareDrawingRefs,
+  repairDrawingRefs,
+  upgradeRecents,
+  upgradeFavorites,
+  upgradeStatusColors,
+} from './drawing-refs'
+import { emptyProjectTags, mergeProjectTags, normalizeTagName } from './tags'
+import { getProjectName } from './projects'
+import { normalizeStatusColorScheme } from './status-colors'
+import { pinId } from './pins'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import type {
+  BackupFile,
+  ProjectBackup,
+  RestoreMode,
+  RestorePreview,
+  RestoreProjectPreview,
+  RestoreSectionPreview,
+  DatabaseName,
+  DisciplineMap,
+  FavoritesData,
+  FavoriteFolder,
+  RecentsList,
+  DrawingRef,
+  EntityNotes,
+  ProjectTags,
+  StatusColorScheme,
+  Pin,
+} from '@/types'
+
+const BACKUP_FORMAT = 'procore-power-up-backup'
+const BACKUP_VERSION = 1
+
+// Recents are capped at 5 in StorageService.addRecent
+const MAX_RECENTS = 5
+
+const BACKED_UP_DATABASES: DatabaseName[] = [
+  'pp-drawings',
+  'pp-drawing-revisions',
+  'pp-rfis',
+  'pp-submittals',
+  'pp-punch',
+  'pp-commitments',
+  'pp-specifications',
+  'pp-directory',
+  'pp-documents',
+  'pp-schedule',
+  'pp-projects',
+  'pp-preferences',
+]
+
+// Marker so "not set" can be told apart from a stored falsy value
+const UNSET = Symbol('unset')
+
+// ============================================
+// DIFF HELPERS
+// ============================================
+
+function diffById<T extends { id: number }>(
+  label: string,
+  existing: T[],
+  incoming: T[],
+  mode: RestoreMode
+): RestoreSectionPreview {
+  const existingById = new Map(existing.map(item => [item.id, item]))
+  const incomingIds = new Set(incoming.map(item => item.id))
+  let added = 0
+  let updated = 0
+
+  for (const item of incoming) {
+    const current = existingById.get(item.id)
+    if (!current) {
+      added++
+    } else if (mode === 'replace'
+      ? JSON.stringify(current) !== JSON.stringify(item)
+      // Merge only fills fields that are empty locally
+      : Object.entries(item).some(([field, value]) => {
+        const local = (current as Record<string, unknown>)[field]
+        return value !== undefined && field !== 'removed_at' && (local === undefined || local === null || local === '')
+      })) {
+      updated++
+    }
+  }
+
+  const removed = mode === 'replace'
+    ? existing.filter(item => !incomingIds.has(item.id)).length
+    : 0
+
+  return { label, added, updated, removed }
+}
+
+function diffByKey(
+  label: string,
+  existing: object,
+  incoming: object,
+  mode: RestoreMode
+): RestoreSectionPreview {
+  const current = existing as Record<string, unknown>
+  let added = 0
+  let updated = 0
+
+  for (const [key, value] of Object.entries(incoming)) {
+    if (!(key in current)) {
+      added++
+    } else if (JSON.stringify(current[key]) !== JSON.stringify(value)) {
+      updated++
+    }
+  }
+
+  const removed = mode === 'replace'
+    ? Object.keys(existing).filter(key => !(key in incoming)).length
+    : 0
+
+  return { label, added, updated, removed }
+}
+
+function diffRecents(existing: RecentsList, incoming: RecentsList, mode: RestoreMode): RestoreSectionPreview {
+  const result = mode === 'replace' ? incoming : mergeRecents(existing, incoming)
+  return {
+    label: 'Recents',
+    added: result.filter(ref => !existing.some(e => sameDrawingRef(e, ref))).length,
+    updated: 0,
+    removed: existing.filter(ref => !result.some(r => sameDrawingRef(r, ref))).length,
+  }
+}
+
+function diffFavorites(existing: FavoritesData, incoming: FavoritesData, mode: RestoreMode): RestoreSectionPreview {
+  const result = mode === 'replace' ? incoming : mergeFavorites(existing, incoming)
+  const existingByName = new Map(existing.folders.map(f => [folderKey(f), f]))
+  const resultNames = new Set(result.folders.map(folderKey))
+  let added = 0
+  let updated = 0
+
+  for (const folder of result.folders) {
+    const current = existingByName.get(folderKey(folder))
+    if (!current) {
+      added++
+    } else if (refKeys(current.drawings) !== refKeys(folder.drawings)) {
+      updated++
+    }
+  }
+
+  return {
+    label: 'Favorite folders',
+    added,
+    updated,
+    removed: existing.folders.filter(f => !resultNames.has(folderKey(f))).length,
+  }
+}
+
+function diffTags(existing: ProjectTags, incoming: ProjectTags, mode: RestoreMode): RestoreSectionPreview {
+  const result = mode === 'replace' ? incoming : mergeProjectTags(existing, incoming)
+  const names = (data: ProjectTags) => new Set(data.tags.map(tag => normalizeTagName(tag.name)))
+  const existingNames = names(existing)
+  const resultNames = names(result)
+  const tagNames = (data: ProjectTags, key: string) =>
+    JSON.stringify((data.assignments[key] ?? [])
+      .map(id => normalizeTagName(data.tags.find(tag => tag.id === id)?.name ?? ''))
+      .sort())
+
+  return {
+    label: 'Tags',
+    added: [...resultNames].filter(name => !existingNames.has(name)).length,
+    updated: Object.keys(result.assignments).filter(key => tagNames(existing, key) !== tagNames(result, key)).length,
+    removed: [...existingNames].filter(name => !resultNames.has(name)).length,
+  }
+}
+
+function diffStatusColorScheme(
+  existing: StatusColorScheme | undefined,
+  incoming: StatusColorScheme | undefined,
+  mode: RestoreMode
+): RestoreSectionPreview {
+  const result = mode === 'replace' ? incoming : existing ?? incoming
+  const current = normalizeStatusColorScheme(existing)
+  const next = normalizeStatusColorScheme(result)
+  return {
+    label: 'Status color labels',
+    added: 0,
+    updated: next.options.filter((option, index) =>
+      JSON.stringify(option) !== JSON.stringify(current.options[index])).length,
+    removed: 0,
+  }
+}
+
+// ============================================
+// MERGE HELPERS
+// ============================================
+
+// Discipline IDs are unique across drawing areas, so the maps can be flattened for comparison
+function allDisciplines(backup: Pick<ProjectBackup, 'disciplineMap' | 'disciplineMaps'>): DisciplineMap {
+  return Object.assign({}, backup.disciplineMap, ...Object.values(backup.disciplineMaps))
+}
+
+function refKeys(refs: DrawingRef[]): string {
+  return JSON.stringify(refs.map(drawingRefKey).sort())
+}
+
+function unionRefs(existing: DrawingRef[], incoming: DrawingRef[]): DrawingRef[] {
+  const result = [...existing]
+  for (const ref of incoming) {
+    if (!result.some(r => sameDrawingRef(r, ref))) result.push(ref)
+  }
+  return result
+}
+
+function folderKey(folder: FavoriteFolder): string {
+  return folder.name.trim().toLowerCase()
+}
+
+// Merge keeps local entries and adds the keys only the backup has
+function mergeMap<T extends object>(existing: T, incoming: T, mode: RestoreMode): T {
+  return mode === 'replace' ? incoming : { ...incoming, ...existing }
+}
+
+function mergeRecents(existing: RecentsList, incoming: RecentsList): RecentsList {
+  // Local recents are more current than the backup, so they stay in front
+  return unionRefs(existing, incoming).slice(0, MAX_RECENTS)
+}
+
+function mergeNotes(existing: EntityNotes, incoming: EntityNotes): EntityNotes {
+  const notes = { ...existing }
+  for (const [key, note] of Object.entries(incoming)) {
+    if (!notes[key] || note.updatedAt > notes[key].updatedAt) notes[key] = note
+  }
+  return notes
+}
+
+// Pins from both sides, keyed by project, type and item; local pins win
+function mergePins(existing: Pin[], incoming: Pin[]): Pin[] {
+  const pins = [...existing]
+  const ids = new Set(existing.map(pinId))
+  for (const pin of incoming) {
+    const id = pinId(pin)
+    if (ids.has(id)) continue
+    ids.add(id)
+    pins.push({ ...pin, id })
+  }
+  return pins.sort((a, b) => b.pinnedAt - a.pinnedAt)
+}
+
+/**
+ * The value a restore writes for a global preference. Merging unions the
+ * pinboard, since it holds pins from every project; everything else is
+ * taken from the backup.
+ */
+async function restoredPreference(key: string, value: unknown, mode: RestoreMode): Promise<unknown> {
+  if (mode === 'merge' && key === PREFERENCE_KEYS.pinboard && Array.isArray(value)) {
+    return mergePins(await StorageService.getPins(), value as Pin[])
+  }
+  return value
+}
+
+function mergeFavorites(existing: FavoritesData, incoming: FavoritesData): FavoritesData {
+  const folders = existing.folders.map(f => ({ ...f, drawings: [...f.drawings] }))
+  const byName = new Map(folders.map(f => [folderKey(f), f]))
+  const usedIds = new Set(folders.map(f => f.id))
+
+  for (const folder of incoming.folders) {
+    const match = byName.get(folderKey(folder))
+    if (match) {
+      match.drawings = unionRefs(match.drawings, folder.drawings).sort(compareDrawingRefs)
+      continue
+    }
+    let id = folder.id
+    while (usedIds.has(id)) id++
+    usedIds.add(id)
+    const copy = { ...folder, id, drawings: [...folder.drawings] }
+    folders.push(copy)
+    byName.set(folderKey(copy), copy)
+  }
+
+  return { folders }
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export const BackupService = {
+  async createBackup(): Promise<BackupFile> {
+    const projects = await StorageService.getAllProjects()
+    const projectBackups: ProjectBackup[] = []
+
+    for (const project of projects) {
+      const projectBackup = await this.getProjectBackup(project.id)
+      if (projectBackup) projectBackups.push(projectBackup)
+    }
+
+    const preferences: Record<string, unknown> = {}
+    for (const key of Object.values(PREFERENCE_KEYS)) {
+      const value = await StorageService.getPreferences<unknown>(key, UNSET)
+      if (value !== UNSET) preferences[key] = value
+    }
+
+    const schemaVersions: Partial<Record<DatabaseName, number>> = {}
+    for (const database of BACKED_UP_DATABASES) {
+      const state = await StorageService.getSchemaState(database)
+      schemaVersions[database] = state?.version ?? getLatestSchemaVersion(database)
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      schemaVersions,
+      projects: projectBackups,
+      preferences,
+    }
+  },
+
+  async getProjectBackup(projectId: string): Promise<ProjectBackup | null> {
+    const project = await StorageService.getProject(projectId)
+    if (!project) return null
+
+    const [
+      drawings,
+      drawingRevisions,
+      disciplineMap,
+      disciplineMaps,
+      rfis,
+      submittals,
+      punchItems,
+      commitments,
+      changeEvents,
+      changeOrders,
+      budgetLineItems,
+      specifications,
+      divisionMap,
+      people,
+      companies,
+      documentFolders,
+      documentFiles,
+      scheduleTasks,
+      statusColors,
+      recents,
+      favorites,
+      notes,
+      tags,
+      statusColorScheme,
+    ] = await Promise.all([
+      StorageService.getDrawings(projectId),
+      StorageService.getDrawingRevisions(projectId),
+      StorageService.getUnassignedDisciplineMap(projectId),
+      StorageService.getAreaDisciplineMaps(projectId),
+      StorageService.getRFIs(projectId),
+      StorageService.getSubmittals(projectId),
+      StorageService.getPunchItems(projectId),
+      StorageService.getCommitments(projectId),
+      StorageService.getChangeEvents(projectId),
+      StorageService.getChangeOrders(projectId),
+      StorageService.getBudgetLineItems(projectId),
+      StorageService.getSpecifications(projectId),
+      StorageService.getDivisionMap(projectId),
+      StorageService.getPeople(projectId),
+      StorageService.getCompanies(projectId),
+      StorageService.getDocumentFolders(projectId),
+      StorageService.getDocumentFiles(projectId),
+      StorageService.getScheduleTasks(projectId),
+      StorageService.getStatusColors(projectId),
+      StorageService.getRecents(projectId),
+      StorageService.getFavorites(projectId),
+      StorageService.getNotes(projectId),
+      StorageService.getProjectTags(projectId),
+      StorageService.getSavedStatusColorScheme(projectId),
+    ])
+
+    return {
+      project,
+      drawings,
+      drawingRevisions,
+      disciplineMap,
+      disciplineMaps,
+      rfis,
+      submittals,
+      punchItems,
+      commitments,
+      changeEvents,
+      changeOrders,
+      budgetLineItems,
+      specifications,
+      divisionMap,
+      people,
+      companies,
+      documentFolders,
+      documentFiles,
+      scheduleTasks,
+      statusColors,
+      recents,
+      favorites,
+      notes,
+      tags,
+      statusColorScheme,
+    }
+  },
+
+  /**
+   * Parse and validate a backup file's contents.
+   * Throws an Error with a user-facing message if the file can't be restored.
+   */
+  parseBackup(text: string): BackupFile {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      throw new Error('File is not valid JSON')
+    }
+
+    const backup = data as Partial<BackupFile>
+    if (!backup || backup.format !== BACKUP_FORMAT) {
+      throw new Error('File is not a Power-Up backup')
+    }
+    if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+      throw new Error('Backup was created by a newer version of Power-Up')
+    }
+    for (const [database, version] of Object.entries(backup.schemaVersions ?? {})) {
+      if (typeof version === 'number' && version > getLatestSchemaVersion(database as DatabaseName)) {
+        throw new Error('Backup was created by a newer version of Power-Up')
+      }
+    }
+    if (!Array.isArray(backup.projects) || backup.projects.some(p => !p?.project?.id)) {
+      throw new Error('Backup is missing project data')
+    }
+
+    const schemaVersions = backup.schemaVersions ?? {}
+
+    // Fill in sections an older or hand-edited file may be missing, then
+    // bring the data up to the current schema before anything is stored
+    return {
+      format: BACKUP_FORMAT,
+      version: backup.version,
+      exportedAt: backup.exportedAt ?? 0,
+      schemaVersions,
+      preferences: backup.preferences ?? {},
+      projects: backup.projects.map(p => {
+        const upgraded = upgradeProjectBackup({
+          project: p.project,
+          drawings: p.drawings ?? [],
+          drawingRevisions: p.drawingRevisions ?? [],
+          disciplineMap: p.disciplineMap ?? {},
+          disciplineMaps: p.disciplineMaps ?? {},
+          rfis: p.rfis ?? [],
+          submittals: p.submittals ?? [],
+          punchItems: p.punchItems ?? [],
+          commitments: p.commitments ?? [],
+          changeEvents: p.changeEvents ?? [],
+          changeOrders: p.changeOrders ?? [],
+          budgetLineItems: p.budgetLineItems ?? [],
+          specifications: p.specifications ?? [],
+          divisionMap: p.divisionMap ?? {},
+          people: p.people ?? [],
+          companies: p.companies ?? [],
+          documentFolders: p.documentFolders ?? [],
+          documentFiles: p.documentFiles ?? [],
+          scheduleTasks: p.scheduleTasks ?? [],
+          // Older backups key favorites, recents and colors by drawing number only
+          statusColors: upgradeStatusColors(p.statusColors),
+          recents: upgradeRecents(p.recents),
+          favorites: upgradeFavorites(p.favorites),
+          notes: p.notes ?? {},
+          tags: p.tags ?? emptyProjectTags(),
+          statusColorScheme: p.statusColorScheme ? normalizeStatusColorScheme(p.statusColorScheme) : undefined,
+        }, schemaVersions)
+        const { statusColors, recents, favorites } = repairDrawingRefs(upgraded, upgraded.drawings)
+        return { ...upgraded, statusColors, recents, favorites }
+      }),
+    }
+  },
+
+  async previewRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+    const localProjects = await StorageService.getAllProjects()
+    const backupIds = new Set(backup.projects.map(p => p.project.id))
+    const projects: RestoreProjectPreview[] = []
+
+    for (const incoming of backup.projects) {
+      const projectId = incoming.project.id
+      const existing = await this.getProjectBackup(projectId)
+      const local = existing ?? { ...emptyProjectBackup(), project: incoming.project }
+
+      projects.push({
+        projectId,
+        name: getProjectName(incoming.project) || (existing ? getProjectName(existing.project) : undefined),
+        status: existing ? 'existing' : 'new',
+        sections: [
+          diffById('Drawings', local.drawings, incoming.drawings, mode),
+          diffById('Drawing revisions', local.drawingRevisions, incoming.drawingRevisions, mode),
+          diffById('RFIs', local.rfis, incoming.rfis, mode),
+          diffById('Submittals', local.submittals, incoming.submittals, mode),
+          diffById('Punch items', local.punchItems, incoming.punchItems, mode),
+          diffById('Commitments', local.commitments, incoming.commitments, mode),
+          diffById('Change events', local.changeEvents, incoming.changeEvents, mode),
+          diffById('Change orders', local.changeOrders, incoming.changeOrders, mode),
+          diffById('Budget line items', local.budgetLineItems, incoming.budgetLineItems, mode),
+          diffById('Specifications', local.specifications, incoming.specifications, mode),
+          diffByKey('Disciplines', allDisciplines(local), mergeMap(allDisciplines(local), allDisciplines(incoming), mode), mode),
+          diffByKey('Divisions', local.divisionMap, mergeMap(local.divisionMap, incoming.divisionMap, mode), mode),
+          diffById('People', local.people, incoming.people, mode),
+          diffById('Companies', local.companies, incoming.companies, mode),
+          diffById('Document folders', local.documentFolders, incoming.documentFolders, mode),
+          diffById('Documents', local.documentFiles, incoming.documentFiles, mode),
+          diffById('Schedule tasks', local.scheduleTasks, incoming.scheduleTasks, mode),
+          diffByKey('Status colors', local.statusColors, mergeMap(local.statusColors, incoming.statusColors, mode), mode),
+          diffRecents(local.recents, incoming.recents, mode),
+          diffFavorites(local.favorites, incoming.favorites, mode),
+          diffByKey('Notes', local.notes, mode === 'replace' ? incoming.notes : mergeNotes(local.notes, incoming.notes), mode),
+          diffTags(local.tags, incoming.tags, mode),
+          diffStatusColorScheme(local.statusColorScheme, incoming.statusColorScheme, mode),
+        ].filter(section => section.added + section.updated + section.removed > 0),
+      })
+    }
+
+    if (mode === 'replace') {
+      for (const project of localProjects) {
+        if (!backupIds.has(project.id)) {
+          projects.push({ projectId: project.id, name: getProjectName(project), status: 'removed', sections: [] })
+        }
+      }
+    }
+
+    const preferencesChanged: string[] = []
+    for (const [key, value] of Object.entries(backup.preferences)) {
+      const current = await StorageService.getPreferences<unknown>(key, UNSET)
+      const next = await restoredPreference(key, value, mode)
+      if (current === UNSET || JSON.stringify(current) !== JSON.stringify(next)) {
+        preferencesChanged.push(key)
+      }
+    }
+
+    return { mode, exportedAt: backup.exportedAt, projects, preferencesChanged }
+  },
+
+  async restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<void> {
+    if (mode === 'replace') {
+      for (const project of await StorageService.getAllProjects()) {
+        await StorageService.deleteProject(project.id)
+      }
+    }
+
+    for (const incoming of backup.projects) {
+      await this.restoreProject(incoming, mode)
+    }
+
+    const knownKeys = new Set<string>(Object.values(PREFERENCE_KEYS))
+    for (const [key, value] of Object.entries(backup.preferences)) {
+      if (knownKeys.has(key)) {
+        await StorageService.savePreference(key, await restoredPreference(key, value, mode))
+      }
+    }
+  },
+
+  async restoreProject(incoming: ProjectBackup, mode: RestoreMode): Promise<void> {
+    const projectId = incoming.project.id
+
+    if (mode === 'replace') {
+      await StorageService.saveProject(incoming.project)
+      await StorageService.saveDrawings(projectId, incoming.drawings)
+      await StorageService.saveDrawingRevisions(projectId, incoming.drawingRevisions)
+      await StorageService.saveDisciplineMap(projectId, incoming.disciplineMap)
+      await StorageService.saveAreaDisciplineMaps(projectId, incoming.disciplineMaps)
+      await StorageService.saveRFIs(projectId, incoming.rfis)
+      await StorageService.saveSubmittals(projectId, incoming.submittals)
+      await StorageService.savePunchItems(projectId, incoming.punchItems)
+      await StorageService.saveCommitments(projectId, incoming.commitments)
+      await StorageService.saveChangeEvents(projectId, incoming.changeEvents)
+      await StorageService.saveChangeOrders(projectId, incoming.changeOrders)
+      await StorageService.saveBudgetLineItems(projectId, incoming.budgetLineItems)
+      await StorageService.saveSpecifications(projectId, incoming.specifications)
+      await StorageService.saveDivisionMap(projectId, incoming.divisionMap)
+      await StorageService.savePeople(projectId, incoming.people)
+      await StorageService.saveCompanies(projectId, incoming.companies)
+      await StorageService.saveDocumentFolders(projectId, incoming.documentFolders)
+      await StorageService.saveDocumentFiles(projectId, incoming.documentFiles)
+      await StorageService.saveScheduleTasks(projectId, incoming.scheduleTasks)
+      await StorageService.saveStatusColors(projectId, incoming.statusColors)
+      await StorageService.saveRecents(projectId, incoming.recents)
+      await StorageService.saveFavorites(projectId, incoming.favorites)
+      await StorageService.saveNotes(projectId, incoming.notes)
+      await StorageService.saveProjectTags(projectId, incoming.tags)
+      if (incoming.statusColorScheme) {
+        await StorageService.saveStatusColorScheme(projectId, incoming.statusColorScheme)
+      }
+      return
+    }
+
+    const existingProject = await StorageService.getProject(projectId)
+    await StorageService.saveProject({
+      ...incoming.project,
+      ...existingProject,
+      lastAccessed: Math.max(existingProject?.lastAccessed ?? 0, incoming.project.lastAccessed ?? 0),
+    })
+    await StorageService.addDrawingAreas(projectId, incoming.project.drawingAreas ?? [])
+
+    await StorageService.mergeDrawings(projectId, incoming.drawings, 'restore')
+    await StorageService.mergeDrawingRevisions(projectId, incoming.drawingRevisions, 'restore')
+    await StorageService.mergeRFIs(projectId, incoming.rfis, 'restore')
+    await StorageService.mergeSubmittals(projectId, incoming.submittals, 'restore')
+    await StorageService.mergePunchItems(projectId, incoming.punchItems, 'restore')
+    await StorageService.mergeCommitments(projectId, incoming.commitments, 'restore')
+    await StorageService.mergeChangeEvents(projectId, incoming.changeEvents, 'restore')
+    await StorageService.mergeChangeOrders(projectId, incoming.changeOrders, 'restore')
+    await StorageService.mergeBudgetLineItems(projectId, incoming.budgetLineItems, 'restore')
+    await StorageService.mergeSpecifications(projectId, incoming.specifications, 'restore')
+    await StorageService.mergePeople(projectId, incoming.people, 'restore')
+    await StorageService.mergeCompanies(projectId, incoming.companies, 'restore')
+    await StorageService.mergeDocumentFolders(projectId, incoming.documentFolders, 'restore')
+    await StorageService.mergeDocumentFiles(projectId, incoming.documentFiles, 'restore')
+    await StorageService.mergeScheduleTasks(projectId, incoming.scheduleTasks, 'restore')
+
+    const [disciplineMap, disciplineMaps, divisionMap, statusColors, recents, favorites, notes, tags] = await Promise.all([
+      StorageService.getUnassignedDisciplineMap(projectId),
+      StorageService.getAreaDisciplineMaps(projectId),
+      StorageService.getDivisionMap(projectId),
+      StorageService.getStatusColors(projectId),
+      StorageService.getRecents(projectId),
+      StorageService.getFavorites(projectId),
+      StorageService.getNotes(projectId),
+      StorageService.getProjectTags(projectId),
+    ])
+
+    // Maps only gain the keys missing locally; local entries are newer than the backup
+    await StorageService.saveDisciplineMap(projectId, { ...incoming.disciplineMap, ...disciplineMap })
+    for (const [areaId, areaMap] of Object.entries(incoming.disciplineMaps)) {
+      disciplineMaps[areaId] = { ...areaMap, ...disciplineMaps[areaId] }
+    }
+    await StorageService.saveAreaDisciplineMaps(projectId, disciplineMaps)
+    await StorageService.saveDivisionMap(projectId, { ...incoming.divisionMap, ...divisionMap })
+    await StorageService.saveStatusColors(projectId, { ...incoming.statusColors, ...statusColors })
+    await StorageService.saveRecents(projectId, mergeRecents(recents, incoming.recents))
+    await StorageService.saveFavorites(projectId, mergeFavorites(favorites, incoming.favorites))
+    await StorageService.saveNotes(projectId, mergeNotes(notes, incoming.notes))
+    await StorageService.saveProjectTags(projectId, mergeProjectTags(tags, incoming.tags))
+    if (incoming.statusColorScheme && !(await StorageService.getSavedStatusColorScheme(projectId))) {
+      await StorageService.saveStatusColorScheme(projectId, incoming.statusColorScheme)
+    }
+  },
+}
+
+function emptyProjectBackup(): Omit<ProjectBackup, 'project'> {
+  return {
+    drawings: [],
+    drawingRevisions: [],
+    disciplineMap: {},
+    disciplineMaps: {},
+    rfis: [],
+    submittals: [],
+    punchItems: [],
+    commitments: [],
+    changeEvents: [],
+    changeOrders: [],
+    budgetLineItems: [],
+    specifications: [],
+    divisionMap: {},
+    people: [],
+    companies: [],
+    documentFolders: [],
+    documentFiles: [],
+    scheduleTasks: [],
+    statusColors: {},
+    recents: [],
+    favorites: { folders: [] },
+    notes: {},
+    tags: emptyProjectTags(),
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Project directory helpers
+ * Resolve the names other tools show (RFI assignee, commitment vendor) to
+ * cached directory entries, so the panel can offer contact details.
+ */
+
+import type { DirectoryPerson, DirectoryCompany } from '@/types'
+
+export interface DirectoryIndex {
+  people: Map<string, DirectoryPerson>
+  companies: Map<string, DirectoryCompany>
+  companiesById: Map<number, DirectoryCompany>
+}
+
+// A name as shown in another tool, with the directory entry it resolved to (if any)
+export interface ResolvedContact {
+  name: string
+  person?: DirectoryPerson
+  company?: DirectoryCompany
+}
+
+export const EMPTY_DIRECTORY_INDEX: DirectoryIndex = {
+  people: new Map(),
+  companies: new Map(),
+  companiesById: new Map(),
+}
+
+// "Smith, John" and "john  SMITH" both become "john smith"
+export function directoryNameKey(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ').toLowerCase()
+  const parts = trimmed.split(', ')
+  return parts.length === 2 && !parts[1].includes(' ') ? `${parts[1]} ${parts[0]}` : trimmed
+}
+
+// Removed entries are left out, so a name never resolves to someone no longer on the project
+export function buildDirectoryIndex(people: DirectoryPerson[], companies: DirectoryCompany[]): DirectoryIndex {
+  const index: DirectoryIndex = { people: new Map(), companies: new Map(), companiesById: new Map() }
+  for (const person of people) {
+    if (person.removed_at === undefined) index.people.set(directoryNameKey(person.name), person)
+  }
+  for (const company of companies) {
+    if (company.removed_at !== undefined) continue
+    index.companies.set(directoryNameKey(company.name), company)
+    index.companiesById.set(company.id, company)
+  }
+  return index
+}
+
+export function findPerson(index: DirectoryIndex, name: string | undefined): DirectoryPerson | undefined {
+  return name ? index.people.get(directoryNameKey(name)) : undefined
+}
+
+export function findCompany(index: DirectoryIndex, name: string | undefined): DirectoryCompany | undefined {
+  return name ? index.companies.get(directoryNameKey(name)) : undefined
+}
+
+// The person's company entry: by id when the directory linked it, otherwise by name
+export function getPersonCompany(index: DirectoryIndex, person: DirectoryPerson): DirectoryCompany | undefined {
+  return (person.company_id !== undefined ? index.companiesById.get(person.company_id) : undefined) ??
+    findCompany(index, person.company)
+}
+
+/**
+ * Split a "names, comma separated" field into contacts. The whole value is
+ * tried first, since "Smith, John" is one person rather than two.
+ */
+export function resolveContacts(index: DirectoryIndex, value: string | undefined): ResolvedContact[] {
+  if (!value?.trim()) return []
+  const whole = resolveName(index, value)
+  if (whole.person || whole.company) return [whole]
+  return value
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => resolveName(index, name))
+}
+
+function resolveName(index: DirectoryIndex, name: string): ResolvedContact {
+  const person = findPerson(index, name)
+  if (person) return { name: name.trim(), person }
+  return { name: name.trim(), company: findCompany(index, name) }
+}
+
+export function getPersonUrl(projectId: string, person: Pick<DirectoryPerson, 'id'>): string {
+  return `https://app.procore.com/${projectId}/project/directory/users/${person.id}`
+}
+
+export function getCompanyUrl(projectId: string, company: Pick<DirectoryCompany, 'id'>): string {
+  return `https://app.procore.com/${projectId}/project/directory/vendors/${company.id}`
+}
+
+/**
+ * Every word must be a substring of the person's name, company, role,
+ * email or trade ("smith elec").
+ */
+export function personMatches(person: DirectoryPerson, words: string[], trade?: string): boolean {
+  const text = [person.name, person.company, person.role, person.email, trade]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+  return words.every(word => text.includes(word))
+}
+
+export function companyMatches(company: DirectoryCompany, words: string[]): boolean {
+  const text = [company.name, company.trade, company.email]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+  return words.every(word => text.includes(word))
+}
@@ -0,0 +1,96 @@
+/**
+ * Documents tool helpers
+ * Shared between the Documents tab and the pinboard
+ */
+
+import type { DocumentFolder, DocumentFile } from '@/types'
+
+// Folder id -> child folders and files. Folders whose parent is not cached
+// (root, or a subfolder captured on its own) are listed under `null`.
+export interface DocumentTree {
+  folders: Map<number | null, DocumentFolder[]>
+  files: Map<number | null, DocumentFile[]>
+  fileCounts: Map<number, number>   // Files anywhere below a folder
+}
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name, undefined, { numeric: true })
+}
+
+export function getDocumentFolderUrl(projectId: string, folder: Pick<DocumentFolder, 'id'>): string {
+  return `https://app.procore.com/${projectId}/project/documents?folder_id=${folder.id}`
+}
+
+export function getDocumentFileUrl(projectId: string, file: Pick<DocumentFile, 'id'>): string {
+  return `https://app.procore.com/${projectId}/project/documents/files/${file.id}`
+}
+
+/**
+ * Build the browsable tree. The project root folder itself is skipped, so
+ * its children are the top level, as in Procore.
+ */
+export function buildDocumentTree(folders: DocumentFolder[], files: DocumentFile[]): DocumentTree {
+  const folderIds = new Set(folders.map(folder => folder.id))
+  const rootIds = new Set(folders.filter(folder => folder.parent_id === undefined).map(folder => folder.id))
+  const parentKey = (parentId: number | undefined): number | null =>
+    parentId !== undefined && folderIds.has(parentId) && !rootIds.has(parentId) ? parentId : null
+
+  const tree: DocumentTree = { folders: new Map(), files: new Map(), fileCounts: new Map() }
+  for (const folder of folders) {
+    if (rootIds.has(folder.id)) continue
+    const key = parentKey(folder.parent_id)
+    tree.folders.set(key, [...(tree.folders.get(key) ?? []), folder])
+  }
+  for (const file of files) {
+    const key = parentKey(file.folder_id)
+    tree.files.set(key, [...(tree.files.get(key) ?? []), file])
+  }
+  tree.folders.forEach(list => list.sort(byName))
+  tree.files.forEach(list => list.sort(byName))
+
+  const countFiles = (folderId: number): number => {
+    const cached = tree.fileCounts.get(folderId)
+    if (cached !== undefined) return cached
+    // Seed before recursing so a parent cycle in bad data cannot loop forever
+    tree.fileCounts.set(folderId, 0)
+    const count = (tree.files.get(folderId)?.length ?? 0) +
+      (tree.folders.get(folderId) ?? []).reduce((sum, child) => sum + countFiles(child.id), 0)
+    tree.fileCounts.set(folderId, count)
+    return count
+  }
+  folders.forEach(folder => countFiles(folder.id))
+
+  return tree
+}
+
+// Folder part of a file's path ("Contracts/Subs/Plumbing.pdf" -> "Contracts/Subs")
+export function getDocumentFolderPath(file: Pick<DocumentFile, 'path' | 'name'>): string | undefined {
+  if (!file.path) return undefined
+  const folderPath = file.path.endsWith(file.name)
+    ? file.path.slice(0, -file.name.length)
+    : file.path.slice(0, file.path.lastIndexOf('/') + 1)
+  return folderPath.replace(/\/+$/, '') || undefined
+}
+
+/**
+ * Every word must be a substring of the file name, or of its folder path
+ * ("subs plumbing" finds Contracts/Subs/Plumbing.pdf).
+ */
+export function documentFileMatches(file: DocumentFile, words: string[]): boolean {
+  const text = [file.name, getDocumentFolderPath(file)].filter(Boolean).join(' ').toLowerCase()
+  return words.every(word => text.includes(word))
+}
+
+// 1536 -> "1.5 KB"
+export function formatFileSize(bytes: number | undefined): string | undefined {
+  if (bytes === undefined) return undefined
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let size = bytes / 1024
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`
+}
@@ -0,0 +1,175 @@
+/**
+ * Drawing references for favorites, recents and status colors
+ *
+ * References hold the drawing id, which survives renumbering, and keep the
+ * number as a fallback for drawings that weren't cached yet (and for data
+ * saved before ids were tracked). The repair pass re-links number-only and
+ * orphaned references against the cached drawings.
+ */
+
+import type {
+  Drawing,
+  DrawingRef,
+  DrawingStatusColor,
+  DrawingStatusColors,
+  FavoritesData,
+  RecentsList,
+  StatusColor,
+  UnresolvedDrawingRef,
+  DrawingRefRepairResult,
+} from '@/types'
+
+export function toDrawingRef(drawing: Pick<Drawing, 'id' | 'num'>): DrawingRef {
+  return { id: drawing.id, num: drawing.num }
+}
+
+export function drawingRefKey(ref: DrawingRef): string {
+  return ref.id !== undefined ? String(ref.id) : `num:${ref.num}`
+}
+
+export function sameDrawingRef(a: DrawingRef, b: DrawingRef): boolean {
+  if (a.id !== undefined && b.id !== undefined) return a.id === b.id
+  return a.num === b.num
+}
+
+export function refersToDrawing(ref: DrawingRef, drawing: Pick<Drawing, 'id' | 'num'>): boolean {
+  return ref.id !== undefined ? ref.id === drawing.id : ref.num === drawing.num
+}
+
+export function findDrawingByRef<T extends Pick<Drawing, 'id' | 'num'>>(ref: DrawingRef, drawings: T[]): T | undefined {
+  return drawings.find(d => refersToDrawing(ref, d))
+}
+
+// A set built from drawingRefKey() matches a drawing by id or by its number
+export function hasDrawingRef(keys: Set<string>, drawing: Pick<Drawing, 'id' | 'num'>): boolean {
+  return keys.has(String(drawing.id)) || keys.has(`num:${drawing.num}`)
+}
+
+export function getDrawingStatusEntry(colors: DrawingStatusColors, drawing: Pick<Drawing, 'id' | 'num'>): DrawingStatusColor | undefined {
+  return colors[String(drawing.id)] ?? colors[`num:${drawing.num}`]
+}
+
+export function getDrawingStatusColor(colors: DrawingStatusColors, drawing: Pick<Drawing, 'id' | 'num'>): StatusColor | undefined {
+  return getDrawingStatusEntry(colors, drawing)?.color
+}
+
+export function compareDrawingRefs(a: DrawingRef, b: DrawingRef): number {
+  return (a.num || '').localeCompare(b.num || '', undefined, { numeric: true })
+}
+
+// ============================================
+// LEGACY SHAPES (drawing numbers only)
+// ============================================
+
+function upgradeRef(value: unknown): DrawingRef | null {
+  if (typeof value === 'string') return value ? { num: value } : null
+  if (value && typeof value === 'object' && typeof (value as DrawingRef).num === 'string') {
+    return value as DrawingRef
+  }
+  return null
+}
+
+export function upgradeRecents(value: unknown): RecentsList {
+  if (!Array.isArray(value)) return []
+  return value.map(upgradeRef).filter((ref): ref is DrawingRef => ref !== null)
+}
+
+export function upgradeFavorites(value: unknown): FavoritesData {
+  const folders = (value as FavoritesData | undefined)?.folders
+  if (!Array.isArray(folders)) return { folders: [] }
+  return {
+    folders: folders.map(folder => ({
+      ...folder,
+      drawings: upgradeRecents(folder.drawings),
+    })),
+  }
+}
+
+export function upgradeStatusColors(value: unknown): DrawingStatusColors {
+  if (!value || typeof value !== 'object') return {}
+  const colors: DrawingStatusColors = {}
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof entry === 'string') {
+      // Legacy: { [drawingNum]: color }
+      colors[drawingRefKey({ num: key })] = { num: key, color: entry as StatusColor }
+    } else if (entry && typeof entry === 'object' && 'color' in entry) {
+      colors[key] = entry as DrawingStatusColors[string]
+    }
+  }
+  return colors
+}
+
+// ============================================
+// REPAIR
+// ============================================
+
+export interface DrawingRefData {
+  recents: RecentsList
+  favorites: FavoritesData
+  statusColors: DrawingStatusColors
+}
+
+function createResolver(drawings: Drawing[]) {
+  const byId = new Map<number, Drawing>()
+  const byNum = new Map<string, Drawing[]>()
+  for (const drawing of drawings) {
+    byId.set(drawing.id, drawing)
+    byNum.set(drawing.num, [...(byNum.get(drawing.num) ?? []), drawing])
+  }
+
+  // Returns the up-to-date ref, or null when it can't be matched to a cached drawing
+  return (ref: DrawingRef): DrawingRef | null => {
+    const byIdMatch = ref.id !== undefined ? byId.get(ref.id) : undefined
+    if (byIdMatch) return toDrawingRef(byIdMatch)
+
+    // Fall back to the number, but only when it's unambiguous (numbers repeat across areas)
+    const candidates = byNum.get(ref.num) ?? []
+    const active = candidates.filter(d => d.removed_at === undefined)
+    const pool = active.length > 0 ? active : candidates
+    return pool.length === 1 ? toDrawingRef(pool[0]) : null
+  }
+}
+
+/**
+ * Re-link references against the cached drawings: pick up renumbered sheets
+ * by id and attach ids to number-only references. Unmatched references are
+ * kept as they are and reported, so nothing the user saved is dropped silently.
+ */
+export function repairDrawingRefs(data: DrawingRefData, drawings: Drawing[]): DrawingRefData & DrawingRefRepairResult {
+  const resolve = createResolver(drawings)
+  const unresolved: UnresolvedDrawingRef[] = []
+  let relinked = 0
+
+  const relink = (ref: DrawingRef, report: Omit<UnresolvedDrawingRef, 'ref'>): DrawingRef => {
+    const resolved = resolve(ref)
+    if (!resolved) {
+      unresolved.push({ ref, ...report })
+      return ref
+    }
+    if (resolved.id !== ref.id || resolved.num !== ref.num) relinked++
+    return resolved
+  }
+
+  const dedupe = (refs: DrawingRef[]) =>
+    refs.filter((ref, index) => refs.findIndex(other => sameDrawingRef(other, ref)) === index)
+
+  const recents = dedupe(data.recents.map(ref => relink(ref, { location: 'recents' })))
+
+  const favorites: FavoritesData = {
+    folders: data.favorites.folders.map(folder => ({
+      ...folder,
+      drawings: dedupe(folder.drawings.map(ref =>
+        relink(ref, { location: 'favorites', folderId: folder.id, folderName: folder.name })
+      )).sort(compareDrawingRefs),
+    })),
+  }
+
+  const statusColors: DrawingStatusColors = {}
+  for (const entry of Object.values(data.statusColors)) {
+    const { color, setAt, ...ref } = entry
+    const next = relink(ref, { location: 'statusColors' })
+    statusColors[drawingRefKey(next)] = { ...next, color, setAt }
+  }
+
+  return { recents, favorites, statusColors, relinked, unresolved }
+}
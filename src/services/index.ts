@@ -1,2 +1,71 @@
 export { StorageService } from './storage'
 export { ApiService } from './api'
+export { runMigrations, getLatestSchemaVersion } from './migrations'
+export { BackupService } from './backup'
+export {
+  toDrawingRef,
+  drawingRefKey,
+  sameDrawingRef,
+  refersToDrawing,
+  findDrawingByRef,
+  hasDrawingRef,
+  getDrawingStatusColor,
+  getDrawingStatusEntry,
+  repairDrawingRefs,
+} from './drawing-refs'
+export { pinId } from './pins'
+export { noteKey, getEntityNote, noteMatches } from './notes'
+export {
+  entityTagKey,
+  normalizeTagName,
+  findTagByName,
+  getEntityTags,
+  hasAllTags,
+  getTagsInUse,
+  parseTagQuery,
+  matchesTagTerms,
+} from './tags'
+export {
+  ALL_STATUS_COLORS,
+  defaultStatusColorScheme,
+  getCycleColors,
+  getNextStatusColor,
+  getStatusColorLabel,
+  findStatusColors,
+} from './status-colors'
+export { getPunchItemUrl, isPunchItemOpen, formatPunchStatus, punchItemMatches } from './punch'
+export {
+  EMPTY_DIRECTORY_INDEX,
+  directoryNameKey,
+  buildDirectoryIndex,
+  findPerson,
+  findCompany,
+  getPersonCompany,
+  resolveContacts,
+  getPersonUrl,
+  getCompanyUrl,
+  personMatches,
+  companyMatches,
+} from './directory'
+export type { DirectoryIndex, ResolvedContact } from './directory'
+export {
+  getDocumentFolderUrl,
+  getDocumentFileUrl,
+  buildDocumentTree,
+  getDocumentFolderPath,
+  documentFileMatches,
+  formatFileSize,
+} from './documents'
+export type { DocumentTree } from './documents'
+export {
+  LOOKAHEAD_WEEKS,
+  toDateKey,
+  buildScheduleIndex,
+  getScheduleTaskPath,
+  isScheduleTaskLate,
+  getLookahead,
+  getWeekStartKey,
+  scheduleTaskMatches,
+} from './schedule'
+export type { LookaheadWeeks, ScheduleIndex, Lookahead } from './schedule'
+export { getProjectName, getProjectDisplayName, readProjectNames, upgradeProjectName } from './projects'
@@ -0,0 +1,327 @@
+/**
+ * Schema migrations for the IndexedDB databases
+ *
+ * Each database carries its own schema version in the pp-schema store.
+ * Databases created before versioning existed are treated as version 1.
+ *
+ * To change the shape of stored data, append a migration with the next
+ * version number for that database. Migrations run in order at service
+ * worker startup, and the version is bumped after each step succeeds.
+ *
+ * A step that changes project data also upgrades a backup of it, so files
+ * exported before the step restore in the current shape.
+ *
+ * If a step throws, the database is restored from a snapshot taken before
+ * the run and stays on its last good version (it is retried next startup).
+ * Cache databases that can't be restored are cleared instead - a rescan
+ * brings the data back.
+ */
+
+import { StorageService } from './storage'
+import { repairDrawingRefs, upgradeRecents, upgradeFavorites, upgradeStatusColors } from './drawing-refs'
+import { upgradeProjectName } from './projects'
+import type { Drawing, Project, ProjectBackup, DatabaseName, SchemaState } from '@/types'
+
+const BASE_VERSION = 1
+
+export interface MigrationContext {
+  entries(): Promise<[string, unknown][]>
+  set(key: string, value: unknown): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export interface Migration {
+  database: DatabaseName
+  version: number
+  description: string
+  migrate(ctx: MigrationContext): Promise<void>
+  // The same change applied to one project of an older backup file
+  upgradeBackup?(project: ProjectBackup): ProjectBackup
+}
+
+export interface MigrationResult {
+  database: DatabaseName
+  fromVersion: number
+  toVersion: number
+  error?: string
+  recovery?: SchemaState['recovery']
+}
+
+// Databases that only hold data fetched from Procore - safe to clear and rescan
+const CACHE_DATABASES: DatabaseName[] = [
+  'pp-drawings',
+  'pp-drawing-revisions',
+  'pp-rfis',
+  'pp-submittals',
+  'pp-punch',
+  'pp-commitments',
+  'pp-specifications',
+  'pp-directory',
+  'pp-documents',
+  'pp-schedule',
+  'pp-changes',
+  'pp-sync',
+]
+
+// ============================================
+// MIGRATIONS (append only, ordered by version per database)
+// ============================================
+
+const MIGRATIONS: Migration[] = [
+  {
+    database: 'pp-drawings',
+    version: 2,
+    description: 'Normalize drawing discipline to a numeric id or {id, name}',
+    async migrate(ctx) {
+      for (const [key, value] of await ctx.entries()) {
+        if (!key.startsWith('drawings_') || !Array.isArray(value)) continue
+        await ctx.set(key, (value as Drawing[]).map(normalizeDisciplineField))
+      }
+    },
+    upgradeBackup(project) {
+      return { ...project, drawings: project.drawings.map(normalizeDisciplineField) }
+    },
+  },
+  {
+    database: 'pp-drawings',
+    version: 3,
+    description: 'Key drawings and discipline maps by drawing area',
+    async migrate(ctx) {
+      // Before areas were tracked, everything came from the project's single drawingAreaId
+      for (const [key, value] of await ctx.entries()) {
+        if (key.startsWith('drawings_') && Array.isArray(value)) {
+          const project = await StorageService.getProject(key.slice('drawings_'.length))
+          if (!project?.drawingAreaId) continue
+          await ctx.set(key, (value as Drawing[]).map(d =>
+            d.drawing_area_id ? d : { ...d, drawing_area_id: project.drawingAreaId }
+          ))
+        } else if (key.startsWith('discipline_map_') && value && typeof value === 'object') {
+          const projectId = key.slice('discipline_map_'.length)
+          const project = await StorageService.getProject(projectId)
+          if (!project?.drawingAreaId) continue
+          await ctx.set(`discipline_maps_${projectId}`, { [project.drawingAreaId]: value })
+          await ctx.delete(key)
+        }
+      }
+    },
+    upgradeBackup(backup) {
+      const areaId = backup.project.drawingAreaId
+      if (!areaId) return backup
+      return {
+        ...backup,
+        drawings: backup.drawings.map(d => d.drawing_area_id ? d : { ...d, drawing_area_id: areaId }),
+        disciplineMap: {},
+        disciplineMaps: {
+          ...backup.disciplineMaps,
+          [areaId]: { ...backup.disciplineMap, ...backup.disciplineMaps[areaId] },
+        },
+      }
+    },
+  },
+  {
+    database: 'pp-projects',
+    version: 2,
+    description: 'Seed the drawing area list from the single drawingAreaId',
+    async migrate(ctx) {
+      for (const [key, value] of await ctx.entries()) {
+        const project = value as Project
+        if (!project?.drawingAreaId || project.drawingAreas) continue
+        await ctx.set(key, { ...project, drawingAreas: [{ id: project.drawingAreaId }] })
+      }
+    },
+    upgradeBackup(backup) {
+      const { project } = backup
+      if (!project.drawingAreaId || project.drawingAreas) return backup
+      return { ...backup, project: { ...project, drawingAreas: [{ id: project.drawingAreaId }] } }
+    },
+  },
+  {
+    database: 'pp-projects',
+    version: 3,
+    description: 'Move manual renames from name to customName',
+    async migrate(ctx) {
+      for (const [key, value] of await ctx.entries()) {
+        const project = value as Project
+        const upgraded = project ? upgradeProjectName(project) : project
+        if (upgraded !== project) await ctx.set(key, upgraded)
+      }
+    },
+    upgradeBackup(backup) {
+      return { ...backup, project: upgradeProjectName(backup.project) }
+    },
+  },
+  {
+    database: 'pp-preferences',
+    version: 2,
+    description: 'Key favorites, recents and status colors by drawing id',
+    async migrate(ctx) {
+      // Convert number-only entries, then attach ids from the cached drawings
+      const upgrades: [string, (value: unknown) => unknown, 'recents' | 'favorites' | 'statusColors'][] = [
+        ['recents_', upgradeRecents, 'recents'],
+        ['favorites_', upgradeFavorites, 'favorites'],
+        ['status_colors_', upgradeStatusColors, 'statusColors'],
+      ]
+      for (const [key, value] of await ctx.entries()) {
+        const upgrade = upgrades.find(([prefix]) => key.startsWith(prefix))
+        if (!upgrade) continue
+        const [prefix, convert, field] = upgrade
+        const drawings = await StorageService.getDrawings(key.slice(prefix.length))
+        const repaired = repairDrawingRefs({
+          recents: [],
+          favorites: { folders: [] },
+          statusColors: {},
+          [field]: convert(value),
+        }, drawings)
+        await ctx.set(key, repaired[field])
+      }
+    },
+  },
+]
+
+function toNumericId(value: unknown): number | undefined {
+  const id = typeof value === 'string' ? parseInt(value, 10) : value
+  return typeof id === 'number' && !isNaN(id) ? id : undefined
+}
+
+function normalizeDisciplineField(drawing: Drawing): Drawing {
+  const raw = drawing.discipline as unknown
+  const next: Drawing = { ...drawing }
+
+  if (raw === undefined || raw === null || raw === '') {
+    delete next.discipline
+  } else if (typeof raw === 'object') {
+    const disc = raw as { id?: unknown; name?: unknown }
+    const id = toNumericId(disc.id)
+    const name = typeof disc.name === 'string' && disc.name ? disc.name : undefined
+    if (id === undefined && !name) {
+      delete next.discipline
+    } else {
+      next.discipline = { id, name }
+    }
+    if (name && !next.discipline_name) {
+      next.discipline_name = name
+    }
+  } else {
+    const id = toNumericId(raw)
+    if (id === undefined) {
+      // Older captures stored the discipline name directly
+      delete next.discipline
+      if (typeof raw === 'string' && !next.discipline_name) {
+        next.discipline_name = raw
+      }
+    } else {
+      next.discipline = id
+    }
+  }
+
+  return next
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+export function getLatestSchemaVersion(database: DatabaseName): number {
+  return MIGRATIONS
+    .filter(m => m.database === database)
+    .reduce((latest, m) => Math.max(latest, m.version), BASE_VERSION)
+}
+
+/**
+ * Bring one project of a backup file up to the current schema, applying the
+ * steps newer than the versions the file was exported at. Files from before
+ * versioning existed start at version 1.
+ */
+export function upgradeProjectBackup(
+  project: ProjectBackup,
+  schemaVersions: Partial<Record<DatabaseName, number>>
+): ProjectBackup {
+  return MIGRATIONS
+    .filter(m => m.version > (schemaVersions[m.database] ?? BASE_VERSION))
+    .reduce((upgraded, m) => m.upgradeBackup?.(upgraded) ?? upgraded, project)
+}
+
+function createContext(database: DatabaseName): MigrationContext {
+  return {
+    entries: () => StorageService.getDatabaseEntries(database),
+    set: (key, value) => StorageService.setDatabaseEntry(database, key, value),
+    delete: (key) => StorageService.deleteDatabaseEntry(database, key),
+  }
+}
+
+async function migrateDatabase(database: DatabaseName): Promise<MigrationResult | null> {
+  const state = await StorageService.getSchemaState(database)
+  const fromVersion = state?.version ?? BASE_VERSION
+  const pending = MIGRATIONS
+    .filter(m => m.database === database && m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+
+  if (pending.length === 0) {
+    if (!state) {
+      await StorageService.saveSchemaState(database, { version: fromVersion, updatedAt: Date.now() })
+    }
+    return null
+  }
+
+  const snapshot = await StorageService.getDatabaseEntries(database)
+  const ctx = createContext(database)
+  let version = fromVersion
+
+  for (const migration of pending) {
+    try {
+      console.log('PP Migrations:', database, `v${version} -> v${migration.version}:`, migration.description)
+      await migration.migrate(ctx)
+      version = migration.version
+      await StorageService.saveSchemaState(database, { version, updatedAt: Date.now() })
+    } catch (error) {
+      console.error('PP Migrations: Failed', database, `v${migration.version}`, error)
+      const recovery = await recoverDatabase(database, snapshot)
+      const recoveredVersion = recovery === 'cleared' ? getLatestSchemaVersion(database) : fromVersion
+      await StorageService.saveSchemaState(database, {
+        version: recoveredVersion,
+        updatedAt: Date.now(),
+        failedVersion: migration.version,
+        error: String(error),
+        recovery,
+      })
+      return { database, fromVersion, toVersion: recoveredVersion, error: String(error), recovery }
+    }
+  }
+
+  return { database, fromVersion, toVersion: version }
+}
+
+async function recoverDatabase(database: DatabaseName, snapshot: [string, unknown][]): Promise<SchemaState['recovery']> {
+  try {
+    await StorageService.restoreDatabase(database, snapshot)
+    console.log('PP Migrations: Restored', database, 'from snapshot')
+    return 'restored'
+  } catch (error) {
+    if (!CACHE_DATABASES.includes(database)) throw error
+    console.error('PP Migrations: Restore failed, clearing cache database', database, error)
+    await StorageService.clearDatabase(database)
+    return 'cleared'
+  }
+}
+
+/**
+ * Bring every database up to its latest schema version.
+ * Databases are migrated independently - one failure doesn't block the others.
+ */
+export async function runMigrations(): Promise<MigrationResult[]> {
+  const databases: DatabaseName[] = [...CACHE_DATABASES, 'pp-projects', 'pp-preferences']
+  const results: MigrationResult[] = []
+
+  for (const database of databases) {
+    try {
+      const result = await migrateDatabase(database)
+      if (result) results.push(result)
+    } catch (error) {
+      // Restore of a user-data database failed - leave it alone and retry next startup
+      console.error('PP Migrations: Could not migrate or recover', database, error)
+      results.push({ database, fromVersion: BASE_VERSION, toVersion: BASE_VERSION, error: String(error) })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,20 @@
+/**
+ * Personal notes on cached entities
+ * Stored per project, one map keyed by entity type and id
+ */
+
+import type { EntityNote, EntityNotes, NoteEntityType } from '@/types'
+
+export function noteKey(type: NoteEntityType, itemId: number): string {
+  return `${type}:${itemId}`
+}
+
+export function getEntityNote(notes: EntityNotes, type: NoteEntityType, itemId: number): EntityNote | undefined {
+  return notes[noteKey(type, itemId)]
+}
+
+// Case-insensitive substring match against an entity's note text
+export function noteMatches(notes: EntityNotes, type: NoteEntityType, itemId: number, query: string): boolean {
+  const note = getEntityNote(notes, type, itemId)
+  return !!note && note.text.toLowerCase().includes(query.toLowerCase())
+}
@@ -0,0 +1,10 @@
+/**
+ * Pinboard helpers
+ * Pins are global, so every id carries the project it belongs to
+ */
+
+import type { Pin } from '@/types'
+
+export function pinId(pin: Pick<Pin, 'projectId' | 'type' | 'itemId'>): string {
+  return `${pin.projectId}:${pin.type}:${pin.itemId}`
+}
@@ -0,0 +1,48 @@
+/**
+ * Project naming helpers
+ * Procore's name is captured into `name`; a manual rename lives in `customName`
+ * so later captures never overwrite it.
+ */
+
+import type { Project, ProjectNames } from '@/types'
+
+export function getProjectName(project: Pick<Project, 'name' | 'customName'>): string | undefined {
+  return project.customName || project.name
+}
+
+export function getProjectDisplayName(project: Pick<Project, 'id' | 'name' | 'customName'>): string {
+  return getProjectName(project) || `Project ${project.id}`
+}
+
+function toName(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+/**
+ * Names from a Procore project record ({id, name, company: {id, name}}).
+ * Only fields that are present are returned, so the result can be merged
+ * over a stored project.
+ */
+export function readProjectNames(record: Record<string, unknown>): ProjectNames {
+  const names: ProjectNames = {}
+  const name = toName(record.name) ?? toName(record.display_name)
+  if (name) names.name = name
+
+  const company = record.company as Record<string, unknown> | null | undefined
+  if (company && typeof company === 'object') {
+    if (company.id !== undefined && company.id !== null) names.companyId = String(company.id)
+    const companyName = toName(company.name)
+    if (companyName) names.companyName = companyName
+  }
+  return names
+}
+
+/**
+ * Before names were captured, `name` only ever held a manual rename. Moves it
+ * to `customName` so the captured name can take its place.
+ */
+export function upgradeProjectName(project: Project): Project {
+  if (!project.name || project.customName !== undefined) return project
+  const { name, ...rest } = project
+  return { ...rest, customName: name }
+}
@@ -0,0 +1,37 @@
+/**
+ * Punch list helpers
+ * Shared between the Punch tab and the command palette
+ */
+
+import type { PunchItem } from '@/types'
+
+// Workflow statuses that need no more field work
+const DONE_STATUSES = ['closed', 'void', 'ready_to_close']
+
+export function getPunchItemUrl(projectId: string, item: Pick<PunchItem, 'id'>): string {
+  return `https://app.procore.com/${projectId}/project/punch_list/show/${item.id}`
+}
+
+export function isPunchItemOpen(item: Pick<PunchItem, 'status'>): boolean {
+  return !DONE_STATUSES.includes(item.status.toLowerCase().replace(/\s+/g, '_'))
+}
+
+// "work_required" -> "Work Required"
+export function formatPunchStatus(status: string): string {
+  return status
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, char => char.toUpperCase())
+}
+
+/**
+ * Every word must match: a prefix of the item number, or a substring of its
+ * title, location, status, assignee or ball in court ("level 2 plumb").
+ */
+export function punchItemMatches(item: PunchItem, words: string[], extraText?: string): boolean {
+  const number = item.number.toLowerCase()
+  const text = [item.title, item.location, formatPunchStatus(item.status), item.assignee, item.ball_in_court, extraText]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+  return words.every(word => number.startsWith(word) || text.includes(word))
+}
@@ -0,0 +1,110 @@
+/**
+ * Schedule lookahead helpers
+ * Used by the Schedule tab to pick the tasks a foreman cares about this week
+ */
+
+import type { ScheduleTask } from '@/types'
+
+export const LOOKAHEAD_WEEKS = [2, 3, 6] as const
+export type LookaheadWeeks = typeof LOOKAHEAD_WEEKS[number]
+
+export interface ScheduleIndex {
+  byId: Map<number, ScheduleTask>
+  summaryIds: Set<number>           // Tasks other tasks are nested under
+}
+
+export interface Lookahead {
+  inProgress: ScheduleTask[]        // Started, and due today or later (or late and unfinished)
+  upcoming: ScheduleTask[]          // Starting after today, within the window
+}
+
+// Local calendar date as "YYYY-MM-DD", comparable with task dates
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Task dates come as dates or timestamps; the day is all that matters here
+function dayOf(value: string | undefined): string | undefined {
+  return value ? value.slice(0, 10) : undefined
+}
+
+export function buildScheduleIndex(tasks: ScheduleTask[]): ScheduleIndex {
+  const index: ScheduleIndex = { byId: new Map(), summaryIds: new Set() }
+  for (const task of tasks) {
+    index.byId.set(task.id, task)
+    if (task.parent_id !== undefined) index.summaryIds.add(task.parent_id)
+  }
+  return index
+}
+
+// Summary task names above a task, e.g. "Building A > Level 4"
+export function getScheduleTaskPath(index: ScheduleIndex, task: ScheduleTask): string | undefined {
+  const names: string[] = []
+  const seen = new Set<number>([task.id])
+  let parentId = task.parent_id
+  while (parentId !== undefined && !seen.has(parentId)) {
+    seen.add(parentId)
+    const parent = index.byId.get(parentId)
+    if (!parent) break
+    names.unshift(parent.name)
+    parentId = parent.parent_id
+  }
+  return names.length > 0 ? names.join(' > ') : undefined
+}
+
+export function isScheduleTaskLate(task: ScheduleTask, today: string): boolean {
+  const finish = dayOf(task.finish)
+  return !!finish && finish < today && (task.percent_complete ?? 0) < 100
+}
+
+/**
+ * Work tasks (not summaries) in progress today and starting within the next
+ * `weeks` weeks, each sorted by start date.
+ */
+export function getLookahead(index: ScheduleIndex, tasks: ScheduleTask[], today: Date, weeks: number): Lookahead {
+  const todayKey = toDateKey(today)
+  const end = new Date(today)
+  end.setDate(end.getDate() + weeks * 7)
+  const endKey = toDateKey(end)
+
+  const inProgress: ScheduleTask[] = []
+  const upcoming: ScheduleTask[] = []
+  for (const task of tasks) {
+    if (index.summaryIds.has(task.id)) continue
+    const start = dayOf(task.start)
+    if (!start) continue
+    const finish = dayOf(task.finish) ?? start
+
+    if (start <= todayKey) {
+      if (task.percent_complete === 100) continue
+      if (finish >= todayKey || isScheduleTaskLate(task, todayKey)) inProgress.push(task)
+    } else if (start <= endKey) {
+      upcoming.push(task)
+    }
+  }
+
+  const byStart = (a: ScheduleTask, b: ScheduleTask) =>
+    (a.start ?? '').localeCompare(b.start ?? '') || a.name.localeCompare(b.name)
+  return { inProgress: inProgress.sort(byStart), upcoming: upcoming.sort(byStart) }
+}
+
+// Monday of the task's start week, as "YYYY-MM-DD"
+export function getWeekStartKey(task: ScheduleTask): string | undefined {
+  const start = dayOf(task.start)
+  if (!start) return undefined
+  const [year, month, day] = start.split('-').map(Number)
+  const date = new Date(year, month - 1, day)
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7))
+  return toDateKey(date)
+}
+
+/**
+ * Every word must match the task name, its summary path or its resource
+ * ("level 4 drywall").
+ */
+export function scheduleTaskMatches(task: ScheduleTask, words: string[], path?: string): boolean {
+  const text = [task.name, path, task.resource].filter(Boolean).join(' ').toLowerCase()
+  return words.every(word => text.includes(word))
+}
@@ -0,0 +1,56 @@
+/**
+ * Status color scheme: what each color means per project and which colors
+ * the status dot cycles through
+ */
+
+import type { StatusColor, StatusColorOption, StatusColorScheme } from '@/types'
+
+export const ALL_STATUS_COLORS: StatusColor[] = ['green', 'red', 'yellow', 'blue', 'orange', 'pink']
+
+export function defaultStatusColorScheme(): StatusColorScheme {
+  return { options: ALL_STATUS_COLORS.map(color => ({ color, label: '', enabled: true })) }
+}
+
+// Keep stored order and settings, but make sure every color has exactly one option
+export function normalizeStatusColorScheme(value: unknown): StatusColorScheme {
+  const stored = Array.isArray((value as StatusColorScheme | undefined)?.options)
+    ? (value as StatusColorScheme).options
+    : []
+  const options: StatusColorOption[] = []
+  for (const option of stored) {
+    if (ALL_STATUS_COLORS.includes(option?.color) && !options.some(o => o.color === option.color)) {
+      options.push({ color: option.color, label: option.label ?? '', enabled: option.enabled !== false })
+    }
+  }
+  for (const color of ALL_STATUS_COLORS) {
+    if (!options.some(o => o.color === color)) options.push({ color, label: '', enabled: true })
+  }
+  return { options }
+}
+
+export function getCycleColors(scheme: StatusColorScheme): StatusColor[] {
+  return scheme.options.filter(o => o.enabled).map(o => o.color)
+}
+
+// Next color when the dot is clicked; null clears the marking.
+// A color that was removed from the cycle restarts it.
+export function getNextStatusColor(scheme: StatusColorScheme, current: StatusColor | undefined): StatusColor | null {
+  const cycle = getCycleColors(scheme)
+  const index = current ? cycle.indexOf(current) : -1
+  if (current && index === -1) return cycle[0] ?? null
+  return index < cycle.length - 1 ? cycle[index + 1] : null
+}
+
+export function getStatusColorLabel(scheme: StatusColorScheme, color: StatusColor): string {
+  const label = scheme.options.find(o => o.color === color)?.label.trim()
+  return label || color.charAt(0).toUpperCase() + color.slice(1)
+}
+
+// "%red" or "%needs review" in the command palette: color names and labels, prefix match
+export function findStatusColors(scheme: StatusColorScheme, query: string): StatusColor[] {
+  const term = query.trim().toLowerCase()
+  if (!term) return []
+  return scheme.options
+    .filter(o => o.color.startsWith(term) || o.label.trim().toLowerCase().startsWith(term))
+    .map(o => o.color)
+}
@@ -3,46 +3,286 @@
  * 
  * Provides separate stores for different data types:
  * - drawings: Drawing data per project
+ * - drawing revisions: Revision history per project
  * - rfis: RFI data per project
- * - commitments: Commitment/contract data per project
+ * - submittals: Submittal log per project
+ * - punch: Punch list items per project
+ * - commitments: Commitment/contract data, change events, change orders and budget line items per project
+ * - directory: Project directory people and vendor companies per project
+ * - documents: Documents tool folder tree and files per project
+ * - schedule: Schedule tasks per project
  * - projects: Project metadata and settings
+ * - changes: Field-level change log for cached entities
+ * - sync: Freshness metadata (last scan/capture) per project and entity type
+ * - schema: Schema version per database (see migrations.ts)
  */
 
-import { createStore, get, set, del, keys, clear } from 'idb-keyval'
+import { createStore, get, set, setMany, del, keys, entries, clear } from 'idb-keyval'
+import type { UseStore } from 'idb-keyval'
 import type { 
   Drawing, 
+  DrawingRevision,
   RFI, 
+  Submittal,
+  PunchItem,
   Commitment, 
+  ChangeEvent,
+  CommitmentChangeOrder,
+  BudgetLineItem,
   Specification,
+  DirectoryPerson,
+  DirectoryCompany,
+  DocumentFolder,
+  DocumentFile,
+  ScheduleTask,
   Project, 
   ProjectCache,
+  DrawingArea,
   DisciplineMap,
   DivisionMap,
   StatusColor,
   DrawingStatusColors,
   RecentsList,
   FavoriteFolder,
-  FavoritesData
+  FavoritesData,
+  ChangeSource,
+  CachedEntityType,
+  EntityChange,
+  FieldChange,
+  DatabaseName,
+  SchemaState,
+  SyncEntityType,
+  SyncEvent,
+  SyncMetadata,
+  ProjectSyncMetadata,
+  DrawingRef,
+  DrawingRefRepairResult,
+  UnresolvedDrawingRef,
+  Pin,
+  EntityNote,
+  EntityNotes,
+  NoteEntityType,
+  ProjectTags,
+  Tag,
+  TagEntityType,
+  StatusColorScheme
 } from '@/types'
+import { PREFERENCE_KEYS, DEFAULT_PREFERENCES } from '@/types/preferences'
+import {
+  drawingRefKey,
+  sameDrawingRef,
+  compareDrawingRefs,
+  repairDrawingRefs,
+  upgradeRecents,
+  upgradeFavorites,
+  upgradeStatusColors
+} from './drawing-refs'
+import { pinId } from './pins'
+import { noteKey } from './notes'
+import { emptyProjectTags, entityTagKey, findTagByName } from './tags'
+import { normalizeStatusColorScheme } from './status-colors'
 
 // Create separate stores for each data type
 const drawingsStore = createStore('pp-drawings', 'drawings')
+const drawingRevisionsStore = createStore('pp-drawing-revisions', 'revisions')
 const rfisStore = createStore('pp-rfis', 'rfis')
+const submittalsStore = createStore('pp-submittals', 'submittals')
+const punchStore = createStore('pp-punch', 'punch_items')
 const commitmentsStore = createStore('pp-commitments', 'commitments')
 const specificationsStore = createStore('pp-specifications', 'specifications')
+const directoryStore = createStore('pp-directory', 'directory')
+const documentsStore = createStore('pp-documents', 'documents')
+const scheduleStore = createStore('pp-schedule', 'tasks')
 const projectsStore = createStore('pp-projects', 'projects')
 const preferencesStore = createStore('pp-preferences', 'preferences')
+const changesStore = createStore('pp-changes', 'changes')
+const syncStore = createStore('pp-sync', 'metadata')
+const schemaStore = createStore('pp-schema', 'versions')
+
+// Lookup for code that works on whole databases (migrations)
+const databases: Record<DatabaseName, UseStore> = {
+  'pp-drawings': drawingsStore,
+  'pp-drawing-revisions': drawingRevisionsStore,
+  'pp-rfis': rfisStore,
+  'pp-submittals': submittalsStore,
+  'pp-punch': punchStore,
+  'pp-commitments': commitmentsStore,
+  'pp-specifications': specificationsStore,
+  'pp-directory': directoryStore,
+  'pp-documents': documentsStore,
+  'pp-schedule': scheduleStore,
+  'pp-projects': projectsStore,
+  'pp-preferences': preferencesStore,
+  'pp-changes': changesStore,
+  'pp-sync': syncStore,
+}
 
 // Key generation helpers
 const drawingKey = (projectId: string) => `drawings_${projectId}`
+const drawingRevisionKey = (projectId: string) => `drawing_revisions_${projectId}`
 const rfiKey = (projectId: string) => `rfis_${projectId}`
+const submittalKey = (projectId: string) => `submittals_${projectId}`
+const punchItemKey = (projectId: string) => `punch_items_${projectId}`
 const commitmentKey = (projectId: string) => `commitments_${projectId}`
+const changeEventKey = (projectId: string) => `change_events_${projectId}`
+const changeOrderKey = (projectId: string) => `change_orders_${projectId}`
+const budgetLineItemKey = (projectId: string) => `budget_line_items_${projectId}`
 const specificationKey = (projectId: string) => `specifications_${projectId}`
+const peopleKey = (projectId: string) => `people_${projectId}`
+const companyKey = (projectId: string) => `companies_${projectId}`
+const documentFolderKey = (projectId: string) => `document_folders_${projectId}`
+const documentFileKey = (projectId: string) => `document_files_${projectId}`
+const scheduleTaskKey = (projectId: string) => `schedule_tasks_${projectId}`
 const disciplineMapKey = (projectId: string) => `discipline_map_${projectId}`
+const areaDisciplineMapsKey = (projectId: string) => `discipline_maps_${projectId}`
 const divisionMapKey = (projectId: string) => `division_map_${projectId}`
 const statusColorsKey = (projectId: string) => `status_colors_${projectId}`
+const statusColorSchemeKey = (projectId: string) => `status_scheme_${projectId}`
+const notesKey = (projectId: string) => `notes_${projectId}`
+const tagsKey = (projectId: string) => `tags_${projectId}`
 const recentsKey = (projectId: string) => `recents_${projectId}`
 const favoritesKey = (projectId: string) => `favorites_${projectId}`
+const changeLogKey = (projectId: string) => `changes_${projectId}`
+const syncMetadataKey = (projectId: string) => `sync_${projectId}`
+
+// Keep the change log bounded - oldest entries are dropped first
+const MAX_CHANGE_LOG_ENTRIES = 1000
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  // Discipline and vendor fields can be objects - compare structurally
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b)
+  }
+  return false
+}
+
+/**
+ * Upsert incoming records into an existing list by id.
+ * New ids are appended; existing records are updated field by field.
+ * Fields that are undefined in the incoming record are left untouched,
+ * since wiretap payloads are often partial. A restore only fills fields that
+ * are empty locally: the backup is older than what has been cached since.
+ */
+function upsertById<T extends { id: number }>(
+  existing: T[],
+  incoming: T[],
+  entityType: CachedEntityType,
+  source: ChangeSource
+): { merged: T[]; changes: EntityChange[] } {
+  const changedAt = Date.now()
+  const merged = [...existing]
+  const indexById = new Map<number, number>()
+  merged.forEach((item, index) => indexById.set(item.id, index))
+
+  const changes: EntityChange[] = []
+
+  for (const item of incoming) {
+    const index = indexById.get(item.id)
+    if (index === undefined) {
+      indexById.set(item.id, merged.length)
+      merged.push(item)
+      continue
+    }
+
+    const current = merged[index] as Record<string, unknown>
+    const next: Record<string, unknown> = { ...current }
+    const fieldChanges: FieldChange[] = []
+
+    for (const [field, newValue] of Object.entries(item)) {
+      if (newValue === undefined || field === 'id') continue
+      const oldValue = current[field]
+      if (source === 'restore' && (field === 'removed_at' || !isBlank(oldValue))) continue
+      if (!isSameValue(oldValue, newValue)) {
+        next[field] = newValue
+        fieldChanges.push({ field, oldValue, newValue })
+      }
+    }
+
+    // Seen again in Procore, so it exists - lift the tombstone. A backup is no
+    // such proof: it predates the scan that found the item missing.
+    const seenInProcore = source === 'scan' || source === 'wiretap'
+    if (seenInProcore && current.removed_at !== undefined && (item as Record<string, unknown>).removed_at === undefined) {
+      delete next.removed_at
+      fieldChanges.push({ field: 'removed_at', oldValue: current.removed_at, newValue: undefined })
+    }
+
+    if (fieldChanges.length > 0) {
+      merged[index] = next as T
+      changes.push({ entityType, entityId: item.id, changedAt, source, changes: fieldChanges })
+    }
+  }
+
+  return { merged, changes }
+}
+
+/**
+ * Soft-delete records that were not in a complete scan result.
+ * Already-removed records keep their original removed_at date.
+ */
+function markMissingAsRemoved<T extends { id: number; removed_at?: number }>(
+  existing: T[],
+  seenIds: Set<number>,
+  entityType: CachedEntityType,
+  inScope: (item: T) => boolean = () => true
+): { merged: T[]; changes: EntityChange[] } {
+  const removedAt = Date.now()
+  const changes: EntityChange[] = []
+
+  const merged = existing.map(item => {
+    if (seenIds.has(item.id) || item.removed_at !== undefined || !inScope(item)) return item
+    changes.push({
+      entityType,
+      entityId: item.id,
+      changedAt: removedAt,
+      source: 'scan',
+      changes: [{ field: 'removed_at', oldValue: undefined, newValue: removedAt }],
+    })
+    return { ...item, removed_at: removedAt }
+  })
+
+  return { merged, changes }
+}
+
+/**
+ * A drawing has one current revision. When a merge brings in a current
+ * revision, the drawing's other revisions stop being current.
+ */
+function clearSupersededRevisions(
+  revisions: DrawingRevision[],
+  incoming: DrawingRevision[],
+  source: ChangeSource
+): { merged: DrawingRevision[]; changes: EntityChange[] } {
+  const currentIds = new Map<number, Set<number>>()
+  for (const revision of incoming) {
+    if (revision.current !== true) continue
+    const ids = currentIds.get(revision.drawing_id) ?? new Set<number>()
+    ids.add(revision.id)
+    currentIds.set(revision.drawing_id, ids)
+  }
+  if (currentIds.size === 0) return { merged: revisions, changes: [] }
+
+  const changedAt = Date.now()
+  const changes: EntityChange[] = []
+  const merged = revisions.map(revision => {
+    const ids = currentIds.get(revision.drawing_id)
+    if (!ids || ids.has(revision.id) || revision.current !== true) return revision
+    changes.push({
+      entityType: 'drawing_revision',
+      entityId: revision.id,
+      changedAt,
+      source,
+      changes: [{ field: 'current', oldValue: true, newValue: false }],
+    })
+    return { ...revision, current: false }
+  })
+
+  return { merged, changes }
+}
 
 export const StorageService = {
   // ============================================
@@ -60,25 +300,108 @@ export const StorageService = {
     await set(drawingKey(projectId), drawings, drawingsStore)
   },
 
-  async mergeDrawings(projectId: string, newDrawings: Drawing[]): Promise<Drawing[]> {
+  async mergeDrawings(projectId: string, newDrawings: Drawing[], source: ChangeSource = 'wiretap'): Promise<Drawing[]> {
     if (!projectId) return []
     const existing = await this.getDrawings(projectId)
-    const existingIds = new Set(existing.map(d => d.id))
-    const toAdd = newDrawings.filter(d => !existingIds.has(d.id))
-    const merged = [...existing, ...toAdd]
+    const { merged, changes } = upsertById(existing, newDrawings, 'drawing', source)
     await this.saveDrawings(projectId, merged)
+    await this.appendChanges(projectId, changes)
     return merged
   },
 
-  async getDisciplineMap(projectId: string): Promise<DisciplineMap> {
+  // After a complete scan: anything not in the result was deleted in Procore
+  // Scans run per drawing area, so only that area's drawings are reconciled
+  async reconcileDrawings(projectId: string, scannedIds: number[], drawingAreaId?: string): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getDrawings(projectId)
+    const { merged, changes } = markMissingAsRemoved(
+      existing,
+      new Set(scannedIds),
+      'drawing',
+      d => !drawingAreaId || d.drawing_area_id === drawingAreaId
+    )
+    if (changes.length > 0) {
+      await this.saveDrawings(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  async getDrawingRevisions(projectId: string): Promise<DrawingRevision[]> {
+    if (!projectId) return []
+    const data = await get<DrawingRevision[]>(drawingRevisionKey(projectId), drawingRevisionsStore)
+    return data ?? []
+  },
+
+  async saveDrawingRevisions(projectId: string, revisions: DrawingRevision[]): Promise<void> {
+    if (!projectId) return
+    await set(drawingRevisionKey(projectId), revisions, drawingRevisionsStore)
+  },
+
+  async mergeDrawingRevisions(projectId: string, newRevisions: DrawingRevision[], source: ChangeSource = 'wiretap'): Promise<DrawingRevision[]> {
+    if (!projectId) return []
+    const existing = await this.getDrawingRevisions(projectId)
+    const upserted = upsertById(existing, newRevisions, 'drawing_revision', source)
+    // A backup's current revision may have been superseded since it was taken
+    const { merged, changes } = source === 'restore'
+      ? { merged: upserted.merged, changes: [] }
+      : clearSupersededRevisions(upserted.merged, newRevisions, source)
+    await this.saveDrawingRevisions(projectId, merged)
+    await this.appendChanges(projectId, [...upserted.changes, ...changes])
+    return merged
+  },
+
+  async getRevisionsForDrawing(projectId: string, drawingId: number): Promise<DrawingRevision[]> {
+    const revisions = await this.getDrawingRevisions(projectId)
+    // Newest revision first
+    return revisions
+      .filter(r => r.drawing_id === drawingId)
+      .sort((a, b) => (b.revision_number || '').localeCompare(a.revision_number || '', undefined, { numeric: true }))
+  },
+
+  /**
+   * Discipline map for one drawing area, or all areas combined when no area is given.
+   * Disciplines captured before areas were tracked are included either way.
+   */
+  async getDisciplineMap(projectId: string, drawingAreaId?: string): Promise<DisciplineMap> {
     if (!projectId) return {}
-    const data = await get<DisciplineMap>(disciplineMapKey(projectId), drawingsStore)
+    const [unassigned, areaMaps] = await Promise.all([
+      get<DisciplineMap>(disciplineMapKey(projectId), drawingsStore),
+      this.getAreaDisciplineMaps(projectId),
+    ])
+    if (drawingAreaId) {
+      return { ...unassigned, ...areaMaps[drawingAreaId] }
+    }
+    return Object.assign({}, unassigned, ...Object.values(areaMaps))
+  },
+
+  async saveDisciplineMap(projectId: string, map: DisciplineMap, drawingAreaId?: string): Promise<void> {
+    if (!projectId) return
+    if (!drawingAreaId) {
+      await set(disciplineMapKey(projectId), map, drawingsStore)
+      return
+    }
+    const areaMaps = await this.getAreaDisciplineMaps(projectId)
+    areaMaps[drawingAreaId] = map
+    await this.saveAreaDisciplineMaps(projectId, areaMaps)
+  },
+
+  async getAreaDisciplineMaps(projectId: string): Promise<Record<string, DisciplineMap>> {
+    if (!projectId) return {}
+    const data = await get<Record<string, DisciplineMap>>(areaDisciplineMapsKey(projectId), drawingsStore)
     return data ?? {}
   },
 
-  async saveDisciplineMap(projectId: string, map: DisciplineMap): Promise<void> {
+  async saveAreaDisciplineMaps(projectId: string, maps: Record<string, DisciplineMap>): Promise<void> {
     if (!projectId) return
-    await set(disciplineMapKey(projectId), map, drawingsStore)
+    await set(areaDisciplineMapsKey(projectId), maps, drawingsStore)
+  },
+
+  // Disciplines not attributed to any drawing area (captured before areas were tracked)
+  async getUnassignedDisciplineMap(projectId: string): Promise<DisciplineMap> {
+    if (!projectId) return {}
+    const data = await get<DisciplineMap>(disciplineMapKey(projectId), drawingsStore)
+    return data ?? {}
   },
 
   async getProjectCache(projectId: string): Promise<ProjectCache | null> {
@@ -114,16 +437,99 @@ export const StorageService = {
     await set(rfiKey(projectId), rfis, rfisStore)
   },
 
-  async mergeRFIs(projectId: string, newRFIs: RFI[]): Promise<RFI[]> {
+  async mergeRFIs(projectId: string, newRFIs: RFI[], source: ChangeSource = 'wiretap'): Promise<RFI[]> {
     if (!projectId) return []
     const existing = await this.getRFIs(projectId)
-    const existingIds = new Set(existing.map(r => r.id))
-    const toAdd = newRFIs.filter(r => !existingIds.has(r.id))
-    const merged = [...existing, ...toAdd]
+    const { merged, changes } = upsertById(existing, newRFIs, 'rfi', source)
     await this.saveRFIs(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  // After a complete scan: anything not in the result was deleted in Procore
+  async reconcileRFIs(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getRFIs(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'rfi')
+    if (changes.length > 0) {
+      await this.saveRFIs(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  // ============================================
+  // SUBMITTALS
+  // ============================================
+
+  async getSubmittals(projectId: string): Promise<Submittal[]> {
+    if (!projectId) return []
+    const data = await get<Submittal[]>(submittalKey(projectId), submittalsStore)
+    return data ?? []
+  },
+
+  async saveSubmittals(projectId: string, submittals: Submittal[]): Promise<void> {
+    if (!projectId) return
+    await set(submittalKey(projectId), submittals, submittalsStore)
+  },
+
+  async mergeSubmittals(projectId: string, newSubmittals: Submittal[], source: ChangeSource = 'wiretap'): Promise<Submittal[]> {
+    if (!projectId) return []
+    const existing = await this.getSubmittals(projectId)
+    const { merged, changes } = upsertById(existing, newSubmittals, 'submittal', source)
+    await this.saveSubmittals(projectId, merged)
+    await this.appendChanges(projectId, changes)
     return merged
   },
 
+  // After a complete scan: anything not in the result was deleted in Procore
+  async reconcileSubmittals(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getSubmittals(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'submittal')
+    if (changes.length > 0) {
+      await this.saveSubmittals(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  // ============================================
+  // PUNCH ITEMS
+  // ============================================
+
+  async getPunchItems(projectId: string): Promise<PunchItem[]> {
+    if (!projectId) return []
+    const data = await get<PunchItem[]>(punchItemKey(projectId), punchStore)
+    return data ?? []
+  },
+
+  async savePunchItems(projectId: string, punchItems: PunchItem[]): Promise<void> {
+    if (!projectId) return
+    await set(punchItemKey(projectId), punchItems, punchStore)
+  },
+
+  async mergePunchItems(projectId: string, newPunchItems: PunchItem[], source: ChangeSource = 'wiretap'): Promise<PunchItem[]> {
+    if (!projectId) return []
+    const existing = await this.getPunchItems(projectId)
+    const { merged, changes } = upsertById(existing, newPunchItems, 'punch_item', source)
+    await this.savePunchItems(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  // After a complete scan: anything not in the result was deleted in Procore
+  async reconcilePunchItems(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getPunchItems(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'punch_item')
+    if (changes.length > 0) {
+      await this.savePunchItems(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
   // ============================================
   // COMMITMENTS
   // ============================================
@@ -139,16 +545,110 @@ export const StorageService = {
     await set(commitmentKey(projectId), commitments, commitmentsStore)
   },
 
-  async mergeCommitments(projectId: string, newCommitments: Commitment[]): Promise<Commitment[]> {
+  async mergeCommitments(projectId: string, newCommitments: Commitment[], source: ChangeSource = 'wiretap'): Promise<Commitment[]> {
     if (!projectId) return []
     const existing = await this.getCommitments(projectId)
-    const existingIds = new Set(existing.map(c => c.id))
-    const toAdd = newCommitments.filter(c => !existingIds.has(c.id))
-    const merged = [...existing, ...toAdd]
+    const { merged, changes } = upsertById(existing, newCommitments, 'commitment', source)
     await this.saveCommitments(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  // Change events and commitment change orders live next to commitments
+
+  async getChangeEvents(projectId: string): Promise<ChangeEvent[]> {
+    if (!projectId) return []
+    const data = await get<ChangeEvent[]>(changeEventKey(projectId), commitmentsStore)
+    return data ?? []
+  },
+
+  async saveChangeEvents(projectId: string, changeEvents: ChangeEvent[]): Promise<void> {
+    if (!projectId) return
+    await set(changeEventKey(projectId), changeEvents, commitmentsStore)
+  },
+
+  async mergeChangeEvents(projectId: string, newChangeEvents: ChangeEvent[], source: ChangeSource = 'wiretap'): Promise<ChangeEvent[]> {
+    if (!projectId) return []
+    const existing = await this.getChangeEvents(projectId)
+    const { merged, changes } = upsertById(existing, newChangeEvents, 'change_event', source)
+    await this.saveChangeEvents(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  async reconcileChangeEvents(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getChangeEvents(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'change_event')
+    if (changes.length > 0) {
+      await this.saveChangeEvents(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  async getChangeOrders(projectId: string): Promise<CommitmentChangeOrder[]> {
+    if (!projectId) return []
+    const data = await get<CommitmentChangeOrder[]>(changeOrderKey(projectId), commitmentsStore)
+    return data ?? []
+  },
+
+  async saveChangeOrders(projectId: string, changeOrders: CommitmentChangeOrder[]): Promise<void> {
+    if (!projectId) return
+    await set(changeOrderKey(projectId), changeOrders, commitmentsStore)
+  },
+
+  async mergeChangeOrders(projectId: string, newChangeOrders: CommitmentChangeOrder[], source: ChangeSource = 'wiretap'): Promise<CommitmentChangeOrder[]> {
+    if (!projectId) return []
+    const existing = await this.getChangeOrders(projectId)
+    const { merged, changes } = upsertById(existing, newChangeOrders, 'change_order', source)
+    await this.saveChangeOrders(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  async reconcileChangeOrders(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getChangeOrders(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'change_order')
+    if (changes.length > 0) {
+      await this.saveChangeOrders(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  async getBudgetLineItems(projectId: string): Promise<BudgetLineItem[]> {
+    if (!projectId) return []
+    const data = await get<BudgetLineItem[]>(budgetLineItemKey(projectId), commitmentsStore)
+    return data ?? []
+  },
+
+  async saveBudgetLineItems(projectId: string, lineItems: BudgetLineItem[]): Promise<void> {
+    if (!projectId) return
+    await set(budgetLineItemKey(projectId), lineItems, commitmentsStore)
+  },
+
+  async mergeBudgetLineItems(projectId: string, newLineItems: BudgetLineItem[], source: ChangeSource = 'wiretap'): Promise<BudgetLineItem[]> {
+    if (!projectId) return []
+    const existing = await this.getBudgetLineItems(projectId)
+    const { merged, changes } = upsertById(existing, newLineItems, 'budget_line_item', source)
+    await this.saveBudgetLineItems(projectId, merged)
+    await this.appendChanges(projectId, changes)
     return merged
   },
 
+  async reconcileBudgetLineItems(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getBudgetLineItems(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'budget_line_item')
+    if (changes.length > 0) {
+      await this.saveBudgetLineItems(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
   // ============================================
   // SPECIFICATIONS
   // ============================================
@@ -164,16 +664,27 @@ export const StorageService = {
     await set(specificationKey(projectId), specifications, specificationsStore)
   },
 
-  async mergeSpecifications(projectId: string, newSpecifications: Specification[]): Promise<Specification[]> {
+  async mergeSpecifications(projectId: string, newSpecifications: Specification[], source: ChangeSource = 'wiretap'): Promise<Specification[]> {
     if (!projectId) return []
     const existing = await this.getSpecifications(projectId)
-    const existingIds = new Set(existing.map(s => s.id))
-    const toAdd = newSpecifications.filter(s => !existingIds.has(s.id))
-    const merged = [...existing, ...toAdd]
+    const { merged, changes } = upsertById(existing, newSpecifications, 'specification', source)
     await this.saveSpecifications(projectId, merged)
+    await this.appendChanges(projectId, changes)
     return merged
   },
 
+  // After a complete scan: anything not in the result was deleted in Procore
+  async reconcileSpecifications(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getSpecifications(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'specification')
+    if (changes.length > 0) {
+      await this.saveSpecifications(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
   async getDivisionMap(projectId: string): Promise<DivisionMap> {
     if (!projectId) return {}
     const data = await get<DivisionMap>(divisionMapKey(projectId), specificationsStore)
@@ -185,6 +696,261 @@ export const StorageService = {
     await set(divisionMapKey(projectId), map, specificationsStore)
   },
 
+  // ============================================
+  // DIRECTORY
+  // ============================================
+
+  async getPeople(projectId: string): Promise<DirectoryPerson[]> {
+    if (!projectId) return []
+    const data = await get<DirectoryPerson[]>(peopleKey(projectId), directoryStore)
+    return data ?? []
+  },
+
+  async savePeople(projectId: string, people: DirectoryPerson[]): Promise<void> {
+    if (!projectId) return
+    await set(peopleKey(projectId), people, directoryStore)
+  },
+
+  async mergePeople(projectId: string, newPeople: DirectoryPerson[], source: ChangeSource = 'wiretap'): Promise<DirectoryPerson[]> {
+    if (!projectId) return []
+    const existing = await this.getPeople(projectId)
+    const { merged, changes } = upsertById(existing, newPeople, 'person', source)
+    await this.savePeople(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  // After a complete scan: anyone not in the result left the project directory
+  async reconcilePeople(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getPeople(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'person')
+    if (changes.length > 0) {
+      await this.savePeople(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  async getCompanies(projectId: string): Promise<DirectoryCompany[]> {
+    if (!projectId) return []
+    const data = await get<DirectoryCompany[]>(companyKey(projectId), directoryStore)
+    return data ?? []
+  },
+
+  async saveCompanies(projectId: string, companies: DirectoryCompany[]): Promise<void> {
+    if (!projectId) return
+    await set(companyKey(projectId), companies, directoryStore)
+  },
+
+  async mergeCompanies(projectId: string, newCompanies: DirectoryCompany[], source: ChangeSource = 'wiretap'): Promise<DirectoryCompany[]> {
+    if (!projectId) return []
+    const existing = await this.getCompanies(projectId)
+    const { merged, changes } = upsertById(existing, newCompanies, 'company', source)
+    await this.saveCompanies(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  async reconcileCompanies(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getCompanies(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'company')
+    if (changes.length > 0) {
+      await this.saveCompanies(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  // ============================================
+  // DOCUMENTS
+  // ============================================
+
+  async getDocumentFolders(projectId: string): Promise<DocumentFolder[]> {
+    if (!projectId) return []
+    const data = await get<DocumentFolder[]>(documentFolderKey(projectId), documentsStore)
+    return data ?? []
+  },
+
+  async saveDocumentFolders(projectId: string, folders: DocumentFolder[]): Promise<void> {
+    if (!projectId) return
+    await set(documentFolderKey(projectId), folders, documentsStore)
+  },
+
+  async mergeDocumentFolders(projectId: string, newFolders: DocumentFolder[], source: ChangeSource = 'wiretap'): Promise<DocumentFolder[]> {
+    if (!projectId) return []
+    const existing = await this.getDocumentFolders(projectId)
+    const { merged, changes } = upsertById(existing, newFolders, 'document_folder', source)
+    await this.saveDocumentFolders(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  async reconcileDocumentFolders(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getDocumentFolders(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'document_folder')
+    if (changes.length > 0) {
+      await this.saveDocumentFolders(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  async getDocumentFiles(projectId: string): Promise<DocumentFile[]> {
+    if (!projectId) return []
+    const data = await get<DocumentFile[]>(documentFileKey(projectId), documentsStore)
+    return data ?? []
+  },
+
+  async saveDocumentFiles(projectId: string, files: DocumentFile[]): Promise<void> {
+    if (!projectId) return
+    await set(documentFileKey(projectId), files, documentsStore)
+  },
+
+  async mergeDocumentFiles(projectId: string, newFiles: DocumentFile[], source: ChangeSource = 'wiretap'): Promise<DocumentFile[]> {
+    if (!projectId) return []
+    const existing = await this.getDocumentFiles(projectId)
+    const { merged, changes } = upsertById(existing, newFiles, 'document_file', source)
+    await this.saveDocumentFiles(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  // After a complete scan of the whole tree: files not seen were deleted or moved out
+  async reconcileDocumentFiles(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getDocumentFiles(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'document_file')
+    if (changes.length > 0) {
+      await this.saveDocumentFiles(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  // ============================================
+  // SCHEDULE
+  // ============================================
+
+  async getScheduleTasks(projectId: string): Promise<ScheduleTask[]> {
+    if (!projectId) return []
+    const data = await get<ScheduleTask[]>(scheduleTaskKey(projectId), scheduleStore)
+    return data ?? []
+  },
+
+  async saveScheduleTasks(projectId: string, tasks: ScheduleTask[]): Promise<void> {
+    if (!projectId) return
+    await set(scheduleTaskKey(projectId), tasks, scheduleStore)
+  },
+
+  async mergeScheduleTasks(projectId: string, newTasks: ScheduleTask[], source: ChangeSource = 'wiretap'): Promise<ScheduleTask[]> {
+    if (!projectId) return []
+    const existing = await this.getScheduleTasks(projectId)
+    const { merged, changes } = upsertById(existing, newTasks, 'schedule_task', source)
+    await this.saveScheduleTasks(projectId, merged)
+    await this.appendChanges(projectId, changes)
+    return merged
+  },
+
+  async reconcileScheduleTasks(projectId: string, scannedIds: number[]): Promise<number> {
+    if (!projectId) return 0
+    const existing = await this.getScheduleTasks(projectId)
+    const { merged, changes } = markMissingAsRemoved(existing, new Set(scannedIds), 'schedule_task')
+    if (changes.length > 0) {
+      await this.saveScheduleTasks(projectId, merged)
+      await this.appendChanges(projectId, changes)
+    }
+    return changes.length
+  },
+
+  // ============================================
+  // CHANGE LOG
+  // ============================================
+
+  async getChangeLog(projectId: string): Promise<EntityChange[]> {
+    if (!projectId) return []
+    const data = await get<EntityChange[]>(changeLogKey(projectId), changesStore)
+    return data ?? []
+  },
+
+  async getEntityChanges(projectId: string, entityType: CachedEntityType, entityId: number): Promise<EntityChange[]> {
+    const log = await this.getChangeLog(projectId)
+    return log.filter(c => c.entityType === entityType && c.entityId === entityId)
+  },
+
+  async appendChanges(projectId: string, changes: EntityChange[]): Promise<void> {
+    if (!projectId || changes.length === 0) return
+    const log = await this.getChangeLog(projectId)
+    const updated = [...log, ...changes].slice(-MAX_CHANGE_LOG_ENTRIES)
+    await set(changeLogKey(projectId), updated, changesStore)
+  },
+
+  // ============================================
+  // SYNC METADATA
+  // ============================================
+
+  async getSyncMetadata(projectId: string): Promise<ProjectSyncMetadata> {
+    if (!projectId) return {}
+    const data = await get<ProjectSyncMetadata>(syncMetadataKey(projectId), syncStore)
+    return data ?? {}
+  },
+
+  // Record a capture or scan outcome; the item count is read back from the cache
+  async recordSync(projectId: string, entityType: SyncEntityType, event: SyncEvent): Promise<SyncMetadata | null> {
+    if (!projectId) return null
+    const metadata = await this.getSyncMetadata(projectId)
+    const now = Date.now()
+    const entry: SyncMetadata = { ...metadata[entityType], itemCount: await this.countCached(projectId, entityType) }
+
+    if (event.error) {
+      entry.lastError = { message: event.error, at: now }
+    } else if (event.source === 'wiretap') {
+      entry.lastWiretap = now
+      if (event.complete) entry.lastCompleteWiretap = now
+    } else if (event.complete === false) {
+      entry.lastError = { message: 'Scan stopped early - results may be incomplete', at: now }
+    } else {
+      entry.lastFullScan = now
+      delete entry.lastError
+    }
+
+    await set(syncMetadataKey(projectId), { ...metadata, [entityType]: entry }, syncStore)
+    return entry
+  },
+
+  async countCached(projectId: string, entityType: SyncEntityType): Promise<number> {
+    switch (entityType) {
+      case 'drawings':
+        return (await this.getDrawings(projectId)).filter(d => d.removed_at === undefined).length
+      case 'rfis':
+        return (await this.getRFIs(projectId)).filter(r => r.removed_at === undefined).length
+      case 'submittals':
+        return (await this.getSubmittals(projectId)).filter(s => s.removed_at === undefined).length
+      case 'punch_items':
+        return (await this.getPunchItems(projectId)).filter(p => p.removed_at === undefined).length
+      case 'specifications':
+        return (await this.getSpecifications(projectId)).filter(s => s.removed_at === undefined).length
+      case 'commitments':
+        return (await this.getCommitments(projectId)).length
+      case 'change_events':
+        return (await this.getChangeEvents(projectId)).filter(e => e.removed_at === undefined).length
+      case 'change_orders':
+        return (await this.getChangeOrders(projectId)).filter(o => o.removed_at === undefined).length
+      case 'budget_line_items':
+        return (await this.getBudgetLineItems(projectId)).filter(b => b.removed_at === undefined).length
+      case 'people':
+        return (await this.getPeople(projectId)).filter(p => p.removed_at === undefined).length
+      case 'companies':
+        return (await this.getCompanies(projectId)).filter(c => c.removed_at === undefined).length
+      case 'documents':
+        return (await this.getDocumentFiles(projectId)).filter(f => f.removed_at === undefined).length
+      case 'schedule_tasks':
+        return (await this.getScheduleTasks(projectId)).filter(t => t.removed_at === undefined).length
+    }
+  },
+
   // ============================================
   // PROJECTS
   // ============================================
@@ -219,6 +985,39 @@ export const StorageService = {
     })
   },
 
+  // Manual rename, kept apart from the captured name. An empty name reverts to Procore's.
+  async renameProject(projectId: string, customName: string): Promise<void> {
+    const project = await this.getProject(projectId) ?? { id: projectId, lastAccessed: Date.now() }
+    const trimmed = customName.trim()
+    const next: Project = { ...project, customName: trimmed }
+    if (!trimmed || trimmed === project.name) delete next.customName
+    await this.saveProject(next)
+  },
+
+  // Add drawing areas to the project, keeping known names when the incoming area has none
+  async addDrawingAreas(projectId: string, areas: DrawingArea[]): Promise<DrawingArea[]> {
+    if (!projectId || areas.length === 0) return []
+    const project = await this.getProject(projectId) ?? { id: projectId, lastAccessed: Date.now() }
+    const merged = [...(project.drawingAreas ?? [])]
+    let changed = false
+
+    for (const area of areas) {
+      const index = merged.findIndex(a => a.id === area.id)
+      if (index === -1) {
+        merged.push(area)
+        changed = true
+      } else if (area.name && area.name !== merged[index].name) {
+        merged[index] = { ...merged[index], name: area.name }
+        changed = true
+      }
+    }
+
+    if (changed) {
+      await this.saveProject({ ...project, drawingAreas: merged })
+    }
+    return merged
+  },
+
   // ============================================
   // PREFERENCES
   // ============================================
@@ -232,6 +1031,15 @@ export const StorageService = {
     await set(key, value, preferencesStore)
   },
 
+  // Drop soft-deleted records unless the user opted to see them
+  async filterRemoved<T extends { removed_at?: number }>(items: T[]): Promise<T[]> {
+    const showRemoved = await this.getPreferences<boolean>(
+      PREFERENCE_KEYS.showRemovedItems,
+      DEFAULT_PREFERENCES.showRemovedItems
+    )
+    return showRemoved ? items : items.filter(item => item.removed_at === undefined)
+  },
+
   // ============================================
   // UTILITIES
   // ============================================
@@ -240,10 +1048,24 @@ export const StorageService = {
     if (!projectId) return
     await del(drawingKey(projectId), drawingsStore)
     await del(disciplineMapKey(projectId), drawingsStore)
+    await del(areaDisciplineMapsKey(projectId), drawingsStore)
+    await del(drawingRevisionKey(projectId), drawingRevisionsStore)
     await del(rfiKey(projectId), rfisStore)
+    await del(submittalKey(projectId), submittalsStore)
+    await del(punchItemKey(projectId), punchStore)
     await del(commitmentKey(projectId), commitmentsStore)
+    await del(changeEventKey(projectId), commitmentsStore)
+    await del(changeOrderKey(projectId), commitmentsStore)
+    await del(budgetLineItemKey(projectId), commitmentsStore)
     await del(specificationKey(projectId), specificationsStore)
     await del(divisionMapKey(projectId), specificationsStore)
+    await del(peopleKey(projectId), directoryStore)
+    await del(companyKey(projectId), directoryStore)
+    await del(documentFolderKey(projectId), documentsStore)
+    await del(documentFileKey(projectId), documentsStore)
+    await del(scheduleTaskKey(projectId), scheduleStore)
+    await del(changeLogKey(projectId), changesStore)
+    await del(syncMetadataKey(projectId), syncStore)
   },
 
   async deleteProject(projectId: string): Promise<void> {
@@ -252,15 +1074,33 @@ export const StorageService = {
     // Delete all project data from various stores
     await del(drawingKey(projectId), drawingsStore)
     await del(disciplineMapKey(projectId), drawingsStore)
+    await del(areaDisciplineMapsKey(projectId), drawingsStore)
+    await del(drawingRevisionKey(projectId), drawingRevisionsStore)
     await del(rfiKey(projectId), rfisStore)
+    await del(submittalKey(projectId), submittalsStore)
+    await del(punchItemKey(projectId), punchStore)
     await del(commitmentKey(projectId), commitmentsStore)
+    await del(changeEventKey(projectId), commitmentsStore)
+    await del(changeOrderKey(projectId), commitmentsStore)
+    await del(budgetLineItemKey(projectId), commitmentsStore)
     await del(specificationKey(projectId), specificationsStore)
     await del(divisionMapKey(projectId), specificationsStore)
+    await del(peopleKey(projectId), directoryStore)
+    await del(companyKey(projectId), directoryStore)
+    await del(documentFolderKey(projectId), documentsStore)
+    await del(documentFileKey(projectId), documentsStore)
+    await del(scheduleTaskKey(projectId), scheduleStore)
+    await del(changeLogKey(projectId), changesStore)
+    await del(syncMetadataKey(projectId), syncStore)
     
     // Delete project preferences
     await del(statusColorsKey(projectId), preferencesStore)
     await del(recentsKey(projectId), preferencesStore)
     await del(favoritesKey(projectId), preferencesStore)
+    await del(statusColorSchemeKey(projectId), preferencesStore)
+    await del(notesKey(projectId), preferencesStore)
+    await del(tagsKey(projectId), preferencesStore)
+    await this.removeProjectPins(projectId)
     
     // Delete the project entry itself
     await del(projectId, projectsStore)
@@ -268,10 +1108,18 @@ export const StorageService = {
 
   async clearAllData(): Promise<void> {
     await clear(drawingsStore)
+    await clear(drawingRevisionsStore)
     await clear(rfisStore)
+    await clear(submittalsStore)
+    await clear(punchStore)
     await clear(commitmentsStore)
     await clear(specificationsStore)
+    await clear(directoryStore)
+    await clear(documentsStore)
+    await clear(scheduleStore)
     await clear(projectsStore)
+    await clear(changesStore)
+    await clear(syncStore)
   },
 
   // ============================================
@@ -280,8 +1128,9 @@ export const StorageService = {
   
   async getStatusColors(projectId: string): Promise<DrawingStatusColors> {
     if (!projectId) return {}
-    const data = await get<DrawingStatusColors>(statusColorsKey(projectId), preferencesStore)
-    return data ?? {}
+    // Older data may still be keyed by drawing number only
+    const data = await get<unknown>(statusColorsKey(projectId), preferencesStore)
+    return upgradeStatusColors(data)
   },
 
   async saveStatusColors(projectId: string, colors: DrawingStatusColors): Promise<void> {
@@ -289,25 +1138,45 @@ export const StorageService = {
     await set(statusColorsKey(projectId), colors, preferencesStore)
   },
 
-  async setDrawingStatusColor(projectId: string, drawingNum: string, color: StatusColor | null): Promise<void> {
+  async setDrawingStatusColor(projectId: string, drawing: DrawingRef, color: StatusColor | null): Promise<void> {
     if (!projectId) return
     const colors = await this.getStatusColors(projectId)
+    // Drop a number-only entry for the same sheet so it can't shadow the id entry
+    delete colors[drawingRefKey({ num: drawing.num })]
     if (color) {
-      colors[drawingNum] = color
+      colors[drawingRefKey(drawing)] = { id: drawing.id, num: drawing.num, color, setAt: Date.now() }
     } else {
-      delete colors[drawingNum]
+      delete colors[drawingRefKey(drawing)]
     }
     await this.saveStatusColors(projectId, colors)
   },
 
+  // Labels and cycle order; projects that never changed them get the defaults
+  async getStatusColorScheme(projectId: string): Promise<StatusColorScheme> {
+    const data = projectId ? await get<unknown>(statusColorSchemeKey(projectId), preferencesStore) : undefined
+    return normalizeStatusColorScheme(data)
+  },
+
+  // Undefined when the project has never saved a scheme (used by backup)
+  async getSavedStatusColorScheme(projectId: string): Promise<StatusColorScheme | undefined> {
+    if (!projectId) return undefined
+    const data = await get<unknown>(statusColorSchemeKey(projectId), preferencesStore)
+    return data ? normalizeStatusColorScheme(data) : undefined
+  },
+
+  async saveStatusColorScheme(projectId: string, scheme: StatusColorScheme): Promise<void> {
+    if (!projectId) return
+    await set(statusColorSchemeKey(projectId), normalizeStatusColorScheme(scheme), preferencesStore)
+  },
+
   // ============================================
   // RECENTS
   // ============================================
   
   async getRecents(projectId: string): Promise<RecentsList> {
     if (!projectId) return []
-    const data = await get<RecentsList>(recentsKey(projectId), preferencesStore)
-    return data ?? []
+    const data = await get<unknown>(recentsKey(projectId), preferencesStore)
+    return upgradeRecents(data)
   },
 
   async saveRecents(projectId: string, recents: RecentsList): Promise<void> {
@@ -315,13 +1184,13 @@ export const StorageService = {
     await set(recentsKey(projectId), recents, preferencesStore)
   },
 
-  async addRecent(projectId: string, drawingNum: string): Promise<void> {
-    if (!projectId || !drawingNum) return
+  async addRecent(projectId: string, drawing: DrawingRef): Promise<void> {
+    if (!projectId || !drawing.num) return
     const recents = await this.getRecents(projectId)
     // Remove if already exists (deduplication)
-    const filtered = recents.filter(num => num !== drawingNum)
+    const filtered = recents.filter(ref => !sameDrawingRef(ref, drawing))
     // Add to front
-    const updated = [drawingNum, ...filtered]
+    const updated = [{ id: drawing.id, num: drawing.num }, ...filtered]
     // Limit to 5 items (like v1)
     const limited = updated.slice(0, 5)
     await this.saveRecents(projectId, limited)
@@ -333,14 +1202,11 @@ export const StorageService = {
   
   async getFavorites(projectId: string): Promise<FavoritesData> {
     if (!projectId) return { folders: [] }
-    const data = await get<FavoritesData>(favoritesKey(projectId), preferencesStore)
-    if (!data) return { folders: [] }
+    const data = upgradeFavorites(await get<unknown>(favoritesKey(projectId), preferencesStore))
     
     // Ensure all folder drawings are sorted to match default list order
     data.folders.forEach(folder => {
-      folder.drawings.sort((a, b) => 
-        (a || '').localeCompare(b || '', undefined, { numeric: true })
-      )
+      folder.drawings.sort(compareDrawingRefs)
     })
     
     return data
@@ -371,56 +1237,266 @@ export const StorageService = {
     await this.saveFavorites(projectId, favorites)
   },
 
-  async addDrawingToFolder(projectId: string, folderId: number, drawingNum: string): Promise<boolean> {
+  async addDrawingToFolder(projectId: string, folderId: number, drawing: DrawingRef): Promise<boolean> {
     if (!projectId) return false
     const favorites = await this.getFavorites(projectId)
     const folder = favorites.folders.find(f => f.id === folderId)
     if (!folder) return false
     
     // Check if already in folder
-    if (folder.drawings.includes(drawingNum)) return false
+    if (folder.drawings.some(ref => sameDrawingRef(ref, drawing))) return false
     
-    folder.drawings.push(drawingNum)
+    folder.drawings.push({ id: drawing.id, num: drawing.num })
     // Sort drawings to match the default list order (numeric sorting)
-    folder.drawings.sort((a, b) => 
-      (a || '').localeCompare(b || '', undefined, { numeric: true })
-    )
+    folder.drawings.sort(compareDrawingRefs)
     await this.saveFavorites(projectId, favorites)
     return true
   },
 
-  async removeDrawingFromFolder(projectId: string, folderId: number, drawingNum: string): Promise<void> {
+  async removeDrawingFromFolder(projectId: string, folderId: number, drawing: DrawingRef): Promise<void> {
     if (!projectId) return
     const favorites = await this.getFavorites(projectId)
     const folder = favorites.folders.find(f => f.id === folderId)
     if (!folder) return
     
-    folder.drawings = folder.drawings.filter(num => num !== drawingNum)
+    folder.drawings = folder.drawings.filter(ref => !sameDrawingRef(ref, drawing))
     await this.saveFavorites(projectId, favorites)
   },
 
+  // Keys from drawingRefKey() - test drawings with hasDrawingRef()
   async getAllFavoriteDrawings(projectId: string): Promise<Set<string>> {
     if (!projectId) return new Set()
     const favorites = await this.getFavorites(projectId)
     const set = new Set<string>()
     favorites.folders.forEach(f => {
-      f.drawings.forEach(d => set.add(d))
+      f.drawings.forEach(d => set.add(drawingRefKey(d)))
     })
     return set
   },
 
-  // Export for debugging
-  async exportAllData(): Promise<Record<string, unknown>> {
-    const projects = await this.getAllProjects()
-    const data: Record<string, unknown> = { projects }
-    
-    for (const project of projects) {
-      data[`drawings_${project.id}`] = await this.getDrawings(project.id)
-      data[`rfis_${project.id}`] = await this.getRFIs(project.id)
-      data[`commitments_${project.id}`] = await this.getCommitments(project.id)
-      data[`specifications_${project.id}`] = await this.getSpecifications(project.id)
+  // ============================================
+  // NOTES
+  // ============================================
+
+  async getNotes(projectId: string): Promise<EntityNotes> {
+    if (!projectId) return {}
+    const data = await get<EntityNotes>(notesKey(projectId), preferencesStore)
+    return data ?? {}
+  },
+
+  async saveNotes(projectId: string, notes: EntityNotes): Promise<void> {
+    if (!projectId) return
+    await set(notesKey(projectId), notes, preferencesStore)
+  },
+
+  // Blank text removes the note
+  async setNote(projectId: string, type: NoteEntityType, itemId: number, text: string): Promise<EntityNote | null> {
+    if (!projectId) return null
+    const notes = await this.getNotes(projectId)
+    const key = noteKey(type, itemId)
+    const trimmed = text.trim()
+
+    if (!trimmed) {
+      delete notes[key]
+      await this.saveNotes(projectId, notes)
+      return null
     }
-    
-    return data
+
+    const note: EntityNote = { type, itemId, text: trimmed, updatedAt: Date.now() }
+    notes[key] = note
+    await this.saveNotes(projectId, notes)
+    return note
+  },
+
+  // ============================================
+  // TAGS
+  // ============================================
+
+  async getProjectTags(projectId: string): Promise<ProjectTags> {
+    if (!projectId) return emptyProjectTags()
+    const data = await get<ProjectTags>(tagsKey(projectId), preferencesStore)
+    return data ?? emptyProjectTags()
+  },
+
+  async saveProjectTags(projectId: string, data: ProjectTags): Promise<void> {
+    if (!projectId) return
+    await set(tagsKey(projectId), data, preferencesStore)
+  },
+
+  // Returns the existing tag when one with the same name (ignoring case/spacing) exists
+  async createTag(projectId: string, name: string): Promise<Tag | null> {
+    const trimmed = name.trim()
+    if (!projectId || !trimmed) return null
+    const data = await this.getProjectTags(projectId)
+    const existing = findTagByName(data, trimmed)
+    if (existing) return existing
+
+    const tag: Tag = { id: Math.max(0, ...data.tags.map(t => t.id)) + 1, name: trimmed }
+    data.tags.push(tag)
+    await this.saveProjectTags(projectId, data)
+    return tag
+  },
+
+  async renameTag(projectId: string, tagId: number, name: string): Promise<boolean> {
+    const trimmed = name.trim()
+    if (!projectId || !trimmed) return false
+    const data = await this.getProjectTags(projectId)
+    const tag = data.tags.find(t => t.id === tagId)
+    const clash = findTagByName(data, trimmed)
+    if (!tag || (clash && clash.id !== tagId)) return false
+
+    tag.name = trimmed
+    await this.saveProjectTags(projectId, data)
+    return true
+  },
+
+  // Removes the tag from every entity
+  async deleteTag(projectId: string, tagId: number): Promise<void> {
+    if (!projectId) return
+    const data = await this.getProjectTags(projectId)
+    data.tags = data.tags.filter(t => t.id !== tagId)
+    for (const [key, ids] of Object.entries(data.assignments)) {
+      const remaining = ids.filter(id => id !== tagId)
+      if (remaining.length > 0) {
+        data.assignments[key] = remaining
+      } else {
+        delete data.assignments[key]
+      }
+    }
+    await this.saveProjectTags(projectId, data)
+  },
+
+  async setEntityTag(projectId: string, type: TagEntityType, itemId: number, tagId: number, assigned: boolean): Promise<void> {
+    if (!projectId) return
+    const data = await this.getProjectTags(projectId)
+    if (!data.tags.some(t => t.id === tagId)) return
+
+    const key = entityTagKey(type, itemId)
+    const ids = (data.assignments[key] ?? []).filter(id => id !== tagId)
+    if (assigned) ids.push(tagId)
+    if (ids.length > 0) {
+      data.assignments[key] = ids
+    } else {
+      delete data.assignments[key]
+    }
+    await this.saveProjectTags(projectId, data)
+  },
+
+  // ============================================
+  // PINBOARD (global, not per project)
+  // ============================================
+
+  async getPins(): Promise<Pin[]> {
+    const pins = await get<Pin[]>(PREFERENCE_KEYS.pinboard, preferencesStore)
+    return Array.isArray(pins) ? pins : []
+  },
+
+  async savePins(pins: Pin[]): Promise<void> {
+    await set(PREFERENCE_KEYS.pinboard, pins, preferencesStore)
+  },
+
+  // Newest first; pinning an item again refreshes its label and moves it to the top
+  async addPin(pin: Omit<Pin, 'id' | 'pinnedAt'>): Promise<Pin> {
+    if (!pin.projectId) throw new Error('Pin requires a project')
+    const pinned: Pin = { ...pin, id: pinId(pin), pinnedAt: Date.now() }
+    const pins = await this.getPins()
+    await this.savePins([pinned, ...pins.filter(p => p.id !== pinned.id)])
+    return pinned
+  },
+
+  async removePin(id: string): Promise<void> {
+    const pins = await this.getPins()
+    await this.savePins(pins.filter(p => p.id !== id))
+  },
+
+  async removeProjectPins(projectId: string): Promise<void> {
+    if (!projectId) return
+    const pins = await this.getPins()
+    if (pins.some(p => p.projectId === projectId)) {
+      await this.savePins(pins.filter(p => p.projectId !== projectId))
+    }
+  },
+
+  // ============================================
+  // DRAWING REFERENCE REPAIR
+  // ============================================
+
+  /**
+   * Re-link favorites, recents and status colors to the cached drawings.
+   * With no drawings cached there's nothing to check against, so nothing is reported.
+   * `dryRun` reports what a repair would do without saving it.
+   */
+  async repairDrawingRefs(projectId: string, options?: { dryRun?: boolean }): Promise<DrawingRefRepairResult> {
+    if (!projectId) return { relinked: 0, unresolved: [] }
+    const drawings = await this.getDrawings(projectId)
+    if (drawings.length === 0) return { relinked: 0, unresolved: [] }
+
+    const [recents, favorites, statusColors] = await Promise.all([
+      this.getRecents(projectId),
+      this.getFavorites(projectId),
+      this.getStatusColors(projectId),
+    ])
+    const result = repairDrawingRefs({ recents, favorites, statusColors }, drawings)
+
+    if (result.relinked > 0 && !options?.dryRun) {
+      await Promise.all([
+        this.saveRecents(projectId, result.recents),
+        this.saveFavorites(projectId, result.favorites),
+        this.saveStatusColors(projectId, result.statusColors),
+      ])
+    }
+    return { relinked: result.relinked, unresolved: result.unresolved }
+  },
+
+  // Forget a reference the repair pass couldn't match
+  async removeDrawingRef(projectId: string, unresolved: UnresolvedDrawingRef): Promise<void> {
+    if (!projectId) return
+    const { ref, location, folderId } = unresolved
+    if (location === 'recents') {
+      const recents = await this.getRecents(projectId)
+      await this.saveRecents(projectId, recents.filter(r => !sameDrawingRef(r, ref)))
+    } else if (location === 'favorites' && folderId !== undefined) {
+      await this.removeDrawingFromFolder(projectId, folderId, ref)
+    } else if (location === 'statusColors') {
+      const colors = await this.getStatusColors(projectId)
+      delete colors[drawingRefKey(ref)]
+      await this.saveStatusColors(projectId, colors)
+    }
+  },
+
+  // ============================================
+  // SCHEMA VERSIONING
+  // ============================================
+
+  async getSchemaState(database: DatabaseName): Promise<SchemaState | undefined> {
+    return get<SchemaState>(database, schemaStore)
+  },
+
+  async saveSchemaState(database: DatabaseName, state: SchemaState): Promise<void> {
+    await set(database, state, schemaStore)
+  },
+
+  async getDatabaseEntries(database: DatabaseName): Promise<[string, unknown][]> {
+    return entries<string, unknown>(databases[database])
+  },
+
+  async setDatabaseEntry(database: DatabaseName, key: string, value: unknown): Promise<void> {
+    await set(key, value, databases[database])
+  },
+
+  async deleteDatabaseEntry(database: DatabaseName, key: string): Promise<void> {
+    await del(key, databases[database])
+  },
+
+  // Replace the whole database with a snapshot taken by getDatabaseEntries
+  async restoreDatabase(database: DatabaseName, snapshot: [string, unknown][]): Promise<void> {
+    await clear(databases[database])
+    if (snapshot.length > 0) {
+      await setMany(snapshot, databases[database])
+    }
+  },
+
+  async clearDatabase(database: DatabaseName): Promise<void> {
+    await clear(databases[database])
   },
 }
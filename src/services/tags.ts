@@ -0,0 +1,102 @@
+/**
+ * Project-scoped tags for drawings, RFIs, specifications and commitments
+ *
+ * Unlike favorites folders, tags apply to every entity type and an entity
+ * can carry several, so they cut across discipline and division groupings.
+ */
+
+import type { ProjectTags, Tag, TagEntityType } from '@/types'
+
+export function emptyProjectTags(): ProjectTags {
+  return { tags: [], assignments: {} }
+}
+
+export function entityTagKey(type: TagEntityType, itemId: number): string {
+  return `${type}:${itemId}`
+}
+
+// Lowercase with spaces and punctuation dropped, so "#level3" finds "Level 3"
+export function normalizeTagName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function findTagByName(data: ProjectTags, name: string): Tag | undefined {
+  const normalized = normalizeTagName(name)
+  return data.tags.find(tag => normalizeTagName(tag.name) === normalized)
+}
+
+export function getEntityTags(data: ProjectTags, type: TagEntityType, itemId: number): Tag[] {
+  const ids = data.assignments[entityTagKey(type, itemId)] ?? []
+  return data.tags.filter(tag => ids.includes(tag.id))
+}
+
+export function hasAllTags(data: ProjectTags, type: TagEntityType, itemId: number, tagIds: number[]): boolean {
+  if (tagIds.length === 0) return true
+  const ids = data.assignments[entityTagKey(type, itemId)] ?? []
+  return tagIds.every(id => ids.includes(id))
+}
+
+// Tags in use on at least one entity of the given type
+export function getTagsInUse(data: ProjectTags, type: TagEntityType): Tag[] {
+  const used = new Set<number>()
+  for (const [key, ids] of Object.entries(data.assignments)) {
+    if (key.startsWith(`${type}:`)) ids.forEach(id => used.add(id))
+  }
+  return data.tags.filter(tag => used.has(tag.id))
+}
+
+/**
+ * Command palette tag syntax: "#level3 #curtain A-5" -> tag terms + remaining query.
+ * A term matches any tag whose normalized name starts with it.
+ */
+export function parseTagQuery(query: string): { tagTerms: string[]; rest: string } {
+  const tagTerms: string[] = []
+  const rest: string[] = []
+  for (const word of query.split(/\s+/).filter(Boolean)) {
+    if (word.startsWith('#') && word.length > 1) {
+      tagTerms.push(normalizeTagName(word.substring(1)))
+    } else {
+      rest.push(word)
+    }
+  }
+  return { tagTerms, rest: rest.join(' ') }
+}
+
+export function matchesTagTerms(data: ProjectTags, type: TagEntityType, itemId: number, tagTerms: string[]): boolean {
+  if (tagTerms.length === 0) return true
+  const names = getEntityTags(data, type, itemId).map(tag => normalizeTagName(tag.name))
+  return tagTerms.every(term => names.some(name => name.startsWith(term)))
+}
+
+/**
+ * Combine two tag sets: tags are matched by name, incoming ids are remapped
+ * and assignments are unioned.
+ */
+export function mergeProjectTags(existing: ProjectTags, incoming: ProjectTags): ProjectTags {
+  const tags = [...existing.tags]
+  const assignments: Record<string, number[]> = {}
+  for (const [key, ids] of Object.entries(existing.assignments)) assignments[key] = [...ids]
+
+  let nextId = Math.max(0, ...tags.map(tag => tag.id)) + 1
+  const idMap = new Map<number, number>()
+  for (const tag of incoming.tags) {
+    const match = findTagByName({ tags, assignments }, tag.name)
+    if (match) {
+      idMap.set(tag.id, match.id)
+    } else {
+      tags.push({ ...tag, id: nextId })
+      idMap.set(tag.id, nextId++)
+    }
+  }
+
+  for (const [key, ids] of Object.entries(incoming.assignments)) {
+    const merged = new Set(assignments[key] ?? [])
+    ids.forEach(id => {
+      const mapped = idMap.get(id)
+      if (mapped !== undefined) merged.add(mapped)
+    })
+    if (merged.size > 0) assignments[key] = Array.from(merged)
+  }
+
+  return { tags, assignments }
+}
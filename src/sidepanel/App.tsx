@@ -5,19 +5,31 @@ import { Header, focusToolbar } from './components/Header'
 import { TabBar } from './components/TabBar'
 import { DrawingsTab } from './components/DrawingsTab'
 import { RFIsTab } from './components/RFIsTab'
+import { SubmittalsTab } from './components/SubmittalsTab'
+import { PunchTab } from './components/PunchTab'
 import { CostTab } from './components/CostTab'
 import { SpecificationsTab } from './components/SpecificationsTab'
+import { DirectoryTab } from './components/DirectoryTab'
+import { DocumentsTab } from './components/DocumentsTab'
+import { ScheduleTab } from './components/ScheduleTab'
 import { ProjectSelector } from './components/ProjectSelector'
 import { CommandPalette } from './components/CommandPalette'
 import { FavoritesProvider } from './contexts/FavoritesContext'
+import { StatusColorSchemeProvider } from './contexts/StatusColorSchemeContext'
+import { DirectoryProvider } from './contexts/DirectoryContext'
 import { useTabVisibility } from './contexts/TabVisibilityContext'
-import { PencilRuler, HelpCircle, BadgeDollarSign, FileText, Loader2 } from 'lucide-preact'
+import { PencilRuler, HelpCircle, ClipboardList, ListTodo, BadgeDollarSign, FileText, Contact, Files, CalendarDays, Loader2 } from 'lucide-preact'
 
 const TABS: TabInfo[] = [
   { id: 'drawings', label: 'Drawings', icon: PencilRuler },
   { id: 'rfis', label: 'RFIs', icon: HelpCircle },
+  { id: 'submittals', label: 'Submittals', icon: ClipboardList },
+  { id: 'punch', label: 'Punch', icon: ListTodo },
   { id: 'cost', label: 'Cost', icon: BadgeDollarSign },
   { id: 'specifications', label: 'Specs', icon: FileText },
+  { id: 'directory', label: 'Directory', icon: Contact },
+  { id: 'documents', label: 'Documents', icon: Files },
+  { id: 'schedule', label: 'Schedule', icon: CalendarDays },
 ]
 
 // Helper to extract IDs from URL
@@ -48,29 +60,49 @@ export function App() {
   const [dataVersion, setDataVersion] = useState(0)
   
   // Tab visibility from context
-  const { showRFIsTab, showCostTab, showSpecificationsTab } = useTabVisibility()
+  const { showRFIsTab, showSubmittalsTab, showPunchTab, showCostTab, showSpecificationsTab, showDirectoryTab, showDocumentsTab, showScheduleTab } = useTabVisibility()
   
   // Filter tabs based on visibility settings
   const visibleTabs = useMemo(() => 
     TABS.filter(tab => {
       if (tab.id === 'rfis') return showRFIsTab
+      if (tab.id === 'submittals') return showSubmittalsTab
+      if (tab.id === 'punch') return showPunchTab
       if (tab.id === 'cost') return showCostTab
       if (tab.id === 'specifications') return showSpecificationsTab
+      if (tab.id === 'directory') return showDirectoryTab
+      if (tab.id === 'documents') return showDocumentsTab
+      if (tab.id === 'schedule') return showScheduleTab
       return true // Always show drawings
-    }), [showRFIsTab, showCostTab, showSpecificationsTab])
+    }), [showRFIsTab, showSubmittalsTab, showPunchTab, showCostTab, showSpecificationsTab, showDirectoryTab, showDocumentsTab, showScheduleTab])
   
   // Handle edge case: if current tab is hidden, switch to drawings
   useEffect(() => {
     if (activeTab === 'rfis' && !showRFIsTab) {
       setActiveTab('drawings')
     }
+    if (activeTab === 'submittals' && !showSubmittalsTab) {
+      setActiveTab('drawings')
+    }
+    if (activeTab === 'punch' && !showPunchTab) {
+      setActiveTab('drawings')
+    }
     if (activeTab === 'cost' && !showCostTab) {
       setActiveTab('drawings')
     }
     if (activeTab === 'specifications' && !showSpecificationsTab) {
       setActiveTab('drawings')
     }
-  }, [showRFIsTab, showCostTab, showSpecificationsTab, activeTab])
+    if (activeTab === 'directory' && !showDirectoryTab) {
+      setActiveTab('drawings')
+    }
+    if (activeTab === 'documents' && !showDocumentsTab) {
+      setActiveTab('drawings')
+    }
+    if (activeTab === 'schedule' && !showScheduleTab) {
+      setActiveTab('drawings')
+    }
+  }, [showRFIsTab, showSubmittalsTab, showPunchTab, showCostTab, showSpecificationsTab, showDirectoryTab, showDocumentsTab, showScheduleTab, activeTab])
 
   // Initialize and detect current project
   useEffect(() => {
@@ -206,6 +238,11 @@ export function App() {
         const updatedProjects = await StorageService.getAllProjects()
         setProjects(updatedProjects)
       }
+
+      // Project or company name captured or looked up in the background
+      if (message.type === 'PROJECT_UPDATED') {
+        setProjects(await StorageService.getAllProjects())
+      }
     }
 
     chrome.runtime.onMessage.addListener(handleMessage)
@@ -260,10 +297,20 @@ export function App() {
         return <DrawingsTab projectId={currentProjectId} dataVersion={dataVersion} />
       case 'rfis':
         return <RFIsTab projectId={currentProjectId} dataVersion={dataVersion} />
+      case 'submittals':
+        return <SubmittalsTab projectId={currentProjectId} dataVersion={dataVersion} />
+      case 'punch':
+        return <PunchTab projectId={currentProjectId} dataVersion={dataVersion} />
       case 'cost':
         return <CostTab projectId={currentProjectId} dataVersion={dataVersion} />
       case 'specifications':
         return <SpecificationsTab projectId={currentProjectId} dataVersion={dataVersion} />
+      case 'directory':
+        return <DirectoryTab projectId={currentProjectId} />
+      case 'documents':
+        return <DocumentsTab projectId={currentProjectId} dataVersion={dataVersion} />
+      case 'schedule':
+        return <ScheduleTab projectId={currentProjectId} dataVersion={dataVersion} />
       default:
         return null
     }
@@ -279,6 +326,8 @@ export function App() {
 
   return (
     <FavoritesProvider projectId={currentProjectId}>
+      <StatusColorSchemeProvider projectId={currentProjectId}>
+      <DirectoryProvider projectId={currentProjectId}>
       <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900">
         <Header 
           onPopOut={handlePopOut} 
@@ -324,6 +373,8 @@ export function App() {
           onProjectChange={handleProjectChange}
         />
       </div>
+      </DirectoryProvider>
+      </StatusColorSchemeProvider>
     </FavoritesProvider>
   )
 }
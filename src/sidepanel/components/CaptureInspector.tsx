@@ -0,0 +1,306 @@
+/**
+ * CaptureInspector Component
+ *
+ * Settings section listing recent wiretap captures from the background's
+ * capture log: what each response was classified as and, when nothing was
+ * saved, why. A stored capture can be run through classification again,
+ * optionally against a different URL, to see which detectors claim it.
+ */
+
+import { useState, useEffect, useMemo } from 'preact/hooks'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import type { CaptureLogEntry, CaptureReclassification, WiretapCompleteness } from '@/types'
+import { CollapsibleSection } from './CollapsibleSection'
+import { ScanSearch, RefreshCcw, Trash2, Loader2 } from 'lucide-preact'
+
+// Path and query only - the host is always Procore
+function shortSource(source: string): string {
+  try {
+    const url = new URL(source, 'https://app.procore.com')
+    return `${url.pathname}${url.search}`
+  } catch {
+    return source
+  }
+}
+
+const COMPLETENESS_LABELS: Record<WiretapCompleteness, string> = {
+  complete: 'Complete list',
+  partial: 'Partial list',
+  filtered: 'Filtered list',
+}
+
+function formatFilters(filters: Record<string, unknown>): string {
+  return Object.entries(filters)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ')
+}
+
+function formatSize(chars: number): string {
+  if (chars < 1024) return `${chars} B`
+  if (chars < 1024 * 1024) return `${(chars / 1024).toFixed(1)} KB`
+  return `${(chars / 1024 / 1024).toFixed(1)} MB`
+}
+
+function CaptureDetails({ entry }: { entry: CaptureLogEntry }) {
+  const [source, setSource] = useState(entry.source)
+  const [isRunning, setIsRunning] = useState(false)
+  const [result, setResult] = useState<CaptureReclassification | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleReclassify = async () => {
+    setIsRunning(true)
+    setError(null)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'RECLASSIFY_CAPTURE',
+        captureId: entry.id,
+        source,
+      }) as { success: boolean; result?: CaptureReclassification; error?: string }
+      if (response?.success && response.result) {
+        setResult(response.result)
+      } else {
+        setResult(null)
+        setError(response?.error || 'Re-classification failed')
+      }
+    } catch (err) {
+      console.error('Failed to re-classify capture:', err)
+      setError('Re-classification failed')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const { headers, unclassified, grid, cost, request } = entry
+  const hasFilters = request && Object.keys(request.filters).length > 0
+
+  return (
+    <div className="px-2 pb-2 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+      <div className="break-all text-gray-500 dark:text-gray-400">
+        {request && <span className="font-mono font-medium">{request.method} </span>}
+        {entry.source}
+      </div>
+      {(entry.completeness || request) && (
+        <div>
+          {entry.completeness && (
+            <span className={entry.completeness === 'complete' ? 'text-green-700 dark:text-green-400' : 'text-amber-700 dark:text-amber-400'}>
+              {COMPLETENESS_LABELS[entry.completeness]}
+            </span>
+          )}
+          {request?.page !== undefined && ` · Page ${request.page}`}
+          {request?.perPage !== undefined && ` · ${request.perPage} per page`}
+          {hasFilters && (
+            <span className="font-mono break-all"> · {formatFilters(request.filters)}</span>
+          )}
+        </div>
+      )}
+      <div>
+        {formatSize(entry.size)} · {entry.itemCount} item{entry.itemCount !== 1 ? 's' : ''}
+        {headers.total ? ` · Total ${headers.total}` : ''}
+        {headers.perPage ? ` · Per-Page ${headers.perPage}` : ''}
+        {entry.projectId ? ` · Project ${entry.projectId}` : ''}
+      </div>
+      {grid && (
+        <div>
+          Grid rows {grid.startRow ?? '?'}–{grid.endRow ?? '?'}
+          {grid.rowCount !== undefined ? ` of ${grid.rowCount}` : ''}
+          {grid.groupKeys && grid.groupKeys.length > 0 ? ` · Group ${grid.groupKeys.join(' › ')}` : ''}
+        </div>
+      )}
+      {cost && (
+        <div title="Stripped in the page, then queued and processed in the background">
+          {cost.rawSize !== undefined && cost.rawSize !== entry.size
+            ? `Stripped ${formatSize(cost.rawSize)} → ${formatSize(entry.size)} in ${cost.stripMs ?? 0} ms · `
+            : ''}
+          Queued {cost.queuedMs} ms · Processed {cost.processMs} ms
+          {cost.chunkSize > 1 ? ` (with ${cost.chunkSize - 1} other${cost.chunkSize > 2 ? 's' : ''})` : ''}
+        </div>
+      )}
+      {entry.saves.length > 0 && (
+        <div className="text-green-700 dark:text-green-400">
+          Saved {entry.saves.map(save => `${save.count} ${save.type}`).join(', ')}
+        </div>
+      )}
+      {entry.reason && (
+        <div className="text-red-600 dark:text-red-400">{entry.reason}</div>
+      )}
+      {unclassified && (
+        <div className="text-amber-700 dark:text-amber-400 space-y-0.5">
+          <div>{unclassified.count} unclassified item{unclassified.count !== 1 ? 's' : ''}</div>
+          <div>Listening: {unclassified.expected.join(', ') || 'none'}</div>
+          {unclassified.looksLike.length > 0 && (
+            <div>Looks like: {unclassified.looksLike.join(', ')}</div>
+          )}
+          {unclassified.sampleKeys.length > 0 && (
+            <div className="font-mono break-all">Keys: {unclassified.sampleKeys.join(', ')}</div>
+          )}
+        </div>
+      )}
+
+      {entry.hasPayload ? (
+        <div className="pt-1 space-y-1">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={source}
+              onInput={(e) => setSource((e.target as HTMLInputElement).value)}
+              className="flex-1 min-w-0 px-2 py-1 font-mono text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-200"
+              title="Classify as if captured from this URL"
+            />
+            <button
+              onClick={handleReclassify}
+              disabled={isRunning}
+              className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 border border-gray-200 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              {isRunning && <Loader2 size={12} className="animate-spin" />}
+              <span>Re-classify</span>
+            </button>
+          </div>
+          {result && (
+            <div className="px-2 py-1 rounded bg-gray-50 dark:bg-gray-700/50">
+              {result.groups.length > 0
+                ? result.groups.map(group => `${group.count} ${group.type}`).join(', ')
+                : 'No detector matched'}
+              {result.unclassified && (
+                <span className="text-amber-700 dark:text-amber-400">
+                  {' '}· {result.unclassified.count} unclassified
+                  {result.unclassified.looksLike.length > 0 && ` (looks like ${result.unclassified.looksLike.join(', ')})`}
+                </span>
+              )}
+            </div>
+          )}
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+        </div>
+      ) : (
+        <div className="text-gray-400 dark:text-gray-500">Payload too large to keep for re-classification</div>
+      )}
+    </div>
+  )
+}
+
+export function CaptureInspector() {
+  const [entries, setEntries] = useState<CaptureLogEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [showFailedOnly, setShowFailedOnly] = useState(false)
+
+  const loadEntries = async () => {
+    setIsLoading(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'GET_CAPTURE_LOG' }) as { success: boolean; entries?: CaptureLogEntry[] }
+      setEntries(response?.entries ?? [])
+    } catch (err) {
+      console.error('Failed to load capture log:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  const handleClear = async () => {
+    await chrome.runtime.sendMessage({ action: 'CLEAR_CAPTURE_LOG' }).catch(() => {})
+    setEntries([])
+    setExpandedId(null)
+  }
+
+  const shown = showFailedOnly ? entries.filter(e => e.saves.length === 0 || e.unclassified) : entries
+
+  // Overall wiretap overhead across the logged captures
+  const costs = useMemo(() => {
+    const measured = entries.filter(e => e.cost)
+    if (measured.length === 0) return null
+    const rawSize = measured.reduce((sum, e) => sum + (e.cost!.rawSize ?? e.size), 0)
+    const postedSize = measured.reduce((sum, e) => sum + e.size, 0)
+    // Chunk time is shared by the captures processed together
+    const processMs = measured.reduce((sum, e) => sum + e.cost!.processMs / e.cost!.chunkSize, 0)
+    return { count: measured.length, rawSize, postedSize, processMs: Math.round(processMs) }
+  }, [entries])
+
+  return (
+    <CollapsibleSection
+      title="Capture Inspector"
+      icon={<ScanSearch size={16} />}
+      preferenceKey={PREFERENCE_KEYS.settingsCaptureInspectorExpanded}
+      defaultExpanded={false}
+      badge={entries.length > 0 ? entries.length : undefined}
+    >
+      <div className="px-2 space-y-2">
+        <div className="flex items-center gap-2 px-2 text-xs">
+          <label className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300 cursor-pointer flex-1">
+            <input
+              type="checkbox"
+              checked={showFailedOnly}
+              onChange={(e) => setShowFailedOnly((e.target as HTMLInputElement).checked)}
+              className="w-3 h-3 text-blue-600 rounded"
+            />
+            <span>Only captures with problems</span>
+          </label>
+          <button
+            onClick={loadEntries}
+            disabled={isLoading}
+            className="text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+            title="Refresh"
+          >
+            {isLoading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCcw size={14} />}
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="text-gray-500 dark:text-gray-400 hover:text-red-500 disabled:opacity-50"
+            title="Clear log"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+
+        {costs && (
+          <div className="px-2 text-xs text-gray-500 dark:text-gray-400">
+            {costs.count} capture{costs.count !== 1 ? 's' : ''}: posted {formatSize(costs.postedSize)} of {formatSize(costs.rawSize)} received
+            {' '}· {costs.processMs} ms in the background
+          </div>
+        )}
+
+        {shown.length === 0 ? (
+          <div className="px-2 py-2 text-xs text-gray-500 dark:text-gray-400">
+            {entries.length === 0
+              ? 'No captures this session. Browse a Procore tool to record some.'
+              : 'Every recent capture was saved.'}
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {shown.map(entry => {
+              const isExpanded = expandedId === entry.id
+              const saved = entry.saves.reduce((sum, save) => sum + save.count, 0)
+              return (
+                <div key={entry.id} className="border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full px-2 py-1.5 flex items-center gap-2 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-700 rounded"
+                    aria-expanded={isExpanded}
+                  >
+                    <span className="shrink-0 text-gray-400 dark:text-gray-500">
+                      {new Date(entry.at).toLocaleTimeString()}
+                    </span>
+                    <span className="font-mono truncate flex-1 text-gray-700 dark:text-gray-300" title={entry.source}>
+                      {shortSource(entry.source)}
+                    </span>
+                    {saved > 0 ? (
+                      <span className={`badge shrink-0 ${entry.unclassified ? 'badge-yellow' : 'badge-green'}`}>
+                        {saved} saved
+                      </span>
+                    ) : (
+                      <span className="badge badge-red shrink-0">Not saved</span>
+                    )}
+                  </button>
+                  {isExpanded && <CaptureDetails entry={entry} />}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </CollapsibleSection>
+  )
+}
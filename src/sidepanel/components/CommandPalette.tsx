@@ -1,8 +1,10 @@
 import { useEffect, useRef } from 'preact/hooks'
 import { createPortal } from 'preact/compat'
-import { useCommandPalette, RFI_GROUP_KEY } from '../hooks/useCommandPalette'
+import { useCommandPalette, RFI_GROUP_KEY, PUNCH_GROUP_KEY, PEOPLE_GROUP_KEY } from '../hooks/useCommandPalette'
 import { getDisciplineColor } from '../utils/discipline'
-import { Loader2, HelpCircle } from 'lucide-preact'
+import { COLOR_CLASSES } from './StatusDot'
+import { Loader2, HelpCircle, ListTodo, Mail, StickyNote, Users } from 'lucide-preact'
+import { getPunchItemUrl, isPunchItemOpen, formatPunchStatus, getPersonUrl, getProjectDisplayName } from '@/services'
 import type { CommandPaletteItem, Project } from '@/types'
 import type { CommandPaletteDataProvider } from '@/types/command-palette'
 
@@ -14,6 +16,15 @@ const RFI_STATUS_COLORS: Record<string, string> = {
   'void': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
 }
 
+function NoteSnippet({ note }: { note: string }) {
+  return (
+    <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 max-w-[40%] min-w-0" title={note}>
+      <StickyNote size={12} className="shrink-0" />
+      <span className="truncate">{note}</span>
+    </span>
+  )
+}
+
 interface CommandPaletteProps {
   projectId: string | null
   dataProvider?: CommandPaletteDataProvider
@@ -138,6 +149,18 @@ export function CommandPalette({
           url,
         })
         close()
+      } else if (result.type === 'punch_item') {
+        await chrome.runtime.sendMessage({
+          action: 'OPEN_TAB',
+          url: getPunchItemUrl(projectId!, result.data),
+        })
+        close()
+      } else if (result.type === 'person') {
+        await chrome.runtime.sendMessage({
+          action: 'OPEN_TAB',
+          url: getPersonUrl(projectId!, result.data),
+        })
+        close()
       }
     } catch (error) {
       console.error('Failed to open item:', error)
@@ -154,10 +177,13 @@ export function CommandPalette({
 
   if (!isOpen) return null
 
-  // Group results by discipline (for drawings) or RFI_GROUP_KEY (for RFIs)
+  // Group results by discipline (for drawings), RFI_GROUP_KEY, PUNCH_GROUP_KEY or PEOPLE_GROUP_KEY
   const groupedResults = new Map<string, CommandPaletteItem[]>()
   searchResults.forEach(r => {
-    const groupKey = r.type === 'drawing' ? r.discipline : RFI_GROUP_KEY
+    const groupKey = r.type === 'drawing' ? r.discipline
+      : r.type === 'rfi' ? RFI_GROUP_KEY
+      : r.type === 'punch_item' ? PUNCH_GROUP_KEY
+      : PEOPLE_GROUP_KEY
     if (!groupedResults.has(groupKey)) {
       groupedResults.set(groupKey, [])
     }
@@ -174,6 +200,21 @@ export function CommandPalette({
     if (searchQuery.startsWith('?')) {
       return 'No RFIs found'
     }
+    if (searchQuery.startsWith('~')) {
+      return 'No open punch items found'
+    }
+    if (searchQuery.startsWith('+')) {
+      return 'No people found'
+    }
+    if (searchQuery.startsWith('!')) {
+      return 'No notes found'
+    }
+    if (searchQuery.startsWith('%')) {
+      return 'No drawings marked with that status'
+    }
+    if (/(^|\s)#\S/.test(searchQuery)) {
+      return 'No items with those tags'
+    }
     return 'No results found'
   }
 
@@ -206,7 +247,7 @@ export function CommandPalette({
             >
               {availableProjects.map(p => (
                 <option key={p.id} value={p.id}>
-                  {p.name || `Project ${p.id}`}
+                  {getProjectDisplayName(p)}
                 </option>
               ))}
             </select>
@@ -219,7 +260,7 @@ export function CommandPalette({
           type="text"
           value={searchQuery}
           onInput={(e) => setSearchQuery((e.target as HTMLInputElement).value)}
-          placeholder="Jump to drawing or RFI... (? for RFIs, * favorites, @ discipline)"
+          placeholder="Jump to drawing or RFI... (? for RFIs, ~ punch, + people, * favorites, @ discipline, ! notes, % status, #tag)"
           className="w-full px-4 py-3 text-base border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none"
           autoComplete="off"
         />
@@ -238,6 +279,8 @@ export function CommandPalette({
           ) : (
             Array.from(groupedResults.entries()).map(([groupName, results]) => {
               const isRFIGroup = groupName === RFI_GROUP_KEY
+              const isPunchGroup = groupName === PUNCH_GROUP_KEY
+              const isPeopleGroup = groupName === PEOPLE_GROUP_KEY
               
               return (
                 <div key={groupName} className="mb-3">
@@ -253,6 +296,24 @@ export function CommandPalette({
                           RFIs
                         </span>
                       </>
+                    ) : isPunchGroup ? (
+                      <>
+                        <span className="w-5 h-5 rounded bg-orange-500 text-white flex items-center justify-center flex-shrink-0">
+                          <ListTodo size={14} />
+                        </span>
+                        <span className="font-medium text-sm text-gray-700 dark:text-gray-300">
+                          Punch List
+                        </span>
+                      </>
+                    ) : isPeopleGroup ? (
+                      <>
+                        <span className="w-5 h-5 rounded bg-teal-500 text-white flex items-center justify-center flex-shrink-0">
+                          <Users size={14} />
+                        </span>
+                        <span className="font-medium text-sm text-gray-700 dark:text-gray-300">
+                          People
+                        </span>
+                      </>
                     ) : (
                       // Discipline header with colored tag
                       <>
@@ -289,12 +350,16 @@ export function CommandPalette({
                                 : 'hover:bg-gray-100 dark:hover:bg-gray-700'
                             }`}
                           >
+                            {result.statusColor && (
+                              <span className={`w-2.5 h-2.5 rounded-full border shrink-0 ${COLOR_CLASSES[result.statusColor]}`} />
+                            )}
                             <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium min-w-[70px]">
                               {result.data.num}
                             </span>
                             <span className="text-sm text-gray-700 dark:text-gray-300 truncate flex-1">
                               {result.data.title}
                             </span>
+                            {result.note && <NoteSnippet note={result.note} />}
                             <div className="flex items-center gap-1">
                               {result.isFavorite && (
                                 <span className="text-yellow-500 text-xs" title="Favorite">★</span>
@@ -305,6 +370,76 @@ export function CommandPalette({
                             </div>
                           </li>
                         )
+                      } else if (result.type === 'punch_item') {
+                        // Punch item row - location is what people search by on a walk
+                        const isOpen = isPunchItemOpen(result.data)
+
+                        return (
+                          <li
+                            key={`punch-${result.data.id}-${index}`}
+                            onClick={() => handleResultClick(result)}
+                            className={`px-3 py-2 rounded cursor-pointer flex items-center gap-2 ${
+                              isSelected
+                                ? 'bg-blue-100 dark:bg-blue-900/30'
+                                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                            } ${isOpen ? '' : 'opacity-60'}`}
+                          >
+                            <span className={`text-xs px-1.5 py-0.5 rounded font-medium ${
+                              isOpen ? RFI_STATUS_COLORS['open'] : RFI_STATUS_COLORS['closed']
+                            }`}>
+                              {formatPunchStatus(result.data.status)}
+                            </span>
+                            <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
+                              #{result.data.number}
+                            </span>
+                            <span className="text-sm text-gray-700 dark:text-gray-300 truncate flex-1">
+                              {result.data.title}
+                            </span>
+                            {result.data.location && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-[30%]" title={result.data.location}>
+                                {result.data.location}
+                              </span>
+                            )}
+                            {result.note && <NoteSnippet note={result.note} />}
+                          </li>
+                        )
+                      } else if (result.type === 'person') {
+                        // Person row - Enter opens the directory entry, the mail icon writes to them
+                        const details = [result.data.role, result.data.company].filter(Boolean).join(' · ')
+
+                        return (
+                          <li
+                            key={`person-${result.data.id}-${index}`}
+                            onClick={() => handleResultClick(result)}
+                            className={`px-3 py-2 rounded cursor-pointer flex items-center gap-2 ${
+                              isSelected
+                                ? 'bg-blue-100 dark:bg-blue-900/30'
+                                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                            }`}
+                          >
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate">
+                              {result.data.name}
+                            </span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400 truncate flex-1" title={details}>
+                              {details}
+                            </span>
+                            {result.data.phone && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                                {result.data.phone}
+                              </span>
+                            )}
+                            {result.data.email && (
+                              <a
+                                href={`mailto:${result.data.email}`}
+                                onClick={(e) => e.stopPropagation()}
+                                className="p-1 rounded text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 shrink-0"
+                                title={result.data.email}
+                              >
+                                <Mail size={14} />
+                              </a>
+                            )}
+                          </li>
+                        )
                       } else {
                         // RFI row
                         const statusClass = RFI_STATUS_COLORS[result.data.status?.toLowerCase()] || RFI_STATUS_COLORS['draft']
@@ -331,6 +466,7 @@ export function CommandPalette({
                             <span className="text-sm text-gray-700 dark:text-gray-300 truncate flex-1">
                               {result.data.subject}
                             </span>
+                            {result.note && <NoteSnippet note={result.note} />}
                           </li>
                         )
                       }
@@ -346,8 +482,13 @@ export function CommandPalette({
         <div className="px-4 py-2 bg-gray-50 dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
           <div className="flex items-center gap-4">
             <span><b>?</b> RFIs</span>
+            <span><b>~</b> Punch</span>
+            <span><b>+</b> People</span>
             <span><b>@</b> Discipline</span>
             <span><b>*</b> Favorites</span>
+            <span><b>!</b> Notes</span>
+            <span><b>%</b> Status</span>
+            <span><b>#</b> Tag</span>
           </div>
           <div className="flex items-center gap-4">
             <span><b>↑↓</b> Nav</span>
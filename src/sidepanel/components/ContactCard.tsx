@@ -0,0 +1,88 @@
+import { useCallback } from 'preact/hooks'
+import { StorageService, getPersonUrl, getCompanyUrl, getPersonCompany } from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import type { DirectoryPerson, DirectoryCompany } from '@/types'
+import { useDirectory } from '../hooks/useDirectory'
+import { Building2, ExternalLink, Mail, Phone, User } from 'lucide-preact'
+
+type ContactCardProps = {
+  projectId: string
+} & (
+  | { person: DirectoryPerson; company?: undefined }
+  | { company: DirectoryCompany; person?: undefined }
+)
+
+/**
+ * Contact details for a directory entry, shown in a ContextMenu wherever a
+ * name resolves to the directory
+ */
+export function ContactCard({ projectId, person, company }: ContactCardProps) {
+  const { index } = useDirectory()
+  const personCompany = person ? getPersonCompany(index, person) : undefined
+  const name = person ? person.name : company.name
+  const subtitle = person
+    ? [person.role, person.company].filter(Boolean).join(' · ')
+    : undefined
+  const trade = person ? personCompany?.trade : company.trade
+  const email = person ? person.email : company.email
+  // People without a phone of their own can be reached through their company
+  const phone = person ? person.phone || personCompany?.phone : company.phone
+  const url = person ? getPersonUrl(projectId, person) : getCompanyUrl(projectId, company)
+
+  const openInProcore = useCallback(async () => {
+    const openInBackground = await StorageService.getPreferences<boolean>(
+      PREFERENCE_KEYS.openInBackground,
+      false
+    )
+    chrome.runtime.sendMessage({ action: 'OPEN_TAB', url, background: openInBackground })
+  }, [url])
+
+  const Icon = person ? User : Building2
+
+  return (
+    <div className="px-3 py-2 max-w-[260px]">
+      <div className="flex items-start gap-2">
+        <Icon size={16} className="text-gray-400 dark:text-gray-500 mt-0.5 shrink-0" />
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{name}</div>
+          {subtitle && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{subtitle}</div>
+          )}
+          {trade && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title="Trade">{trade}</div>
+          )}
+        </div>
+      </div>
+      <div className="mt-2 space-y-1 text-xs">
+        {email && (
+          <a
+            href={`mailto:${email}`}
+            className="flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline truncate"
+          >
+            <Mail size={12} className="shrink-0" />
+            <span className="truncate">{email}</span>
+          </a>
+        )}
+        {phone && (
+          <a
+            href={`tel:${phone.replace(/[^\d+]/g, '')}`}
+            className="flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Phone size={12} className="shrink-0" />
+            <span>{phone}</span>
+          </a>
+        )}
+        {!email && !phone && (
+          <div className="text-gray-400 dark:text-gray-500">No contact details in the directory</div>
+        )}
+        <button
+          onClick={openInProcore}
+          className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+        >
+          <ExternalLink size={12} className="shrink-0" />
+          <span>Open in Directory</span>
+        </button>
+      </div>
+    </div>
+  )
+}
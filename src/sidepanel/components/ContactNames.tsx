@@ -0,0 +1,56 @@
+import { useState } from 'preact/hooks'
+import type { ResolvedContact } from '@/services'
+import { useDirectory } from '../hooks/useDirectory'
+import { ContextMenu } from './ContextMenu'
+import { ContactCard } from './ContactCard'
+
+interface ContactNamesProps {
+  projectId: string
+  value: string                     // One name or several, comma separated
+  className?: string
+}
+
+/**
+ * Names from another tool (RFI assignee, commitment vendor). Names found in
+ * the project directory open their contact card; the rest render as text.
+ */
+export function ContactNames({ projectId, value, className = '' }: ContactNamesProps) {
+  const { resolve } = useDirectory()
+  const [card, setCard] = useState<{ x: number; y: number; contact: ResolvedContact } | null>(null)
+  const contacts = resolve(value)
+
+  return (
+    <span className={className}>
+      {contacts.map((contact, index) => (
+        <span key={`${contact.name}-${index}`}>
+          {index > 0 && ', '}
+          {contact.person || contact.company ? (
+            <button
+              onClick={(e) => {
+                // Rows open the item on click
+                e.stopPropagation()
+                setCard({ x: e.clientX, y: e.clientY, contact })
+              }}
+              className="underline decoration-dotted underline-offset-2 hover:text-blue-600 dark:hover:text-blue-400"
+              title="Show contact details"
+            >
+              {contact.name}
+            </button>
+          ) : (
+            contact.name
+          )}
+        </span>
+      ))}
+
+      {card && (
+        <ContextMenu x={card.x} y={card.y} onClose={() => setCard(null)}>
+          {card.contact.person ? (
+            <ContactCard projectId={projectId} person={card.contact.person} />
+          ) : card.contact.company ? (
+            <ContactCard projectId={projectId} company={card.contact.company} />
+          ) : null}
+        </ContextMenu>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { BudgetLineItem } from '@/types'
+import { formatCurrency, buildCostCodeTree, sumBudgetLineItems, getProjectedOverage } from '../utils/cost'
+import type { CostCodeNode } from '../utils/cost'
+import { ChevronRight } from 'lucide-preact'
+
+interface CostBudgetViewProps {
+  projectId: string
+  lineItems: BudgetLineItem[]       // Already filtered for removed items
+  searchQuery: string
+}
+
+/**
+ * Budget line items for the Cost tab as a cost-code tree. Every level shows
+ * the rollup of the codes below it, so a cost code can be checked against
+ * its budget before approving a change order against it.
+ */
+export function CostBudgetView({ projectId, lineItems, searchQuery }: CostBudgetViewProps) {
+  const [expandedCodes, setExpandedCodes] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    setExpandedCodes(new Set())
+  }, [projectId])
+
+  // Matches on code, code name or category; parents of a match stay in the tree
+  const searched = useMemo(() => {
+    if (!searchQuery.trim()) return lineItems
+
+    // Split query into words - all must match
+    const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
+
+    return lineItems.filter(item => {
+      const code = item.cost_code.toLowerCase()
+      const text = [item.cost_code_name, item.category].filter(Boolean).join(' ').toLowerCase()
+      return words.every(word => code.startsWith(word) || text.includes(word))
+    })
+  }, [lineItems, searchQuery])
+
+  const tree = useMemo(() => buildCostCodeTree(searched), [searched])
+  const totals = useMemo(() => sumBudgetLineItems(searched), [searched])
+  const isFiltering = searchQuery.trim() !== ''
+  const isOverBudget = getProjectedOverage(totals) > 0
+
+  const toggleCode = useCallback((code: string) => {
+    setExpandedCodes(prev => {
+      const next = new Set(prev)
+      if (next.has(code)) {
+        next.delete(code)
+      } else {
+        next.add(code)
+      }
+      return next
+    })
+  }, [])
+
+  const renderLineItem = (item: BudgetLineItem, depth: number) => (
+    <div
+      key={item.id}
+      className="py-1.5 pr-3 text-xs text-gray-600 dark:text-gray-300 border-t border-gray-50 dark:border-gray-700/50"
+      style={{ paddingLeft: `${28 + depth * 14}px` }}
+    >
+      <div className="font-medium text-gray-700 dark:text-gray-200">{item.category || 'Uncategorized'}</div>
+      <div className="grid grid-cols-2 gap-x-3 mt-0.5 text-gray-500 dark:text-gray-400">
+        <span>Original {formatCurrency(item.original_budget)}</span>
+        <span>Changes {formatCurrency(item.approved_changes)}</span>
+        <span>Revised {formatCurrency(item.revised_budget)}</span>
+        <span>Committed {formatCurrency(item.committed_costs)}</span>
+        <span>Projected {formatCurrency(item.projected_costs)}</span>
+      </div>
+    </div>
+  )
+
+  const renderNode = (node: CostCodeNode, depth: number): preact.JSX.Element => {
+    // Searching expands every code so matches are never hidden
+    const isExpanded = isFiltering || expandedCodes.has(node.code)
+    const hasContent = node.children.length > 0 || node.lineItems.length > 0
+    const overage = getProjectedOverage(node.totals)
+
+    return (
+      <div key={node.code}>
+        <button
+          onClick={() => toggleCode(node.code)}
+          className="w-full py-2 pr-3 flex items-start gap-1.5 text-left hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border-b border-gray-100 dark:border-gray-700"
+          style={{ paddingLeft: `${8 + depth * 14}px` }}
+          aria-expanded={hasContent ? isExpanded : undefined}
+        >
+          <ChevronRight
+            size={14}
+            className={`mt-0.5 shrink-0 transition-transform text-gray-400 dark:text-gray-500 ${isExpanded ? 'rotate-90' : ''} ${hasContent ? '' : 'invisible'}`}
+          />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="min-w-0 truncate text-sm">
+                <span className="font-mono text-blue-600 dark:text-blue-400 font-medium">{node.code}</span>
+                {node.name && <span className="text-gray-700 dark:text-gray-300"> {node.name}</span>}
+              </span>
+              <span className="shrink-0 text-sm font-medium text-gray-800 dark:text-gray-200" title="Revised budget">
+                {formatCurrency(node.totals.revised)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+              <span className="truncate">
+                Committed {formatCurrency(node.totals.committed)} · Projected {formatCurrency(node.totals.projected)}
+              </span>
+              {overage > 0 && (
+                <span className="badge badge-red shrink-0" title="Projected costs over the revised budget">
+                  Over {formatCurrency(overage)}
+                </span>
+              )}
+            </div>
+          </div>
+        </button>
+        {isExpanded && (
+          <div>
+            {node.lineItems.map(item => renderLineItem(item, depth))}
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (lineItems.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+        <p className="mb-2">No budget cached</p>
+        <p className="text-sm text-center px-4">
+          Open the Budget in Procore,<br />
+          or use Settings to scan the budget.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="grid grid-cols-3 gap-2 p-3 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-xs text-gray-600 dark:text-gray-400 font-medium">Revised</div>
+          <div className="text-sm font-bold text-gray-700 dark:text-gray-300">{formatCurrency(totals.revised)}</div>
+        </div>
+        <div className="text-center p-2 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+          <div className="text-xs text-blue-600 dark:text-blue-400 font-medium">Committed</div>
+          <div className="text-sm font-bold text-blue-700 dark:text-blue-300">{formatCurrency(totals.committed)}</div>
+        </div>
+        <div className={`text-center p-2 rounded-lg ${isOverBudget ? 'bg-red-50 dark:bg-red-900/30' : 'bg-green-50 dark:bg-green-900/30'}`}>
+          <div className={`text-xs font-medium ${isOverBudget ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            Projected
+          </div>
+          <div className={`text-sm font-bold ${isOverBudget ? 'text-red-700 dark:text-red-300' : 'text-green-700 dark:text-green-300'}`}>
+            {formatCurrency(totals.projected)}
+          </div>
+        </div>
+      </div>
+
+      {tree.length === 0 ? (
+        <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          No cost codes match your search
+        </div>
+      ) : (
+        tree.map(node => renderNode(node, 0))
+      )}
+    </div>
+  )
+}
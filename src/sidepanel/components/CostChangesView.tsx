@@ -0,0 +1,248 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { Commitment, ChangeEvent, CommitmentChangeOrder } from '@/types'
+import { StorageService } from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import { formatCurrency, getChangeEventUrl, getChangeOrderUrl, rollupByStatus } from '../utils/cost'
+import { X } from 'lucide-preact'
+
+export type CostChangeKind = 'change_events' | 'change_orders'
+
+type ChangeItem = ChangeEvent | CommitmentChangeOrder
+
+interface CostChangesViewProps {
+  projectId: string
+  kind: CostChangeKind
+  items: ChangeItem[]                // Already filtered for removed items
+  commitments: Commitment[]
+  searchQuery: string
+  commitmentFilter: number | null
+  onClearCommitmentFilter: () => void
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  'open': 'badge-yellow',
+  'pending': 'badge-yellow',
+  'pending - in review': 'badge-yellow',
+  'draft': 'badge-gray',
+  'approved': 'badge-green',
+  'closed': 'badge-green',
+  'rejected': 'badge-red',
+  'void': 'badge-red',
+}
+
+const KIND_LABELS: Record<CostChangeKind, { singular: string; plural: string }> = {
+  change_events: { singular: 'change event', plural: 'change events' },
+  change_orders: { singular: 'change order', plural: 'change orders' },
+}
+
+function vendorOf(commitment: Commitment): string | undefined {
+  if (commitment.vendor_name) return commitment.vendor_name
+  const vendor = commitment.vendor as unknown
+  if (typeof vendor === 'string') return vendor
+  return vendor && typeof vendor === 'object' ? (vendor as { name?: string }).name : undefined
+}
+
+/**
+ * Change events or commitment change orders for the Cost tab, with a status
+ * rollup (count and amount) that doubles as a status filter. Items linked to
+ * a commitment show it, and the list can be narrowed to one commitment.
+ */
+export function CostChangesView({
+  projectId,
+  kind,
+  items,
+  commitments,
+  searchQuery,
+  commitmentFilter,
+  onClearCommitmentFilter,
+}: CostChangesViewProps) {
+  const [statusFilter, setStatusFilter] = useState<string | null>(null)
+  const labels = KIND_LABELS[kind]
+
+  useEffect(() => {
+    setStatusFilter(null)
+  }, [projectId, kind])
+
+  const commitmentsById = useMemo(
+    () => new Map(commitments.map(c => [c.id, c])),
+    [commitments]
+  )
+
+  const scoped = useMemo(
+    () => commitmentFilter === null ? items : items.filter(item => item.commitment_id === commitmentFilter),
+    [items, commitmentFilter]
+  )
+
+  const searched = useMemo(() => {
+    if (!searchQuery.trim()) return scoped
+
+    // Split query into words - all must match
+    const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
+
+    return scoped.filter(item => {
+      const number = String(item.number ?? '').toLowerCase()
+      const commitment = item.commitment_id !== undefined ? commitmentsById.get(item.commitment_id) : undefined
+      const textFields = [item.title, item.status, commitment?.number, commitment && vendorOf(commitment)]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase()
+
+      return words.every(word =>
+        number.startsWith(word) || textFields.includes(word)
+      )
+    })
+  }, [scoped, searchQuery, commitmentsById])
+
+  // Rollups ignore the status filter so every status stays selectable
+  const rollups = useMemo(() => rollupByStatus(searched), [searched])
+  const activeStatusFilter = statusFilter !== null && rollups.some(r => r.status.toLowerCase() === statusFilter)
+    ? statusFilter
+    : null
+
+  const filtered = useMemo(() => {
+    const list = activeStatusFilter === null
+      ? searched
+      : searched.filter(item => item.status.toLowerCase() === activeStatusFilter)
+    return [...list].sort((a, b) =>
+      (b.number || '').localeCompare(a.number || '', undefined, { numeric: true })
+    )
+  }, [searched, activeStatusFilter])
+
+  const total = useMemo(
+    () => filtered.reduce((sum, item) => sum + (item.amount ?? 0), 0),
+    [filtered]
+  )
+
+  const handleItemClick = useCallback(async (item: ChangeItem) => {
+    try {
+      const openInBackground = await StorageService.getPreferences<boolean>(
+        PREFERENCE_KEYS.openInBackground,
+        false
+      )
+      const commitment = item.commitment_id !== undefined ? commitmentsById.get(item.commitment_id) : undefined
+      const url = kind === 'change_events'
+        ? getChangeEventUrl(projectId, item as ChangeEvent)
+        : getChangeOrderUrl(projectId, commitment)
+      chrome.runtime.sendMessage({
+        action: 'OPEN_TAB',
+        url,
+        background: openInBackground
+      })
+    } catch (error) {
+      console.error(`Failed to open ${labels.singular}:`, error)
+    }
+  }, [projectId, kind, commitmentsById, labels])
+
+  const filterCommitment = commitmentFilter !== null ? commitmentsById.get(commitmentFilter) : undefined
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {(commitmentFilter !== null || rollups.length > 0) && (
+        <div className="px-3 pt-2 pb-1 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          {commitmentFilter !== null && (
+            <div className="flex items-center gap-1 mb-2 text-xs text-gray-600 dark:text-gray-300">
+              <span className="truncate">
+                Commitment #{filterCommitment?.number ?? commitmentFilter}
+                {filterCommitment && vendorOf(filterCommitment) && ` - ${vendorOf(filterCommitment)}`}
+              </span>
+              <button
+                onClick={onClearCommitmentFilter}
+                className="shrink-0 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                title="Show all commitments"
+                aria-label="Clear commitment filter"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-1 overflow-x-auto no-scrollbar mb-1" role="toolbar" aria-label="Filter by status">
+            {rollups.map(rollup => {
+              const key = rollup.status.toLowerCase()
+              const isSelected = activeStatusFilter === key
+              return (
+                <button
+                  key={key}
+                  onClick={() => setStatusFilter(isSelected ? null : key)}
+                  className={`shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    isSelected
+                      ? 'bg-gray-800 border-gray-800 text-white dark:bg-gray-100 dark:border-gray-100 dark:text-gray-900'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                  aria-pressed={isSelected}
+                  title={`${rollup.count} ${rollup.count === 1 ? labels.singular : labels.plural}, ${formatCurrency(rollup.amount)}`}
+                >
+                  <span>{rollup.status}</span>
+                  <span className="opacity-60">{rollup.count}</span>
+                  <span className="font-medium">{formatCurrency(rollup.amount)}</span>
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{filtered.length} of {items.length} {labels.plural}</span>
+            <span className="font-medium text-gray-700 dark:text-gray-300">Total {formatCurrency(total)}</span>
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          <p className="mb-2">No {labels.plural} cached</p>
+          <p className="text-sm text-center px-4">
+            Open {kind === 'change_events' ? 'Change Events' : 'a commitment\'s change orders'} in Procore,<br />
+            or use Settings to scan all {labels.plural}.
+          </p>
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          No {labels.plural} match your filters
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {filtered.map(item => {
+            const commitment = item.commitment_id !== undefined ? commitmentsById.get(item.commitment_id) : undefined
+            const statusClass = STATUS_COLORS[item.status.toLowerCase()] || 'badge-gray'
+            const changeEvent = kind === 'change_events' ? item as ChangeEvent : undefined
+
+            return (
+              <div
+                key={item.id}
+                onClick={() => handleItemClick(item)}
+                className="list-item group"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center gap-2">
+                    <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
+                      #{item.number}
+                    </span>
+                    <span className={`badge ${statusClass}`}>{item.status}</span>
+                  </span>
+                  {item.amount !== undefined && (
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      {formatCurrency(item.amount)}
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                  {item.title}
+                </div>
+                {(commitment || item.commitment_id !== undefined || changeEvent?.scope) && (
+                  <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    <span className="truncate">
+                      {commitment
+                        ? `#${commitment.number}${vendorOf(commitment) ? ` - ${vendorOf(commitment)}` : ''}`
+                        : item.commitment_id !== undefined ? `Commitment ${item.commitment_id}` : ''}
+                    </span>
+                    {changeEvent?.scope && <span className="shrink-0">{changeEvent.scope}</span>}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
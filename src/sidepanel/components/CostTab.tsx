@@ -1,8 +1,25 @@
 import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
-import type { Commitment } from '@/types'
-import { StorageService } from '@/services'
+import type { Commitment, ChangeEvent, CommitmentChangeOrder, BudgetLineItem } from '@/types'
+import { StorageService, getTagsInUse } from '@/services'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { PinButton } from './PinButton'
+import { ContextMenu } from './ContextMenu'
+import { NoteEditor } from './NoteEditor'
+import { NoteIndicator } from './NoteIndicator'
+import { TagEditor } from './TagEditor'
+import { TagFilterBar } from './TagFilterBar'
+import { TagChips } from './TagChips'
+import { CostChangesView } from './CostChangesView'
+import { CostBudgetView } from './CostBudgetView'
+import { ContactNames } from './ContactNames'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { useNotes } from '../hooks/useNotes'
+import { useTags } from '../hooks/useTags'
+import { getFreshness } from '../utils/freshness'
+import { formatCurrency, getCommitmentUrl } from '../utils/cost'
 import { Check, Loader2 } from 'lucide-preact'
 
 interface CostTabProps {
@@ -10,54 +27,50 @@ interface CostTabProps {
   dataVersion?: number
 }
 
-function formatCurrency(amount: number | undefined): string {
-  if (amount === undefined || amount === null) return '-'
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount)
-}
+type CostView = 'commitments' | 'change_events' | 'change_orders' | 'budget_line_items'
 
-/**
- * Determine the URL path type for a commitment based on its type field or number prefix.
- * Procore uses different URL paths for different commitment types:
- * - Purchase Orders: /purchase_order_contracts/
- * - Work Orders/Subcontracts: /work_order_contracts/
- */
-function getCommitmentUrlType(commitment: Commitment): string {
-  const type = commitment.type?.toLowerCase() || ''
-  const number = String(commitment.number ?? '').toUpperCase()
-  
-  // Check type field first (API may return values like 'PurchaseOrderContract', 'WorkOrderContract')
-  if (type.includes('purchase') || type.includes('purchaseorder')) {
-    return 'purchase_order_contracts'
-  }
-  if (type.includes('work') || type.includes('subcontract') || type.includes('workorder')) {
-    return 'work_order_contracts'
-  }
-  
-  // Fallback: check commitment number prefix
-  if (number.startsWith('PO-') || number.startsWith('PO ')) {
-    return 'purchase_order_contracts'
-  }
-  if (number.startsWith('WO-') || number.startsWith('SC-') || number.startsWith('SUB-')) {
-    return 'work_order_contracts'
-  }
-  
-  // Default to purchase order contracts
-  return 'purchase_order_contracts'
-}
+const COST_VIEWS: Array<{ id: CostView; label: string; noun: string }> = [
+  { id: 'commitments', label: 'Commitments', noun: 'commitment' },
+  { id: 'change_events', label: 'Change Events', noun: 'change event' },
+  { id: 'change_orders', label: 'Change Orders', noun: 'change order' },
+  { id: 'budget_line_items', label: 'Budget', noun: 'cost code' },
+]
 
 export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
   const [commitments, setCommitments] = useState<Commitment[]>([])
+  const [changeEvents, setChangeEvents] = useState<ChangeEvent[]>([])
+  const [changeOrders, setChangeOrders] = useState<CommitmentChangeOrder[]>([])
+  const [budgetLineItems, setBudgetLineItems] = useState<BudgetLineItem[]>([])
+  const [view, setView] = useState<CostView>('commitments')
+  const [commitmentFilter, setCommitmentFilter] = useState<number | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; commitment: Commitment } | null>(null)
+  const { getNote, saveNote } = useNotes(projectId)
+  const { data: tagData, tags, getTags, matchesTags, addTag, toggleTag } = useTags(projectId)
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([])
+  const tagsInUse = useMemo(() => getTagsInUse(tagData, 'commitment'), [tagData])
+
+  // Ignore selections for tags that were removed from every item
+  const activeTagIds = useMemo(
+    () => selectedTagIds.filter(id => tagsInUse.some(tag => tag.id === id)),
+    [selectedTagIds, tagsInUse]
+  )
+
+  useEffect(() => {
+    setSelectedTagIds([])
+    setCommitmentFilter(null)
+  }, [projectId])
   const [isLoading, setIsLoading] = useState(true)
   const [isScanning, setIsScanning] = useState(false)
   const [scanStatus, setScanStatus] = useState<string | null>(null)
   const [scanPercent, setScanPercent] = useState(0)
-  const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
+  const [lastCapture, setLastCapture] = useState<{ count: number; noun: string } | null>(null)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata[view], staleThresholdHours),
+    [syncMetadata, view, staleThresholdHours]
+  )
 
   useEffect(() => {
     async function loadData() {
@@ -65,15 +78,31 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
         setIsLoading(true)
       }
       
-      const cached = await StorageService.getCommitments(projectId)
+      const [cached, cachedEvents, cachedOrders, cachedBudget] = await Promise.all([
+        StorageService.getCommitments(projectId),
+        StorageService.getChangeEvents(projectId),
+        StorageService.getChangeOrders(projectId),
+        StorageService.getBudgetLineItems(projectId),
+      ])
       
-      if (dataVersion > 0 && cached.length > commitments.length) {
-        const newCount = cached.length - commitments.length
-        setLastCaptureCount(newCount)
-        setTimeout(() => setLastCaptureCount(null), 3000)
+      if (dataVersion > 0) {
+        const added: Array<[number, string]> = [
+          [cached.length - commitments.length, 'commitment'],
+          [cachedEvents.length - changeEvents.length, 'change event'],
+          [cachedOrders.length - changeOrders.length, 'change order'],
+          [cachedBudget.length - budgetLineItems.length, 'budget line'],
+        ]
+        const [count, noun] = added.find(([newCount]) => newCount > 0) ?? [0, '']
+        if (count > 0) {
+          setLastCapture({ count, noun })
+          setTimeout(() => setLastCapture(null), 3000)
+        }
       }
       
       setCommitments(cached)
+      setChangeEvents(cachedEvents)
+      setChangeOrders(cachedOrders)
+      setBudgetLineItems(cachedBudget)
       setIsLoading(false)
     }
     loadData()
@@ -83,7 +112,7 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
   useEffect(() => {
     const handleMessage = async (message: { type: string; payload?: unknown }) => {
       if (message.type === 'SCAN_PROGRESS') {
-        const payload = message.payload as { status: string; scanType: string; percent: number }
+        const payload = message.payload as { status: string; scanType: string; percent: number; message?: string }
         if (payload.scanType === 'commitments') {
           setScanPercent(payload.percent)
           
@@ -95,6 +124,27 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
             setTimeout(() => setScanStatus(null), 3000)
           }
         }
+
+        // Change event, change order and budget scans run headless and report their own messages
+        if (payload.scanType === 'change_events' || payload.scanType === 'change_orders' || payload.scanType === 'budget_line_items') {
+          setScanPercent(payload.percent)
+
+          if (payload.status === 'complete' || payload.status === 'timeout') {
+            setIsScanning(false)
+            setScanStatus(payload.message || 'Scan complete!')
+            if (payload.scanType === 'change_events') {
+              setChangeEvents(await StorageService.getChangeEvents(projectId))
+            } else if (payload.scanType === 'change_orders') {
+              setChangeOrders(await StorageService.getChangeOrders(projectId))
+            } else {
+              setBudgetLineItems(await StorageService.getBudgetLineItems(projectId))
+            }
+            setTimeout(() => setScanStatus(null), 3000)
+          } else {
+            setIsScanning(true)
+            setScanStatus(payload.message || `Scanning... ${payload.percent}%`)
+          }
+        }
       }
       
       if (message.type === 'DATA_SAVED' && isScanning) {
@@ -110,13 +160,54 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
     return () => chrome.runtime.onMessage.removeListener(handleMessage)
   }, [projectId, isScanning])
 
+  // Soft-deleted change events/orders (missing from the last full scan) are hidden unless opted in
+  const visibleChangeEvents = useMemo(
+    () => showRemovedItems ? changeEvents : changeEvents.filter(e => e.removed_at === undefined),
+    [changeEvents, showRemovedItems]
+  )
+  const visibleChangeOrders = useMemo(
+    () => showRemovedItems ? changeOrders : changeOrders.filter(o => o.removed_at === undefined),
+    [changeOrders, showRemovedItems]
+  )
+  const visibleBudgetLineItems = useMemo(
+    () => showRemovedItems ? budgetLineItems : budgetLineItems.filter(b => b.removed_at === undefined),
+    [budgetLineItems, showRemovedItems]
+  )
+
+  // Change orders and change events per parent commitment
+  const linkedByCommitment = useMemo(() => {
+    const linked = new Map<number, { orders: number; orderAmount: number; events: number }>()
+    const entry = (commitmentId: number) => {
+      const current = linked.get(commitmentId) ?? { orders: 0, orderAmount: 0, events: 0 }
+      linked.set(commitmentId, current)
+      return current
+    }
+    for (const order of visibleChangeOrders) {
+      if (order.commitment_id === undefined) continue
+      const current = entry(order.commitment_id)
+      current.orders++
+      current.orderAmount += order.amount ?? 0
+    }
+    for (const event of visibleChangeEvents) {
+      if (event.commitment_id !== undefined) entry(event.commitment_id).events++
+    }
+    return linked
+  }, [visibleChangeOrders, visibleChangeEvents])
+
+  const showLinked = useCallback((nextView: CostView, commitmentId: number) => {
+    setView(nextView)
+    setCommitmentFilter(commitmentId)
+    setSearchQuery('')
+  }, [])
+
   const filteredCommitments = useMemo(() => {
-    if (!searchQuery.trim()) return commitments
+    const tagged = commitments.filter(c => matchesTags('commitment', c.id, activeTagIds))
+    if (!searchQuery.trim()) return tagged
     
     // Split query into words - all must match
     const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
     
-    return commitments.filter(c => {
+    return tagged.filter(c => {
       const number = String(c.number ?? '').toLowerCase()
       
       // Handle vendor which might be a string or object from Procore API
@@ -124,7 +215,7 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
         (c.vendor && typeof c.vendor === 'object' ? (c.vendor as { name?: string }).name : undefined)
       
       // Combine text fields for substring matching
-      const textFields = [c.title, c.vendor_name, vendorStr]
+      const textFields = [c.title, c.vendor_name, vendorStr, getNote('commitment', c.id)?.text]
         .filter(Boolean)
         .join(' ')
         .toLowerCase()
@@ -134,7 +225,7 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
         number.startsWith(word) || textFields.includes(word)
       )
     })
-  }, [commitments, searchQuery])
+  }, [commitments, searchQuery, getNote, matchesTags, activeTagIds])
 
   // TODO: Future enhancement - Calculate and display commitment totals
   // Currently disabled because the Procore API data captured via wiretap
@@ -156,8 +247,7 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
         false
       )
       // Use correct Procore URL format with commitment type
-      const commitmentType = getCommitmentUrlType(commitment)
-      const url = `https://app.procore.com/${projectId}/project/contracts/commitments/${commitmentType}/${commitment.id}`
+      const url = getCommitmentUrl(projectId, commitment)
       chrome.runtime.sendMessage({ 
         action: 'OPEN_TAB', 
         url, 
@@ -169,11 +259,31 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
   }, [projectId])
 
   const renderItem = useCallback((commitment: Commitment) => {
+    const linked = linkedByCommitment.get(commitment.id)
+    const vendor = commitment.vendor_name || commitment.vendor
     return (
-      <div onClick={() => handleCommitmentClick(commitment)} className="list-item">
+      <div
+        onClick={() => handleCommitmentClick(commitment)}
+        onContextMenu={(e) => {
+          e.preventDefault()
+          setContextMenu({ x: e.clientX, y: e.clientY, commitment })
+        }}
+        className="list-item group"
+      >
         <div className="flex items-center justify-between mb-1">
-          <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
-            #{commitment.number}
+          <span className="flex items-center gap-1">
+            <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
+              #{commitment.number}
+            </span>
+            <PinButton pin={{
+              type: 'commitment',
+              projectId,
+              itemId: commitment.id,
+              label: `#${commitment.number}`,
+              title: commitment.title,
+              url: getCommitmentUrl(projectId, commitment),
+            }} />
+            <NoteIndicator note={getNote('commitment', commitment.id)} />
           </span>
           {commitment.approved_amount !== undefined && (
             <span className="text-sm font-medium text-green-600 dark:text-green-400">
@@ -184,14 +294,43 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
         <div className="text-sm text-gray-700 dark:text-gray-300 truncate">
           {commitment.title}
         </div>
-        {(commitment.vendor_name || commitment.vendor) && (
+        {vendor && (
           <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
-            {commitment.vendor_name || commitment.vendor}
+            <ContactNames projectId={projectId} value={vendor} />
           </div>
         )}
+        {linked && (
+          <div className="flex items-center gap-2 text-xs mt-0.5">
+            {linked.orders > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  showLinked('change_orders', commitment.id)
+                }}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+                title="Show this commitment's change orders"
+              >
+                {linked.orders} CO{linked.orders !== 1 ? 's' : ''} · {formatCurrency(linked.orderAmount)}
+              </button>
+            )}
+            {linked.events > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  showLinked('change_events', commitment.id)
+                }}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+                title="Show change events with line items on this commitment"
+              >
+                {linked.events} change event{linked.events !== 1 ? 's' : ''}
+              </button>
+            )}
+          </div>
+        )}
+        <TagChips tags={getTags('commitment', commitment.id)} className="mt-1 max-w-full" />
       </div>
     )
-  }, [handleCommitmentClick])
+  }, [handleCommitmentClick, projectId, getNote, getTags, linkedByCommitment, showLinked])
 
   if (isLoading) {
     return (
@@ -203,10 +342,10 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
 
   return (
     <div className="flex flex-col h-full">
-      {lastCaptureCount !== null && (
+      {lastCapture !== null && (
         <div className="px-3 py-2 bg-green-50 dark:bg-green-900/30 border-b border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
           <Check size={16} className="text-green-500 dark:text-green-400" />
-          <span>Captured {lastCaptureCount} new commitment{lastCaptureCount !== 1 ? 's' : ''}</span>
+          <span>Captured {lastCapture.count} new {lastCapture.noun}{lastCapture.count !== 1 ? 's' : ''}</span>
         </div>
       )}
       
@@ -219,7 +358,7 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
           <div className="flex items-center gap-2 mb-1">
             {isScanning && <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-current" />}
             <span>{scanStatus}</span>
-            {isScanning && <span className="ml-auto">{commitments.length} found</span>}
+            {isScanning && view === 'commitments' && <span className="ml-auto">{commitments.length} found</span>}
           </div>
           {isScanning && (
             <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5">
@@ -253,22 +392,75 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
       */}
 
       <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex items-center gap-1 mb-2" role="tablist" aria-label="Cost view">
+          {COST_VIEWS.map(option => {
+            const count = option.id === 'commitments' ? commitments.length
+              : option.id === 'change_events' ? visibleChangeEvents.length
+              : option.id === 'change_orders' ? visibleChangeOrders.length
+              : visibleBudgetLineItems.length
+            const isSelected = view === option.id
+            return (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setView(option.id)
+                  setCommitmentFilter(null)
+                  setSearchQuery('')
+                }}
+                className={`shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                  isSelected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+                role="tab"
+                aria-selected={isSelected}
+              >
+                <span>{option.label}</span>
+                <span className="opacity-70">{count}</span>
+              </button>
+            )
+          })}
+        </div>
+
         <div className="flex gap-2 mb-2">
           <div className="flex-1">
             <SearchInput
               value={searchQuery}
               onChange={setSearchQuery}
-              placeholder="Search commitments..."
+              placeholder={`Search ${COST_VIEWS.find(option => option.id === view)!.noun}s...`}
             />
           </div>
         </div>
         
-        <div className="text-xs text-gray-500 dark:text-gray-400">
-          {filteredCommitments.length} of {commitments.length} commitments
+        {view === 'commitments' && (
+          <TagFilterBar tags={tagsInUse} selectedIds={activeTagIds} onChange={setSelectedTagIds} />
+        )}
+        
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          {view === 'commitments' && (
+            <span>{filteredCommitments.length} of {commitments.length} commitments</span>
+          )}
+          <FreshnessBadge freshness={freshness} />
         </div>
       </div>
 
-      {commitments.length === 0 ? (
+      {view === 'budget_line_items' ? (
+        <CostBudgetView
+          projectId={projectId}
+          lineItems={visibleBudgetLineItems}
+          searchQuery={searchQuery}
+        />
+      ) : view !== 'commitments' ? (
+        <CostChangesView
+          projectId={projectId}
+          kind={view}
+          items={view === 'change_events' ? visibleChangeEvents : visibleChangeOrders}
+          commitments={commitments}
+          searchQuery={searchQuery}
+          commitmentFilter={commitmentFilter}
+          onClearCommitmentFilter={() => setCommitmentFilter(null)}
+        />
+      ) : commitments.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
           <p className="mb-2">No commitments cached</p>
           <p className="text-sm text-center px-4">
@@ -278,7 +470,7 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
         </div>
       ) : filteredCommitments.length === 0 ? (
         <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
-          No commitments match your search
+          No commitments match your filters
         </div>
       ) : (
         <div className="flex-1 overflow-y-auto">
@@ -289,6 +481,28 @@ export function CostTab({ projectId, dataVersion = 0 }: CostTabProps) {
           ))}
         </div>
       )}
+
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          onClose={() => setContextMenu(null)}
+        >
+          <TagEditor
+            tags={tags}
+            selectedIds={getTags('commitment', contextMenu.commitment.id).map(tag => tag.id)}
+            onToggle={(tagId) => toggleTag('commitment', contextMenu.commitment.id, tagId)}
+            onCreate={(name) => addTag('commitment', contextMenu.commitment.id, name)}
+          />
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <NoteEditor
+              note={getNote('commitment', contextMenu.commitment.id)}
+              onSave={(text) => saveNote('commitment', contextMenu.commitment.id, text)}
+              onDone={() => setContextMenu(null)}
+            />
+          </div>
+        </ContextMenu>
+      )}
     </div>
   )
 }
@@ -0,0 +1,324 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { DirectoryPerson, DirectoryCompany } from '@/types'
+import { getPersonCompany, personMatches, companyMatches } from '@/services'
+import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { ContextMenu } from './ContextMenu'
+import { ContactCard } from './ContactCard'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { useDirectory } from '../hooks/useDirectory'
+import { getFreshness } from '../utils/freshness'
+import { Loader2, Mail, Phone, X } from 'lucide-preact'
+
+interface DirectoryTabProps {
+  projectId: string
+}
+
+type DirectoryView = 'people' | 'companies'
+
+const DIRECTORY_VIEWS: Array<{ id: DirectoryView; label: string }> = [
+  { id: 'people', label: 'People' },
+  { id: 'companies', label: 'Companies' },
+]
+
+type CardTarget =
+  | { person: DirectoryPerson; company?: undefined }
+  | { company: DirectoryCompany; person?: undefined }
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name)
+}
+
+// Directory data comes from DirectoryProvider, which reloads on DATA_SAVED
+export function DirectoryTab({ projectId }: DirectoryTabProps) {
+  const { people, companies, index } = useDirectory()
+  const [view, setView] = useState<DirectoryView>('people')
+  const [searchQuery, setSearchQuery] = useState('')
+  // Set from a company row: people view limited to that company
+  const [companyFilter, setCompanyFilter] = useState<DirectoryCompany | null>(null)
+  const [card, setCard] = useState<{ x: number; y: number; target: CardTarget } | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanStatus, setScanStatus] = useState<string | null>(null)
+  const [scanPercent, setScanPercent] = useState(0)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata[view], staleThresholdHours),
+    [syncMetadata, view, staleThresholdHours]
+  )
+
+  useEffect(() => {
+    setCompanyFilter(null)
+    setSearchQuery('')
+  }, [projectId])
+
+  // Listen for scan progress (SCAN_DIRECTORY runs headless in the background)
+  useEffect(() => {
+    const handleMessage = (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'SCAN_PROGRESS') {
+        const payload = message.payload as { status: string; scanType: string; percent: number; message?: string }
+        if (payload.scanType === 'directory') {
+          setScanPercent(payload.percent)
+
+          if (payload.status === 'complete' || payload.status === 'timeout') {
+            setIsScanning(false)
+            setScanStatus(payload.message || 'Scan complete!')
+            setTimeout(() => setScanStatus(null), 3000)
+          } else {
+            setIsScanning(true)
+            setScanStatus(payload.message || `Scanning... ${payload.percent}%`)
+          }
+        }
+      }
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [])
+
+  // Soft-deleted entries (missing from the last full scan) are hidden unless opted in
+  const visiblePeople = useMemo(
+    () => [...(showRemovedItems ? people : people.filter(p => p.removed_at === undefined))].sort(byName),
+    [people, showRemovedItems]
+  )
+  const visibleCompanies = useMemo(
+    () => [...(showRemovedItems ? companies : companies.filter(c => c.removed_at === undefined))].sort(byName),
+    [companies, showRemovedItems]
+  )
+
+  const peopleByCompany = useMemo(() => {
+    const counts = new Map<number, number>()
+    for (const person of visiblePeople) {
+      const company = getPersonCompany(index, person)
+      if (company) counts.set(company.id, (counts.get(company.id) ?? 0) + 1)
+    }
+    return counts
+  }, [visiblePeople, index])
+
+  const words = useMemo(() => searchQuery.toLowerCase().split(/\s+/).filter(Boolean), [searchQuery])
+
+  const filteredPeople = useMemo(() => visiblePeople.filter(person => {
+    const company = getPersonCompany(index, person)
+    if (companyFilter && company?.id !== companyFilter.id) return false
+    return personMatches(person, words, company?.trade)
+  }), [visiblePeople, index, companyFilter, words])
+
+  const filteredCompanies = useMemo(
+    () => visibleCompanies.filter(company => companyMatches(company, words)),
+    [visibleCompanies, words]
+  )
+
+  const showCompanyPeople = useCallback((company: DirectoryCompany) => {
+    setView('people')
+    setCompanyFilter(company)
+    setSearchQuery('')
+  }, [])
+
+  const openCard = (e: MouseEvent, target: CardTarget) => {
+    setCard({ x: e.clientX, y: e.clientY, target })
+  }
+
+  // Mail and phone act directly; the row itself opens the contact card
+  const renderContactLinks = (email?: string, phone?: string) => (
+    <span className="flex items-center gap-1 shrink-0">
+      {email && (
+        <a
+          href={`mailto:${email}`}
+          onClick={(e) => e.stopPropagation()}
+          className="p-1 rounded text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title={email}
+        >
+          <Mail size={14} />
+        </a>
+      )}
+      {phone && (
+        <a
+          href={`tel:${phone.replace(/[^\d+]/g, '')}`}
+          onClick={(e) => e.stopPropagation()}
+          className="p-1 rounded text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title={phone}
+        >
+          <Phone size={14} />
+        </a>
+      )}
+    </span>
+  )
+
+  const renderPerson = (person: DirectoryPerson) => {
+    const company = getPersonCompany(index, person)
+    const isRemoved = person.removed_at !== undefined
+    const details = [person.role, person.company].filter(Boolean).join(' · ')
+
+    return (
+      <div
+        key={person.id}
+        onClick={(e) => openCard(e, { person })}
+        className={`list-item flex items-center gap-2 ${isRemoved ? 'opacity-50' : ''}`}
+      >
+        <div className="min-w-0 flex-1">
+          <div className={`text-sm font-medium text-gray-800 dark:text-gray-200 truncate ${isRemoved ? 'line-through' : ''}`}>
+            {person.name}
+          </div>
+          {details && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{details}</div>
+          )}
+          {company?.trade && (
+            <div className="text-xs text-gray-400 dark:text-gray-500 truncate" title="Trade">{company.trade}</div>
+          )}
+        </div>
+        {renderContactLinks(person.email, person.phone || company?.phone)}
+      </div>
+    )
+  }
+
+  const renderCompany = (company: DirectoryCompany) => {
+    const isRemoved = company.removed_at !== undefined
+    const peopleCount = peopleByCompany.get(company.id) ?? 0
+
+    return (
+      <div
+        key={company.id}
+        onClick={(e) => openCard(e, { company })}
+        className={`list-item flex items-center gap-2 ${isRemoved ? 'opacity-50' : ''}`}
+      >
+        <div className="min-w-0 flex-1">
+          <div className={`text-sm font-medium text-gray-800 dark:text-gray-200 truncate ${isRemoved ? 'line-through' : ''}`}>
+            {company.name}
+          </div>
+          {company.trade && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title="Trade">{company.trade}</div>
+          )}
+          {peopleCount > 0 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                showCompanyPeople(company)
+              }}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              title="Show this company's people"
+            >
+              {peopleCount} {peopleCount === 1 ? 'person' : 'people'}
+            </button>
+          )}
+        </div>
+        {renderContactLinks(company.email, company.phone)}
+      </div>
+    )
+  }
+
+  const shownCount = view === 'people' ? filteredPeople.length : filteredCompanies.length
+  const totalCount = view === 'people' ? visiblePeople.length : visibleCompanies.length
+
+  return (
+    <div className="flex flex-col h-full">
+      {scanStatus && (
+        <div className={`px-3 py-2 border-b text-sm ${
+          scanStatus.toLowerCase().includes('failed')
+            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+            : 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400'
+        }`}>
+          <div className="flex items-center gap-2 mb-1">
+            {isScanning && <Loader2 size={12} className="animate-spin" />}
+            <span>{scanStatus}</span>
+          </div>
+          {isScanning && (
+            <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5">
+              <div
+                className="bg-blue-600 dark:bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                style={{ width: `${scanPercent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex items-center gap-1 mb-2" role="tablist" aria-label="Directory view">
+          {DIRECTORY_VIEWS.map(option => {
+            const count = option.id === 'people' ? visiblePeople.length : visibleCompanies.length
+            const isSelected = view === option.id
+            return (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setView(option.id)
+                  setCompanyFilter(null)
+                  setSearchQuery('')
+                }}
+                className={`shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                  isSelected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+                role="tab"
+                aria-selected={isSelected}
+              >
+                <span>{option.label}</span>
+                <span className="opacity-70">{count}</span>
+              </button>
+            )
+          })}
+        </div>
+
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1">
+            <SearchInput
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder={view === 'people' ? 'Search people, companies, trades...' : 'Search companies, trades...'}
+            />
+          </div>
+        </div>
+
+        {companyFilter && view === 'people' && (
+          <div className="flex items-center gap-1 mb-2">
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800 max-w-full">
+              <span className="truncate">{companyFilter.name}</span>
+              <button
+                onClick={() => setCompanyFilter(null)}
+                className="hover:text-blue-900 dark:hover:text-blue-100"
+                aria-label="Clear company filter"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{shownCount} of {totalCount} {view}</span>
+          <FreshnessBadge freshness={freshness} />
+        </div>
+      </div>
+
+      {people.length === 0 && companies.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          <p className="mb-2">No directory cached</p>
+          <p className="text-sm text-center px-4">
+            Open the Directory in Procore,<br />
+            or use Settings to scan the directory.
+          </p>
+        </div>
+      ) : shownCount === 0 ? (
+        <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          No {view} match your search
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {view === 'people' ? filteredPeople.map(renderPerson) : filteredCompanies.map(renderCompany)}
+        </div>
+      )}
+
+      {card && (
+        <ContextMenu x={card.x} y={card.y} onClose={() => setCard(null)}>
+          {card.target.person ? (
+            <ContactCard projectId={projectId} person={card.target.person} />
+          ) : (
+            <ContactCard projectId={projectId} company={card.target.company} />
+          )}
+        </ContextMenu>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,336 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { DocumentFolder, DocumentFile } from '@/types'
+import {
+  StorageService,
+  buildDocumentTree,
+  getDocumentFileUrl,
+  getDocumentFolderUrl,
+  getDocumentFolderPath,
+  documentFileMatches,
+  formatFileSize,
+} from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { PinButton } from './PinButton'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { getFreshness } from '../utils/freshness'
+import { Check, ChevronRight, ExternalLink, File as FileIcon, Folder, FolderOpen, Loader2 } from 'lucide-preact'
+
+interface DocumentsTabProps {
+  projectId: string
+  dataVersion?: number
+}
+
+// Search results are a flat list; more than this is not worth scrolling
+const MAX_SEARCH_RESULTS = 200
+
+export function DocumentsTab({ projectId, dataVersion = 0 }: DocumentsTabProps) {
+  const [folders, setFolders] = useState<DocumentFolder[]>([])
+  const [files, setFiles] = useState<DocumentFile[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [expandedFolders, setExpandedFolders] = useState<Set<number>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanStatus, setScanStatus] = useState<string | null>(null)
+  const [scanPercent, setScanPercent] = useState(0)
+  const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.documents, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
+
+  useEffect(() => {
+    setExpandedFolders(new Set())
+    setSearchQuery('')
+  }, [projectId])
+
+  useEffect(() => {
+    async function loadData() {
+      if (files.length === 0) {
+        setIsLoading(true)
+      }
+
+      const [cachedFolders, cachedFiles] = await Promise.all([
+        StorageService.getDocumentFolders(projectId),
+        StorageService.getDocumentFiles(projectId),
+      ])
+
+      if (dataVersion > 0 && cachedFiles.length > files.length) {
+        const newCount = cachedFiles.length - files.length
+        setLastCaptureCount(newCount)
+        setTimeout(() => setLastCaptureCount(null), 3000)
+      }
+
+      setFolders(cachedFolders)
+      setFiles(cachedFiles)
+      setIsLoading(false)
+    }
+    loadData()
+  }, [projectId, dataVersion])
+
+  // Listen for scan progress (SCAN_DOCUMENTS runs headless in the background)
+  useEffect(() => {
+    const handleMessage = async (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'SCAN_PROGRESS') {
+        const payload = message.payload as { status: string; scanType: string; percent: number; message?: string }
+        if (payload.scanType === 'documents') {
+          setScanPercent(payload.percent)
+
+          if (payload.status === 'complete' || payload.status === 'timeout') {
+            setIsScanning(false)
+            setScanStatus(payload.message || 'Scan complete!')
+            const [cachedFolders, cachedFiles] = await Promise.all([
+              StorageService.getDocumentFolders(projectId),
+              StorageService.getDocumentFiles(projectId),
+            ])
+            setFolders(cachedFolders)
+            setFiles(cachedFiles)
+            setTimeout(() => setScanStatus(null), 3000)
+          } else {
+            setIsScanning(true)
+            setScanStatus(payload.message || `Scanning... ${payload.percent}%`)
+          }
+        }
+      }
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [projectId])
+
+  // Soft-deleted entries (missing from the last full scan) are hidden unless opted in
+  const visibleFolders = useMemo(
+    () => showRemovedItems ? folders : folders.filter(f => f.removed_at === undefined),
+    [folders, showRemovedItems]
+  )
+  const visibleFiles = useMemo(
+    () => showRemovedItems ? files : files.filter(f => f.removed_at === undefined),
+    [files, showRemovedItems]
+  )
+
+  const tree = useMemo(() => buildDocumentTree(visibleFolders, visibleFiles), [visibleFolders, visibleFiles])
+
+  const searchResults = useMemo(() => {
+    const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
+    if (words.length === 0) return null
+    return visibleFiles
+      .filter(file => documentFileMatches(file, words))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+  }, [visibleFiles, searchQuery])
+
+  const toggleFolder = useCallback((folderId: number) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev)
+      if (next.has(folderId)) {
+        next.delete(folderId)
+      } else {
+        next.add(folderId)
+      }
+      return next
+    })
+  }, [])
+
+  const openUrl = useCallback(async (url: string) => {
+    try {
+      const openInBackground = await StorageService.getPreferences<boolean>(
+        PREFERENCE_KEYS.openInBackground,
+        false
+      )
+      chrome.runtime.sendMessage({
+        action: 'OPEN_TAB',
+        url,
+        background: openInBackground
+      })
+    } catch (error) {
+      console.error('Failed to open document:', error)
+    }
+  }, [])
+
+  const renderFile = (file: DocumentFile, depth: number, showPath: boolean) => {
+    const isRemoved = file.removed_at !== undefined
+    const folderPath = showPath ? getDocumentFolderPath(file) : undefined
+    const details = [
+      file.file_type?.toUpperCase(),
+      formatFileSize(file.size),
+      file.updated_at ? new Date(file.updated_at).toLocaleDateString() : undefined,
+    ].filter(Boolean).join(' · ')
+
+    return (
+      <div
+        key={`file-${file.id}`}
+        onClick={() => openUrl(getDocumentFileUrl(projectId, file))}
+        className={`list-item group flex items-start gap-2 ${isRemoved ? 'opacity-50' : ''}`}
+        style={{ paddingLeft: `${12 + depth * 16}px` }}
+        title={file.path || file.name}
+      >
+        <FileIcon size={14} className="text-gray-400 dark:text-gray-500 mt-0.5 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className={`text-sm text-gray-800 dark:text-gray-200 truncate ${isRemoved ? 'line-through' : ''}`}>
+            {file.name}
+          </div>
+          {folderPath && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{folderPath}</div>
+          )}
+          {details && (
+            <div className="text-xs text-gray-400 dark:text-gray-500 truncate">{details}</div>
+          )}
+        </div>
+        <PinButton pin={{
+          type: 'document',
+          projectId,
+          itemId: file.id,
+          label: file.name,
+          title: getDocumentFolderPath(file),
+          url: getDocumentFileUrl(projectId, file),
+        }} />
+      </div>
+    )
+  }
+
+  // Children render only once a folder is expanded, so large trees stay cheap
+  const renderFolder = (folder: DocumentFolder, depth: number): preact.JSX.Element => {
+    const isExpanded = expandedFolders.has(folder.id)
+    const isRemoved = folder.removed_at !== undefined
+    const fileCount = tree.fileCounts.get(folder.id) ?? 0
+    const FolderIcon = isExpanded ? FolderOpen : Folder
+
+    return (
+      <div key={`folder-${folder.id}`}>
+        <div
+          onClick={() => toggleFolder(folder.id)}
+          className={`group w-full py-1.5 pr-3 flex items-center gap-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${isRemoved ? 'opacity-50' : ''}`}
+          style={{ paddingLeft: `${8 + depth * 16}px` }}
+          role="button"
+          aria-expanded={isExpanded}
+        >
+          <ChevronRight
+            size={14}
+            className={`transition-transform text-gray-400 dark:text-gray-500 shrink-0 ${isExpanded ? 'rotate-90' : ''}`}
+          />
+          <FolderIcon size={14} className="text-amber-500 dark:text-amber-400 shrink-0" />
+          <span className={`text-sm text-gray-700 dark:text-gray-300 flex-1 truncate ${isRemoved ? 'line-through' : ''}`} title={folder.path || folder.name}>
+            {folder.name}
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              openUrl(getDocumentFolderUrl(projectId, folder))
+            }}
+            className="p-0.5 rounded text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            title="Open folder in Procore"
+            aria-label={`Open ${folder.name} in Procore`}
+          >
+            <ExternalLink size={12} />
+          </button>
+          <span className="text-xs text-gray-400 dark:text-gray-500 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded-full">
+            {fileCount}
+          </span>
+        </div>
+        {isExpanded && (
+          <div>
+            {(tree.folders.get(folder.id) ?? []).map(child => renderFolder(child, depth + 1))}
+            {(tree.files.get(folder.id) ?? []).map(file => renderFile(file, depth + 1, false))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="animate-spin h-6 w-6 text-blue-600" />
+      </div>
+    )
+  }
+
+  const topFolders = tree.folders.get(null) ?? []
+  const topFiles = tree.files.get(null) ?? []
+
+  return (
+    <div className="flex flex-col h-full">
+      {lastCaptureCount !== null && (
+        <div className="px-3 py-2 bg-green-50 dark:bg-green-900/30 border-b border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
+          <Check size={16} className="text-green-500 dark:text-green-400" />
+          <span>Captured {lastCaptureCount} new document{lastCaptureCount !== 1 ? 's' : ''}</span>
+        </div>
+      )}
+
+      {scanStatus && (
+        <div className={`px-3 py-2 border-b text-sm ${
+          scanStatus.toLowerCase().includes('failed')
+            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+            : 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400'
+        }`}>
+          <div className="flex items-center gap-2 mb-1">
+            {isScanning && <Loader2 size={12} className="animate-spin" />}
+            <span>{scanStatus}</span>
+          </div>
+          {isScanning && (
+            <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5">
+              <div
+                className="bg-blue-600 dark:bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                style={{ width: `${scanPercent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1">
+            <SearchInput
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Search file names..."
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>
+            {searchResults
+              ? `${searchResults.length} of ${visibleFiles.length} files`
+              : `${visibleFiles.length} files in ${visibleFolders.length} folders`}
+          </span>
+          <FreshnessBadge freshness={freshness} />
+        </div>
+      </div>
+
+      {files.length === 0 && folders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          <p className="mb-2">No documents cached</p>
+          <p className="text-sm text-center px-4">
+            Browse the Documents tool in Procore,<br />
+            or use Settings to scan all folders.
+          </p>
+        </div>
+      ) : searchResults ? (
+        searchResults.length === 0 ? (
+          <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+            No files match your search
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            {searchResults.slice(0, MAX_SEARCH_RESULTS).map(file => renderFile(file, 0, true))}
+            {searchResults.length > MAX_SEARCH_RESULTS && (
+              <div className="px-3 py-2 text-xs text-center text-gray-400 dark:text-gray-500">
+                Showing the first {MAX_SEARCH_RESULTS} matches - refine your search
+              </div>
+            )}
+          </div>
+        )
+      ) : (
+        <div className="flex-1 overflow-y-auto py-1">
+          {topFolders.map(folder => renderFolder(folder, 0))}
+          {topFiles.map(file => renderFile(file, 0, false))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,30 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'preact/hooks'
-import type { Drawing, DisciplineMap, StatusColor } from '@/types'
-import { StorageService } from '@/services'
+import type { Drawing, DrawingArea, DisciplineMap, StatusColor } from '@/types'
+import { StorageService, toDrawingRef, refersToDrawing, hasDrawingRef, noteMatches, getTagsInUse } from '@/services'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { SearchInput } from './SearchInput'
 import { StatusDot } from './StatusDot'
 import { ContextMenu } from './ContextMenu'
+import { RevisionTimeline } from './RevisionTimeline'
+import { FreshnessBadge } from './FreshnessBadge'
+import { NoteEditor } from './NoteEditor'
+import { NoteIndicator } from './NoteIndicator'
+import { TagEditor } from './TagEditor'
+import { TagFilterBar } from './TagFilterBar'
+import { TagChips } from './TagChips'
+import { StatusLegend } from './StatusLegend'
 import { RecentsSection } from './RecentsSection'
 import { FavoritesSection } from './FavoritesSection'
 import { focusTabBar } from './TabBar'
 import { useStatusColors } from '../hooks/useStatusColors'
+import { useStatusColorScheme } from '../hooks/useStatusColorScheme'
 import { useRecents } from '../hooks/useRecents'
 import { useFavorites } from '../hooks/useFavorites'
+import { usePinboard } from '../hooks/usePinboard'
+import { useNotes } from '../hooks/useNotes'
+import { useTags } from '../hooks/useTags'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
 import { 
   focusFirst, 
   navigateToNext,
@@ -18,7 +32,9 @@ import {
 } from '../hooks/useKeyboardNavigation'
 import { useDragAutoScroll } from '../hooks/useDragAutoScroll'
 import { getDisciplineColor } from '../utils/discipline'
-import { Folder, Check, ChevronRight, ChevronDown, Loader2 } from 'lucide-preact'
+import { getFreshness, formatAge } from '../utils/freshness'
+import { setDrawingDragData } from '../utils/drawing-drag'
+import { Folder, Check, ChevronRight, ChevronDown, Loader2, Pin } from 'lucide-preact'
 
 // Fuzzy match helper for discipline prefix search
 function fuzzyMatch(text: string, pattern: string): boolean {
@@ -52,6 +68,8 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
   const [expandedDisciplines, setExpandedDisciplines] = useState<Set<string>>(new Set())
   const [allExpanded, setAllExpanded] = useState(false)
   const [activeDisciplineFilter, setActiveDisciplineFilter] = useState<string | null>(null)
+  const [drawingAreas, setDrawingAreas] = useState<DrawingArea[]>([])
+  const [activeAreaId, setActiveAreaId] = useState<string | null>(null) // null = all areas
 
   // Ref to scrollable container for drag auto-scroll and keyboard navigation
   const scrollContainerRef = useRef<HTMLDivElement>(null)
@@ -75,9 +93,21 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
   }, [handleAutoScrollDragEnd])
 
   // Status colors and recents hooks
-  const { colors: statusColors, cycleColor } = useStatusColors(projectId)
+  const { getColor, getEntry, cycleColor } = useStatusColors(projectId)
+  const { getLabel } = useStatusColorScheme()
+  const [statusFilter, setStatusFilter] = useState<StatusColor | null>(null)
   const { recents, addRecent } = useRecents(projectId)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.drawings, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
   const { folders, addDrawingToFolder, getAllFavoriteDrawings } = useFavorites()
+  const { isPinned, togglePin } = usePinboard()
+  const { notes, getNote, saveNote } = useNotes(projectId)
+  const { data: tagData, tags, getTags, matchesTags, addTag, toggleTag } = useTags(projectId)
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([])
   
   // Debug logging
   useEffect(() => {
@@ -95,9 +125,10 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
         setIsLoading(true)
       }
       
-      const [cachedDrawings, cachedMap] = await Promise.all([
+      const [cachedDrawings, cachedMap, project] = await Promise.all([
         StorageService.getDrawings(projectId),
         StorageService.getDisciplineMap(projectId),
+        StorageService.getProject(projectId),
       ])
       
       console.log('DrawingsTab: Loaded', cachedDrawings.length, 'drawings,', Object.keys(cachedMap).length, 'disciplines in map')
@@ -115,11 +146,19 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
       
       setDrawings(cachedDrawings)
       setDisciplineMap(cachedMap)
+      setDrawingAreas(project?.drawingAreas ?? [])
       setIsLoading(false)
     }
     loadData()
   }, [projectId, dataVersion])
 
+  // Reset the area switcher, tag and status filters when switching projects
+  useEffect(() => {
+    setActiveAreaId(null)
+    setSelectedTagIds([])
+    setStatusFilter(null)
+  }, [projectId])
+
   // Listen for scan progress updates
   useEffect(() => {
     let refreshInterval: ReturnType<typeof setInterval> | null = null
@@ -235,11 +274,54 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
     }
   }, [projectId, isScanning])
 
+  const areaNames = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const area of drawingAreas) {
+      names.set(area.id, area.name || `Area ${area.id}`)
+    }
+    return names
+  }, [drawingAreas])
+
+  const hasMultipleAreas = drawingAreas.length > 1
+
+  // Soft-deleted drawings (missing from the last full scan) are hidden unless opted in
+  const visibleDrawings = useMemo(() => {
+    return drawings.filter(d => {
+      if (!showRemovedItems && d.removed_at !== undefined) return false
+      if (activeAreaId && d.drawing_area_id !== activeAreaId) return false
+      return true
+    })
+  }, [drawings, showRemovedItems, activeAreaId])
+
+  const tagsInUse = useMemo(() => getTagsInUse(tagData, 'drawing'), [tagData])
+
+  // Ignore selections for tags that were removed from every drawing
+  const activeTagIds = useMemo(
+    () => selectedTagIds.filter(id => tagsInUse.some(tag => tag.id === id)),
+    [selectedTagIds, tagsInUse]
+  )
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<StatusColor, number>> = {}
+    for (const drawing of visibleDrawings) {
+      const color = getColor(drawing)
+      if (color) counts[color] = (counts[color] ?? 0) + 1
+    }
+    return counts
+  }, [visibleDrawings, getColor])
+
+  // A filter on a color nothing carries anymore would hide everything
+  const activeStatusFilter = statusFilter && statusCounts[statusFilter] ? statusFilter : null
+
   const filteredDrawings = useMemo(() => {
     let query = searchQuery.trim().toLowerCase()
+    const tagged = visibleDrawings.filter(d =>
+      matchesTags('drawing', d.id, activeTagIds) &&
+      (!activeStatusFilter || getColor(d) === activeStatusFilter)
+    )
     
     // Empty search returns all
-    if (!query) return drawings
+    if (!query) return tagged
 
     let filterType: 'all' | 'favorites' | 'discipline' = 'all'
     let filterTerm = query
@@ -270,10 +352,10 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
       return d.discipline_name || 'General'
     }
 
-    return drawings.filter(d => {
+    return tagged.filter(d => {
       // Favorites filter: must be in favorites
       if (filterType === 'favorites') {
-        if (!favoritesSet.has(d.num)) return false
+        if (!hasDrawingRef(favoritesSet, d)) return false
         // If there's additional text after *, also match on it
         if (filterTerm) {
           return (
@@ -291,14 +373,15 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
         return fuzzyMatch(discName, filterTerm)
       }
 
-      // Standard search: match on num, title, or discipline name
+      // Standard search: match on num, title, discipline name or note
       return (
         d.num?.toLowerCase().includes(filterTerm) ||
         d.title?.toLowerCase().includes(filterTerm) ||
-        getDisciplineName(d).toLowerCase().includes(filterTerm)
+        getDisciplineName(d).toLowerCase().includes(filterTerm) ||
+        noteMatches(notes, 'drawing', d.id, filterTerm)
       )
     })
-  }, [drawings, searchQuery, disciplineMap, getAllFavoriteDrawings])
+  }, [visibleDrawings, searchQuery, disciplineMap, getAllFavoriteDrawings, notes, matchesTags, activeTagIds, activeStatusFilter, getColor])
 
   // Helper to check if a drawing matches the search query
   const drawingMatchesSearch = useCallback((drawing: Drawing) => {
@@ -307,9 +390,10 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
     return (
       drawing.num?.toLowerCase().includes(query) ||
       drawing.title?.toLowerCase().includes(query) ||
-      drawing.discipline_name?.toLowerCase().includes(query)
+      drawing.discipline_name?.toLowerCase().includes(query) ||
+      noteMatches(notes, 'drawing', drawing.id, query)
     )
-  }, [searchQuery])
+  }, [searchQuery, notes])
 
   // Group drawings by discipline - matches v1 logic
   const groupedDrawings = useMemo(() => {
@@ -376,7 +460,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
     try {
       // Add to recents first (optimistic update)
       if (drawing.num) {
-        await addRecent(drawing.num)
+        await addRecent(toDrawingRef(drawing))
       }
       
       const openInBackground = await StorageService.getPreferences<boolean>(
@@ -385,8 +469,9 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
       )
       
       const project = await StorageService.getProject(projectId)
-      if (project?.drawingAreaId) {
-        const url = `https://app.procore.com/${projectId}/project/drawing_areas/${project.drawingAreaId}/drawing_log/view_fullscreen/${drawing.id}`
+      const areaId = drawing.drawing_area_id ?? project?.drawingAreaId
+      if (areaId) {
+        const url = `https://app.procore.com/${projectId}/project/drawing_areas/${areaId}/drawing_log/view_fullscreen/${drawing.id}`
         chrome.runtime.sendMessage({ 
           action: 'OPEN_TAB', 
           url, 
@@ -498,8 +583,25 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
           </div>
         </div>
         
+        <TagFilterBar tags={tagsInUse} selectedIds={activeTagIds} onChange={setSelectedTagIds} />
+        <StatusLegend counts={statusCounts} selected={activeStatusFilter} onChange={setStatusFilter} />
+        
         {/* Toolbar */}
-        <div className="flex items-center justify-end">
+        <div className="flex items-center justify-end gap-2">
+          {hasMultipleAreas && (
+            <select
+              value={activeAreaId ?? ''}
+              onChange={(e) => setActiveAreaId((e.target as HTMLSelectElement).value || null)}
+              className="text-xs bg-transparent border border-gray-200 dark:border-gray-600 rounded px-1 py-0.5 text-gray-600 dark:text-gray-300"
+              title="Drawing area"
+            >
+              <option value="">All areas</option>
+              {drawingAreas.map(area => (
+                <option key={area.id} value={area.id}>{areaNames.get(area.id)}</option>
+              ))}
+            </select>
+          )}
+          <FreshnessBadge freshness={freshness} className="mr-auto" />
           <button
             onClick={toggleExpandAll}
             className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center gap-1"
@@ -521,7 +623,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
         </div>
       ) : filteredDrawings.length === 0 ? (
         <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
-          No drawings match "{searchQuery}"
+          {searchQuery.trim() ? `No drawings match "${searchQuery}"` : 'No drawings match the selected filters'}
         </div>
       ) : (
         <div 
@@ -546,7 +648,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
           {/* Favorites Section - Always show, even when empty */}
           <FavoritesSection
             folders={folders || []}
-            drawings={drawings}
+            drawings={visibleDrawings}
             projectId={projectId}
             onDrawingClick={handleDrawingClick}
             scrollContainerRef={scrollContainerRef}
@@ -556,7 +658,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
           {recents.length > 0 && (
             <RecentsSection
               recents={recents}
-              drawings={drawings}
+              drawings={visibleDrawings}
               projectId={projectId}
               onDrawingClick={handleDrawingClick}
               scrollContainerRef={scrollContainerRef}
@@ -565,7 +667,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
 
           {/* Discipline Groups */}
           {filteredGroupedDrawings.map(({ name, drawings: groupDrawings }) => {
-            const isExpanded = expandedDisciplines.has(name) || searchQuery.trim() !== ''
+            const isExpanded = expandedDisciplines.has(name) || searchQuery.trim() !== '' || activeTagIds.length > 0 || activeStatusFilter !== null
             const colorClass = getDisciplineColor(name)
             
             return (
@@ -642,8 +744,9 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
                 {isExpanded && (
                   <div className="bg-white dark:bg-gray-900">
                     {groupDrawings.map(drawing => {
-                      const statusColor: StatusColor | undefined = statusColors[drawing.num]
-                      const isFavorite = getAllFavoriteDrawings().has(drawing.num)
+                      const statusEntry = getEntry(drawing)
+                      const statusColor: StatusColor | undefined = statusEntry?.color
+                      const isFavorite = hasDrawingRef(getAllFavoriteDrawings(), drawing)
                       const rowColorClasses: Record<StatusColor, string> = {
                         green: 'bg-green-50 dark:bg-green-900/20 border-l-2 border-green-500',
                         red: 'bg-red-50 dark:bg-red-900/20 border-l-2 border-red-500',
@@ -654,6 +757,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
                       }
                       
                       const matchesSearch = drawingMatchesSearch(drawing)
+                      const isRemoved = drawing.removed_at !== undefined
                       
                       return (
                         <div
@@ -664,7 +768,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
                           onDragStart={(e) => {
                             e.stopPropagation()
                             if (e.dataTransfer) {
-                              e.dataTransfer.setData("text/plain", drawing.num)
+                              setDrawingDragData(e.dataTransfer, drawing)
                               e.dataTransfer.effectAllowed = "copy"
                             }
                           }}
@@ -708,19 +812,42 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
                           }}
                           className={`drawing-row px-3 py-2 pl-10 border-b border-gray-50 dark:border-gray-800 hover:bg-blue-50 dark:hover:bg-blue-900/30 cursor-pointer flex items-center gap-2 group ${
                             statusColor ? rowColorClasses[statusColor] : ''
-                          } ${searchQuery.trim() && !matchesSearch ? 'squeeze-out' : ''}`}
+                          } ${searchQuery.trim() && !matchesSearch ? 'squeeze-out' : ''} ${isRemoved ? 'opacity-50' : ''}`}
+                          title={isRemoved ? `Removed from Procore (not in scan on ${new Date(drawing.removed_at!).toLocaleDateString()})` : undefined}
                         >
                           <StatusDot
                             color={statusColor}
-                            onClick={() => cycleColor(drawing.num)}
+                            label={statusColor && getLabel(statusColor)}
+                            setAt={statusEntry?.setAt}
+                            onClick={() => cycleColor(drawing)}
                             className="mr-1"
                           />
                           <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium min-w-[70px] group-hover:text-blue-800 dark:group-hover:text-blue-300">
                             {drawing.num}
                           </span>
-                          <span className="text-sm text-gray-600 dark:text-gray-300 truncate flex-1 group-hover:text-gray-800 dark:group-hover:text-gray-100">
+                          <span className={`text-sm text-gray-600 dark:text-gray-300 truncate flex-1 group-hover:text-gray-800 dark:group-hover:text-gray-100 ${isRemoved ? 'line-through' : ''}`}>
                             {drawing.title}
                           </span>
+                          {isRemoved && (
+                            <span className="text-[10px] uppercase text-red-500 dark:text-red-400">Removed</span>
+                          )}
+                          {activeStatusFilter && statusEntry?.setAt && (
+                            <span className="text-[10px] text-gray-400 dark:text-gray-500 whitespace-nowrap" title={`Marked ${new Date(statusEntry.setAt).toLocaleString()}`}>
+                              {formatAge(statusEntry.setAt)}
+                            </span>
+                          )}
+                          {hasMultipleAreas && !activeAreaId && drawing.drawing_area_id && (
+                            <span className="text-[10px] text-gray-400 dark:text-gray-500 truncate max-w-[80px]" title="Drawing area">
+                              {areaNames.get(drawing.drawing_area_id) ?? `Area ${drawing.drawing_area_id}`}
+                            </span>
+                          )}
+                          <TagChips tags={getTags('drawing', drawing.id)} className="max-w-[35%]" />
+                          <NoteIndicator note={getNote('drawing', drawing.id)} />
+                          {drawing.revision && (
+                            <span className="text-xs text-gray-400 dark:text-gray-500 font-mono" title="Current revision">
+                              Rev {drawing.revision}
+                            </span>
+                          )}
                           {isFavorite && (
                             <span className="text-yellow-500 dark:text-yellow-400 text-xs" title="In favorites">
                               ★
@@ -737,7 +864,7 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
           
           {/* Footer stats */}
           <div className="px-3 py-2 text-xs text-gray-400 dark:text-gray-500 text-center bg-gray-50 dark:bg-gray-800">
-            {filteredDrawings.length} of {drawings.length} drawings
+            {filteredDrawings.length} of {visibleDrawings.length} drawings
           </div>
         </div>
       )}
@@ -749,6 +876,21 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
           y={contextMenu.y}
           onClose={() => setContextMenu(null)}
         >
+          <div className="py-1 border-b border-gray-200 dark:border-gray-700">
+            <button
+              onClick={async () => {
+                const { drawing } = contextMenu
+                await togglePin({ type: 'drawing', projectId, itemId: drawing.id, label: drawing.num, title: drawing.title })
+                setContextMenu(null)
+              }}
+              className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+            >
+              <Pin size={16} className="text-blue-500" />
+              <span>
+                {isPinned({ type: 'drawing', projectId, itemId: contextMenu.drawing.id }) ? 'Unpin from pinboard' : 'Pin to pinboard'}
+              </span>
+            </button>
+          </div>
           <div className="py-1">
             {folders.length === 0 ? (
               <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
@@ -759,20 +901,36 @@ export function DrawingsTab({ projectId, dataVersion = 0 }: DrawingsTabProps) {
                 <button
                   key={folder.id}
                   onClick={async () => {
-                    await addDrawingToFolder(folder.id, contextMenu.drawing.num)
+                    await addDrawingToFolder(folder.id, toDrawingRef(contextMenu.drawing))
                     setContextMenu(null)
                   }}
                   className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
                 >
                   <Folder size={16} className="text-yellow-500" />
                   <span>{folder.name}</span>
-                  {folder.drawings.includes(contextMenu.drawing.num) && (
+                  {folder.drawings.some(ref => refersToDrawing(ref, contextMenu.drawing)) && (
                     <Check size={14} className="ml-auto text-gray-400" />
                   )}
                 </button>
               ))
             )}
           </div>
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <TagEditor
+              tags={tags}
+              selectedIds={getTags('drawing', contextMenu.drawing.id).map(tag => tag.id)}
+              onToggle={(tagId) => toggleTag('drawing', contextMenu.drawing.id, tagId)}
+              onCreate={(name) => addTag('drawing', contextMenu.drawing.id, name)}
+            />
+          </div>
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <NoteEditor
+              note={getNote('drawing', contextMenu.drawing.id)}
+              onSave={(text) => saveNote('drawing', contextMenu.drawing.id, text)}
+              onDone={() => setContextMenu(null)}
+            />
+          </div>
+          <RevisionTimeline projectId={projectId} drawingId={contextMenu.drawing.id} />
         </ContextMenu>
       )}
     </div>
@@ -1,11 +1,12 @@
 import { useState, useCallback, useEffect } from 'preact/hooks'
-import type { Drawing, FavoriteFolder, StatusColor } from '@/types'
+import type { Drawing, DrawingRef, FavoriteFolder, StatusColor } from '@/types'
 import { StatusDot } from './StatusDot'
 import { FolderInput } from './FolderInput'
 import { useStatusColors } from '../hooks/useStatusColors'
 import { useFavorites } from '../hooks/useFavorites'
 import { navigateToNext, findParentHeader } from '../hooks/useKeyboardNavigation'
-import { StorageService } from '@/services'
+import { StorageService, toDrawingRef, findDrawingByRef } from '@/services'
+import { setDrawingDragData, getDrawingDragData } from '../utils/drawing-drag'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { Star, Folder, ChevronRight, Plus, X, GripVertical } from 'lucide-preact'
 
@@ -41,7 +42,7 @@ export function FavoritesSection({ folders, drawings, projectId, onDrawingClick,
   const [expandedFolders, setExpandedFolders] = useState<Set<number>>(new Set())
   const [dragOverFolderId, setDragOverFolderId] = useState<number | null>(null)
   const [showFolderInput, setShowFolderInput] = useState(false)
-  const { colors: statusColors, cycleColor } = useStatusColors(projectId)
+  const { getColor, cycleColor } = useStatusColors(projectId)
   const { addDrawingToFolder, removeDrawingFromFolder, removeFolder, addFolder, reorderFolders } = useFavorites()
 
   // Ensure folders is always an array (defensive check)
@@ -110,10 +111,10 @@ export function FavoritesSection({ folders, drawings, projectId, onDrawingClick,
     })
   }, [])
 
-  const handleRemoveFromFolder = useCallback(async (e: Event, folderId: number, drawingNum: string) => {
+  const handleRemoveFromFolder = useCallback(async (e: Event, folderId: number, drawing: DrawingRef) => {
     e.preventDefault()
     e.stopPropagation()
-    await removeDrawingFromFolder(folderId, drawingNum)
+    await removeDrawingFromFolder(folderId, drawing)
   }, [removeDrawingFromFolder])
 
   const handleRemoveFolder = useCallback(async (e: Event, folderId: number) => {
@@ -239,7 +240,7 @@ export function FavoritesSection({ folders, drawings, projectId, onDrawingClick,
                     drawings={drawings}
                     expandedFolders={expandedFolders}
                     dragOverFolderId={dragOverFolderId}
-                    statusColors={statusColors}
+                    getStatusColor={getColor}
                     scrollContainerRef={scrollContainerRef}
                     onToggleFolder={toggleFolder}
                     onRemoveFolder={handleRemoveFolder}
@@ -263,9 +264,9 @@ export function FavoritesSection({ folders, drawings, projectId, onDrawingClick,
                       e.preventDefault()
                       e.stopPropagation()
                       setDragOverFolderId(null)
-                      const drawingNum = e.dataTransfer?.getData("text/plain")
-                      if (drawingNum) {
-                        const success = await addDrawingToFolder(folder.id, drawingNum)
+                      const drawingRef = getDrawingDragData(e.dataTransfer)
+                      if (drawingRef) {
+                        const success = await addDrawingToFolder(folder.id, drawingRef)
                         if (success) {
                           setExpandedFolders(prev => {
                             const next = new Set(prev)
@@ -293,13 +294,13 @@ interface SortableFolderItemProps {
   drawings: Drawing[]
   expandedFolders: Set<number>
   dragOverFolderId: number | null
-  statusColors: Record<string, StatusColor>
+  getStatusColor: (drawing: Drawing) => StatusColor | undefined
   scrollContainerRef?: { current: HTMLElement | null }
   onToggleFolder: (folderId: number) => void
   onRemoveFolder: (e: Event, folderId: number) => void
-  onRemoveFromFolder: (e: Event, folderId: number, drawingNum: string) => void
+  onRemoveFromFolder: (e: Event, folderId: number, drawing: DrawingRef) => void
   onDrawingClick: (drawing: Drawing) => void
-  onCycleColor: (drawingNum: string) => void
+  onCycleColor: (drawing: Drawing) => void
   onDragOver: (e: DragEvent) => void
   onDragLeave: (e: DragEvent) => void
   onDragEnd: () => void
@@ -311,7 +312,7 @@ function SortableFolderItem({
   drawings,
   expandedFolders,
   dragOverFolderId,
-  statusColors,
+  getStatusColor,
   scrollContainerRef,
   onToggleFolder,
   onRemoveFolder,
@@ -345,7 +346,7 @@ function SortableFolderItem({
   }
 
   const folderDrawings = folder.drawings
-    .map(num => drawings.find(d => d.num === num))
+    .map(ref => findDrawingByRef(ref, drawings))
     .filter((d): d is Drawing => d !== undefined)
   const isFolderExpanded = expandedFolders.has(folder.id)
 
@@ -462,7 +463,7 @@ function SortableFolderItem({
             </div>
           ) : (
             folderDrawings.map(drawing => {
-              const statusColor: StatusColor | undefined = statusColors[drawing.num]
+              const statusColor: StatusColor | undefined = getStatusColor(drawing)
 
               return (
                 <div
@@ -473,7 +474,7 @@ function SortableFolderItem({
                   onDragStart={(e) => {
                     e.stopPropagation()
                     if (e.dataTransfer) {
-                      e.dataTransfer.setData("text/plain", drawing.num)
+                      setDrawingDragData(e.dataTransfer, drawing)
                       e.dataTransfer.effectAllowed = "copy"
                     }
                   }}
@@ -513,7 +514,7 @@ function SortableFolderItem({
                 >
                   <StatusDot
                     color={statusColor}
-                    onClick={() => onCycleColor(drawing.num)}
+                    onClick={() => onCycleColor(drawing)}
                     className="mr-1"
                   />
                   <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium min-w-[70px] group-hover:text-blue-800 dark:group-hover:text-blue-300">
@@ -523,7 +524,7 @@ function SortableFolderItem({
                     {drawing.title}
                   </span>
                   <button
-                    onClick={(e) => onRemoveFromFolder(e, folder.id, drawing.num)}
+                    onClick={(e) => onRemoveFromFolder(e, folder.id, toDrawingRef(drawing))}
                     className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 dark:hover:text-red-400 px-2"
                     title="Remove from folder"
                   >
@@ -0,0 +1,33 @@
+import type { Freshness, FreshnessState } from '../utils/freshness'
+import { Clock, AlertTriangle } from 'lucide-preact'
+
+interface FreshnessBadgeProps {
+  freshness: Freshness | null
+  className?: string
+}
+
+const STATE_CLASSES: Record<FreshnessState, string> = {
+  fresh: 'text-gray-400 dark:text-gray-500',
+  unknown: 'text-gray-400 dark:text-gray-500',
+  stale: 'text-amber-600 dark:text-amber-400',
+  error: 'text-red-500 dark:text-red-400',
+}
+
+/**
+ * Compact "Scanned 3h ago" label; hover for scan/capture details
+ */
+export function FreshnessBadge({ freshness, className = '' }: FreshnessBadgeProps) {
+  if (!freshness) return null
+
+  const Icon = freshness.state === 'stale' || freshness.state === 'error' ? AlertTriangle : Clock
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs whitespace-nowrap ${STATE_CLASSES[freshness.state]} ${className}`}
+      title={freshness.detail}
+    >
+      <Icon size={12} />
+      {freshness.label}
+    </span>
+  )
+}
@@ -1,12 +1,14 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'preact/hooks'
 import { Settings as SettingsPanel } from './Settings'
+import { Pinboard } from './Pinboard'
 import { useMascot } from '../contexts/MascotContext'
+import { usePinboard } from '../hooks/usePinboard'
 import { useQuickNav } from '../hooks/useQuickNav'
 import { useDragToScroll } from '../hooks/useDragToScroll'
 import { AVAILABLE_TOOLS } from '../utils/tools'
 import { StorageService } from '@/services'
 import { PREFERENCE_KEYS } from '@/types/preferences'
-import { Settings as SettingsIcon, ExternalLink } from 'lucide-preact'
+import { Settings as SettingsIcon, ExternalLink, Pin as PinIcon } from 'lucide-preact'
 import type { Project } from '@/types'
 
 interface HeaderProps {
@@ -19,6 +21,8 @@ interface HeaderProps {
 export function Header({ onPopOut, currentProjectId, projects = [], onProjectDeleted }: HeaderProps) {
   const [settingsOpen, setSettingsOpen] = useState(false)
   const settingsButtonRef = useRef<HTMLButtonElement>(null)
+  const [pinboardOpen, setPinboardOpen] = useState(false)
+  const pinboardButtonRef = useRef<HTMLButtonElement>(null)
   const toolbarRef = useRef<HTMLDivElement>(null)
   const [openInBackground, setOpenInBackground] = useState(false)
   const [focusedToolIndex, setFocusedToolIndex] = useState(0)
@@ -28,6 +32,9 @@ export function Header({ onPopOut, currentProjectId, projects = [], onProjectDel
   
   // Get Quick Nav state from hook
   const { showToolButtons, visibleTools, toggleMaster, toggleTool, reorderTools } = useQuickNav()
+
+  // Pinboard is global, so it's available even with no project selected
+  const { pins } = usePinboard()
   
   // Derive active project from props
   const activeProject = projects.find(p => p.id === currentProjectId)
@@ -227,9 +234,29 @@ export function Header({ onPopOut, currentProjectId, projects = [], onProjectDel
 
       {/* Right Side Actions */}
       <div className="flex items-center gap-1 shrink-0">
+        <button
+          ref={pinboardButtonRef}
+          onClick={() => {
+            setPinboardOpen(!pinboardOpen)
+            setSettingsOpen(false)
+          }}
+          className="relative p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          title="Pinboard"
+          aria-label="Pinboard"
+          aria-expanded={pinboardOpen}
+        >
+          <PinIcon size={20} />
+          {pins.length > 0 && (
+            <span className="absolute top-0.5 right-0.5 w-2 h-2 rounded-full bg-blue-500" />
+          )}
+        </button>
+
         <button
           ref={settingsButtonRef}
-          onClick={() => setSettingsOpen(!settingsOpen)}
+          onClick={() => {
+            setSettingsOpen(!settingsOpen)
+            setPinboardOpen(false)
+          }}
           className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
           title="Settings"
           aria-label="Settings"
@@ -248,6 +275,14 @@ export function Header({ onPopOut, currentProjectId, projects = [], onProjectDel
         </button>
       </div>
 
+      <Pinboard
+        isOpen={pinboardOpen}
+        onClose={() => setPinboardOpen(false)}
+        buttonRef={pinboardButtonRef}
+        currentProjectId={currentProjectId}
+        projects={projects}
+      />
+
       <SettingsPanel
         isOpen={settingsOpen}
         onClose={() => setSettingsOpen(false)}
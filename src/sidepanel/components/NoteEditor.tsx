@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef } from 'preact/hooks'
+import { StickyNote } from 'lucide-preact'
+import type { EntityNote } from '@/types'
+
+interface NoteEditorProps {
+  note?: EntityNote
+  onSave: (text: string) => Promise<void>
+  onDone: () => void
+  autoFocus?: boolean
+}
+
+/**
+ * Note editor section for a ContextMenu.
+ * Ctrl/Cmd+Enter saves; saving blank text deletes the note.
+ */
+export function NoteEditor({ note, onSave, onDone, autoFocus = false }: NoteEditorProps) {
+  const [text, setText] = useState(note?.text ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    if (autoFocus) textareaRef.current?.focus()
+  }, [autoFocus])
+
+  const handleSave = async (value: string) => {
+    setIsSaving(true)
+    try {
+      await onSave(value)
+      onDone()
+    } catch (error) {
+      console.error('Failed to save note:', error)
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="px-3 py-2 w-[260px]">
+      <div className="flex items-center gap-2 mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <StickyNote size={14} />
+        <span>Note</span>
+        {note && (
+          <span className="ml-auto font-normal text-gray-400 dark:text-gray-500">
+            {new Date(note.updatedAt).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onInput={(e) => setText((e.target as HTMLTextAreaElement).value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault()
+            handleSave(text)
+          }
+        }}
+        rows={3}
+        placeholder="e.g. Wrong ceiling height, see RFI 112"
+        className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+      />
+      <div className="flex items-center justify-end gap-2 mt-1">
+        {note && (
+          <button
+            onClick={() => handleSave('')}
+            disabled={isSaving}
+            className="px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded disabled:opacity-50"
+          >
+            Delete
+          </button>
+        )}
+        <button
+          onClick={() => handleSave(text)}
+          disabled={isSaving || text.trim() === (note?.text ?? '')}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
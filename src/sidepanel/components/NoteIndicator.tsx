@@ -0,0 +1,24 @@
+import { StickyNote } from 'lucide-preact'
+import type { EntityNote } from '@/types'
+
+interface NoteIndicatorProps {
+  note?: EntityNote
+  className?: string
+}
+
+/**
+ * Row marker for an entity with a note; hover to read it
+ */
+export function NoteIndicator({ note, className = '' }: NoteIndicatorProps) {
+  if (!note) return null
+
+  return (
+    <span
+      className={`inline-flex shrink-0 text-amber-500 dark:text-amber-400 ${className}`}
+      title={note.text}
+      aria-label={`Note: ${note.text}`}
+    >
+      <StickyNote size={14} />
+    </span>
+  )
+}
@@ -0,0 +1,36 @@
+import { usePinboard } from '../hooks/usePinboard'
+import { Pin } from 'lucide-preact'
+import type { Pin as PinData } from '@/types'
+
+interface PinButtonProps {
+  pin: Omit<PinData, 'id' | 'pinnedAt'>
+  className?: string
+}
+
+/**
+ * Row action that toggles an item on the global pinboard.
+ * Hidden until the row (a `group`) is hovered, unless already pinned.
+ */
+export function PinButton({ pin, className = '' }: PinButtonProps) {
+  const { isPinned, togglePin } = usePinboard()
+  const pinned = isPinned(pin)
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation()
+        togglePin(pin)
+      }}
+      className={`p-0.5 rounded transition-opacity ${
+        pinned
+          ? 'text-blue-500 dark:text-blue-400'
+          : 'text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 focus:opacity-100'
+      } ${className}`}
+      title={pinned ? 'Unpin from pinboard' : 'Pin to pinboard'}
+      aria-label={pinned ? `Unpin ${pin.label}` : `Pin ${pin.label}`}
+      aria-pressed={pinned}
+    >
+      <Pin size={14} className={pinned ? 'fill-current' : ''} />
+    </button>
+  )
+}
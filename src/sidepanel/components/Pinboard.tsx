@@ -0,0 +1,186 @@
+import { useRef, useEffect, useMemo, useCallback } from 'preact/hooks'
+import { StorageService, getProjectDisplayName } from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import { usePinboard } from '../hooks/usePinboard'
+import { PencilRuler, HelpCircle, ClipboardList, ListTodo, BadgeDollarSign, FileText, File as FileIcon, Pin as PinIcon, X } from 'lucide-preact'
+import type { Pin, PinType, Project } from '@/types'
+
+interface PinboardProps {
+  isOpen: boolean
+  onClose: () => void
+  buttonRef?: { current: HTMLElement | null }
+  currentProjectId?: string | null
+  projects?: Project[]
+}
+
+const PIN_ICONS: Record<PinType, typeof PencilRuler> = {
+  drawing: PencilRuler,
+  rfi: HelpCircle,
+  submittal: ClipboardList,
+  punch_item: ListTodo,
+  commitment: BadgeDollarSign,
+  specification: FileText,
+  document: FileIcon,
+}
+
+/**
+ * Global pinboard dropdown - pins from every project, grouped by project.
+ * Opening a pin doesn't switch the selected project.
+ */
+export function Pinboard({ isOpen, onClose, buttonRef, currentProjectId, projects = [] }: PinboardProps) {
+  const { pins, removePin } = usePinboard()
+  const dropdownRef = useRef<HTMLDivElement>(null)
+
+  // Current project first, then by project name
+  const groups = useMemo(() => {
+    const byProject = new Map<string, Pin[]>()
+    for (const pin of pins) {
+      byProject.set(pin.projectId, [...(byProject.get(pin.projectId) ?? []), pin])
+    }
+    const projectName = (projectId: string) =>
+      getProjectDisplayName(projects.find(p => p.id === projectId) ?? { id: projectId })
+
+    return Array.from(byProject.entries())
+      .map(([projectId, projectPins]) => ({ projectId, name: projectName(projectId), pins: projectPins }))
+      .sort((a, b) => {
+        if (a.projectId === currentProjectId) return -1
+        if (b.projectId === currentProjectId) return 1
+        return a.name.localeCompare(b.name)
+      })
+  }, [pins, projects, currentProjectId])
+
+  const handlePinClick = useCallback(async (pin: Pin) => {
+    try {
+      if (pin.type === 'drawing') {
+        // Background resolves the drawing area and records the recent
+        const response = await chrome.runtime.sendMessage({
+          action: 'OPEN_DRAWING',
+          projectId: pin.projectId,
+          drawingId: pin.itemId,
+          drawingNum: pin.label,
+        })
+        if (!response?.success) {
+          console.error('Failed to open drawing:', response?.error)
+        }
+        return
+      }
+
+      if (!pin.url) return
+      const openInBackground = await StorageService.getPreferences<boolean>(
+        PREFERENCE_KEYS.openInBackground,
+        false
+      )
+      chrome.runtime.sendMessage({
+        action: 'OPEN_TAB',
+        url: pin.url,
+        background: openInBackground,
+      })
+    } catch (error) {
+      console.error('Failed to open pin:', error)
+    }
+  }, [])
+
+  // Position dropdown relative to button
+  useEffect(() => {
+    if (!isOpen || !buttonRef?.current || !dropdownRef.current) return
+
+    const buttonRect = buttonRef.current.getBoundingClientRect()
+    const dropdown = dropdownRef.current
+
+    dropdown.style.top = `${buttonRect.bottom + 8}px`
+    dropdown.style.right = `${window.innerWidth - buttonRect.right}px`
+  }, [isOpen, buttonRef])
+
+  // Click outside to close
+  useEffect(() => {
+    if (!isOpen) return
+
+    function handleClickOutside(e: MouseEvent) {
+      const target = e.target as Node
+      if (
+        dropdownRef.current?.contains(target) ||
+        buttonRef?.current?.contains(target)
+      ) {
+        return
+      }
+      onClose()
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen, onClose, buttonRef])
+
+  // Escape key to close
+  useEffect(() => {
+    if (!isOpen) return
+
+    function handleEscape(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  return (
+    <div
+      ref={dropdownRef}
+      className="fixed z-50 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg w-[280px] max-h-[calc(100vh-60px)] overflow-y-auto"
+      role="menu"
+      aria-label="Pinboard"
+    >
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <PinIcon size={16} />
+        <span>Pinboard</span>
+        {pins.length > 0 && (
+          <span className="ml-auto text-xs text-gray-400 dark:text-gray-500">{pins.length}</span>
+        )}
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400 text-center">
+          No pins yet. Pin drawings, RFIs, submittals, punch items, specs or commitments from any project to keep them here.
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.projectId} className="py-1">
+            <div className="px-3 py-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500 truncate">
+              {group.name}
+            </div>
+            {group.pins.map(pin => {
+              const Icon = PIN_ICONS[pin.type]
+              return (
+                <div
+                  key={pin.id}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer group"
+                  onClick={() => handlePinClick(pin)}
+                  role="menuitem"
+                  title={pin.title ? `${pin.label} - ${pin.title}` : pin.label}
+                >
+                  <Icon size={14} className="shrink-0 text-gray-400 dark:text-gray-500" />
+                  <span className="font-mono text-blue-600 dark:text-blue-400 shrink-0">{pin.label}</span>
+                  <span className="truncate flex-1">{pin.title}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      removePin(pin.id)
+                    }}
+                    className="p-0.5 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                    title="Unpin"
+                    aria-label={`Unpin ${pin.label}`}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
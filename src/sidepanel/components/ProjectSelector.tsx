@@ -1,6 +1,10 @@
-import { useState } from 'preact/hooks'
+import { useState, useMemo } from 'preact/hooks'
 import type { Project } from '@/types'
-import { StorageService } from '@/services'
+import { StorageService, getProjectName, getProjectDisplayName } from '@/services'
+import { FreshnessBadge } from './FreshnessBadge'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { getProjectFreshness } from '../utils/freshness'
 import { Globe, Pencil, Trash2, Check, X, Loader2 } from 'lucide-preact'
 
 interface ProjectSelectorProps {
@@ -16,23 +20,29 @@ export function ProjectSelector({ projects, currentProjectId, onProjectChange, o
   const [editName, setEditName] = useState('')
   const [isSaving, setIsSaving] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const { staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(currentProjectId)
+  const freshness = useMemo(
+    () => getProjectFreshness(syncMetadata, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
 
   if (projects.length === 0) return null
 
   const activeProject = projects.find(p => p.id === currentProjectId)
 
   const handleStartEdit = () => {
-    setEditName(activeProject?.name || '')
+    setEditName(activeProject ? getProjectName(activeProject) ?? '' : '')
     setIsEditing(true)
   }
 
   const handleSave = async () => {
-    const trimmed = editName.trim()
-    if (!currentProjectId || !trimmed) return
+    if (!currentProjectId) return
 
+    // Clearing the name goes back to the one captured from Procore
     setIsSaving(true)
     try {
-      await StorageService.updateProjectAccess(currentProjectId, { name: trimmed })
+      await StorageService.renameProject(currentProjectId, editName)
       onProjectUpdated?.()
     } catch (error) {
       console.error('Failed to save project name:', error)
@@ -50,7 +60,7 @@ export function ProjectSelector({ projects, currentProjectId, onProjectChange, o
   const handleDelete = async () => {
     if (!currentProjectId || !onProjectDeleted) return
     
-    const displayName = activeProject?.name || `Project ${currentProjectId}`
+    const displayName = activeProject ? getProjectDisplayName(activeProject) : `Project ${currentProjectId}`
     if (!confirm(`Delete "${displayName}"? This will remove all cached drawings, RFIs, and settings.`)) {
       return
     }
@@ -80,6 +90,7 @@ export function ProjectSelector({ projects, currentProjectId, onProjectChange, o
       <div className="flex items-center gap-2">
         <Globe size={14} className="text-amber-600 dark:text-amber-400" />
         <span className="text-xs text-amber-700 dark:text-amber-300 font-medium">Offline Mode</span>
+        {currentProjectId && <FreshnessBadge freshness={freshness} className="ml-auto" />}
       </div>
       
       {isEditing ? (
@@ -89,13 +100,13 @@ export function ProjectSelector({ projects, currentProjectId, onProjectChange, o
             value={editName}
             onInput={(e) => setEditName((e.target as HTMLInputElement).value)}
             onKeyDown={handleKeyDown}
-            placeholder="Enter project name..."
+            placeholder={activeProject?.name ?? 'Enter project name...'}
             autoFocus
             className="flex-1 px-2 py-1.5 text-sm bg-white dark:bg-gray-700 border border-amber-300 dark:border-amber-700 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-amber-400 text-gray-900 dark:text-gray-100"
           />
           <button
             onClick={handleSave}
-            disabled={isSaving || !editName.trim()}
+            disabled={isSaving}
             className="px-2 py-1 text-sm bg-amber-500 hover:bg-amber-600 disabled:bg-amber-300 text-white rounded-md transition-colors"
             title="Save"
           >
@@ -120,7 +131,7 @@ export function ProjectSelector({ projects, currentProjectId, onProjectChange, o
             <option value="">Select a project...</option>
             {projects.map((project) => (
               <option key={project.id} value={project.id}>
-                {project.name ?? `Project ${project.id}`}
+                {getProjectDisplayName(project)}
               </option>
             ))}
           </select>
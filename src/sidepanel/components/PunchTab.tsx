@@ -0,0 +1,432 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { PunchItem } from '@/types'
+import { StorageService, getTagsInUse, getPunchItemUrl, isPunchItemOpen, formatPunchStatus, punchItemMatches } from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { PinButton } from './PinButton'
+import { ContextMenu } from './ContextMenu'
+import { NoteEditor } from './NoteEditor'
+import { NoteIndicator } from './NoteIndicator'
+import { TagEditor } from './TagEditor'
+import { TagFilterBar } from './TagFilterBar'
+import { TagChips } from './TagChips'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { useNotes } from '../hooks/useNotes'
+import { useTags } from '../hooks/useTags'
+import { getFreshness } from '../utils/freshness'
+import { Check, ChevronRight, Loader2, MapPin, User } from 'lucide-preact'
+
+interface PunchTabProps {
+  projectId: string
+  dataVersion?: number
+}
+
+type PunchGroupBy = 'location' | 'assignee'
+
+const NO_LOCATION = 'No location'
+const UNASSIGNED = 'Unassigned'
+
+const STATUS_COLORS: Record<string, string> = {
+  'open': 'badge-yellow',
+  'work_required': 'badge-red',
+  'ready_for_review': 'badge-blue',
+  'not_accepted': 'badge-red',
+  'draft': 'badge-gray',
+  'closed': 'badge-green',
+}
+
+function groupKeyOf(item: PunchItem, groupBy: PunchGroupBy): string {
+  return groupBy === 'location'
+    ? item.location || NO_LOCATION
+    : item.assignee || UNASSIGNED
+}
+
+export function PunchTab({ projectId, dataVersion = 0 }: PunchTabProps) {
+  const [punchItems, setPunchItems] = useState<PunchItem[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [groupBy, setGroupBy] = useState<PunchGroupBy>('location')
+  const [showClosed, setShowClosed] = useState(false)
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set())
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item: PunchItem } | null>(null)
+  const { getNote, saveNote } = useNotes(projectId)
+  const { data: tagData, tags, getTags, matchesTags, addTag, toggleTag } = useTags(projectId)
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([])
+  const tagsInUse = useMemo(() => getTagsInUse(tagData, 'punch_item'), [tagData])
+
+  // Ignore selections for tags that were removed from every item
+  const activeTagIds = useMemo(
+    () => selectedTagIds.filter(id => tagsInUse.some(tag => tag.id === id)),
+    [selectedTagIds, tagsInUse]
+  )
+
+  useEffect(() => {
+    setSelectedTagIds([])
+    setCollapsedGroups(new Set())
+  }, [projectId])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanStatus, setScanStatus] = useState<string | null>(null)
+  const [scanPercent, setScanPercent] = useState(0)
+  const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.punch_items, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
+
+  // Grouping is remembered across projects
+  useEffect(() => {
+    StorageService.getPreferences<PunchGroupBy>(PREFERENCE_KEYS.punchGroupBy, 'location').then(setGroupBy)
+  }, [])
+
+  const changeGroupBy = useCallback((next: PunchGroupBy) => {
+    setGroupBy(next)
+    setCollapsedGroups(new Set())
+    StorageService.savePreference(PREFERENCE_KEYS.punchGroupBy, next)
+  }, [])
+
+  useEffect(() => {
+    async function loadData() {
+      if (punchItems.length === 0) {
+        setIsLoading(true)
+      }
+
+      const cached = await StorageService.getPunchItems(projectId)
+
+      if (dataVersion > 0 && cached.length > punchItems.length) {
+        const newCount = cached.length - punchItems.length
+        setLastCaptureCount(newCount)
+        setTimeout(() => setLastCaptureCount(null), 3000)
+      }
+
+      setPunchItems(cached)
+      setIsLoading(false)
+    }
+    loadData()
+  }, [projectId, dataVersion])
+
+  // Listen for scan progress (SCAN_PUNCH_ITEMS runs headless in the background)
+  useEffect(() => {
+    const handleMessage = async (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'SCAN_PROGRESS') {
+        const payload = message.payload as { status: string; scanType: string; percent: number; message?: string }
+        if (payload.scanType === 'punch_items') {
+          setScanPercent(payload.percent)
+
+          if (payload.status === 'complete' || payload.status === 'timeout') {
+            setIsScanning(false)
+            setScanStatus(payload.message || 'Scan complete!')
+            setPunchItems(await StorageService.getPunchItems(projectId))
+            setTimeout(() => setScanStatus(null), 3000)
+          } else {
+            setIsScanning(true)
+            setScanStatus(payload.message || `Scanning... ${payload.percent}%`)
+          }
+        }
+      }
+
+      if (message.type === 'DATA_SAVED' && isScanning) {
+        const payload = message.payload as { type?: string }
+        if (payload.type === 'punch_items') {
+          setPunchItems(await StorageService.getPunchItems(projectId))
+        }
+      }
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [projectId, isScanning])
+
+  // Soft-deleted items (missing from the last full scan) are hidden unless opted in
+  const visibleItems = useMemo(
+    () => showRemovedItems ? punchItems : punchItems.filter(p => p.removed_at === undefined),
+    [punchItems, showRemovedItems]
+  )
+
+  const openCount = useMemo(() => visibleItems.filter(isPunchItemOpen).length, [visibleItems])
+
+  const filteredItems = useMemo(() => {
+    const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
+    return visibleItems.filter(p =>
+      (showClosed || isPunchItemOpen(p)) &&
+      matchesTags('punch_item', p.id, activeTagIds) &&
+      punchItemMatches(p, words, getNote('punch_item', p.id)?.text)
+    )
+  }, [visibleItems, showClosed, searchQuery, getNote, matchesTags, activeTagIds])
+
+  // Groups sorted by name with the catch-all group last; items by number
+  const groups = useMemo(() => {
+    const byKey = new Map<string, PunchItem[]>()
+    for (const item of filteredItems) {
+      const key = groupKeyOf(item, groupBy)
+      byKey.set(key, [...(byKey.get(key) ?? []), item])
+    }
+    const fallback = groupBy === 'location' ? NO_LOCATION : UNASSIGNED
+    return Array.from(byKey.entries())
+      .sort(([a], [b]) => {
+        if (a === fallback) return 1
+        if (b === fallback) return -1
+        return a.localeCompare(b, undefined, { numeric: true })
+      })
+      .map(([name, items]) => ({
+        name,
+        items: items.sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true })),
+      }))
+  }, [filteredItems, groupBy])
+
+  const isFiltering = searchQuery.trim() !== '' || activeTagIds.length > 0
+
+  const toggleGroup = useCallback((name: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev)
+      if (next.has(name)) {
+        next.delete(name)
+      } else {
+        next.add(name)
+      }
+      return next
+    })
+  }, [])
+
+  const handleItemClick = useCallback(async (item: PunchItem) => {
+    try {
+      const openInBackground = await StorageService.getPreferences<boolean>(
+        PREFERENCE_KEYS.openInBackground,
+        false
+      )
+      chrome.runtime.sendMessage({
+        action: 'OPEN_TAB',
+        url: getPunchItemUrl(projectId, item),
+        background: openInBackground
+      })
+    } catch (error) {
+      console.error('Failed to open punch item:', error)
+    }
+  }, [projectId])
+
+  const renderItem = useCallback((item: PunchItem) => {
+    const statusKey = item.status.toLowerCase().replace(/\s+/g, '_')
+    const statusClass = STATUS_COLORS[statusKey] || 'badge-gray'
+    const isRemoved = item.removed_at !== undefined
+    const isOverdue = !isRemoved && isPunchItemOpen(item) && !!item.due_date &&
+      item.due_date.slice(0, 10) < new Date().toISOString().slice(0, 10)
+    // The other grouping's field, since the group header already shows this one
+    const secondary = groupBy === 'location' ? item.assignee : item.location
+
+    return (
+      <div
+        onClick={() => handleItemClick(item)}
+        onContextMenu={(e) => {
+          e.preventDefault()
+          setContextMenu({ x: e.clientX, y: e.clientY, item })
+        }}
+        className={`list-item group ${isRemoved ? 'opacity-50' : ''}`}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <span className="flex items-center gap-1">
+            <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
+              #{item.number}
+            </span>
+            <PinButton pin={{
+              type: 'punch_item',
+              projectId,
+              itemId: item.id,
+              label: `Punch #${item.number}`,
+              title: item.title,
+              url: getPunchItemUrl(projectId, item),
+            }} />
+            <NoteIndicator note={getNote('punch_item', item.id)} />
+          </span>
+          {isRemoved ? (
+            <span
+              className="badge badge-red"
+              title={`Not in scan on ${new Date(item.removed_at!).toLocaleDateString()}`}
+            >
+              Removed
+            </span>
+          ) : (
+            <span className={`badge ${statusClass}`}>
+              {formatPunchStatus(item.status)}
+            </span>
+          )}
+        </div>
+        <div className={`text-sm text-gray-700 dark:text-gray-300 truncate ${isRemoved ? 'line-through' : ''}`}>
+          {item.title}
+        </div>
+        {(secondary || item.due_date) && (
+          <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            <span className="truncate" title={item.ball_in_court ? `Ball in court: ${item.ball_in_court}` : undefined}>
+              {secondary}
+            </span>
+            {item.due_date && (
+              <span className={`shrink-0 ${isOverdue ? 'text-red-600 dark:text-red-400 font-medium' : ''}`}>
+                {isOverdue ? 'Overdue' : 'Due'} {new Date(item.due_date).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+        )}
+        <TagChips tags={getTags('punch_item', item.id)} className="mt-1 max-w-full" />
+      </div>
+    )
+  }, [handleItemClick, projectId, groupBy, getNote, getTags])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="animate-spin h-6 w-6 text-blue-600" />
+      </div>
+    )
+  }
+
+  const GroupIcon = groupBy === 'location' ? MapPin : User
+
+  return (
+    <div className="flex flex-col h-full">
+      {lastCaptureCount !== null && (
+        <div className="px-3 py-2 bg-green-50 dark:bg-green-900/30 border-b border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
+          <Check size={16} className="text-green-500 dark:text-green-400" />
+          <span>Captured {lastCaptureCount} new punch item{lastCaptureCount !== 1 ? 's' : ''}</span>
+        </div>
+      )}
+
+      {scanStatus && (
+        <div className={`px-3 py-2 border-b text-sm ${
+          scanStatus.toLowerCase().includes('failed')
+            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+            : 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400'
+        }`}>
+          <div className="flex items-center gap-2 mb-1">
+            {isScanning && <Loader2 size={12} className="animate-spin" />}
+            <span>{scanStatus}</span>
+          </div>
+          {isScanning && (
+            <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5">
+              <div
+                className="bg-blue-600 dark:bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                style={{ width: `${scanPercent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1">
+            <SearchInput
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Search punch items, e.g. level 2..."
+            />
+          </div>
+        </div>
+
+        <TagFilterBar tags={tagsInUse} selectedIds={activeTagIds} onChange={setSelectedTagIds} />
+
+        <div className="flex items-center gap-1 mb-2 text-xs">
+          <span className="text-gray-500 dark:text-gray-400 mr-1">Group by</span>
+          {(['location', 'assignee'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => changeGroupBy(option)}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${
+                groupBy === option
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              aria-pressed={groupBy === option}
+            >
+              {option === 'location' ? 'Location' : 'Assignee'}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-1 text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed((e.target as HTMLInputElement).checked)}
+              className="w-3.5 h-3.5 text-blue-600 rounded"
+            />
+            Show closed
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{filteredItems.length} shown · {openCount} open</span>
+          <FreshnessBadge freshness={freshness} />
+        </div>
+      </div>
+
+      {punchItems.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          <p className="mb-2">No punch items cached</p>
+          <p className="text-sm text-center px-4">
+            Open the Punch List in Procore,<br />
+            or use Settings to scan all punch items.
+          </p>
+        </div>
+      ) : filteredItems.length === 0 ? (
+        <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          {showClosed ? 'No punch items match your filters' : 'No open punch items match your filters'}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {groups.map(({ name, items }) => {
+            // Searching expands every group so matches are never hidden
+            const isExpanded = isFiltering || !collapsedGroups.has(name)
+            return (
+              <div key={name} className="border-b border-gray-100 dark:border-gray-700">
+                <button
+                  onClick={() => toggleGroup(name)}
+                  className="sticky top-0 z-10 w-full px-3 py-2 flex items-center gap-2 bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-left"
+                  aria-expanded={isExpanded}
+                >
+                  <ChevronRight
+                    size={16}
+                    className={`transition-transform text-gray-400 dark:text-gray-500 ${isExpanded ? 'rotate-90' : ''}`}
+                  />
+                  <GroupIcon size={14} className="text-gray-400 dark:text-gray-500 shrink-0" />
+                  <span className="font-medium text-sm text-gray-700 dark:text-gray-300 flex-1 truncate" title={name}>
+                    {name}
+                  </span>
+                  <span className="text-xs text-gray-400 dark:text-gray-500 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded-full">
+                    {items.length}
+                  </span>
+                </button>
+                {isExpanded && items.map(item => (
+                  <div key={item.id}>
+                    {renderItem(item)}
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          onClose={() => setContextMenu(null)}
+        >
+          <TagEditor
+            tags={tags}
+            selectedIds={getTags('punch_item', contextMenu.item.id).map(tag => tag.id)}
+            onToggle={(tagId) => toggleTag('punch_item', contextMenu.item.id, tagId)}
+            onCreate={(name) => addTag('punch_item', contextMenu.item.id, name)}
+          />
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <NoteEditor
+              note={getNote('punch_item', contextMenu.item.id)}
+              onSave={(text) => saveNote('punch_item', contextMenu.item.id, text)}
+              onDone={() => setContextMenu(null)}
+            />
+          </div>
+        </ContextMenu>
+      )}
+    </div>
+  )
+}
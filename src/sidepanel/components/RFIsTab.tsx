@@ -1,8 +1,22 @@
 import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
 import type { RFI } from '@/types'
-import { StorageService } from '@/services'
+import { StorageService, getTagsInUse } from '@/services'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { PinButton } from './PinButton'
+import { ContextMenu } from './ContextMenu'
+import { NoteEditor } from './NoteEditor'
+import { NoteIndicator } from './NoteIndicator'
+import { TagEditor } from './TagEditor'
+import { TagFilterBar } from './TagFilterBar'
+import { TagChips } from './TagChips'
+import { ContactNames } from './ContactNames'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { useNotes } from '../hooks/useNotes'
+import { useTags } from '../hooks/useTags'
+import { getFreshness } from '../utils/freshness'
 import { Check, Loader2 } from 'lucide-preact'
 
 interface RFIsTabProps {
@@ -17,14 +31,39 @@ const STATUS_COLORS: Record<string, string> = {
   'void': 'badge-red',
 }
 
+function getRFIUrl(projectId: string, rfi: RFI): string {
+  return `https://app.procore.com/${projectId}/project/rfi/show/${rfi.id}`
+}
+
 export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
   const [rfis, setRFIs] = useState<RFI[]>([])
   const [searchQuery, setSearchQuery] = useState('')
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; rfi: RFI } | null>(null)
+  const { getNote, saveNote } = useNotes(projectId)
+  const { data: tagData, tags, getTags, matchesTags, addTag, toggleTag } = useTags(projectId)
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([])
+  const tagsInUse = useMemo(() => getTagsInUse(tagData, 'rfi'), [tagData])
+
+  // Ignore selections for tags that were removed from every item
+  const activeTagIds = useMemo(
+    () => selectedTagIds.filter(id => tagsInUse.some(tag => tag.id === id)),
+    [selectedTagIds, tagsInUse]
+  )
+
+  useEffect(() => {
+    setSelectedTagIds([])
+  }, [projectId])
   const [isLoading, setIsLoading] = useState(true)
   const [isScanning, setIsScanning] = useState(false)
   const [scanStatus, setScanStatus] = useState<string | null>(null)
   const [scanPercent, setScanPercent] = useState(0)
   const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.rfis, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
 
   useEffect(() => {
     async function loadData() {
@@ -77,16 +116,22 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
     return () => chrome.runtime.onMessage.removeListener(handleMessage)
   }, [projectId, isScanning])
 
+  // Soft-deleted RFIs (missing from the last full scan) are hidden unless opted in
+  const visibleRFIs = useMemo(() => {
+    return showRemovedItems ? rfis : rfis.filter(r => r.removed_at === undefined)
+  }, [rfis, showRemovedItems])
+
   const filteredRFIs = useMemo(() => {
-    if (!searchQuery.trim()) return rfis
+    const tagged = visibleRFIs.filter(r => matchesTags('rfi', r.id, activeTagIds))
+    if (!searchQuery.trim()) return tagged
     
     // Split query into words - all must match
     const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
     
-    return rfis.filter(r => {
+    return tagged.filter(r => {
       const number = String(r.number ?? '').toLowerCase()
       // Combine text fields for substring matching
-      const textFields = [r.subject, r.status, r.assignee]
+      const textFields = [r.subject, r.status, r.assignee, r.ball_in_court, getNote('rfi', r.id)?.text]
         .filter(Boolean)
         .join(' ')
         .toLowerCase()
@@ -96,7 +141,7 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
         number.startsWith(word) || textFields.includes(word)
       )
     })
-  }, [rfis, searchQuery])
+  }, [visibleRFIs, searchQuery, getNote, matchesTags, activeTagIds])
 
 
   const handleRFIClick = useCallback(async (rfi: RFI) => {
@@ -105,7 +150,7 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
         PREFERENCE_KEYS.openInBackground,
         false
       )
-      const url = `https://app.procore.com/${projectId}/project/rfi/show/${rfi.id}`
+      const url = getRFIUrl(projectId, rfi)
       chrome.runtime.sendMessage({ 
         action: 'OPEN_TAB', 
         url, 
@@ -118,28 +163,62 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
 
   const renderItem = useCallback((rfi: RFI) => {
     const statusClass = STATUS_COLORS[rfi.status?.toLowerCase()] || 'badge-gray'
+    const isRemoved = rfi.removed_at !== undefined
     
     return (
-      <div onClick={() => handleRFIClick(rfi)} className="list-item">
+      <div
+        onClick={() => handleRFIClick(rfi)}
+        onContextMenu={(e) => {
+          e.preventDefault()
+          setContextMenu({ x: e.clientX, y: e.clientY, rfi })
+        }}
+        className={`list-item group ${isRemoved ? 'opacity-50' : ''}`}
+      >
         <div className="flex items-center justify-between mb-1">
-          <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
-            RFI #{rfi.number}
-          </span>
-          <span className={`badge ${statusClass}`}>
-            {rfi.status}
+          <span className="flex items-center gap-1">
+            <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
+              RFI #{rfi.number}
+            </span>
+            <PinButton pin={{
+              type: 'rfi',
+              projectId,
+              itemId: rfi.id,
+              label: `RFI #${rfi.number}`,
+              title: rfi.subject,
+              url: getRFIUrl(projectId, rfi),
+            }} />
+            <NoteIndicator note={getNote('rfi', rfi.id)} />
           </span>
+          {isRemoved ? (
+            <span
+              className="badge badge-red"
+              title={`Not in scan on ${new Date(rfi.removed_at!).toLocaleDateString()}`}
+            >
+              Removed
+            </span>
+          ) : (
+            <span className={`badge ${statusClass}`}>
+              {rfi.status}
+            </span>
+          )}
         </div>
-        <div className="text-sm text-gray-700 dark:text-gray-300 truncate">
+        <div className={`text-sm text-gray-700 dark:text-gray-300 truncate ${isRemoved ? 'line-through' : ''}`}>
           {rfi.subject}
         </div>
         {rfi.assignee && (
           <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
-            Assigned to: {rfi.assignee}
+            Assigned to: <ContactNames projectId={projectId} value={rfi.assignee} />
           </div>
         )}
+        {rfi.ball_in_court && rfi.ball_in_court !== rfi.assignee && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            Ball in court: <ContactNames projectId={projectId} value={rfi.ball_in_court} />
+          </div>
+        )}
+        <TagChips tags={getTags('rfi', rfi.id)} className="mt-1 max-w-full" />
       </div>
     )
-  }, [handleRFIClick])
+  }, [handleRFIClick, projectId, getNote, getTags])
 
   if (isLoading) {
     return (
@@ -191,9 +270,12 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
           </div>
         </div>
         
+        <TagFilterBar tags={tagsInUse} selectedIds={activeTagIds} onChange={setSelectedTagIds} />
+        
         <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
-          <span>{filteredRFIs.length} of {rfis.length} RFIs</span>
-          <span>{rfis.filter(r => r.status?.toLowerCase() === 'open').length} open</span>
+          <span>{filteredRFIs.length} of {visibleRFIs.length} RFIs</span>
+          <FreshnessBadge freshness={freshness} />
+          <span>{visibleRFIs.filter(r => r.status?.toLowerCase() === 'open').length} open</span>
         </div>
       </div>
 
@@ -207,7 +289,7 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
         </div>
       ) : filteredRFIs.length === 0 ? (
         <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
-          No RFIs match your search
+          No RFIs match your filters
         </div>
       ) : (
         <div className="flex-1 overflow-y-auto">
@@ -218,6 +300,28 @@ export function RFIsTab({ projectId, dataVersion = 0 }: RFIsTabProps) {
           ))}
         </div>
       )}
+
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          onClose={() => setContextMenu(null)}
+        >
+          <TagEditor
+            tags={tags}
+            selectedIds={getTags('rfi', contextMenu.rfi.id).map(tag => tag.id)}
+            onToggle={(tagId) => toggleTag('rfi', contextMenu.rfi.id, tagId)}
+            onCreate={(name) => addTag('rfi', contextMenu.rfi.id, name)}
+          />
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <NoteEditor
+              note={getNote('rfi', contextMenu.rfi.id)}
+              onSave={(text) => saveNote('rfi', contextMenu.rfi.id, text)}
+              onDone={() => setContextMenu(null)}
+            />
+          </div>
+        </ContextMenu>
+      )}
     </div>
   )
 }
@@ -1,14 +1,15 @@
 import { useState, useEffect } from 'preact/hooks'
-import type { Drawing, StatusColor } from '@/types'
+import type { Drawing, StatusColor, RecentsList } from '@/types'
 import { StatusDot } from './StatusDot'
 import { useStatusColors } from '../hooks/useStatusColors'
 import { navigateToNext, findParentHeader } from '../hooks/useKeyboardNavigation'
-import { StorageService } from '@/services'
+import { StorageService, findDrawingByRef } from '@/services'
+import { setDrawingDragData } from '../utils/drawing-drag'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { Clock, ChevronRight } from 'lucide-preact'
 
 interface RecentsSectionProps {
-  recents: string[]
+  recents: RecentsList
   drawings: Drawing[]
   projectId: string
   onDrawingClick: (drawing: Drawing) => void
@@ -17,7 +18,7 @@ interface RecentsSectionProps {
 
 export function RecentsSection({ recents, drawings, projectId, onDrawingClick, scrollContainerRef }: RecentsSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false)
-  const { colors: statusColors, cycleColor } = useStatusColors(projectId)
+  const { getColor, cycleColor } = useStatusColors(projectId)
 
   // Load persisted expanded state
   useEffect(() => {
@@ -36,9 +37,9 @@ export function RecentsSection({ recents, drawings, projectId, onDrawingClick, s
     StorageService.savePreference(PREFERENCE_KEYS.recentsExpanded, isExpanded)
   }, [isExpanded])
 
-  // Get drawing objects for recent numbers
+  // Get drawing objects for recent references
   const recentDrawings = recents
-    .map(num => drawings.find(d => d.num === num))
+    .map(ref => findDrawingByRef(ref, drawings))
     .filter((d): d is Drawing => d !== undefined)
 
   // Hide section if no recents (like v1)
@@ -104,7 +105,7 @@ export function RecentsSection({ recents, drawings, projectId, onDrawingClick, s
       {isExpanded && (
         <div className="bg-white dark:bg-gray-900">
           {recentDrawings.map(drawing => {
-            const statusColor: StatusColor | undefined = statusColors[drawing.num]
+            const statusColor: StatusColor | undefined = getColor(drawing)
             const rowColorClasses: Record<StatusColor, string> = {
               green: 'bg-green-50 dark:bg-green-900/20 border-l-2 border-green-500',
               red: 'bg-red-50 dark:bg-red-900/20 border-l-2 border-red-500',
@@ -123,7 +124,7 @@ export function RecentsSection({ recents, drawings, projectId, onDrawingClick, s
                 onDragStart={(e) => {
                   e.stopPropagation()
                   if (e.dataTransfer) {
-                    e.dataTransfer.setData("text/plain", drawing.num)
+                    setDrawingDragData(e.dataTransfer, drawing)
                     e.dataTransfer.effectAllowed = "copy"
                   }
                 }}
@@ -163,7 +164,7 @@ export function RecentsSection({ recents, drawings, projectId, onDrawingClick, s
               >
                 <StatusDot
                   color={statusColor}
-                  onClick={() => cycleColor(drawing.num)}
+                  onClick={() => cycleColor(drawing)}
                   className="mr-1"
                 />
                 <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium min-w-[70px] group-hover:text-blue-800 dark:group-hover:text-blue-300">
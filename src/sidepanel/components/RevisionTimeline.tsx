@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'preact/hooks'
+import type { DrawingRevision } from '@/types'
+import { StorageService } from '@/services'
+import { History, RefreshCw } from 'lucide-preact'
+
+interface RevisionTimelineProps {
+  projectId: string
+  drawingId: number
+}
+
+function formatDate(value?: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return value
+  return date.toLocaleDateString()
+}
+
+/**
+ * Revision history for a single drawing.
+ * Shows cached revisions immediately; refresh pulls the full history from the API.
+ */
+export function RevisionTimeline({ projectId, drawingId }: RevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<DrawingRevision[]>([])
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRevisions = useCallback(async () => {
+    const cached = await StorageService.getRevisionsForDrawing(projectId, drawingId)
+    setRevisions(cached)
+  }, [projectId, drawingId])
+
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions])
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    setError(null)
+    try {
+      const result = await chrome.runtime.sendMessage({
+        action: 'SCAN_DRAWING_REVISIONS',
+        projectId,
+        drawingId,
+      })
+      if (result && !result.success) {
+        setError(result.error || 'Failed to load revisions')
+      }
+      await loadRevisions()
+    } catch (err) {
+      console.error('RevisionTimeline: Refresh failed:', err)
+      setError('Failed to load revisions')
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  // Caches from before merges cleared superseded revisions can hold several; the newest wins
+  const currentId = revisions.find(r => r.current)?.id
+
+  return (
+    <div className="border-t border-gray-100 dark:border-gray-700 mt-1 pt-1">
+      <div className="px-3 py-1 flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <History size={14} />
+        <span>Revisions</span>
+        <button
+          onClick={handleRefresh}
+          disabled={isRefreshing}
+          className="ml-auto p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Load full revision history"
+        >
+          <RefreshCw size={12} className={isRefreshing ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-3 py-1 text-xs text-red-500 dark:text-red-400">{error}</div>
+      )}
+
+      {revisions.length === 0 ? (
+        <div className="px-3 py-2 text-xs text-gray-400 dark:text-gray-500">
+          No revisions cached yet.
+        </div>
+      ) : (
+        <ol className="max-h-48 overflow-y-auto px-3 pb-1">
+          {revisions.map(revision => {
+            const isCurrent = revision.id === currentId
+            const date = formatDate(revision.drawing_date || revision.received_date || revision.issued_date)
+            return (
+              <li
+                key={revision.id}
+                className="relative pl-4 py-1 border-l border-gray-200 dark:border-gray-600"
+              >
+                <span
+                  className={`absolute -left-[4px] top-2 w-2 h-2 rounded-full ${
+                    isCurrent ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-500'
+                  }`}
+                />
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-mono text-gray-800 dark:text-gray-200">Rev {revision.revision_number}</span>
+                  {isCurrent && (
+                    <span className="text-[10px] uppercase text-blue-600 dark:text-blue-400">Current</span>
+                  )}
+                  {date && (
+                    <span className="ml-auto text-xs text-gray-400 dark:text-gray-500">{date}</span>
+                  )}
+                </div>
+                {(revision.set_name || revision.received_from) && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {[revision.set_name, revision.received_from].filter(Boolean).join(' · ')}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
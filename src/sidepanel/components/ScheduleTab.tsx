@@ -0,0 +1,301 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { ScheduleTask } from '@/types'
+import {
+  StorageService,
+  LOOKAHEAD_WEEKS,
+  toDateKey,
+  buildScheduleIndex,
+  getScheduleTaskPath,
+  isScheduleTaskLate,
+  getLookahead,
+  getWeekStartKey,
+  scheduleTaskMatches,
+} from '@/services'
+import type { LookaheadWeeks } from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { getFreshness } from '../utils/freshness'
+import { Check, Loader2 } from 'lucide-preact'
+
+interface ScheduleTabProps {
+  projectId: string
+  dataVersion?: number
+}
+
+function formatDay(value: string | undefined): string {
+  if (!value) return '?'
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+export function ScheduleTab({ projectId, dataVersion = 0 }: ScheduleTabProps) {
+  const [tasks, setTasks] = useState<ScheduleTask[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [weeks, setWeeks] = useState<LookaheadWeeks>(3)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanStatus, setScanStatus] = useState<string | null>(null)
+  const [scanPercent, setScanPercent] = useState(0)
+  const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.schedule_tasks, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
+
+  // The lookahead window is remembered across projects
+  useEffect(() => {
+    StorageService.getPreferences<LookaheadWeeks>(PREFERENCE_KEYS.scheduleLookaheadWeeks, 3).then(setWeeks)
+  }, [])
+
+  const changeWeeks = useCallback((next: LookaheadWeeks) => {
+    setWeeks(next)
+    StorageService.savePreference(PREFERENCE_KEYS.scheduleLookaheadWeeks, next)
+  }, [])
+
+  useEffect(() => {
+    setSearchQuery('')
+  }, [projectId])
+
+  useEffect(() => {
+    async function loadData() {
+      if (tasks.length === 0) {
+        setIsLoading(true)
+      }
+
+      const cached = await StorageService.getScheduleTasks(projectId)
+
+      if (dataVersion > 0 && cached.length > tasks.length) {
+        const newCount = cached.length - tasks.length
+        setLastCaptureCount(newCount)
+        setTimeout(() => setLastCaptureCount(null), 3000)
+      }
+
+      setTasks(cached)
+      setIsLoading(false)
+    }
+    loadData()
+  }, [projectId, dataVersion])
+
+  // Listen for scan progress (SCAN_SCHEDULE_TASKS runs headless in the background)
+  useEffect(() => {
+    const handleMessage = async (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'SCAN_PROGRESS') {
+        const payload = message.payload as { status: string; scanType: string; percent: number; message?: string }
+        if (payload.scanType === 'schedule_tasks') {
+          setScanPercent(payload.percent)
+
+          if (payload.status === 'complete' || payload.status === 'timeout') {
+            setIsScanning(false)
+            setScanStatus(payload.message || 'Scan complete!')
+            setTasks(await StorageService.getScheduleTasks(projectId))
+            setTimeout(() => setScanStatus(null), 3000)
+          } else {
+            setIsScanning(true)
+            setScanStatus(payload.message || `Scanning... ${payload.percent}%`)
+          }
+        }
+      }
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [projectId])
+
+  // Soft-deleted tasks (missing from the last full scan) are hidden unless opted in
+  const visibleTasks = useMemo(
+    () => showRemovedItems ? tasks : tasks.filter(t => t.removed_at === undefined),
+    [tasks, showRemovedItems]
+  )
+
+  const index = useMemo(() => buildScheduleIndex(visibleTasks), [visibleTasks])
+
+  // Recomputed with the data, so a panel left open overnight catches up on the next capture
+  const today = useMemo(() => new Date(), [visibleTasks])
+  const todayKey = toDateKey(today)
+
+  const lookahead = useMemo(() => {
+    const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
+    const { inProgress, upcoming } = getLookahead(index, visibleTasks, today, weeks)
+    const matches = (task: ScheduleTask) => scheduleTaskMatches(task, words, getScheduleTaskPath(index, task))
+    return { inProgress: inProgress.filter(matches), upcoming: upcoming.filter(matches) }
+  }, [index, visibleTasks, today, weeks, searchQuery])
+
+  // Upcoming tasks grouped by the week they start in
+  const upcomingWeeks = useMemo(() => {
+    const byWeek = new Map<string, ScheduleTask[]>()
+    for (const task of lookahead.upcoming) {
+      const key = getWeekStartKey(task) ?? ''
+      byWeek.set(key, [...(byWeek.get(key) ?? []), task])
+    }
+    return Array.from(byWeek.entries())
+  }, [lookahead.upcoming])
+
+  const renderTask = (task: ScheduleTask) => {
+    const path = getScheduleTaskPath(index, task)
+    const isRemoved = task.removed_at !== undefined
+    const isLate = !isRemoved && isScheduleTaskLate(task, todayKey)
+    const percent = task.percent_complete
+
+    return (
+      <div key={task.id} className={`px-3 py-2 border-b border-gray-100 dark:border-gray-700 ${isRemoved ? 'opacity-50' : ''}`}>
+        <div className="flex items-center justify-between gap-2">
+          <span className={`text-sm text-gray-800 dark:text-gray-200 truncate ${isRemoved ? 'line-through' : ''}`} title={task.name}>
+            {task.name}
+          </span>
+          {isRemoved ? (
+            <span
+              className="badge badge-red"
+              title={`Not in scan on ${new Date(task.removed_at!).toLocaleDateString()}`}
+            >
+              Removed
+            </span>
+          ) : isLate && (
+            <span className="badge badge-red" title="Past its finish date and not complete">Late</span>
+          )}
+        </div>
+        {path && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={path}>{path}</div>
+        )}
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+          <span className="shrink-0">{formatDay(task.start)} – {formatDay(task.finish)}</span>
+          {task.resource && (
+            <span className="truncate" title={task.resource}>{task.resource}</span>
+          )}
+        </div>
+        {percent !== undefined && (
+          <div className="flex items-center gap-2 mt-1">
+            <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-1">
+              <div
+                className="bg-blue-600 dark:bg-blue-400 h-1 rounded-full"
+                style={{ width: `${Math.min(100, Math.max(0, percent))}%` }}
+              />
+            </div>
+            <span className="text-xs text-gray-400 dark:text-gray-500 w-8 text-right">{Math.round(percent)}%</span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const renderSectionHeader = (label: string, count: number) => (
+    <div className="sticky top-0 z-10 px-3 py-2 flex items-center gap-2 bg-gray-50 dark:bg-gray-800 border-b border-gray-100 dark:border-gray-700">
+      <span className="font-medium text-sm text-gray-700 dark:text-gray-300 flex-1">{label}</span>
+      <span className="text-xs text-gray-400 dark:text-gray-500 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded-full">
+        {count}
+      </span>
+    </div>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="animate-spin h-6 w-6 text-blue-600" />
+      </div>
+    )
+  }
+
+  const shownCount = lookahead.inProgress.length + lookahead.upcoming.length
+
+  return (
+    <div className="flex flex-col h-full">
+      {lastCaptureCount !== null && (
+        <div className="px-3 py-2 bg-green-50 dark:bg-green-900/30 border-b border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
+          <Check size={16} className="text-green-500 dark:text-green-400" />
+          <span>Captured {lastCaptureCount} new task{lastCaptureCount !== 1 ? 's' : ''}</span>
+        </div>
+      )}
+
+      {scanStatus && (
+        <div className={`px-3 py-2 border-b text-sm ${
+          scanStatus.toLowerCase().includes('failed')
+            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+            : 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400'
+        }`}>
+          <div className="flex items-center gap-2 mb-1">
+            {isScanning && <Loader2 size={12} className="animate-spin" />}
+            <span>{scanStatus}</span>
+          </div>
+          {isScanning && (
+            <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5">
+              <div
+                className="bg-blue-600 dark:bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                style={{ width: `${scanPercent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1">
+            <SearchInput
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Search tasks, e.g. level 4..."
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1 mb-2 text-xs">
+          <span className="text-gray-500 dark:text-gray-400 mr-1">Lookahead</span>
+          {LOOKAHEAD_WEEKS.map(option => (
+            <button
+              key={option}
+              onClick={() => changeWeeks(option)}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${
+                weeks === option
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              aria-pressed={weeks === option}
+            >
+              {option} weeks
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{lookahead.inProgress.length} in progress · {lookahead.upcoming.length} upcoming</span>
+          <FreshnessBadge freshness={freshness} />
+        </div>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          <p className="mb-2">No schedule tasks cached</p>
+          <p className="text-sm text-center px-4">
+            Open the Schedule in Procore,<br />
+            or use Settings to scan the schedule.
+          </p>
+        </div>
+      ) : shownCount === 0 ? (
+        <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400 text-center px-4">
+          {searchQuery.trim()
+            ? 'No tasks in the lookahead match your search'
+            : `Nothing in progress or starting in the next ${weeks} weeks`}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {lookahead.inProgress.length > 0 && (
+            <div>
+              {renderSectionHeader('In progress today', lookahead.inProgress.length)}
+              {lookahead.inProgress.map(renderTask)}
+            </div>
+          )}
+          {upcomingWeeks.map(([weekKey, weekTasks]) => (
+            <div key={weekKey}>
+              {renderSectionHeader(`Week of ${formatDay(weekKey)}`, weekTasks.length)}
+              {weekTasks.map(renderTask)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
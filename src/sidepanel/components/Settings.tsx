@@ -10,13 +10,17 @@ import { useTheme } from '../contexts/ThemeContext'
 import { useTabVisibility } from '../contexts/TabVisibilityContext'
 import { useMascot } from '../contexts/MascotContext'
 import { useFavorites } from '../hooks/useFavorites'
-import { StorageService } from '@/services'
+import { useStatusColorScheme } from '../hooks/useStatusColorScheme'
+import { StorageService, BackupService, getProjectName, getProjectDisplayName } from '@/services'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { FolderInput } from './FolderInput'
 import { CollapsibleSection } from './CollapsibleSection'
+import { CaptureInspector } from './CaptureInspector'
+import { COLOR_CLASSES } from './StatusDot'
 import { AVAILABLE_TOOLS } from '../utils/tools'
-import { FolderOpen, Rocket, Palette, RefreshCcw, SlidersHorizontal, Star, Trash2, Plus, X, Folder, Loader2, GripVertical } from 'lucide-preact'
-import type { Project } from '@/types'
+import { getDrawingDragData } from '../utils/drawing-drag'
+import { FolderOpen, Rocket, Palette, RefreshCcw, SlidersHorizontal, Star, Trash2, Plus, X, Folder, Loader2, GripVertical, DatabaseBackup, Download, Upload, Link2Off, CircleDot } from 'lucide-preact'
+import type { Project, BackupFile, RestoreMode, RestorePreview, FavoriteFolder, DrawingRef, UnresolvedDrawingRef } from '@/types'
 import type { ToolId } from '@/types/tools'
 
 // @dnd-kit imports for drag-and-drop reordering
@@ -38,6 +42,29 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 
+const STALE_THRESHOLD_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 4, label: '4 hours' },
+  { hours: 12, label: '12 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+]
+
+type ScanType = 'drawings' | 'rfis' | 'submittals' | 'punch_items' | 'commitments' | 'change_events' | 'change_orders' | 'budget_line_items' | 'specifications' | 'directory' | 'documents' | 'schedule_tasks'
+
+// Scans the background runs through the REST API; the rest scroll the open Procore page
+const HEADLESS_SCAN_ACTIONS: Partial<Record<ScanType, string>> = {
+  submittals: 'SCAN_SUBMITTALS',
+  punch_items: 'SCAN_PUNCH_ITEMS',
+  change_events: 'SCAN_CHANGE_EVENTS',
+  change_orders: 'SCAN_CHANGE_ORDERS',
+  budget_line_items: 'SCAN_BUDGET',
+  directory: 'SCAN_DIRECTORY',
+  documents: 'SCAN_DOCUMENTS',
+  schedule_tasks: 'SCAN_SCHEDULE_TASKS',
+}
+
 interface SettingsProps {
   isOpen: boolean
   onClose: () => void
@@ -244,7 +271,7 @@ function QuickNavSection({
 
 // Sortable folder item for Settings Favorites section
 interface SortableFolderItemSettingsProps {
-  folder: { id: number; name: string; drawings: string[] }
+  folder: FavoriteFolder
   dragOverFolderId: number | null
   onRemoveFolder: (folderId: number) => void
   onDragOver: (e: DragEvent) => void
@@ -317,7 +344,8 @@ function SortableFolderItemSettings({
 
 // Favorites Folders Section with drag-and-drop reordering
 interface FavoritesFoldersSectionProps {
-  folders: { id: number; name: string; drawings: string[] }[]
+  projectId: string
+  folders: FavoriteFolder[]
   isLoading: boolean
   showFolderInput: boolean
   setShowFolderInput: (show: boolean) => void
@@ -325,11 +353,12 @@ interface FavoritesFoldersSectionProps {
   setDragOverFolderId: (id: number | null) => void
   onFolderSubmit: (name: string) => void
   onRemoveFolder: (folderId: number) => void
-  onAddDrawingToFolder: (folderId: number, drawingNum: string) => Promise<boolean>
+  onAddDrawingToFolder: (folderId: number, drawing: DrawingRef) => Promise<boolean>
   onReorderFolders: (newOrderIds: number[]) => Promise<void>
 }
 
 function FavoritesFoldersSection({
+  projectId,
   folders,
   isLoading,
   showFolderInput,
@@ -423,9 +452,9 @@ function FavoritesFoldersSection({
                       e.preventDefault()
                       e.stopPropagation()
                       setDragOverFolderId(null)
-                      const drawingNum = e.dataTransfer?.getData("text/plain")
-                      if (drawingNum) {
-                        await onAddDrawingToFolder(folder.id, drawingNum)
+                      const drawingRef = getDrawingDragData(e.dataTransfer)
+                      if (drawingRef) {
+                        await onAddDrawingToFolder(folder.id, drawingRef)
                       }
                     }}
                   />
@@ -440,6 +469,347 @@ function FavoritesFoldersSection({
             No folders yet.
           </div>
         )}
+
+        <BrokenDrawingLinks projectId={projectId} />
+      </div>
+    </CollapsibleSection>
+  )
+}
+
+// Status color labels and which colors the status dot cycles through (current project)
+function StatusColorsSection() {
+  const { scheme, cycleColors, updateOption, resetScheme } = useStatusColorScheme()
+  const hasChanges = scheme.options.some(o => o.label.trim() || !o.enabled)
+
+  return (
+    <CollapsibleSection
+      title="Status Colors"
+      icon={<CircleDot size={16} />}
+      preferenceKey={PREFERENCE_KEYS.settingsStatusColorsExpanded}
+      defaultExpanded={false}
+    >
+      <div className="px-2 space-y-1">
+        <div className="text-xs text-gray-500 dark:text-gray-400 px-2">
+          Label what each color means in this project. Unchecked colors are skipped when cycling.
+        </div>
+        {scheme.options.map(option => (
+          <div key={option.color} className="flex items-center gap-2 px-2 py-1">
+            <input
+              type="checkbox"
+              checked={option.enabled}
+              onChange={(e) => updateOption(option.color, { enabled: (e.target as HTMLInputElement).checked })}
+              disabled={option.enabled && cycleColors.length === 1}
+              className="w-4 h-4 text-blue-600 rounded"
+              title={option.enabled ? 'In cycle' : 'Not in cycle'}
+              aria-label={`Cycle through ${option.color}`}
+            />
+            <span className={`w-3.5 h-3.5 rounded-full border-2 shrink-0 ${COLOR_CLASSES[option.color]}`} />
+            <input
+              type="text"
+              defaultValue={option.label}
+              key={`${option.color}:${option.label}`}
+              placeholder={option.color.charAt(0).toUpperCase() + option.color.slice(1)}
+              onBlur={(e) => {
+                const label = (e.target as HTMLInputElement).value.trim()
+                if (label !== option.label) updateOption(option.color, { label })
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') (e.target as HTMLInputElement).blur()
+              }}
+              className="flex-1 min-w-0 px-2 py-0.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-200"
+            />
+          </div>
+        ))}
+        {hasChanges && (
+          <button
+            onClick={resetScheme}
+            className="w-full px-2 py-1.5 text-left text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            Reset to defaults
+          </button>
+        )}
+      </div>
+    </CollapsibleSection>
+  )
+}
+
+const REF_LOCATION_LABELS: Record<UnresolvedDrawingRef['location'], string> = {
+  recents: 'Recents',
+  favorites: 'Favorites',
+  statusColors: 'Status color',
+}
+
+// Favorites, recents and colors that no longer match a cached drawing
+function BrokenDrawingLinks({ projectId }: { projectId: string }) {
+  const { refresh } = useFavorites()
+  const [unresolved, setUnresolved] = useState<UnresolvedDrawingRef[]>([])
+  const [relinkable, setRelinkable] = useState(0)
+  const [isChecking, setIsChecking] = useState(false)
+
+  // Opening Settings only looks; links are rewritten after scans or on Repair
+  const runCheck = async (repair: boolean) => {
+    setIsChecking(true)
+    try {
+      const result = await StorageService.repairDrawingRefs(projectId, { dryRun: !repair })
+      setUnresolved(result.unresolved)
+      setRelinkable(repair ? 0 : result.relinked)
+      if (repair && result.relinked > 0) await refresh()
+    } catch (error) {
+      console.error('Failed to check drawing links:', error)
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  useEffect(() => {
+    runCheck(false)
+  }, [projectId])
+
+  const handleRemove = async (entry: UnresolvedDrawingRef) => {
+    await StorageService.removeDrawingRef(projectId, entry)
+    setUnresolved(prev => prev.filter(e => e !== entry))
+    if (entry.location === 'favorites') await refresh()
+  }
+
+  if (unresolved.length === 0 && relinkable === 0) return null
+
+  return (
+    <div className="mt-2 border-t border-gray-200 dark:border-gray-700 pt-2">
+      <div className="flex items-center gap-2 px-2 mb-1 text-xs text-amber-600 dark:text-amber-400">
+        <Link2Off size={14} />
+        <span>
+          {unresolved.length > 0 && `${unresolved.length} drawing link${unresolved.length !== 1 ? 's' : ''} not found`}
+          {unresolved.length > 0 && relinkable > 0 && ' · '}
+          {relinkable > 0 && `${relinkable} can be relinked`}
+        </span>
+        <button
+          onClick={() => runCheck(relinkable > 0)}
+          disabled={isChecking}
+          className="ml-auto text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          {isChecking ? 'Checking...' : relinkable > 0 ? 'Repair' : 'Re-check'}
+        </button>
+      </div>
+      <div className="max-h-32 overflow-y-auto">
+        {unresolved.map((entry, index) => (
+          <div
+            key={`${entry.location}-${entry.folderId ?? ''}-${entry.ref.id ?? entry.ref.num}-${index}`}
+            className="px-2 py-1 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 group"
+          >
+            <span className="font-mono">{entry.ref.num}</span>
+            <span className="text-gray-400 dark:text-gray-500 truncate flex-1">
+              {REF_LOCATION_LABELS[entry.location]}
+              {entry.folderName ? ` › ${entry.folderName}` : ''}
+            </span>
+            <button
+              onClick={() => handleRemove(entry)}
+              className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 px-1"
+              title="Remove this entry"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Backup & Restore Section - export everything to a file, restore with a preview
+function BackupRestoreSection() {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [backup, setBackup] = useState<BackupFile | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [preview, setPreview] = useState<RestorePreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Recompute the preview whenever the file or mode changes
+  useEffect(() => {
+    if (!backup) {
+      setPreview(null)
+      return
+    }
+    BackupService.previewRestore(backup, mode)
+      .then(setPreview)
+      .catch((err) => {
+        console.error('Failed to preview restore:', err)
+        setError('Could not compare backup with local data')
+      })
+  }, [backup, mode])
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      const data = await BackupService.createBackup()
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `power-up-backup-${new Date().toISOString().slice(0, 10)}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Failed to export backup:', err)
+      setError('Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleFileSelected = async (e: Event) => {
+    const input = e.target as HTMLInputElement
+    const file = input.files?.[0]
+    input.value = ''
+    if (!file) return
+
+    setError(null)
+    try {
+      setBackup(BackupService.parseBackup(await file.text()))
+    } catch (err) {
+      setBackup(null)
+      setError(err instanceof Error ? err.message : 'Could not read backup file')
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!backup) return
+    if (mode === 'replace' && !confirm('Replace all local Power-Up data with this backup?')) {
+      return
+    }
+
+    setIsRestoring(true)
+    setError(null)
+    try {
+      await BackupService.restoreBackup(backup, mode)
+      // Contexts and tabs load their data on mount - reload to pick up the restored data
+      window.location.reload()
+    } catch (err) {
+      console.error('Failed to restore backup:', err)
+      setError('Restore failed')
+      setIsRestoring(false)
+    }
+  }
+
+  const describeSection = (section: RestorePreview['projects'][number]['sections'][number]) => {
+    const parts: string[] = []
+    if (section.added) parts.push(`+${section.added}`)
+    if (section.updated) parts.push(`~${section.updated}`)
+    if (section.removed) parts.push(`-${section.removed}`)
+    return `${section.label} ${parts.join(' ')}`
+  }
+
+  return (
+    <CollapsibleSection
+      title="Backup & Restore"
+      icon={<DatabaseBackup size={16} />}
+      preferenceKey={PREFERENCE_KEYS.settingsBackupExpanded}
+      defaultExpanded={false}
+    >
+      <div className="px-2 space-y-2">
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={isExporting || isRestoring}
+            className="flex-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+          >
+            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            <span>Export</span>
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isExporting || isRestoring}
+            className="flex-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+          >
+            <Upload size={14} />
+            <span>Restore…</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        {backup && (
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-2 space-y-2">
+            <div className="text-xs text-gray-500 dark:text-gray-400 px-2">
+              Backup from {new Date(backup.exportedAt).toLocaleString()}
+            </div>
+
+            <div className="flex gap-3 px-2">
+              {(['merge', 'replace'] as const).map((option) => (
+                <label key={option} className="flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="restoreMode"
+                    checked={mode === option}
+                    onChange={() => setMode(option)}
+                    className="w-3 h-3 text-blue-600"
+                  />
+                  <span className="capitalize">{option}</span>
+                </label>
+              ))}
+            </div>
+
+            {preview && (
+              <div className="max-h-40 overflow-y-auto space-y-1 px-2">
+                {preview.projects.map(project => (
+                  <div key={project.projectId} className="text-xs">
+                    <div className="flex items-center gap-1 text-gray-700 dark:text-gray-300 font-medium">
+                      <span className="truncate">{project.name || `Project ${project.projectId}`}</span>
+                      {project.status !== 'existing' && (
+                        <span className={project.status === 'new' ? 'text-green-600 dark:text-green-400' : 'text-red-500 dark:text-red-400'}>
+                          ({project.status})
+                        </span>
+                      )}
+                    </div>
+                    {project.sections.length > 0 ? (
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {project.sections.map(describeSection).join(' · ')}
+                      </div>
+                    ) : project.status === 'existing' && (
+                      <div className="text-gray-400 dark:text-gray-500">No changes</div>
+                    )}
+                  </div>
+                ))}
+                {preview.preferencesChanged.length > 0 && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {preview.preferencesChanged.length} preference{preview.preferencesChanged.length === 1 ? '' : 's'} will change
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring || !preview}
+                className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+              >
+                {isRestoring && <Loader2 size={14} className="animate-spin" />}
+                <span>Restore</span>
+              </button>
+              <button
+                onClick={() => setBackup(null)}
+                disabled={isRestoring}
+                className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="px-2 py-1.5 text-xs rounded bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
       </div>
     </CollapsibleSection>
   )
@@ -459,7 +829,7 @@ export function Settings({
   onReorderTools,
 }: SettingsProps) {
   const { theme, setTheme } = useTheme()
-  const { showRFIsTab, showCostTab, showSpecificationsTab, setShowRFIsTab, setShowCostTab, setShowSpecificationsTab } = useTabVisibility()
+  const { showRFIsTab, showSubmittalsTab, showPunchTab, showCostTab, showSpecificationsTab, showDirectoryTab, showDocumentsTab, showScheduleTab, showRemovedItems, staleThresholdHours, setShowRFIsTab, setShowSubmittalsTab, setShowPunchTab, setShowCostTab, setShowSpecificationsTab, setShowDirectoryTab, setShowDocumentsTab, setShowScheduleTab, setShowRemovedItems, setStaleThresholdHours } = useTabVisibility()
   const { animationLevel, setAnimationLevel, triggerMood } = useMascot()
   const { folders, addFolder, removeFolder, addDrawingToFolder, reorderFolders, isLoading: favoritesLoading } = useFavorites()
   const [openInBackground, setOpenInBackground] = useState(false)
@@ -470,7 +840,7 @@ export function Settings({
   
   // Scan state
   const [scanState, setScanState] = useState<{
-    type: 'drawings' | 'rfis' | 'commitments' | 'specifications' | null
+    type: ScanType | null
     isScanning: boolean
     percent: number
     status: string | null
@@ -538,7 +908,7 @@ export function Settings({
         }
         
         setScanState({
-          type: payload.scanType as 'drawings' | 'rfis' | 'commitments',
+          type: payload.scanType as ScanType,
           isScanning: payload.status !== 'complete' && payload.status !== 'timeout',
           percent: payload.percent,
           status: payload.message || `Scanning... ${payload.percent}%`
@@ -664,7 +1034,7 @@ export function Settings({
     }
   }
 
-  const handleScan = async (scanType: 'drawings' | 'rfis' | 'commitments' | 'specifications') => {
+  const handleScan = async (scanType: ScanType) => {
     if (scanState.isScanning) return
 
     setScanState({
@@ -675,6 +1045,33 @@ export function Settings({
     })
 
     try {
+      // Fetched from the API in the background, no Procore page needed
+      const headlessAction = HEADLESS_SCAN_ACTIONS[scanType]
+      if (headlessAction) {
+        const result = await chrome.runtime.sendMessage({
+          action: headlessAction,
+          projectId: currentProjectId
+        }) as { success: boolean; error?: string }
+
+        if (!result?.success) {
+          setScanState({
+            type: scanType,
+            isScanning: false,
+            percent: 0,
+            status: `Error: ${result?.error || 'Scan failed'}`
+          })
+          setTimeout(() => {
+            setScanState({
+              type: null,
+              isScanning: false,
+              percent: 0,
+              status: null
+            })
+          }, 3000)
+        }
+        return
+      }
+
       const tabResponse = await chrome.runtime.sendMessage({ action: 'GET_ACTIVE_TAB' }) as { 
         tabId?: number
         isProcoreTab?: boolean 
@@ -779,14 +1176,14 @@ export function Settings({
               >
                 <div className="flex-1 min-w-0">
                   <div className="truncate font-medium">
-                    {project.name || `Project ${project.id}`}
+                    {getProjectDisplayName(project)}
                   </div>
                   <div className="text-xs text-gray-400 dark:text-gray-500">
                     {new Date(project.lastAccessed).toLocaleDateString()}
                   </div>
                 </div>
                 <button
-                  onClick={() => handleDeleteProject(project.id, project.name || '')}
+                  onClick={() => handleDeleteProject(project.id, getProjectName(project) || '')}
                   disabled={deletingProjectId === project.id}
                   className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-opacity disabled:opacity-50"
                   title="Delete project"
@@ -914,6 +1311,40 @@ export function Settings({
               </button>
             )}
             
+            {showSubmittalsTab && (
+              <button
+                onClick={() => handleScan('submittals')}
+                disabled={scanState.isScanning}
+                className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+              >
+                {scanState.isScanning && scanState.type === 'submittals' ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    <span>{scanState.percent}%</span>
+                  </>
+                ) : (
+                  <span>Scan Submittals</span>
+                )}
+              </button>
+            )}
+            
+            {showPunchTab && (
+              <button
+                onClick={() => handleScan('punch_items')}
+                disabled={scanState.isScanning}
+                className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+              >
+                {scanState.isScanning && scanState.type === 'punch_items' ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    <span>{scanState.percent}%</span>
+                  </>
+                ) : (
+                  <span>Scan Punch Items</span>
+                )}
+              </button>
+            )}
+            
             {showCostTab && (
               <button
                 onClick={() => handleScan('commitments')}
@@ -931,6 +1362,53 @@ export function Settings({
               </button>
             )}
             
+            {showCostTab && (
+              <>
+                <button
+                  onClick={() => handleScan('change_events')}
+                  disabled={scanState.isScanning}
+                  className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+                >
+                  {scanState.isScanning && scanState.type === 'change_events' ? (
+                    <>
+                      <Loader2 size={16} className="animate-spin" />
+                      <span>{scanState.percent}%</span>
+                    </>
+                  ) : (
+                    <span>Scan Change Events</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleScan('change_orders')}
+                  disabled={scanState.isScanning}
+                  className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+                >
+                  {scanState.isScanning && scanState.type === 'change_orders' ? (
+                    <>
+                      <Loader2 size={16} className="animate-spin" />
+                      <span>{scanState.percent}%</span>
+                    </>
+                  ) : (
+                    <span>Scan Change Orders</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleScan('budget_line_items')}
+                  disabled={scanState.isScanning}
+                  className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+                >
+                  {scanState.isScanning && scanState.type === 'budget_line_items' ? (
+                    <>
+                      <Loader2 size={16} className="animate-spin" />
+                      <span>{scanState.percent}%</span>
+                    </>
+                  ) : (
+                    <span>Scan Budget</span>
+                  )}
+                </button>
+              </>
+            )}
+            
             {showSpecificationsTab && (
               <button
                 onClick={() => handleScan('specifications')}
@@ -948,6 +1426,57 @@ export function Settings({
               </button>
             )}
             
+            {showDirectoryTab && (
+              <button
+                onClick={() => handleScan('directory')}
+                disabled={scanState.isScanning}
+                className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+              >
+                {scanState.isScanning && scanState.type === 'directory' ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    <span>{scanState.percent}%</span>
+                  </>
+                ) : (
+                  <span>Scan Directory</span>
+                )}
+              </button>
+            )}
+            
+            {showDocumentsTab && (
+              <button
+                onClick={() => handleScan('documents')}
+                disabled={scanState.isScanning}
+                className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+              >
+                {scanState.isScanning && scanState.type === 'documents' ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    <span>{scanState.percent}%</span>
+                  </>
+                ) : (
+                  <span>Scan Documents</span>
+                )}
+              </button>
+            )}
+            
+            {showScheduleTab && (
+              <button
+                onClick={() => handleScan('schedule_tasks')}
+                disabled={scanState.isScanning}
+                className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+              >
+                {scanState.isScanning && scanState.type === 'schedule_tasks' ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    <span>{scanState.percent}%</span>
+                  </>
+                ) : (
+                  <span>Scan Schedule</span>
+                )}
+              </button>
+            )}
+            
             {scanState.status && (
               <div className={`px-2 py-1.5 text-xs rounded ${
                 scanState.status.startsWith('Error') 
@@ -979,6 +1508,22 @@ export function Settings({
             />
           </label>
           
+          <label
+            className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors"
+            title="Freshness badges turn amber when the last full scan is older than this"
+          >
+            <span>Warn When Data Older Than</span>
+            <select
+              value={staleThresholdHours}
+              onChange={(e) => setStaleThresholdHours(Number((e.target as HTMLSelectElement).value))}
+              className="text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 text-gray-700 dark:text-gray-200"
+            >
+              {STALE_THRESHOLD_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          
           <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
             <span>Floating Button</span>
             <input
@@ -1000,6 +1545,24 @@ export function Settings({
                 className="w-4 h-4 text-blue-600 rounded"
               />
             </label>
+            <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
+              <span>Show Submittals Tab</span>
+              <input
+                type="checkbox"
+                checked={showSubmittalsTab}
+                onChange={(e) => setShowSubmittalsTab((e.target as HTMLInputElement).checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+            </label>
+            <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
+              <span>Show Punch Tab</span>
+              <input
+                type="checkbox"
+                checked={showPunchTab}
+                onChange={(e) => setShowPunchTab((e.target as HTMLInputElement).checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+            </label>
             <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
               <span>Show Cost Tab</span>
               <input
@@ -1018,6 +1581,45 @@ export function Settings({
                 className="w-4 h-4 text-blue-600 rounded"
               />
             </label>
+            <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
+              <span>Show Directory Tab</span>
+              <input
+                type="checkbox"
+                checked={showDirectoryTab}
+                onChange={(e) => setShowDirectoryTab((e.target as HTMLInputElement).checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+            </label>
+            <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
+              <span>Show Documents Tab</span>
+              <input
+                type="checkbox"
+                checked={showDocumentsTab}
+                onChange={(e) => setShowDocumentsTab((e.target as HTMLInputElement).checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+            </label>
+            <label className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors">
+              <span>Show Schedule Tab</span>
+              <input
+                type="checkbox"
+                checked={showScheduleTab}
+                onChange={(e) => setShowScheduleTab((e.target as HTMLInputElement).checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+            </label>
+            <label
+              className="flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer transition-colors"
+              title="List items a full scan no longer found in Procore, whenever they went missing, marked with the scan date"
+            >
+              <span>Show Items Removed in Procore</span>
+              <input
+                type="checkbox"
+                checked={showRemovedItems}
+                onChange={(e) => setShowRemovedItems((e.target as HTMLInputElement).checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+            </label>
           </div>
         </div>
       </CollapsibleSection>
@@ -1025,6 +1627,7 @@ export function Settings({
       {/* Favorites Section */}
       {currentProjectId && (
         <FavoritesFoldersSection
+          projectId={currentProjectId}
           folders={folders}
           isLoading={favoritesLoading}
           showFolderInput={showFolderInput}
@@ -1037,6 +1640,15 @@ export function Settings({
           onReorderFolders={reorderFolders}
         />
       )}
+
+      {/* Status Colors Section */}
+      {currentProjectId && <StatusColorsSection />}
+
+      {/* Backup & Restore Section */}
+      <BackupRestoreSection />
+
+      {/* Capture Inspector Section */}
+      <CaptureInspector />
     </div>
   )
 }
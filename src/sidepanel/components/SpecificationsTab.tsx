@@ -7,9 +7,22 @@
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'preact/hooks'
 import type { Specification, DivisionMap } from '@/types'
-import { StorageService } from '@/services'
+import { StorageService, noteMatches, getTagsInUse } from '@/services'
 import { PREFERENCE_KEYS } from '@/types/preferences'
 import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { PinButton } from './PinButton'
+import { ContextMenu } from './ContextMenu'
+import { NoteEditor } from './NoteEditor'
+import { NoteIndicator } from './NoteIndicator'
+import { TagEditor } from './TagEditor'
+import { TagFilterBar } from './TagFilterBar'
+import { TagChips } from './TagChips'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { useNotes } from '../hooks/useNotes'
+import { useTags } from '../hooks/useTags'
+import { getFreshness } from '../utils/freshness'
 import { focusTabBar } from './TabBar'
 import { 
   focusFirst, 
@@ -18,6 +31,11 @@ import {
 } from '../hooks/useKeyboardNavigation'
 import { ChevronRight, ChevronDown, Loader2, FileText } from 'lucide-preact'
 
+// URL format: /{projectId}/project/specification_section_revisions/{id}?open_viewer=true&mfe_view=true
+function getSpecificationUrl(projectId: string, specification: Specification): string {
+  return `https://app.procore.com/${projectId}/project/specification_section_revisions/${specification.id}?open_viewer=true&mfe_view=true`
+}
+
 interface SpecificationsTabProps {
   projectId: string
   dataVersion?: number
@@ -27,6 +45,21 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
   const [specifications, setSpecifications] = useState<Specification[]>([])
   const [divisionMap, setDivisionMap] = useState<DivisionMap>({})
   const [searchQuery, setSearchQuery] = useState('')
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; specification: Specification } | null>(null)
+  const { notes, getNote, saveNote } = useNotes(projectId)
+  const { data: tagData, tags, getTags, matchesTags, addTag, toggleTag } = useTags(projectId)
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([])
+  const tagsInUse = useMemo(() => getTagsInUse(tagData, 'specification'), [tagData])
+
+  // Ignore selections for tags that were removed from every item
+  const activeTagIds = useMemo(
+    () => selectedTagIds.filter(id => tagsInUse.some(tag => tag.id === id)),
+    [selectedTagIds, tagsInUse]
+  )
+
+  useEffect(() => {
+    setSelectedTagIds([])
+  }, [projectId])
   const [isLoading, setIsLoading] = useState(true)
   const [isScanning, setIsScanning] = useState(false)
   const [scanStatus, setScanStatus] = useState<string | null>(null)
@@ -34,6 +67,12 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
   const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
   const [expandedDivisions, setExpandedDivisions] = useState<Set<string>>(new Set())
   const [allExpanded, setAllExpanded] = useState(false)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.specifications, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
 
   // Ref to scrollable container for keyboard navigation
   const scrollContainerRef = useRef<HTMLDivElement>(null)
@@ -141,15 +180,22 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
   }, [projectId, isScanning])
 
   // Filter specifications by search query
+  // Soft-deleted specifications (missing from the last full scan) are hidden unless opted in
+  const visibleSpecifications = useMemo(() => {
+    return showRemovedItems ? specifications : specifications.filter(spec => spec.removed_at === undefined)
+  }, [specifications, showRemovedItems])
+
   const filteredSpecifications = useMemo(() => {
-    if (!searchQuery.trim()) return specifications
+    const tagged = visibleSpecifications.filter(spec => matchesTags('specification', spec.id, activeTagIds))
+    if (!searchQuery.trim()) return tagged
 
     const query = searchQuery.toLowerCase()
-    return specifications.filter(spec => 
+    return tagged.filter(spec => 
       spec.number?.toLowerCase().includes(query) ||
-      spec.title?.toLowerCase().includes(query)
+      spec.title?.toLowerCase().includes(query) ||
+      noteMatches(notes, 'specification', spec.id, query)
     )
-  }, [specifications, searchQuery])
+  }, [visibleSpecifications, searchQuery, notes, matchesTags, activeTagIds])
 
   // Group specifications by division
   const groupedSpecifications = useMemo(() => {
@@ -195,9 +241,7 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
         PREFERENCE_KEYS.openInBackground,
         false
       )
-      
-      // URL format: /{projectId}/project/specification_section_revisions/{id}?open_viewer=true&mfe_view=true
-      const url = `https://app.procore.com/${projectId}/project/specification_section_revisions/${specification.id}?open_viewer=true&mfe_view=true`
+      const url = getSpecificationUrl(projectId, specification)
       
       chrome.runtime.sendMessage({ 
         action: 'OPEN_TAB', 
@@ -290,8 +334,11 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
           </div>
         </div>
         
+        <TagFilterBar tags={tagsInUse} selectedIds={activeTagIds} onChange={setSelectedTagIds} />
+        
         {/* Toolbar */}
-        <div className="flex items-center justify-end">
+        <div className="flex items-center justify-end gap-2">
+          <FreshnessBadge freshness={freshness} className="mr-auto" />
           <button
             onClick={toggleExpandAll}
             className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center gap-1"
@@ -314,7 +361,7 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
         </div>
       ) : filteredSpecifications.length === 0 ? (
         <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
-          No specifications match "{searchQuery}"
+          {searchQuery.trim() ? `No specifications match "${searchQuery}"` : 'No specifications with the selected tags'}
         </div>
       ) : (
         <div 
@@ -331,7 +378,7 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
         >
           {/* Division Groups */}
           {groupedSpecifications.map(({ divisionId, displayName, specifications: groupSpecs }) => {
-            const isExpanded = expandedDivisions.has(divisionId) || searchQuery.trim() !== ''
+            const isExpanded = expandedDivisions.has(divisionId) || searchQuery.trim() !== '' || activeTagIds.length > 0
             
             return (
               <div key={divisionId} data-section className="border-b border-gray-100 dark:border-gray-700">
@@ -400,6 +447,10 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
                         tabIndex={0}
                         data-focusable
                         onClick={() => handleSpecificationClick(spec)}
+                        onContextMenu={(e) => {
+                          e.preventDefault()
+                          setContextMenu({ x: e.clientX, y: e.clientY, specification: spec })
+                        }}
                         onKeyDown={(e) => {
                           const target = e.currentTarget as HTMLElement
                           switch (e.key) {
@@ -429,14 +480,32 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
                               break
                           }
                         }}
-                        className="px-3 py-2 pl-10 border-b border-gray-50 dark:border-gray-800 hover:bg-blue-50 dark:hover:bg-blue-900/30 cursor-pointer flex items-center gap-2 group"
+                        className={`px-3 py-2 pl-10 border-b border-gray-50 dark:border-gray-800 hover:bg-blue-50 dark:hover:bg-blue-900/30 cursor-pointer flex items-center gap-2 group ${
+                          spec.removed_at !== undefined ? 'opacity-50' : ''
+                        }`}
+                        title={spec.removed_at !== undefined ? `Removed from Procore (not in scan on ${new Date(spec.removed_at).toLocaleDateString()})` : undefined}
                       >
                         <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium min-w-[70px] group-hover:text-blue-800 dark:group-hover:text-blue-300">
                           {spec.number}
                         </span>
-                        <span className="text-sm text-gray-600 dark:text-gray-300 truncate flex-1 group-hover:text-gray-800 dark:group-hover:text-gray-100">
+                        <span className={`text-sm text-gray-600 dark:text-gray-300 truncate flex-1 group-hover:text-gray-800 dark:group-hover:text-gray-100 ${
+                          spec.removed_at !== undefined ? 'line-through' : ''
+                        }`}>
                           {spec.title}
                         </span>
+                        {spec.removed_at !== undefined && (
+                          <span className="text-[10px] uppercase text-red-500 dark:text-red-400">Removed</span>
+                        )}
+                        <TagChips tags={getTags('specification', spec.id)} className="max-w-[35%]" />
+                        <NoteIndicator note={getNote('specification', spec.id)} />
+                        <PinButton pin={{
+                          type: 'specification',
+                          projectId,
+                          itemId: spec.id,
+                          label: spec.number,
+                          title: spec.title,
+                          url: getSpecificationUrl(projectId, spec),
+                        }} />
                       </div>
                     ))}
                   </div>
@@ -447,10 +516,33 @@ export function SpecificationsTab({ projectId, dataVersion = 0 }: Specifications
           
           {/* Footer stats */}
           <div className="px-3 py-2 text-xs text-gray-400 dark:text-gray-500 text-center bg-gray-50 dark:bg-gray-800">
-            {filteredSpecifications.length} of {specifications.length} specifications
+            {filteredSpecifications.length} of {visibleSpecifications.length} specifications
           </div>
         </div>
       )}
+
+      {/* Context Menu */}
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          onClose={() => setContextMenu(null)}
+        >
+          <TagEditor
+            tags={tags}
+            selectedIds={getTags('specification', contextMenu.specification.id).map(tag => tag.id)}
+            onToggle={(tagId) => toggleTag('specification', contextMenu.specification.id, tagId)}
+            onCreate={(name) => addTag('specification', contextMenu.specification.id, name)}
+          />
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <NoteEditor
+              note={getNote('specification', contextMenu.specification.id)}
+              onSave={(text) => saveNote('specification', contextMenu.specification.id, text)}
+              onDone={() => setContextMenu(null)}
+            />
+          </div>
+        </ContextMenu>
+      )}
     </div>
   )
 }
@@ -3,10 +3,12 @@ import type { StatusColor } from '@/types'
 interface StatusDotProps {
   color: StatusColor | undefined
   onClick: () => void
+  label?: string
+  setAt?: number
   className?: string
 }
 
-const COLOR_CLASSES: Record<StatusColor, string> = {
+export const COLOR_CLASSES: Record<StatusColor, string> = {
   green: 'bg-green-500 border-green-600',
   red: 'bg-red-500 border-red-600',
   yellow: 'bg-yellow-500 border-yellow-600',
@@ -15,7 +17,12 @@ const COLOR_CLASSES: Record<StatusColor, string> = {
   pink: 'bg-pink-500 border-pink-600',
 }
 
-export function StatusDot({ color, onClick, className = '' }: StatusDotProps) {
+export function StatusDot({ color, onClick, label, setAt, className = '' }: StatusDotProps) {
+  const details = color
+    ? [label, setAt ? `set ${new Date(setAt).toLocaleDateString()}` : null].filter(Boolean)
+    : []
+  const title = details.length > 0 ? `${details.join(' - ')} (click to cycle)` : 'Click to cycle status color'
+
   return (
     <button
       onClick={(e) => {
@@ -29,8 +36,8 @@ export function StatusDot({ color, onClick, className = '' }: StatusDotProps) {
         ${color ? COLOR_CLASSES[color] : 'bg-gray-200 dark:bg-gray-600 border-gray-300 dark:border-gray-500 opacity-0 group-hover:opacity-100'}
         ${className}
       `}
-      title="Click to cycle status color"
-      aria-label="Status color"
+      title={title}
+      aria-label={label ? `Status: ${label}` : 'Status color'}
     />
   )
 }
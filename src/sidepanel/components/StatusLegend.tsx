@@ -0,0 +1,59 @@
+import { X } from 'lucide-preact'
+import { COLOR_CLASSES } from './StatusDot'
+import { useStatusColorScheme } from '../hooks/useStatusColorScheme'
+import type { StatusColor } from '@/types'
+
+interface StatusLegendProps {
+  counts: Partial<Record<StatusColor, number>>   // Marked drawings per color
+  selected: StatusColor | null
+  onChange: (color: StatusColor | null) => void
+}
+
+/**
+ * What each status color means in this project, with counts. Clicking a
+ * color shows only the drawings marked with it.
+ */
+export function StatusLegend({ counts, selected, onChange }: StatusLegendProps) {
+  const { scheme, getLabel } = useStatusColorScheme()
+
+  // Colors outside the cycle still show while drawings carry them
+  const options = scheme.options.filter(o => o.enabled || (counts[o.color] ?? 0) > 0)
+  if (!options.some(o => (counts[o.color] ?? 0) > 0)) return null
+
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto no-scrollbar mb-2" role="toolbar" aria-label="Filter by status color">
+      {options.map(({ color }) => {
+        const count = counts[color] ?? 0
+        const isSelected = selected === color
+        return (
+          <button
+            key={color}
+            onClick={() => onChange(isSelected ? null : color)}
+            disabled={count === 0 && !isSelected}
+            className={`shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors disabled:opacity-50 disabled:cursor-default ${
+              isSelected
+                ? 'bg-gray-800 border-gray-800 text-white dark:bg-gray-100 dark:border-gray-100 dark:text-gray-900'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            aria-pressed={isSelected}
+            title={count > 0 ? `Show only ${getLabel(color)}` : `No drawings marked ${getLabel(color)}`}
+          >
+            <span className={`w-2.5 h-2.5 rounded-full border ${COLOR_CLASSES[color]}`} />
+            <span>{getLabel(color)}</span>
+            <span className="opacity-60">{count}</span>
+          </button>
+        )
+      })}
+      {selected && (
+        <button
+          onClick={() => onChange(null)}
+          className="shrink-0 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title="Clear status filter"
+          aria-label="Clear status filter"
+        >
+          <X size={14} />
+        </button>
+      )}
+    </div>
+  )
+}
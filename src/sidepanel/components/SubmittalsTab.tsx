@@ -0,0 +1,362 @@
+import { useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import type { Submittal } from '@/types'
+import { StorageService, getTagsInUse } from '@/services'
+import { PREFERENCE_KEYS } from '@/types/preferences'
+import { SearchInput } from './SearchInput'
+import { FreshnessBadge } from './FreshnessBadge'
+import { PinButton } from './PinButton'
+import { ContextMenu } from './ContextMenu'
+import { NoteEditor } from './NoteEditor'
+import { NoteIndicator } from './NoteIndicator'
+import { TagEditor } from './TagEditor'
+import { TagFilterBar } from './TagFilterBar'
+import { TagChips } from './TagChips'
+import { useTabVisibility } from '../hooks/useTabVisibility'
+import { useSyncMetadata } from '../hooks/useSyncMetadata'
+import { useNotes } from '../hooks/useNotes'
+import { useTags } from '../hooks/useTags'
+import { getFreshness } from '../utils/freshness'
+import { Check, Loader2 } from 'lucide-preact'
+
+interface SubmittalsTabProps {
+  projectId: string
+  dataVersion?: number
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  'open': 'badge-yellow',
+  'draft': 'badge-gray',
+  'closed': 'badge-green',
+  'approved': 'badge-green',
+  'rejected': 'badge-red',
+  'void': 'badge-red',
+}
+
+const CLOSED_STATUSES = ['closed', 'approved', 'void']
+
+function getSubmittalUrl(projectId: string, submittal: Submittal): string {
+  return `https://app.procore.com/${projectId}/project/submittal_logs/${submittal.id}`
+}
+
+function isOverdue(submittal: Submittal, today = new Date().toISOString().slice(0, 10)): boolean {
+  if (!submittal.due_date || CLOSED_STATUSES.includes(submittal.status?.toLowerCase())) return false
+  return submittal.due_date.slice(0, 10) < today
+}
+
+function compareSubmittals(a: Submittal, b: Submittal): number {
+  return (a.number || '').localeCompare(b.number || '', undefined, { numeric: true }) ||
+    (a.revision || '').localeCompare(b.revision || '', undefined, { numeric: true })
+}
+
+export function SubmittalsTab({ projectId, dataVersion = 0 }: SubmittalsTabProps) {
+  const [submittals, setSubmittals] = useState<Submittal[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; submittal: Submittal } | null>(null)
+  const { getNote, saveNote } = useNotes(projectId)
+  const { data: tagData, tags, getTags, matchesTags, addTag, toggleTag } = useTags(projectId)
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([])
+  const tagsInUse = useMemo(() => getTagsInUse(tagData, 'submittal'), [tagData])
+
+  // Ignore selections for tags that were removed from every item
+  const activeTagIds = useMemo(
+    () => selectedTagIds.filter(id => tagsInUse.some(tag => tag.id === id)),
+    [selectedTagIds, tagsInUse]
+  )
+
+  useEffect(() => {
+    setSelectedTagIds([])
+  }, [projectId])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanStatus, setScanStatus] = useState<string | null>(null)
+  const [scanPercent, setScanPercent] = useState(0)
+  const [lastCaptureCount, setLastCaptureCount] = useState<number | null>(null)
+  const { showRemovedItems, staleThresholdHours } = useTabVisibility()
+  const syncMetadata = useSyncMetadata(projectId)
+  const freshness = useMemo(
+    () => getFreshness(syncMetadata.submittals, staleThresholdHours),
+    [syncMetadata, staleThresholdHours]
+  )
+
+  useEffect(() => {
+    async function loadData() {
+      if (submittals.length === 0) {
+        setIsLoading(true)
+      }
+
+      const cachedSubmittals = await StorageService.getSubmittals(projectId)
+
+      if (dataVersion > 0 && cachedSubmittals.length > submittals.length) {
+        const newCount = cachedSubmittals.length - submittals.length
+        setLastCaptureCount(newCount)
+        setTimeout(() => setLastCaptureCount(null), 3000)
+      }
+
+      setSubmittals(cachedSubmittals)
+      setIsLoading(false)
+    }
+    loadData()
+  }, [projectId, dataVersion])
+
+  // Listen for scan progress (SCAN_SUBMITTALS runs headless in the background)
+  useEffect(() => {
+    const handleMessage = async (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'SCAN_PROGRESS') {
+        const payload = message.payload as { status: string; scanType: string; percent: number; message?: string }
+        if (payload.scanType === 'submittals') {
+          setScanPercent(payload.percent)
+
+          if (payload.status === 'complete' || payload.status === 'timeout') {
+            setIsScanning(false)
+            setScanStatus(payload.message || 'Scan complete!')
+            const newSubmittals = await StorageService.getSubmittals(projectId)
+            setSubmittals(newSubmittals)
+            setTimeout(() => setScanStatus(null), 3000)
+          } else {
+            setIsScanning(true)
+            setScanStatus(payload.message || `Scanning... ${payload.percent}%`)
+          }
+        }
+      }
+
+      if (message.type === 'DATA_SAVED' && isScanning) {
+        const payload = message.payload as { type?: string }
+        if (payload.type === 'submittals') {
+          const newSubmittals = await StorageService.getSubmittals(projectId)
+          setSubmittals(newSubmittals)
+        }
+      }
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [projectId, isScanning])
+
+  // Soft-deleted submittals (missing from the last full scan) are hidden unless opted in
+  const visibleSubmittals = useMemo(() => {
+    const visible = showRemovedItems ? submittals : submittals.filter(s => s.removed_at === undefined)
+    return [...visible].sort(compareSubmittals)
+  }, [submittals, showRemovedItems])
+
+  const filteredSubmittals = useMemo(() => {
+    const tagged = visibleSubmittals.filter(s => matchesTags('submittal', s.id, activeTagIds))
+    if (!searchQuery.trim()) return tagged
+
+    // Split query into words - all must match
+    const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean)
+
+    return tagged.filter(s => {
+      const number = String(s.number ?? '').toLowerCase()
+      // Combine text fields for substring matching
+      const textFields = [s.title, s.status, s.spec_section, s.ball_in_court, getNote('submittal', s.id)?.text]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase()
+
+      // Each word must match: prefix of number OR substring of text fields
+      return words.every(word =>
+        number.startsWith(word) || textFields.includes(word)
+      )
+    })
+  }, [visibleSubmittals, searchQuery, getNote, matchesTags, activeTagIds])
+
+  const overdueCount = useMemo(
+    () => visibleSubmittals.filter(s => s.removed_at === undefined && isOverdue(s)).length,
+    [visibleSubmittals]
+  )
+
+  const handleSubmittalClick = useCallback(async (submittal: Submittal) => {
+    try {
+      const openInBackground = await StorageService.getPreferences<boolean>(
+        PREFERENCE_KEYS.openInBackground,
+        false
+      )
+      const url = getSubmittalUrl(projectId, submittal)
+      chrome.runtime.sendMessage({
+        action: 'OPEN_TAB',
+        url,
+        background: openInBackground
+      })
+    } catch (error) {
+      console.error('Failed to open submittal:', error)
+    }
+  }, [projectId])
+
+  const renderItem = useCallback((submittal: Submittal) => {
+    const statusClass = STATUS_COLORS[submittal.status?.toLowerCase()] || 'badge-gray'
+    const isRemoved = submittal.removed_at !== undefined
+    const overdue = !isRemoved && isOverdue(submittal)
+    const label = `Submittal #${submittal.number}`
+
+    return (
+      <div
+        onClick={() => handleSubmittalClick(submittal)}
+        onContextMenu={(e) => {
+          e.preventDefault()
+          setContextMenu({ x: e.clientX, y: e.clientY, submittal })
+        }}
+        className={`list-item group ${isRemoved ? 'opacity-50' : ''}`}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <span className="flex items-center gap-1">
+            <span className="font-mono text-sm text-blue-600 dark:text-blue-400 font-medium">
+              #{submittal.number}
+            </span>
+            {submittal.revision && submittal.revision !== '0' && (
+              <span className="text-xs text-gray-400 dark:text-gray-500 font-mono">Rev {submittal.revision}</span>
+            )}
+            <PinButton pin={{
+              type: 'submittal',
+              projectId,
+              itemId: submittal.id,
+              label,
+              title: submittal.title,
+              url: getSubmittalUrl(projectId, submittal),
+            }} />
+            <NoteIndicator note={getNote('submittal', submittal.id)} />
+          </span>
+          {isRemoved ? (
+            <span
+              className="badge badge-red"
+              title={`Not in scan on ${new Date(submittal.removed_at!).toLocaleDateString()}`}
+            >
+              Removed
+            </span>
+          ) : (
+            <span className={`badge ${statusClass}`}>
+              {submittal.status}
+            </span>
+          )}
+        </div>
+        <div className={`text-sm text-gray-700 dark:text-gray-300 truncate ${isRemoved ? 'line-through' : ''}`}>
+          {submittal.title}
+        </div>
+        {submittal.spec_section && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 truncate mt-0.5" title="Spec section">
+            {submittal.spec_section}
+          </div>
+        )}
+        {(submittal.ball_in_court || submittal.due_date) && (
+          <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            <span className="truncate">{submittal.ball_in_court && `Ball in court: ${submittal.ball_in_court}`}</span>
+            {submittal.due_date && (
+              <span
+                className={`shrink-0 ${overdue ? 'text-red-600 dark:text-red-400 font-medium' : ''}`}
+                title={submittal.required_on_site_date
+                  ? `Required on site ${new Date(submittal.required_on_site_date).toLocaleDateString()}`
+                  : undefined}
+              >
+                {overdue ? 'Overdue' : 'Due'} {new Date(submittal.due_date).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+        )}
+        <TagChips tags={getTags('submittal', submittal.id)} className="mt-1 max-w-full" />
+      </div>
+    )
+  }, [handleSubmittalClick, projectId, getNote, getTags])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="animate-spin h-6 w-6 text-blue-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {lastCaptureCount !== null && (
+        <div className="px-3 py-2 bg-green-50 dark:bg-green-900/30 border-b border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
+          <Check size={16} className="text-green-500 dark:text-green-400" />
+          <span>Captured {lastCaptureCount} new submittal{lastCaptureCount !== 1 ? 's' : ''}</span>
+        </div>
+      )}
+
+      {scanStatus && (
+        <div className={`px-3 py-2 border-b text-sm ${
+          scanStatus.toLowerCase().includes('failed')
+            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+            : 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400'
+        }`}>
+          <div className="flex items-center gap-2 mb-1">
+            {isScanning && <Loader2 size={12} className="animate-spin" />}
+            <span>{scanStatus}</span>
+          </div>
+          {isScanning && (
+            <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5">
+              <div
+                className="bg-blue-600 dark:bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                style={{ width: `${scanPercent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1">
+            <SearchInput
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Search submittals..."
+            />
+          </div>
+        </div>
+
+        <TagFilterBar tags={tagsInUse} selectedIds={activeTagIds} onChange={setSelectedTagIds} />
+
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{filteredSubmittals.length} of {visibleSubmittals.length} submittals</span>
+          <FreshnessBadge freshness={freshness} />
+          <span className={overdueCount > 0 ? 'text-red-600 dark:text-red-400' : ''}>{overdueCount} overdue</span>
+        </div>
+      </div>
+
+      {submittals.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          <p className="mb-2">No submittals cached</p>
+          <p className="text-sm text-center px-4">
+            Open the Submittals page in Procore,<br />
+            or use Settings to scan all submittals.
+          </p>
+        </div>
+      ) : filteredSubmittals.length === 0 ? (
+        <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+          No submittals match your filters
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {filteredSubmittals.map((submittal) => (
+            <div key={submittal.id}>
+              {renderItem(submittal)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          onClose={() => setContextMenu(null)}
+        >
+          <TagEditor
+            tags={tags}
+            selectedIds={getTags('submittal', contextMenu.submittal.id).map(tag => tag.id)}
+            onToggle={(tagId) => toggleTag('submittal', contextMenu.submittal.id, tagId)}
+            onCreate={(name) => addTag('submittal', contextMenu.submittal.id, name)}
+          />
+          <div className="border-t border-gray-100 dark:border-gray-700 mt-1">
+            <NoteEditor
+              note={getNote('submittal', contextMenu.submittal.id)}
+              onSave={(text) => saveNote('submittal', contextMenu.submittal.id, text)}
+              onDone={() => setContextMenu(null)}
+            />
+          </div>
+        </ContextMenu>
+      )}
+    </div>
+  )
+}
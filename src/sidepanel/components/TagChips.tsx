@@ -0,0 +1,26 @@
+import type { Tag } from '@/types'
+
+interface TagChipsProps {
+  tags: Tag[]
+  className?: string
+}
+
+/**
+ * Compact, read-only tag list for list rows
+ */
+export function TagChips({ tags, className = '' }: TagChipsProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <span className={`inline-flex items-center gap-1 min-w-0 overflow-hidden ${className}`} title={tags.map(t => t.name).join(', ')}>
+      {tags.map(tag => (
+        <span
+          key={tag.id}
+          className="shrink-0 px-1.5 rounded-full text-[10px] leading-4 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+        >
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  )
+}
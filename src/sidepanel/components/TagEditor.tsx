@@ -0,0 +1,78 @@
+import { useState } from 'preact/hooks'
+import { Tags, Check, Plus } from 'lucide-preact'
+import type { Tag } from '@/types'
+
+interface TagEditorProps {
+  tags: Tag[]                       // Every tag defined in the project
+  selectedIds: number[]             // Tags on this entity
+  onToggle: (tagId: number) => void
+  onCreate: (name: string) => Promise<void>
+}
+
+/**
+ * Tag picker section for a ContextMenu: toggle existing tags or add a new one
+ */
+export function TagEditor({ tags, selectedIds, onToggle, onCreate }: TagEditorProps) {
+  const [newTag, setNewTag] = useState('')
+
+  const handleCreate = async () => {
+    if (!newTag.trim()) return
+    await onCreate(newTag)
+    setNewTag('')
+  }
+
+  return (
+    <div className="px-3 py-2 w-[260px]">
+      <div className="flex items-center gap-2 mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <Tags size={14} />
+        <span>Tags</span>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2 max-h-24 overflow-y-auto">
+          {tags.map(tag => {
+            const selected = selectedIds.includes(tag.id)
+            return (
+              <button
+                key={tag.id}
+                onClick={() => onToggle(tag.id)}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                  selected
+                    ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+                aria-pressed={selected}
+              >
+                {selected && <Check size={12} />}
+                {tag.name}
+              </button>
+            )
+          })}
+        </div>
+      )}
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={newTag}
+          onInput={(e) => setNewTag((e.target as HTMLInputElement).value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleCreate()
+            }
+          }}
+          placeholder="New tag, e.g. Level 3"
+          className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newTag.trim()}
+          className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded disabled:opacity-50"
+          title="Add tag"
+          aria-label="Add tag"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  )
+}
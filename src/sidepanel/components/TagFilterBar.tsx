@@ -0,0 +1,54 @@
+import { X } from 'lucide-preact'
+import type { Tag } from '@/types'
+
+interface TagFilterBarProps {
+  tags: Tag[]                       // Tags in use in this tab
+  selectedIds: number[]
+  onChange: (selectedIds: number[]) => void
+}
+
+/**
+ * Row of tag chips under a tab's search box. Selected tags narrow the list
+ * to items carrying all of them, across discipline/division groups.
+ */
+export function TagFilterBar({ tags, selectedIds, onChange }: TagFilterBarProps) {
+  if (tags.length === 0) return null
+
+  const toggle = (tagId: number) => {
+    onChange(selectedIds.includes(tagId)
+      ? selectedIds.filter(id => id !== tagId)
+      : [...selectedIds, tagId])
+  }
+
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto no-scrollbar mb-2" role="toolbar" aria-label="Filter by tag">
+      {tags.map(tag => {
+        const selected = selectedIds.includes(tag.id)
+        return (
+          <button
+            key={tag.id}
+            onClick={() => toggle(tag.id)}
+            className={`shrink-0 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+              selected
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            aria-pressed={selected}
+          >
+            {tag.name}
+          </button>
+        )
+      })}
+      {selectedIds.length > 0 && (
+        <button
+          onClick={() => onChange([])}
+          className="shrink-0 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title="Clear tag filter"
+          aria-label="Clear tag filter"
+        >
+          <X size={14} />
+        </button>
+      )}
+    </div>
+  )
+}
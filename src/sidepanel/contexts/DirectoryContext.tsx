@@ -0,0 +1,85 @@
+import { createContext } from 'preact'
+import { useContext, useState, useEffect, useMemo, useCallback } from 'preact/hooks'
+import { StorageService, EMPTY_DIRECTORY_INDEX, buildDirectoryIndex, resolveContacts } from '@/services'
+import type { DirectoryIndex, ResolvedContact } from '@/services'
+import type { DirectoryPerson, DirectoryCompany } from '@/types'
+
+interface DirectoryContextValue {
+  people: DirectoryPerson[]
+  companies: DirectoryCompany[]
+  index: DirectoryIndex
+  resolve: (value: string | undefined) => ResolvedContact[]
+}
+
+const DirectoryContext = createContext<DirectoryContextValue | undefined>(undefined)
+
+interface DirectoryProviderProps {
+  children: preact.ComponentChildren
+  projectId: string | null
+}
+
+/**
+ * The project directory, shared so any tab can turn a name into a contact.
+ * Reloaded when the background saves directory data.
+ */
+export function DirectoryProvider({ children, projectId }: DirectoryProviderProps) {
+  const [people, setPeople] = useState<DirectoryPerson[]>([])
+  const [companies, setCompanies] = useState<DirectoryCompany[]>([])
+
+  useEffect(() => {
+    if (!projectId) {
+      setPeople([])
+      setCompanies([])
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      const [loadedPeople, loadedCompanies] = await Promise.all([
+        StorageService.getPeople(projectId),
+        StorageService.getCompanies(projectId),
+      ])
+      if (!cancelled) {
+        setPeople(loadedPeople)
+        setCompanies(loadedCompanies)
+      }
+    }
+
+    const handleMessage = (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'DATA_SAVED') {
+        const payload = message.payload as { type?: string } | undefined
+        if (payload?.type === 'people' || payload?.type === 'companies' || payload?.type === 'directory') {
+          load()
+        }
+      }
+    }
+
+    load()
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => {
+      cancelled = true
+      chrome.runtime.onMessage.removeListener(handleMessage)
+    }
+  }, [projectId])
+
+  const index = useMemo(
+    () => people.length > 0 || companies.length > 0 ? buildDirectoryIndex(people, companies) : EMPTY_DIRECTORY_INDEX,
+    [people, companies]
+  )
+
+  const resolve = useCallback((value: string | undefined) => resolveContacts(index, value), [index])
+
+  return (
+    <DirectoryContext.Provider value={{ people, companies, index, resolve }}>
+      {children}
+    </DirectoryContext.Provider>
+  )
+}
+
+export function useDirectory() {
+  const context = useContext(DirectoryContext)
+  if (!context) {
+    throw new Error('useDirectory must be used within DirectoryProvider')
+  }
+  return context
+}
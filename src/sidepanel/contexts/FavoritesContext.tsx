@@ -1,7 +1,7 @@
 import { createContext } from 'preact'
 import { useContext, useState, useEffect, useCallback } from 'preact/hooks'
-import { StorageService } from '@/services'
-import type { FavoriteFolder } from '@/types'
+import { StorageService, drawingRefKey } from '@/services'
+import type { FavoriteFolder, DrawingRef } from '@/types'
 
 interface FavoritesContextValue {
   folders: FavoriteFolder[]
@@ -9,9 +9,9 @@ interface FavoritesContextValue {
   addFolder: (name: string) => Promise<FavoriteFolder>
   removeFolder: (folderId: number) => Promise<void>
   reorderFolders: (newOrderIds: number[]) => Promise<void>
-  addDrawingToFolder: (folderId: number, drawingNum: string) => Promise<boolean>
-  removeDrawingFromFolder: (folderId: number, drawingNum: string) => Promise<void>
-  getAllFavoriteDrawings: () => Set<string>
+  addDrawingToFolder: (folderId: number, drawing: DrawingRef) => Promise<boolean>
+  removeDrawingFromFolder: (folderId: number, drawing: DrawingRef) => Promise<void>
+  getAllFavoriteDrawings: () => Set<string>  // drawingRefKey() values, test with hasDrawingRef()
   refresh: () => Promise<void>
 }
 
@@ -68,23 +68,23 @@ export function FavoritesProvider({ children, projectId }: FavoritesProviderProp
     await StorageService.saveFavorites(projectId, { folders: reordered })
   }, [projectId, folders])
 
-  const addDrawingToFolder = useCallback(async (folderId: number, drawingNum: string) => {
+  const addDrawingToFolder = useCallback(async (folderId: number, drawing: DrawingRef) => {
     if (!projectId) return false
-    const success = await StorageService.addDrawingToFolder(projectId, folderId, drawingNum)
+    const success = await StorageService.addDrawingToFolder(projectId, folderId, drawing)
     if (success) await loadFavorites()
     return success
   }, [projectId, loadFavorites])
 
-  const removeDrawingFromFolder = useCallback(async (folderId: number, drawingNum: string) => {
+  const removeDrawingFromFolder = useCallback(async (folderId: number, drawing: DrawingRef) => {
     if (!projectId) return
-    await StorageService.removeDrawingFromFolder(projectId, folderId, drawingNum)
+    await StorageService.removeDrawingFromFolder(projectId, folderId, drawing)
     await loadFavorites()
   }, [projectId, loadFavorites])
 
   const getAllFavoriteDrawings = useCallback(() => {
     const set = new Set<string>()
     folders.forEach(f => {
-      f.drawings.forEach(d => set.add(d))
+      f.drawings.forEach(d => set.add(drawingRefKey(d)))
     })
     return set
   }, [folders])
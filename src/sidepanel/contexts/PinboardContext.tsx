@@ -0,0 +1,85 @@
+import { createContext } from 'preact'
+import { useContext, useState, useEffect, useCallback } from 'preact/hooks'
+import { StorageService, pinId } from '@/services'
+import type { Pin } from '@/types'
+
+type NewPin = Omit<Pin, 'id' | 'pinnedAt'>
+
+interface PinboardContextValue {
+  pins: Pin[]
+  isLoading: boolean
+  isPinned: (pin: Pick<Pin, 'projectId' | 'type' | 'itemId'>) => boolean
+  addPin: (pin: NewPin) => Promise<void>
+  removePin: (id: string) => Promise<void>
+  togglePin: (pin: NewPin) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+const PinboardContext = createContext<PinboardContextValue | undefined>(undefined)
+
+interface PinboardProviderProps {
+  children: preact.ComponentChildren
+}
+
+/**
+ * Global pinboard - unlike favorites it isn't tied to the selected project
+ */
+export function PinboardProvider({ children }: PinboardProviderProps) {
+  const [pins, setPins] = useState<Pin[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadPins = useCallback(async () => {
+    setPins(await StorageService.getPins())
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadPins()
+  }, [loadPins])
+
+  const isPinned = useCallback((pin: Pick<Pin, 'projectId' | 'type' | 'itemId'>) => {
+    const id = pinId(pin)
+    return pins.some(p => p.id === id)
+  }, [pins])
+
+  const addPin = useCallback(async (pin: NewPin) => {
+    await StorageService.addPin(pin)
+    await loadPins()
+  }, [loadPins])
+
+  const removePin = useCallback(async (id: string) => {
+    // Optimistic update
+    setPins(prev => prev.filter(p => p.id !== id))
+    await StorageService.removePin(id)
+  }, [])
+
+  const togglePin = useCallback(async (pin: NewPin) => {
+    if (isPinned(pin)) {
+      await removePin(pinId(pin))
+    } else {
+      await addPin(pin)
+    }
+  }, [isPinned, addPin, removePin])
+
+  return (
+    <PinboardContext.Provider value={{
+      pins,
+      isLoading,
+      isPinned,
+      addPin,
+      removePin,
+      togglePin,
+      refresh: loadPins,
+    }}>
+      {children}
+    </PinboardContext.Provider>
+  )
+}
+
+export function usePinboard() {
+  const context = useContext(PinboardContext)
+  if (!context) {
+    throw new Error('usePinboard must be used within PinboardProvider')
+  }
+  return context
+}
@@ -0,0 +1,75 @@
+import { createContext } from 'preact'
+import { useContext, useState, useEffect, useCallback } from 'preact/hooks'
+import { StorageService, defaultStatusColorScheme, getCycleColors, getStatusColorLabel } from '@/services'
+import type { StatusColor, StatusColorOption, StatusColorScheme } from '@/types'
+
+interface StatusColorSchemeContextValue {
+  scheme: StatusColorScheme
+  cycleColors: StatusColor[]
+  getLabel: (color: StatusColor) => string
+  updateOption: (color: StatusColor, updates: Partial<Omit<StatusColorOption, 'color'>>) => Promise<void>
+  resetScheme: () => Promise<void>
+}
+
+const StatusColorSchemeContext = createContext<StatusColorSchemeContextValue | undefined>(undefined)
+
+interface StatusColorSchemeProviderProps {
+  children: preact.ComponentChildren
+  projectId: string | null
+}
+
+/**
+ * Per-project color labels and cycle order, shared so Settings edits
+ * show up in the tabs right away
+ */
+export function StatusColorSchemeProvider({ children, projectId }: StatusColorSchemeProviderProps) {
+  const [scheme, setScheme] = useState<StatusColorScheme>(defaultStatusColorScheme)
+
+  useEffect(() => {
+    let cancelled = false
+    async function loadScheme() {
+      const loaded = projectId ? await StorageService.getStatusColorScheme(projectId) : defaultStatusColorScheme()
+      if (!cancelled) setScheme(loaded)
+    }
+    loadScheme()
+    return () => {
+      cancelled = true
+    }
+  }, [projectId])
+
+  const persist = useCallback(async (next: StatusColorScheme) => {
+    // Optimistic update
+    setScheme(next)
+    if (projectId) await StorageService.saveStatusColorScheme(projectId, next)
+  }, [projectId])
+
+  const updateOption = useCallback(async (color: StatusColor, updates: Partial<Omit<StatusColorOption, 'color'>>) => {
+    await persist({
+      options: scheme.options.map(o => o.color === color ? { ...o, ...updates } : o),
+    })
+  }, [scheme, persist])
+
+  const resetScheme = useCallback(() => persist(defaultStatusColorScheme()), [persist])
+
+  const getLabel = useCallback((color: StatusColor) => getStatusColorLabel(scheme, color), [scheme])
+
+  return (
+    <StatusColorSchemeContext.Provider value={{
+      scheme,
+      cycleColors: getCycleColors(scheme),
+      getLabel,
+      updateOption,
+      resetScheme,
+    }}>
+      {children}
+    </StatusColorSchemeContext.Provider>
+  )
+}
+
+export function useStatusColorScheme() {
+  const context = useContext(StatusColorSchemeContext)
+  if (!context) {
+    throw new Error('useStatusColorScheme must be used within StatusColorSchemeProvider')
+  }
+  return context
+}
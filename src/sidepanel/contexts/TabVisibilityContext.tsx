@@ -1,7 +1,10 @@
 /**
  * Tab Visibility Context Provider
  * 
- * Manages visibility state for RFIs and Cost tabs.
+ * Manages visibility state for the optional tabs (RFIs, Submittals,
+ * Punch, Cost, Specifications, Directory, Documents, Schedule), whether
+ * soft-deleted items (missing from any full scan so far) are listed, and
+ * how old cached data may get before tabs flag it as stale.
  * Follows the same pattern as ThemeContext:
  * - Persists preferences to IndexedDB
  * - Provides setters that update state and persist
@@ -14,11 +17,25 @@ import { PREFERENCE_KEYS, DEFAULT_PREFERENCES } from '@/types/preferences'
 
 interface TabVisibilityContextValue {
   showRFIsTab: boolean
+  showSubmittalsTab: boolean
+  showPunchTab: boolean
   showCostTab: boolean
   showSpecificationsTab: boolean
+  showDirectoryTab: boolean
+  showDocumentsTab: boolean
+  showScheduleTab: boolean
   setShowRFIsTab: (visible: boolean) => Promise<void>
+  setShowSubmittalsTab: (visible: boolean) => Promise<void>
+  setShowPunchTab: (visible: boolean) => Promise<void>
   setShowCostTab: (visible: boolean) => Promise<void>
   setShowSpecificationsTab: (visible: boolean) => Promise<void>
+  setShowDirectoryTab: (visible: boolean) => Promise<void>
+  setShowDocumentsTab: (visible: boolean) => Promise<void>
+  setShowScheduleTab: (visible: boolean) => Promise<void>
+  showRemovedItems: boolean
+  setShowRemovedItems: (visible: boolean) => Promise<void>
+  staleThresholdHours: number
+  setStaleThresholdHours: (hours: number) => Promise<void>
 }
 
 const TabVisibilityContext = createContext<TabVisibilityContextValue | undefined>(undefined)
@@ -29,18 +46,33 @@ interface TabVisibilityProviderProps {
 
 export function TabVisibilityProvider({ children }: TabVisibilityProviderProps) {
   const [showRFIsTab, setShowRFIsTabState] = useState(DEFAULT_PREFERENCES.showRFIsTab)
+  const [showSubmittalsTab, setShowSubmittalsTabState] = useState(DEFAULT_PREFERENCES.showSubmittalsTab)
+  const [showPunchTab, setShowPunchTabState] = useState(DEFAULT_PREFERENCES.showPunchTab)
   const [showCostTab, setShowCostTabState] = useState(DEFAULT_PREFERENCES.showCostTab)
   const [showSpecificationsTab, setShowSpecificationsTabState] = useState(DEFAULT_PREFERENCES.showSpecificationsTab)
+  const [showDirectoryTab, setShowDirectoryTabState] = useState(DEFAULT_PREFERENCES.showDirectoryTab)
+  const [showDocumentsTab, setShowDocumentsTabState] = useState(DEFAULT_PREFERENCES.showDocumentsTab)
+  const [showScheduleTab, setShowScheduleTabState] = useState(DEFAULT_PREFERENCES.showScheduleTab)
+  const [showRemovedItems, setShowRemovedItemsState] = useState(DEFAULT_PREFERENCES.showRemovedItems)
+  const [staleThresholdHours, setStaleThresholdHoursState] = useState(DEFAULT_PREFERENCES.staleThresholdHours)
 
   // Load preferences from storage on mount
   useEffect(() => {
     async function loadPreferences() {
       try {
-        const [rfis, cost, specs] = await Promise.all([
+        const [rfis, submittals, punch, cost, specs, directory, documents, schedule, removed, staleHours] = await Promise.all([
           StorageService.getPreferences<boolean>(
             PREFERENCE_KEYS.showRFIsTab,
             DEFAULT_PREFERENCES.showRFIsTab
           ),
+          StorageService.getPreferences<boolean>(
+            PREFERENCE_KEYS.showSubmittalsTab,
+            DEFAULT_PREFERENCES.showSubmittalsTab
+          ),
+          StorageService.getPreferences<boolean>(
+            PREFERENCE_KEYS.showPunchTab,
+            DEFAULT_PREFERENCES.showPunchTab
+          ),
           StorageService.getPreferences<boolean>(
             PREFERENCE_KEYS.showCostTab,
             DEFAULT_PREFERENCES.showCostTab
@@ -49,10 +81,37 @@ export function TabVisibilityProvider({ children }: TabVisibilityProviderProps)
             PREFERENCE_KEYS.showSpecificationsTab,
             DEFAULT_PREFERENCES.showSpecificationsTab
           ),
+          StorageService.getPreferences<boolean>(
+            PREFERENCE_KEYS.showDirectoryTab,
+            DEFAULT_PREFERENCES.showDirectoryTab
+          ),
+          StorageService.getPreferences<boolean>(
+            PREFERENCE_KEYS.showDocumentsTab,
+            DEFAULT_PREFERENCES.showDocumentsTab
+          ),
+          StorageService.getPreferences<boolean>(
+            PREFERENCE_KEYS.showScheduleTab,
+            DEFAULT_PREFERENCES.showScheduleTab
+          ),
+          StorageService.getPreferences<boolean>(
+            PREFERENCE_KEYS.showRemovedItems,
+            DEFAULT_PREFERENCES.showRemovedItems
+          ),
+          StorageService.getPreferences<number>(
+            PREFERENCE_KEYS.staleThresholdHours,
+            DEFAULT_PREFERENCES.staleThresholdHours
+          ),
         ])
         setShowRFIsTabState(rfis)
+        setShowSubmittalsTabState(submittals)
+        setShowPunchTabState(punch)
         setShowCostTabState(cost)
         setShowSpecificationsTabState(specs)
+        setShowDirectoryTabState(directory)
+        setShowDocumentsTabState(documents)
+        setShowScheduleTabState(schedule)
+        setShowRemovedItemsState(removed)
+        setStaleThresholdHoursState(staleHours)
       } catch (error) {
         console.error('Failed to load tab visibility preferences:', error)
       }
@@ -71,6 +130,28 @@ export function TabVisibilityProvider({ children }: TabVisibilityProviderProps)
     }
   }, [])
 
+  const setShowSubmittalsTab = useCallback(async (visible: boolean) => {
+    setShowSubmittalsTabState(visible)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.showSubmittalsTab, visible)
+    } catch (error) {
+      console.error('Failed to save Submittals tab preference:', error)
+      // Revert on error
+      setShowSubmittalsTabState(!visible)
+    }
+  }, [])
+
+  const setShowPunchTab = useCallback(async (visible: boolean) => {
+    setShowPunchTabState(visible)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.showPunchTab, visible)
+    } catch (error) {
+      console.error('Failed to save Punch tab preference:', error)
+      // Revert on error
+      setShowPunchTabState(!visible)
+    }
+  }, [])
+
   const setShowCostTab = useCallback(async (visible: boolean) => {
     setShowCostTabState(visible)
     try {
@@ -93,14 +174,84 @@ export function TabVisibilityProvider({ children }: TabVisibilityProviderProps)
     }
   }, [])
 
+  const setShowDirectoryTab = useCallback(async (visible: boolean) => {
+    setShowDirectoryTabState(visible)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.showDirectoryTab, visible)
+    } catch (error) {
+      console.error('Failed to save Directory tab preference:', error)
+      // Revert on error
+      setShowDirectoryTabState(!visible)
+    }
+  }, [])
+
+  const setShowDocumentsTab = useCallback(async (visible: boolean) => {
+    setShowDocumentsTabState(visible)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.showDocumentsTab, visible)
+    } catch (error) {
+      console.error('Failed to save Documents tab preference:', error)
+      // Revert on error
+      setShowDocumentsTabState(!visible)
+    }
+  }, [])
+
+  const setShowScheduleTab = useCallback(async (visible: boolean) => {
+    setShowScheduleTabState(visible)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.showScheduleTab, visible)
+    } catch (error) {
+      console.error('Failed to save Schedule tab preference:', error)
+      // Revert on error
+      setShowScheduleTabState(!visible)
+    }
+  }, [])
+
+  const setShowRemovedItems = useCallback(async (visible: boolean) => {
+    setShowRemovedItemsState(visible)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.showRemovedItems, visible)
+    } catch (error) {
+      console.error('Failed to save removed items preference:', error)
+      // Revert on error
+      setShowRemovedItemsState(!visible)
+    }
+  }, [])
+
+  const setStaleThresholdHours = useCallback(async (hours: number) => {
+    const previous = staleThresholdHours
+    setStaleThresholdHoursState(hours)
+    try {
+      await StorageService.savePreference(PREFERENCE_KEYS.staleThresholdHours, hours)
+    } catch (error) {
+      console.error('Failed to save stale threshold preference:', error)
+      // Revert on error
+      setStaleThresholdHoursState(previous)
+    }
+  }, [staleThresholdHours])
+
   return (
     <TabVisibilityContext.Provider value={{
       showRFIsTab,
+      showSubmittalsTab,
+      showPunchTab,
       showCostTab,
       showSpecificationsTab,
+      showDirectoryTab,
+      showDocumentsTab,
+      showScheduleTab,
       setShowRFIsTab,
+      setShowSubmittalsTab,
+      setShowPunchTab,
       setShowCostTab,
       setShowSpecificationsTab,
+      setShowDirectoryTab,
+      setShowDocumentsTab,
+      setShowScheduleTab,
+      showRemovedItems,
+      setShowRemovedItems,
+      staleThresholdHours,
+      setStaleThresholdHours,
     }}>
       {children}
     </TabVisibilityContext.Provider>
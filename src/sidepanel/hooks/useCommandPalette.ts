@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'preact/hooks'
-import { StorageService } from '@/services'
-import type { Drawing, CommandPaletteItem, DisciplineMap, RecentsList, RFI } from '@/types'
+import { StorageService, findDrawingByRef, hasDrawingRef, refersToDrawing, getEntityNote, noteMatches, parseTagQuery, matchesTagTerms, getDrawingStatusColor, findStatusColors, isPunchItemOpen, punchItemMatches, personMatches } from '@/services'
+import type { Drawing, CommandPaletteItem, StatusColor, CommandPaletteFilter, DisciplineMap, RecentsList, RFI, PunchItem, DirectoryPerson, EntityNotes, ProjectTags, DrawingStatusColors, StatusColorScheme } from '@/types'
 import type { CommandPaletteDataProvider } from '@/types/command-palette'
 
-// Group key constant for RFIs
+// Group key constants for RFIs, punch items and people
 const RFI_GROUP_KEY = 'RFIs'
+const PUNCH_GROUP_KEY = 'Punch List'
+const PEOPLE_GROUP_KEY = 'People'
 
 // Fuzzy match helper (from v1)
 function fuzzyMatch(text: string, pattern: string): boolean {
@@ -27,7 +29,7 @@ function fuzzyMatch(text: string, pattern: string): boolean {
  */
 class DefaultDataProvider implements CommandPaletteDataProvider {
   async getDrawings(projectId: string): Promise<Drawing[]> {
-    return StorageService.getDrawings(projectId)
+    return StorageService.filterRemoved(await StorageService.getDrawings(projectId))
   }
 
   async getDisciplineMap(projectId: string): Promise<DisciplineMap> {
@@ -43,7 +45,31 @@ class DefaultDataProvider implements CommandPaletteDataProvider {
   }
 
   async getRFIs(projectId: string): Promise<RFI[]> {
-    return StorageService.getRFIs(projectId)
+    return StorageService.filterRemoved(await StorageService.getRFIs(projectId))
+  }
+
+  async getPunchItems(projectId: string): Promise<PunchItem[]> {
+    return StorageService.filterRemoved(await StorageService.getPunchItems(projectId))
+  }
+
+  async getPeople(projectId: string): Promise<DirectoryPerson[]> {
+    return StorageService.filterRemoved(await StorageService.getPeople(projectId))
+  }
+
+  async getNotes(projectId: string): Promise<EntityNotes> {
+    return StorageService.getNotes(projectId)
+  }
+
+  async getTags(projectId: string): Promise<ProjectTags> {
+    return StorageService.getProjectTags(projectId)
+  }
+
+  async getStatusColors(projectId: string): Promise<DrawingStatusColors> {
+    return StorageService.getStatusColors(projectId)
+  }
+
+  async getStatusColorScheme(projectId: string): Promise<StatusColorScheme> {
+    return StorageService.getStatusColorScheme(projectId)
   }
 }
 
@@ -128,11 +154,17 @@ export function useCommandPalette(
       setIsSearching(true)
       
       try {
-        const [drawings, disciplineMap, favorites, rfis] = await Promise.all([
+        const [allDrawings, disciplineMap, favorites, allRFIs, allPunchItems, people, notes, tagData, statusColors, statusScheme] = await Promise.all([
           provider.getDrawings(projectId!),
           provider.getDisciplineMap(projectId!),
           provider.getAllFavoriteDrawings(projectId!),
           provider.getRFIs(projectId!),
+          provider.getPunchItems(projectId!),
+          provider.getPeople(projectId!),
+          provider.getNotes(projectId!),
+          provider.getTags(projectId!),
+          provider.getStatusColors(projectId!),
+          provider.getStatusColorScheme(projectId!),
         ])
         
         // Update favorite set state
@@ -144,14 +176,33 @@ export function useCommandPalette(
         
         if (searchCancelledRef.current) return
         
-        let cleanQuery = searchQuery.toLowerCase().trim()
-        let filter: 'all' | 'favorites' | 'discipline' | 'recents' | 'rfis' = 'all'
+        // "#tag" words narrow every filter below, e.g. "#level3 A-5" or "? #owner"
+        const { tagTerms, rest } = parseTagQuery(searchQuery.toLowerCase().trim())
+        const hasTagTerms = tagTerms.length > 0
+        const drawings = allDrawings.filter(d => matchesTagTerms(tagData, 'drawing', d.id, tagTerms))
+        const rfis = allRFIs.filter(r => matchesTagTerms(tagData, 'rfi', r.id, tagTerms))
+        const punchItems = allPunchItems.filter(p => matchesTagTerms(tagData, 'punch_item', p.id, tagTerms))
+
+        let cleanQuery = rest
+        let filter: CommandPaletteFilter = 'all'
         let disciplineFilter = ''
+        let statusFilter: StatusColor[] = []
 
         // Parse special prefixes
         if (cleanQuery.startsWith('?')) {
           filter = 'rfis'
           cleanQuery = cleanQuery.substring(1).trim()
+        } else if (cleanQuery.startsWith('~')) {
+          // "~level 2" - open punch items by location, assignee, title or number
+          filter = 'punch'
+          cleanQuery = cleanQuery.substring(1).trim()
+        } else if (cleanQuery.startsWith('+')) {
+          // "+smith" or "+electrical" - people by name, company, role or email
+          filter = 'people'
+          cleanQuery = cleanQuery.substring(1).trim()
+        } else if (cleanQuery.startsWith('!')) {
+          filter = 'notes'
+          cleanQuery = cleanQuery.substring(1).trim()
         } else if (cleanQuery.startsWith('*')) {
           filter = 'favorites'
           cleanQuery = cleanQuery.substring(1).trim()
@@ -159,7 +210,13 @@ export function useCommandPalette(
           filter = 'discipline'
           cleanQuery = cleanQuery.substring(1).trim()
           disciplineFilter = cleanQuery
-        } else if (!cleanQuery && currentRecents.length > 0) {
+        } else if (cleanQuery.startsWith('%')) {
+          // "%red" or "%needs review" - color names and labels; "%" alone lists every marked drawing
+          filter = 'status'
+          const statusTerm = cleanQuery.substring(1).trim()
+          statusFilter = statusTerm ? findStatusColors(statusScheme, statusTerm) : statusScheme.options.map(o => o.color)
+          cleanQuery = ''
+        } else if (!cleanQuery && !hasTagTerms && currentRecents.length > 0) {
           filter = 'recents'
         }
 
@@ -171,6 +228,22 @@ export function useCommandPalette(
           return d.discipline_name || 'General'
         }
 
+        const drawingNote = (d: Drawing) => getEntityNote(notes, 'drawing', d.id)?.text
+        const rfiNote = (r: RFI) => getEntityNote(notes, 'rfi', r.id)?.text
+        const punchNote = (p: PunchItem) => getEntityNote(notes, 'punch_item', p.id)?.text
+        const queryWords = cleanQuery.split(/\s+/).filter(Boolean)
+
+        // Location first, so a walk through one floor reads in order
+        const comparePunchItems = (a: PunchItem, b: PunchItem) =>
+          (a.location || '').localeCompare(b.location || '', undefined, { numeric: true }) ||
+          a.number.localeCompare(b.number, undefined, { numeric: true })
+        const toPunchResult = (p: PunchItem): CommandPaletteItem => ({
+          type: 'punch_item' as const,
+          data: p,
+          note: punchNote(p),
+        })
+        const drawingStatus = (d: Drawing) => getDrawingStatusColor(statusColors, d)
+
         let results: CommandPaletteItem[] = []
 
         // Handle RFI-only search (? prefix)
@@ -190,27 +263,52 @@ export function useCommandPalette(
           results = sortedRFIs.slice(0, 50).map(r => ({
             type: 'rfi' as const,
             data: r,
+            note: rfiNote(r),
           }))
         }
+        // Handle punch-only search (~ prefix) - open items only
+        else if (filter === 'punch') {
+          results = punchItems
+            .filter(p => isPunchItemOpen(p) && punchItemMatches(p, queryWords, punchNote(p)))
+            .sort(comparePunchItems)
+            .slice(0, 50)
+            .map(toPunchResult)
+        }
+        // Handle people search (+ prefix) - directory entries aren't tagged, so tag terms don't apply
+        else if (filter === 'people') {
+          results = people
+            .filter(person => personMatches(person, queryWords))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .slice(0, 50)
+            .map(person => ({ type: 'person' as const, data: person }))
+        }
         // Handle recents (empty search) - drawings only
         else if (filter === 'recents') {
           const recentDrawings = currentRecents
-            .map(num => drawings.find(d => d.num === num))
+            .map(ref => findDrawingByRef(ref, drawings))
             .filter((d): d is Drawing => d !== undefined)
 
           results = recentDrawings.map(d => ({
             type: 'drawing' as const,
             data: d,
             discipline: getDisciplineName(d),
-            isFavorite: favorites.has(d.num),
+            isFavorite: hasDrawingRef(favorites, d),
             isRecent: true,
+            note: drawingNote(d),
+            statusColor: drawingStatus(d),
           }))
         }
-        // Handle favorites or discipline filter (drawings only)
-        else if (filter === 'favorites' || filter === 'discipline') {
+        // Handle favorites, discipline or status filter (drawings only)
+        else if (filter === 'favorites' || filter === 'discipline' || filter === 'status') {
           const filtered = drawings.filter(d => {
+            // Status filter
+            if (filter === 'status') {
+              const color = drawingStatus(d)
+              return color !== undefined && statusFilter.includes(color)
+            }
+
             // Favorites filter
-            if (filter === 'favorites' && !favorites.has(d.num)) {
+            if (filter === 'favorites' && !hasDrawingRef(favorites, d)) {
               return false
             }
 
@@ -238,8 +336,10 @@ export function useCommandPalette(
             type: 'drawing' as const,
             data: d,
             discipline: getDisciplineName(d),
-            isFavorite: favorites.has(d.num),
-            isRecent: currentRecents.includes(d.num),
+            isFavorite: hasDrawingRef(favorites, d),
+            isRecent: currentRecents.some(ref => refersToDrawing(ref, d)),
+            note: drawingNote(d),
+            statusColor: drawingStatus(d),
           }))
 
           // Group by discipline and sort
@@ -278,41 +378,60 @@ export function useCommandPalette(
 
           results = flattened.slice(0, 50)
         }
-        // Standard search - search BOTH drawings and RFIs
+        // Standard search - search BOTH drawings and RFIs (notes filter: only items with a note)
         else {
+          const notesOnly = filter === 'notes'
+
           // Filter drawings
-          const filteredDrawings = cleanQuery
-            ? drawings.filter(d => {
-                const discName = getDisciplineName(d)
+          const filteredDrawings = drawings.filter(d => {
+            if (notesOnly && !drawingNote(d)) return false
+            if (!cleanQuery) return true
+            const discName = getDisciplineName(d)
+            return (
+              fuzzyMatch(d.num || '', cleanQuery) ||
+              fuzzyMatch(d.title || '', cleanQuery) ||
+              fuzzyMatch(discName, cleanQuery) ||
+              noteMatches(notes, 'drawing', d.id, cleanQuery)
+            )
+          })
+
+          // Filter RFIs - don't show all RFIs on empty search (that's handled by recents)
+          const filteredRFIs = cleanQuery || notesOnly || hasTagTerms
+            ? rfis.filter(r => {
+                if (notesOnly && !rfiNote(r)) return false
+                if (!cleanQuery) return true
                 return (
-                  fuzzyMatch(d.num || '', cleanQuery) ||
-                  fuzzyMatch(d.title || '', cleanQuery) ||
-                  fuzzyMatch(discName, cleanQuery)
+                  fuzzyMatch(r.number || '', cleanQuery) ||
+                  fuzzyMatch(r.subject || '', cleanQuery) ||
+                  noteMatches(notes, 'rfi', r.id, cleanQuery)
                 )
               })
-            : drawings
+            : []
 
-          // Filter RFIs
-          const filteredRFIs = cleanQuery
-            ? rfis.filter(r =>
-                fuzzyMatch(r.number || '', cleanQuery) ||
-                fuzzyMatch(r.subject || '', cleanQuery)
-              )
-            : [] // Don't show all RFIs on empty search (that's handled by recents)
+          // Punch items follow the same rule as RFIs
+          const filteredPunchItems = cleanQuery || notesOnly || hasTagTerms
+            ? punchItems.filter(p => {
+                if (notesOnly && !punchNote(p)) return false
+                return punchItemMatches(p, queryWords, punchNote(p))
+              })
+            : []
 
           // Convert drawings to results
           const drawingResults: CommandPaletteItem[] = filteredDrawings.map(d => ({
             type: 'drawing' as const,
             data: d,
             discipline: getDisciplineName(d),
-            isFavorite: favorites.has(d.num),
-            isRecent: currentRecents.includes(d.num),
+            isFavorite: hasDrawingRef(favorites, d),
+            isRecent: currentRecents.some(ref => refersToDrawing(ref, d)),
+            note: drawingNote(d),
+            statusColor: drawingStatus(d),
           }))
 
           // Convert RFIs to results
           const rfiResults: CommandPaletteItem[] = filteredRFIs.map(r => ({
             type: 'rfi' as const,
             data: r,
+            note: rfiNote(r),
           }))
 
           // Group drawings by discipline
@@ -348,6 +467,14 @@ export function useCommandPalette(
             sortedGroups.push([RFI_GROUP_KEY, rfiResults])
           }
 
+          // Punch items after RFIs, open ones first
+          if (filteredPunchItems.length > 0) {
+            const punchResults = filteredPunchItems
+              .sort((a, b) => Number(isPunchItemOpen(b)) - Number(isPunchItemOpen(a)) || comparePunchItems(a, b))
+              .map(toPunchResult)
+            sortedGroups.push([PUNCH_GROUP_KEY, punchResults])
+          }
+
           // Flatten back to array, limit to 50 total
           const flattened: CommandPaletteItem[] = []
           for (const [_, items] of sortedGroups) {
@@ -355,7 +482,7 @@ export function useCommandPalette(
               if (a.type === 'drawing' && b.type === 'drawing') {
                 return (a.data.num || '').localeCompare(b.data.num || '', undefined, { numeric: true })
               }
-              // RFIs are already sorted
+              // RFIs and punch items are already sorted
               return 0
             })
             flattened.push(...sorted)
@@ -429,5 +556,5 @@ export function useCommandPalette(
   }
 }
 
-// Export the RFI group key for use in the UI component
-export { RFI_GROUP_KEY }
+// Export the group keys for use in the UI component
+export { RFI_GROUP_KEY, PUNCH_GROUP_KEY, PEOPLE_GROUP_KEY }
@@ -0,0 +1 @@
+export { useDirectory } from '../contexts/DirectoryContext'
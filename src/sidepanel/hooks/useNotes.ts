@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'preact/hooks'
+import { StorageService, noteKey, getEntityNote } from '@/services'
+import type { EntityNotes, NoteEntityType } from '@/types'
+
+export function useNotes(projectId: string | null) {
+  const [notes, setNotes] = useState<EntityNotes>({})
+
+  // Load notes when project changes
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadNotes() {
+      const loaded = projectId ? await StorageService.getNotes(projectId) : {}
+      if (!cancelled) setNotes(loaded)
+    }
+
+    loadNotes()
+    return () => {
+      cancelled = true
+    }
+  }, [projectId])
+
+  const getNote = useCallback(
+    (type: NoteEntityType, itemId: number) => getEntityNote(notes, type, itemId),
+    [notes]
+  )
+
+  // Blank text removes the note
+  const saveNote = useCallback(async (type: NoteEntityType, itemId: number, text: string) => {
+    if (!projectId) return
+    const note = await StorageService.setNote(projectId, type, itemId, text)
+    setNotes(prev => {
+      const updated = { ...prev }
+      if (note) {
+        updated[noteKey(type, itemId)] = note
+      } else {
+        delete updated[noteKey(type, itemId)]
+      }
+      return updated
+    })
+  }, [projectId])
+
+  return { notes, getNote, saveNote }
+}
@@ -0,0 +1 @@
+export { usePinboard } from '../contexts/PinboardContext'
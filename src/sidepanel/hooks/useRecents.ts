@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'preact/hooks'
-import { StorageService } from '@/services'
-import type { RecentsList } from '@/types'
+import { StorageService, sameDrawingRef } from '@/services'
+import type { RecentsList, DrawingRef } from '@/types'
 
 export function useRecents(projectId: string | null) {
   const [recents, setRecents] = useState<RecentsList>([])
@@ -24,16 +24,16 @@ export function useRecents(projectId: string | null) {
     loadRecents()
   }, [projectId])
 
-  const addRecent = useCallback(async (drawingNum: string) => {
-    if (!projectId || !drawingNum) return
+  const addRecent = useCallback(async (drawing: DrawingRef) => {
+    if (!projectId || !drawing.num) return
     
     // Optimistically update
-    const current = recents.filter(num => num !== drawingNum)
-    const updated = [drawingNum, ...current].slice(0, 5)
+    const current = recents.filter(ref => !sameDrawingRef(ref, drawing))
+    const updated = [{ id: drawing.id, num: drawing.num }, ...current].slice(0, 5)
     setRecents(updated)
     
     // Persist to storage
-    await StorageService.addRecent(projectId, drawingNum)
+    await StorageService.addRecent(projectId, drawing)
   }, [projectId, recents])
 
   return { recents, addRecent, isLoading }
@@ -0,0 +1 @@
+export { useStatusColorScheme } from '../contexts/StatusColorSchemeContext'
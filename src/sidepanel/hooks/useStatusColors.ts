@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback } from 'preact/hooks'
-import { StorageService } from '@/services'
-import type { StatusColor, DrawingStatusColors } from '@/types'
+import { StorageService, drawingRefKey, getDrawingStatusColor, getDrawingStatusEntry, getNextStatusColor } from '@/services'
+import { useStatusColorScheme } from './useStatusColorScheme'
+import type { DrawingStatusColors, DrawingRef } from '@/types'
 
 export function useStatusColors(projectId: string | null) {
   const [colors, setColors] = useState<DrawingStatusColors>({})
   const [isLoading, setIsLoading] = useState(true)
+  const { scheme } = useStatusColorScheme()
 
   // Load colors when project changes
   useEffect(() => {
@@ -24,28 +26,35 @@ export function useStatusColors(projectId: string | null) {
     loadColors()
   }, [projectId])
 
-  // Cycle color: green -> red -> yellow -> blue -> orange -> pink -> (remove)
-  const cycleColor = useCallback(async (drawingNum: string) => {
-    if (!projectId || !drawingNum) return
+  // Cycle through the project's enabled colors, then (remove)
+  const cycleColor = useCallback(async (drawing: DrawingRef & { id: number }) => {
+    if (!projectId || !drawing.num) return
 
-    const colorOrder: StatusColor[] = ['green', 'red', 'yellow', 'blue', 'orange', 'pink']
-    const current = colors[drawingNum]
-    const currentIndex = current ? colorOrder.indexOf(current) : -1
-    const nextIndex = currentIndex < colorOrder.length - 1 ? currentIndex + 1 : -1
-    const nextColor = nextIndex >= 0 ? colorOrder[nextIndex] : null
+    const nextColor = getNextStatusColor(scheme, getDrawingStatusColor(colors, drawing))
 
     // Optimistically update UI
     const updated = { ...colors }
+    delete updated[drawingRefKey({ num: drawing.num })]
     if (nextColor) {
-      updated[drawingNum] = nextColor
+      updated[drawingRefKey(drawing)] = { id: drawing.id, num: drawing.num, color: nextColor, setAt: Date.now() }
     } else {
-      delete updated[drawingNum]
+      delete updated[drawingRefKey(drawing)]
     }
     setColors(updated)
 
     // Persist to storage
-    await StorageService.setDrawingStatusColor(projectId, drawingNum, nextColor)
-  }, [projectId, colors])
+    await StorageService.setDrawingStatusColor(projectId, drawing, nextColor)
+  }, [projectId, colors, scheme])
 
-  return { colors, cycleColor, isLoading }
+  const getColor = useCallback(
+    (drawing: DrawingRef & { id: number }) => getDrawingStatusColor(colors, drawing),
+    [colors]
+  )
+
+  const getEntry = useCallback(
+    (drawing: DrawingRef & { id: number }) => getDrawingStatusEntry(colors, drawing),
+    [colors]
+  )
+
+  return { colors, getColor, getEntry, cycleColor, isLoading }
 }
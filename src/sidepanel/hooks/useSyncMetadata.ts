@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'preact/hooks'
+import { StorageService } from '@/services'
+import type { ProjectSyncMetadata } from '@/types'
+
+/**
+ * Sync metadata for a project, reloaded whenever the background saves data
+ * or a scan finishes (failed scans don't send DATA_SAVED).
+ */
+export function useSyncMetadata(projectId: string | null) {
+  const [metadata, setMetadata] = useState<ProjectSyncMetadata>({})
+
+  useEffect(() => {
+    if (!projectId) {
+      setMetadata({})
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      const loaded = await StorageService.getSyncMetadata(projectId)
+      if (!cancelled) setMetadata(loaded)
+    }
+
+    const handleMessage = (message: { type: string; payload?: unknown }) => {
+      if (message.type === 'DATA_SAVED') {
+        load()
+      } else if (message.type === 'SCAN_PROGRESS') {
+        const payload = message.payload as { status?: string }
+        if (payload?.status === 'complete' || payload?.status === 'timeout') {
+          load()
+        }
+      }
+    }
+
+    load()
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => {
+      cancelled = true
+      chrome.runtime.onMessage.removeListener(handleMessage)
+    }
+  }, [projectId])
+
+  return metadata
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'preact/hooks'
+import { StorageService, getEntityTags, hasAllTags } from '@/services'
+import type { ProjectTags, Tag, TagEntityType } from '@/types'
+
+const EMPTY_TAGS: ProjectTags = { tags: [], assignments: {} }
+
+export function useTags(projectId: string | null) {
+  const [data, setData] = useState<ProjectTags>(EMPTY_TAGS)
+
+  const loadTags = useCallback(async () => {
+    setData(projectId ? await StorageService.getProjectTags(projectId) : EMPTY_TAGS)
+  }, [projectId])
+
+  // Load tags when project changes
+  useEffect(() => {
+    loadTags()
+  }, [loadTags])
+
+  const getTags = useCallback(
+    (type: TagEntityType, itemId: number): Tag[] => getEntityTags(data, type, itemId),
+    [data]
+  )
+
+  const matchesTags = useCallback(
+    (type: TagEntityType, itemId: number, tagIds: number[]) => hasAllTags(data, type, itemId, tagIds),
+    [data]
+  )
+
+  // Create the tag (or reuse one with the same name) and put it on the entity
+  const addTag = useCallback(async (type: TagEntityType, itemId: number, name: string) => {
+    if (!projectId) return
+    const tag = await StorageService.createTag(projectId, name)
+    if (!tag) return
+    await StorageService.setEntityTag(projectId, type, itemId, tag.id, true)
+    await loadTags()
+  }, [projectId, loadTags])
+
+  const toggleTag = useCallback(async (type: TagEntityType, itemId: number, tagId: number) => {
+    if (!projectId) return
+    const assigned = getEntityTags(data, type, itemId).some(tag => tag.id === tagId)
+    await StorageService.setEntityTag(projectId, type, itemId, tagId, !assigned)
+    await loadTags()
+  }, [projectId, data, loadTags])
+
+  return { data, tags: data.tags, getTags, matchesTags, addTag, toggleTag, refresh: loadTags }
+}
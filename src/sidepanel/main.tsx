@@ -3,13 +3,16 @@ import { App } from './App'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { TabVisibilityProvider } from './contexts/TabVisibilityContext'
 import { MascotProvider } from './contexts/MascotContext'
+import { PinboardProvider } from './contexts/PinboardContext'
 import './index.css'
 
 render(
   <ThemeProvider>
     <TabVisibilityProvider>
       <MascotProvider>
-        <App />
+        <PinboardProvider>
+          <App />
+        </PinboardProvider>
       </MascotProvider>
     </TabVisibilityProvider>
   </ThemeProvider>,
@@ -0,0 +1,182 @@
+/**
+ * Cost utilities
+ * Shared between the Cost tab's commitment, change event, change order and budget views
+ */
+
+import type { Commitment, ChangeEvent, BudgetLineItem } from '@/types'
+
+export function formatCurrency(amount: number | undefined): string {
+  if (amount === undefined || amount === null) return '-'
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+/**
+ * Determine the URL path type for a commitment based on its type field or number prefix.
+ * Procore uses different URL paths for different commitment types:
+ * - Purchase Orders: /purchase_order_contracts/
+ * - Work Orders/Subcontracts: /work_order_contracts/
+ */
+function getCommitmentUrlType(commitment: Commitment): string {
+  const type = commitment.type?.toLowerCase() || ''
+  const number = String(commitment.number ?? '').toUpperCase()
+
+  // Check type field first (API may return values like 'PurchaseOrderContract', 'WorkOrderContract')
+  if (type.includes('purchase') || type.includes('purchaseorder')) {
+    return 'purchase_order_contracts'
+  }
+  if (type.includes('work') || type.includes('subcontract') || type.includes('workorder')) {
+    return 'work_order_contracts'
+  }
+
+  // Fallback: check commitment number prefix
+  if (number.startsWith('PO-') || number.startsWith('PO ')) {
+    return 'purchase_order_contracts'
+  }
+  if (number.startsWith('WO-') || number.startsWith('SC-') || number.startsWith('SUB-')) {
+    return 'work_order_contracts'
+  }
+
+  // Default to purchase order contracts
+  return 'purchase_order_contracts'
+}
+
+export function getCommitmentUrl(projectId: string, commitment: Commitment): string {
+  return `https://app.procore.com/${projectId}/project/contracts/commitments/${getCommitmentUrlType(commitment)}/${commitment.id}`
+}
+
+export function getChangeEventUrl(projectId: string, changeEvent: ChangeEvent): string {
+  return `https://app.procore.com/${projectId}/project/change_events/events/${changeEvent.id}`
+}
+
+// Change orders are listed on their commitment; unlinked ones open the commitments tool
+export function getChangeOrderUrl(projectId: string, commitment?: Commitment): string {
+  return commitment
+    ? getCommitmentUrl(projectId, commitment)
+    : `https://app.procore.com/${projectId}/project/contracts/commitments`
+}
+
+export interface StatusRollup {
+  status: string
+  count: number
+  amount: number
+}
+
+/**
+ * Count and amount per status, largest amount first.
+ * Status names are compared case-insensitively and shown as first seen.
+ */
+export function rollupByStatus(items: Array<{ status: string; amount?: number }>): StatusRollup[] {
+  const byStatus = new Map<string, StatusRollup>()
+  for (const item of items) {
+    const key = item.status.toLowerCase()
+    const rollup = byStatus.get(key) ?? { status: item.status, count: 0, amount: 0 }
+    rollup.count++
+    rollup.amount += item.amount ?? 0
+    byStatus.set(key, rollup)
+  }
+  return Array.from(byStatus.values()).sort((a, b) => b.amount - a.amount || b.count - a.count)
+}
+
+export interface BudgetTotals {
+  original: number
+  approved: number
+  revised: number
+  committed: number
+  projected: number
+}
+
+export interface CostCodeNode {
+  code: string
+  name?: string
+  lineItems: BudgetLineItem[]       // Lines on exactly this code, one per category
+  children: CostCodeNode[]
+  totals: BudgetTotals              // This code's lines plus every code below it
+}
+
+function emptyTotals(): BudgetTotals {
+  return { original: 0, approved: 0, revised: 0, committed: 0, projected: 0 }
+}
+
+function addTotals(target: BudgetTotals, source: BudgetTotals): void {
+  target.original += source.original
+  target.approved += source.approved
+  target.revised += source.revised
+  target.committed += source.committed
+  target.projected += source.projected
+}
+
+export function sumBudgetLineItems(lineItems: BudgetLineItem[]): BudgetTotals {
+  const totals = emptyTotals()
+  for (const item of lineItems) {
+    totals.original += item.original_budget ?? 0
+    totals.approved += item.approved_changes ?? 0
+    totals.revised += item.revised_budget ?? 0
+    totals.committed += item.committed_costs ?? 0
+    totals.projected += item.projected_costs ?? 0
+  }
+  return totals
+}
+
+/**
+ * Nest cost codes by their segments ("03" > "03-300" > "03-300.10") and roll
+ * every budget column up to each level. Intermediate codes without lines of
+ * their own still get a node, so a division shows even if only its
+ * subdivisions are budgeted.
+ */
+export function buildCostCodeTree(lineItems: BudgetLineItem[]): CostCodeNode[] {
+  const nodes = new Map<string, CostCodeNode>()
+  const roots: CostCodeNode[] = []
+
+  const nodeFor = (code: string, parent: CostCodeNode | undefined): CostCodeNode => {
+    let node = nodes.get(code)
+    if (!node) {
+      node = { code, lineItems: [], children: [], totals: emptyTotals() }
+      nodes.set(code, node)
+      if (parent) {
+        parent.children.push(node)
+      } else {
+        roots.push(node)
+      }
+    }
+    return node
+  }
+
+  for (const item of lineItems) {
+    const code = item.cost_code.trim()
+    const prefixes: string[] = []
+    for (const match of code.matchAll(/[-.\s]+/g)) {
+      if (match.index) prefixes.push(code.slice(0, match.index))
+    }
+    prefixes.push(code)
+
+    let parent: CostCodeNode | undefined
+    for (const prefix of prefixes) {
+      parent = nodeFor(prefix, parent)
+    }
+    const node = parent!
+    node.lineItems.push(item)
+    node.name = node.name || item.cost_code_name
+  }
+
+  const byCode = (a: CostCodeNode, b: CostCodeNode) => a.code.localeCompare(b.code, undefined, { numeric: true })
+  const rollup = (node: CostCodeNode): BudgetTotals => {
+    node.children.sort(byCode)
+    node.lineItems.sort((a, b) => (a.category ?? '').localeCompare(b.category ?? ''))
+    node.totals = sumBudgetLineItems(node.lineItems)
+    for (const child of node.children) addTotals(node.totals, rollup(child))
+    return node.totals
+  }
+  roots.sort(byCode).forEach(rollup)
+
+  return roots
+}
+
+// Positive when projected costs exceed the revised budget
+export function getProjectedOverage(totals: Pick<BudgetTotals, 'revised' | 'projected'>): number {
+  return totals.projected - totals.revised
+}
@@ -0,0 +1,30 @@
+/**
+ * Drag-and-drop payload for drawings
+ * Shared between drawing rows and favorites folder drop targets
+ */
+
+import type { Drawing, DrawingRef } from '@/types'
+import { toDrawingRef } from '@/services'
+
+const DRAWING_REF_TYPE = 'application/x-pp-drawing-ref'
+
+/**
+ * Carries the drawing id for favorites, plus the number as plain text
+ * so dropping outside the panel still pastes something useful
+ */
+export function setDrawingDragData(dataTransfer: DataTransfer, drawing: Drawing): void {
+  dataTransfer.setData('text/plain', drawing.num)
+  dataTransfer.setData(DRAWING_REF_TYPE, JSON.stringify(toDrawingRef(drawing)))
+}
+
+export function getDrawingDragData(dataTransfer: DataTransfer | null | undefined): DrawingRef | null {
+  if (!dataTransfer) return null
+  try {
+    const ref = JSON.parse(dataTransfer.getData(DRAWING_REF_TYPE) || 'null') as DrawingRef | null
+    if (ref?.num) return ref
+  } catch {
+    // Fall through to the plain-text number
+  }
+  const num = dataTransfer.getData('text/plain')
+  return num ? { num } : null
+}
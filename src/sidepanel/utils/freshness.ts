@@ -0,0 +1,108 @@
+/**
+ * Sync freshness utilities
+ * Shared between the tab freshness badges and ProjectSelector
+ */
+
+import type { SyncMetadata, ProjectSyncMetadata } from '@/types'
+
+export type FreshnessState = 'fresh' | 'stale' | 'error' | 'unknown'
+
+export interface Freshness {
+  state: FreshnessState
+  label: string
+  detail: string
+}
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * Short relative age, e.g. "just now", "5m ago", "3h ago", "2d ago"
+ */
+export function formatAge(timestamp: number, now = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
+
+/**
+ * Wiretap captures usually cover only the pages the user happened to open, so
+ * only a full scan, or a capture that held the whole unfiltered list, within
+ * the threshold counts as fresh.
+ */
+export function getFreshness(metadata: SyncMetadata | undefined, thresholdHours: number, now = Date.now()): Freshness {
+  if (!metadata || (!metadata.lastFullScan && !metadata.lastWiretap)) {
+    return {
+      state: metadata?.lastError ? 'error' : 'unknown',
+      label: 'Never synced',
+      detail: metadata?.lastError ? `Last error: ${metadata.lastError.message}` : 'No scan or capture recorded yet',
+    }
+  }
+
+  const lines: string[] = [
+    metadata.lastFullScan
+      ? `Full scan: ${new Date(metadata.lastFullScan).toLocaleString()}`
+      : 'Full scan: never',
+    metadata.lastWiretap
+      ? `Last capture: ${new Date(metadata.lastWiretap).toLocaleString()}`
+      : 'Last capture: never',
+    `${metadata.itemCount} cached`,
+  ]
+
+  const latestSync = Math.max(metadata.lastFullScan ?? 0, metadata.lastWiretap ?? 0)
+  if (metadata.lastError && metadata.lastError.at >= latestSync) {
+    lines.push(`Last error: ${metadata.lastError.message}`)
+    return { state: 'error', label: 'Sync failed', detail: lines.join('\n') }
+  }
+
+  if (metadata.lastCompleteWiretap) {
+    lines.splice(2, 0, `Full list captured: ${new Date(metadata.lastCompleteWiretap).toLocaleString()}`)
+  }
+
+  const lastFullList = Math.max(metadata.lastFullScan ?? 0, metadata.lastCompleteWiretap ?? 0)
+  if (!lastFullList) {
+    return {
+      state: 'stale',
+      label: `Captured ${formatAge(metadata.lastWiretap!, now)}`,
+      detail: [...lines, 'Never fully scanned - list may be incomplete'].join('\n'),
+    }
+  }
+
+  const isStale = now - lastFullList > thresholdHours * HOUR
+  return {
+    state: isStale ? 'stale' : 'fresh',
+    label: lastFullList === metadata.lastFullScan
+      ? `Scanned ${formatAge(lastFullList, now)}`
+      : `Full list captured ${formatAge(lastFullList, now)}`,
+    detail: isStale ? [...lines, `Older than ${thresholdHours}h - consider rescanning`].join('\n') : lines.join('\n'),
+  }
+}
+
+const STATE_SEVERITY: Record<FreshnessState, number> = {
+  fresh: 0,
+  unknown: 1,
+  stale: 2,
+  error: 3,
+}
+
+/**
+ * Worst freshness across every entity type that has been synced for a project
+ */
+export function getProjectFreshness(metadata: ProjectSyncMetadata, thresholdHours: number, now = Date.now()): Freshness | null {
+  const results = Object.entries(metadata)
+    .filter((entry): entry is [string, SyncMetadata] => entry[1] !== undefined)
+    .map(([entityType, entry]) => ({ entityType, freshness: getFreshness(entry, thresholdHours, now) }))
+
+  if (results.length === 0) return null
+
+  const worst = results.reduce((a, b) =>
+    STATE_SEVERITY[b.freshness.state] > STATE_SEVERITY[a.freshness.state] ? b : a
+  )
+  return {
+    state: worst.freshness.state,
+    label: worst.freshness.state === 'fresh' ? worst.freshness.label : `${worst.entityType}: ${worst.freshness.label}`,
+    detail: results.map(r => `${r.entityType} - ${r.freshness.label}`).join('\n'),
+  }
+}
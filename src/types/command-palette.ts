@@ -1,4 +1,4 @@
-import type { Drawing, DisciplineMap, RecentsList, RFI } from './index'
+import type { Drawing, DisciplineMap, RecentsList, RFI, PunchItem, DirectoryPerson, EntityNotes, ProjectTags, DrawingStatusColors, StatusColorScheme } from './index'
 
 /**
  * Data provider interface for Command Palette
@@ -16,12 +16,12 @@ export interface CommandPaletteDataProvider {
   getDisciplineMap(projectId: string): Promise<DisciplineMap>
   
   /**
-   * Get all favorite drawing numbers as a Set
+   * Get all favorite drawing references as a Set of drawingRefKey() values
    */
   getAllFavoriteDrawings(projectId: string): Promise<Set<string>>
   
   /**
-   * Get recent drawing numbers
+   * Get recent drawing references
    */
   getRecents(projectId: string): Promise<RecentsList>
   
@@ -29,4 +29,34 @@ export interface CommandPaletteDataProvider {
    * Get all RFIs for a project
    */
   getRFIs(projectId: string): Promise<RFI[]>
+
+  /**
+   * Get all punch items for a project
+   */
+  getPunchItems(projectId: string): Promise<PunchItem[]>
+
+  /**
+   * Get the people in a project's directory
+   */
+  getPeople(projectId: string): Promise<DirectoryPerson[]>
+
+  /**
+   * Get personal notes for a project, keyed by noteKey()
+   */
+  getNotes(projectId: string): Promise<EntityNotes>
+
+  /**
+   * Get project tags and their assignments
+   */
+  getTags(projectId: string): Promise<ProjectTags>
+
+  /**
+   * Get drawing status colors for a project
+   */
+  getStatusColors(projectId: string): Promise<DrawingStatusColors>
+
+  /**
+   * Get the project's status color labels (for "%" searches)
+   */
+  getStatusColorScheme(projectId: string): Promise<StatusColorScheme>
 }
@@ -7,6 +7,28 @@ export interface Drawing {
   // Discipline can be stored as object {id, name} like v1, or just id, or name directly
   discipline?: { id?: number; name?: string } | number
   discipline_name?: string
+  revision?: string                 // Current revision number, e.g. "3"
+  drawing_area_id?: string          // Drawing area the sheet belongs to
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+export interface DrawingArea {
+  id: string
+  name?: string                     // e.g. "Building A" - unknown until an area list is fetched
+}
+
+export interface DrawingRevision {
+  id: number
+  drawing_id: number
+  num?: string                      // Drawing number at the time of this revision
+  title?: string
+  revision_number: string
+  drawing_date?: string
+  received_date?: string
+  issued_date?: string
+  received_from?: string
+  set_name?: string
+  current?: boolean
 }
 
 export interface RFI {
@@ -18,6 +40,103 @@ export interface RFI {
   due_date?: string
   assignee?: string
   ball_in_court?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+export interface Submittal {
+  id: number
+  number: string
+  title: string
+  revision?: string
+  status: string
+  spec_section?: string             // e.g. "03 30 00 - Cast-in-Place Concrete"
+  ball_in_court?: string            // Names, comma separated
+  due_date?: string
+  required_on_site_date?: string
+  created_at?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+export interface PunchItem {
+  id: number
+  number: string
+  title: string
+  location?: string                 // Full path, e.g. "Building A > Level 2 > Room 204"
+  status: string
+  assignee?: string                 // Names, comma separated
+  ball_in_court?: string            // Names, comma separated
+  due_date?: string
+  created_at?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+// A user in the project directory
+export interface DirectoryPerson {
+  id: number
+  name: string
+  company?: string                  // Vendor the person works for
+  company_id?: number
+  role?: string                     // Job title
+  email?: string
+  phone?: string                    // Business phone, falling back to mobile
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+// A vendor company in the project directory
+export interface DirectoryCompany {
+  id: number
+  name: string
+  trade?: string                    // Trades, comma separated
+  email?: string
+  phone?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+// A folder in the Documents tool. The root folder has no parent.
+export interface DocumentFolder {
+  id: number
+  name: string
+  parent_id?: number
+  path?: string                     // Full path, e.g. "Contracts/Subcontracts"
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+// A file in the Documents tool
+export interface DocumentFile {
+  id: number
+  name: string
+  folder_id?: number
+  path?: string                     // Full path including the file name
+  file_type?: string                // Extension, e.g. "pdf"
+  size?: number                     // Bytes
+  updated_at?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+// One budget line: a cost code and cost type (category) with its budget columns
+export interface BudgetLineItem {
+  id: number
+  cost_code: string                 // Full code, e.g. "03-300"
+  cost_code_name?: string           // e.g. "Cast-in-Place Concrete"
+  category?: string                 // Cost type, e.g. "Labor", "Materials"
+  original_budget?: number
+  approved_changes?: number         // Approved budget changes
+  revised_budget?: number
+  committed_costs?: number
+  projected_costs?: number
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+// A task from the project schedule. Summary tasks are the parents of others.
+export interface ScheduleTask {
+  id: number
+  name: string
+  parent_id?: number
+  start?: string                    // ISO date
+  finish?: string                   // ISO date
+  percent_complete?: number         // 0-100
+  resource?: string                 // Resource names, comma separated
+  removed_at?: number               // Set when missing from a full scan (soft delete)
 }
 
 export interface Commitment {
@@ -34,6 +153,32 @@ export interface Commitment {
   draft_amount?: number
 }
 
+export interface ChangeEvent {
+  id: number
+  number: string
+  title: string
+  status: string
+  scope?: string                    // In scope / Out of scope / TBD
+  change_reason?: string
+  amount?: number                   // Estimated cost (ROM) total
+  commitment_id?: number            // Parent commitment, when a line item names one
+  created_at?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
+export interface CommitmentChangeOrder {
+  id: number
+  number: string
+  title: string
+  status: string
+  amount?: number                   // Grand total
+  commitment_id?: number            // Parent commitment (Procore contract_id)
+  due_date?: string
+  executed?: boolean
+  created_at?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
+}
+
 export interface Specification {
   id: number
   number: string
@@ -45,6 +190,7 @@ export interface Specification {
   issued_date?: string
   received_date?: string
   url?: string
+  removed_at?: number               // Set when missing from a full scan (soft delete)
 }
 
 export interface DivisionMap {
@@ -59,11 +205,17 @@ export interface DivisionMap {
 export interface Project {
   id: string
   companyId?: string
-  name?: string
-  drawingAreaId?: string
+  name?: string                     // As Procore names it; refreshed from captures
+  customName?: string               // Manual rename, shown instead of name
+  companyName?: string
+  drawingAreaId?: string            // Most recently visited drawing area
+  drawingAreas?: DrawingArea[]      // Every known drawing area in the project
   lastAccessed: number
 }
 
+// Names read from Procore project and company records
+export type ProjectNames = Pick<Project, 'name' | 'companyId' | 'companyName'>
+
 export interface DisciplineMap {
   [id: number]: {
     name: string
@@ -93,10 +245,113 @@ export interface WiretapMessage {
     total?: string | null
     perPage?: string | null
   }
+  grid?: WiretapGridRequest         // AG Grid server-side requests only
+  stats?: WiretapCaptureStats
+  request?: WiretapRequestContext
+}
+
+// How the page asked for a captured response
+export interface WiretapRequestContext {
+  method: string
+  query: Record<string, string>
+  filters: Record<string, unknown>  // Filter and search terms from the query string or a JSON body
+  page?: number
+  perPage?: number
+}
+
+// Whether a capture held the whole list: only a complete one may stand in for a scan
+export type WiretapCompleteness = 'complete' | 'partial' | 'filtered'
+
+// Measured in the page, before the capture is posted
+export interface WiretapCaptureStats {
+  rawSize: number                   // Response body length, in characters
+  stripped: boolean                 // Items were cut down to the fields the detectors read
+  stripMs: number
+}
+
+// The block an AG Grid server-side row model request asked for, read from its body
+export interface WiretapGridRequest {
+  startRow?: number
+  endRow?: number
+  groupKeys?: string[]              // Values of the expanded groups, outermost first
+  rowGroupFields?: string[]         // Fields the grid is grouped by, same order
+}
+
+// What a wiretap detector stores (see background/wiretap-detectors.ts)
+export type WiretapEntityType =
+  | 'disciplines'
+  | 'rfis'
+  | 'submittals'
+  | 'punch_items'
+  | 'commitments'
+  | 'change_events'
+  | 'change_orders'
+  | 'budget_line_items'
+  | 'people'
+  | 'companies'
+  | 'document_folders'
+  | 'document_files'
+  | 'schedule_tasks'
+  | 'divisions'
+  | 'specifications'
+  | 'drawing_revisions'
+  | 'drawings'
+
+// Items in a capture that no listening detector accepted
+export interface WiretapUnclassified {
+  source: string
+  count: number
+  expected: WiretapEntityType[]     // Detectors listening to the capture URL
+  looksLike: WiretapEntityType[]    // Other detectors whose shape check the items pass
+  sampleKeys: string[]
+}
+
+export interface WiretapResult {
+  saved: boolean
+  type?: WiretapEntityType          // First type saved, for single-type listeners
+  count?: number
+  saves?: Array<{ type: WiretapEntityType; count: number }>
+  unclassified?: WiretapUnclassified
+  reason?: string                   // Why nothing was saved
+}
+
+// One wiretap capture as recorded by the capture inspector (background/capture-log.ts)
+export interface CaptureLogEntry {
+  id: string
+  at: number
+  source: string
+  projectId?: string
+  size: number                      // Payload size as JSON, in characters
+  headers: WiretapMessage['headers']
+  itemCount: number                 // Items found in the payload before classification
+  saves: Array<{ type: WiretapEntityType; count: number }>
+  reason?: string
+  unclassified?: WiretapUnclassified
+  hasPayload: boolean               // Small payloads are kept so they can be re-classified
+  grid?: WiretapGridRequest & { rowCount?: number }
+  cost?: CaptureCost
+  request?: WiretapRequestContext
+  completeness?: WiretapCompleteness
+}
+
+// What a capture cost from the page to storage, for the capture inspector
+export interface CaptureCost {
+  rawSize?: number                  // Before stripping; `size` is what was posted
+  stripMs?: number
+  queuedMs: number                  // Waiting in the service worker's capture queue
+  processMs: number                 // Classifying and saving the chunk it was part of
+  chunkSize: number                 // Captures processed together in that chunk
+}
+
+// A stored capture run through classification again, without saving anything
+export interface CaptureReclassification {
+  itemCount: number
+  groups: Array<{ type: WiretapEntityType; count: number }>
+  unclassified?: WiretapUnclassified
 }
 
 export interface TabInfo {
-  id: 'drawings' | 'rfis' | 'cost' | 'specifications'
+  id: 'drawings' | 'rfis' | 'submittals' | 'punch' | 'cost' | 'specifications' | 'directory' | 'documents' | 'schedule'
   label: string
   icon: import('lucide-preact').LucideIcon
 }
@@ -108,28 +363,243 @@ export type MessageType =
   | 'SCAN_REQUEST'
   | 'SCAN_COMPLETE'
   | 'GET_PROJECT_DATA'
-  | 'WIRETAP_DATA'
+  | 'WIRETAP_BATCH'
 
 export interface ExtensionMessage<T = unknown> {
   type: MessageType
   payload?: T
 }
 
+// ============================================
+// CHANGE TRACKING
+// ============================================
+
+// Where a cached record came from: passive wiretap capture or a full API scan
+export type ChangeSource = 'wiretap' | 'scan' | 'restore'
+
+export type CachedEntityType =
+  | 'drawing'
+  | 'drawing_revision'
+  | 'rfi'
+  | 'submittal'
+  | 'punch_item'
+  | 'commitment'
+  | 'change_event'
+  | 'change_order'
+  | 'budget_line_item'
+  | 'specification'
+  | 'person'
+  | 'company'
+  | 'document_folder'
+  | 'document_file'
+  | 'schedule_task'
+
+export interface FieldChange {
+  field: string
+  oldValue: unknown
+  newValue: unknown
+}
+
+export interface EntityChange {
+  entityType: CachedEntityType
+  entityId: number
+  changedAt: number
+  source: ChangeSource
+  changes: FieldChange[]
+}
+
+// ============================================
+// SYNC METADATA
+// ============================================
+
+export type SyncEntityType =
+  | 'drawings'
+  | 'rfis'
+  | 'submittals'
+  | 'punch_items'
+  | 'commitments'
+  | 'change_events'
+  | 'change_orders'
+  | 'budget_line_items'
+  | 'specifications'
+  | 'people'
+  | 'companies'
+  | 'documents'
+  | 'schedule_tasks'
+
+// Freshness of one entity type's cache for a project
+export interface SyncMetadata {
+  lastFullScan?: number      // Last API scan that fetched every page
+  lastWiretap?: number       // Last passive capture while browsing Procore
+  lastCompleteWiretap?: number  // Last capture that held the whole, unfiltered list
+  itemCount: number          // Cached items, excluding soft-deleted ones
+  lastError?: {
+    message: string
+    at: number
+  }
+}
+
+export type ProjectSyncMetadata = Partial<Record<SyncEntityType, SyncMetadata>>
+
+export interface SyncEvent {
+  source: 'scan' | 'wiretap'
+  complete?: boolean         // Scans: false when paging stopped early. Wiretap: true for a whole, unfiltered list
+  error?: string
+}
+
+// ============================================
+// SCHEMA VERSIONING
+// ============================================
+
+// One IndexedDB database per data type (see StorageService)
+export type DatabaseName =
+  | 'pp-drawings'
+  | 'pp-drawing-revisions'
+  | 'pp-rfis'
+  | 'pp-submittals'
+  | 'pp-punch'
+  | 'pp-commitments'
+  | 'pp-specifications'
+  | 'pp-directory'
+  | 'pp-documents'
+  | 'pp-schedule'
+  | 'pp-projects'
+  | 'pp-preferences'
+  | 'pp-changes'
+  | 'pp-sync'
+
+export interface SchemaState {
+  version: number
+  updatedAt: number
+  // Set when the last migration attempt failed
+  failedVersion?: number
+  error?: string
+  // How the database was recovered after a failed migration
+  recovery?: 'restored' | 'cleared'
+}
+
+// ============================================
+// BACKUP / RESTORE
+// ============================================
+
+export interface ProjectBackup {
+  project: Project
+  drawings: Drawing[]
+  drawingRevisions: DrawingRevision[]
+  disciplineMap: DisciplineMap      // Disciplines not attributed to a drawing area
+  disciplineMaps: Record<string, DisciplineMap>  // Keyed by drawing area ID
+  rfis: RFI[]
+  submittals: Submittal[]
+  punchItems: PunchItem[]
+  commitments: Commitment[]
+  changeEvents: ChangeEvent[]
+  changeOrders: CommitmentChangeOrder[]
+  budgetLineItems: BudgetLineItem[]
+  specifications: Specification[]
+  divisionMap: DivisionMap
+  people: DirectoryPerson[]
+  companies: DirectoryCompany[]
+  documentFolders: DocumentFolder[]
+  documentFiles: DocumentFile[]
+  scheduleTasks: ScheduleTask[]
+  statusColors: DrawingStatusColors
+  recents: RecentsList
+  favorites: FavoritesData
+  notes: EntityNotes
+  tags: ProjectTags
+  statusColorScheme?: StatusColorScheme  // Missing when the project still uses the defaults
+}
+
+export interface BackupFile {
+  format: 'procore-power-up-backup'
+  version: number                   // Backup file format version
+  exportedAt: number
+  schemaVersions: Partial<Record<DatabaseName, number>>
+  projects: ProjectBackup[]
+  preferences: Record<string, unknown>  // Values for PREFERENCE_KEYS
+}
+
+// merge: combine with what's already stored; replace: wipe and load the backup as-is
+export type RestoreMode = 'merge' | 'replace'
+
+export interface RestoreSectionPreview {
+  label: string
+  added: number
+  updated: number
+  removed: number
+}
+
+export interface RestoreProjectPreview {
+  projectId: string
+  name?: string
+  status: 'new' | 'existing' | 'removed'
+  sections: RestoreSectionPreview[]
+}
+
+export interface RestorePreview {
+  mode: RestoreMode
+  exportedAt: number
+  projects: RestoreProjectPreview[]
+  preferencesChanged: string[]
+}
+
 // ============================================
 // STATUS COLORS
 // ============================================
 
 export type StatusColor = 'green' | 'red' | 'yellow' | 'blue' | 'orange' | 'pink'
 
+export interface DrawingStatusColor extends DrawingRef {
+  color: StatusColor
+  setAt?: number                    // When the color was set (missing on older markings)
+}
+
+// Keyed by drawingRefKey() - the drawing id, or "num:<number>" when the id is unknown
 export interface DrawingStatusColors {
-  [drawingNum: string]: StatusColor
+  [refKey: string]: DrawingStatusColor
+}
+
+export interface StatusColorOption {
+  color: StatusColor
+  label: string                     // What the color means on this project, e.g. "Needs review"
+  enabled: boolean                  // Part of the click-to-cycle order
+}
+
+// Per-project meaning of each status color; options are in cycle order
+export interface StatusColorScheme {
+  options: StatusColorOption[]
+}
+
+// ============================================
+// DRAWING REFERENCES
+// ============================================
+
+// Points at a drawing from favorites, recents and status colors.
+// The id survives renumbering; the number is the fallback when the id is unknown.
+export interface DrawingRef {
+  id?: number
+  num: string
+}
+
+export type DrawingRefLocation = 'recents' | 'favorites' | 'statusColors'
+
+export interface UnresolvedDrawingRef {
+  ref: DrawingRef
+  location: DrawingRefLocation
+  folderId?: number        // Favorites only
+  folderName?: string
+}
+
+export interface DrawingRefRepairResult {
+  relinked: number         // References whose id or number was updated
+  unresolved: UnresolvedDrawingRef[]
 }
 
 // ============================================
 // RECENTS
 // ============================================
 
-export type RecentsList = string[] // Array of drawing numbers
+export type RecentsList = DrawingRef[]
 
 // ============================================
 // FAVORITES
@@ -138,26 +608,83 @@ export type RecentsList = string[] // Array of drawing numbers
 export interface FavoriteFolder {
   id: number
   name: string
-  drawings: string[] // Array of drawing numbers
+  drawings: DrawingRef[]
 }
 
 export interface FavoritesData {
   folders: FavoriteFolder[]
 }
 
+// ============================================
+// NOTES
+// ============================================
+
+export type NoteEntityType = 'drawing' | 'rfi' | 'submittal' | 'punch_item' | 'specification' | 'commitment'
+
+// Free-text note on a cached entity. Drawings are keyed by id, so notes survive renumbering.
+export interface EntityNote {
+  type: NoteEntityType
+  itemId: number
+  text: string
+  updatedAt: number
+}
+
+// Keyed by noteKey() - "<type>:<itemId>"
+export interface EntityNotes {
+  [key: string]: EntityNote
+}
+
+// ============================================
+// TAGS
+// ============================================
+
+export type TagEntityType = NoteEntityType
+
+export interface Tag {
+  id: number
+  name: string                      // e.g. "Level 3", "Owner review"
+}
+
+// Tags are defined per project; one entity can carry any number of them
+export interface ProjectTags {
+  tags: Tag[]
+  assignments: Record<string, number[]>  // entityTagKey() "<type>:<itemId>" -> tag ids
+}
+
+// ============================================
+// PINBOARD
+// ============================================
+
+export type PinType = 'drawing' | 'rfi' | 'submittal' | 'punch_item' | 'specification' | 'commitment' | 'document'
+
+// A pinned item from any project. Drawings open through OPEN_DRAWING,
+// everything else through OPEN_TAB with the url captured when pinned.
+export interface Pin {
+  id: string           // pinId(): "<projectId>:<type>:<itemId>"
+  type: PinType
+  projectId: string
+  itemId: number
+  label: string        // Number shown in the list, e.g. "A-101" or "RFI #12"
+  title?: string
+  url?: string
+  pinnedAt: number
+}
+
 // ============================================
 // COMMAND PALETTE
 // ============================================
 
 // Discriminated union for command palette items
 export type CommandPaletteItem = 
-  | { type: 'drawing'; data: Drawing; discipline: string; isFavorite: boolean; isRecent: boolean }
-  | { type: 'rfi'; data: RFI }
+  | { type: 'drawing'; data: Drawing; discipline: string; isFavorite: boolean; isRecent: boolean; note?: string; statusColor?: StatusColor }
+  | { type: 'rfi'; data: RFI; note?: string }
+  | { type: 'punch_item'; data: PunchItem; note?: string }
+  | { type: 'person'; data: DirectoryPerson }
 
 // Backward compatibility alias
 export type CommandPaletteResult = CommandPaletteItem
 
-export type CommandPaletteFilter = 'all' | 'favorites' | 'discipline' | 'recents' | 'rfis'
+export type CommandPaletteFilter = 'all' | 'favorites' | 'discipline' | 'recents' | 'rfis' | 'punch' | 'people' | 'notes' | 'status'
 
 // Export CommandPaletteDataProvider type
 export type { CommandPaletteDataProvider } from './command-palette'
@@ -15,8 +15,15 @@ export interface UserPreferences {
   theme: ThemeMode
   openInBackground: boolean
   showRFIsTab: boolean
+  showSubmittalsTab: boolean
+  showPunchTab: boolean
   showCostTab: boolean
   showSpecificationsTab: boolean
+  showDirectoryTab: boolean
+  showDocumentsTab: boolean
+  showScheduleTab: boolean
+  showRemovedItems: boolean
+  staleThresholdHours: number
   animationLevel: AnimationLevel
   showHeaderToolButtons: boolean
   visibleTools: ToolId[]
@@ -26,8 +33,15 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
   theme: 'auto',
   openInBackground: false,
   showRFIsTab: false,
+  showSubmittalsTab: false,
+  showPunchTab: false,
   showCostTab: false,
   showSpecificationsTab: false,
+  showDirectoryTab: false,
+  showDocumentsTab: false,
+  showScheduleTab: false,
+  showRemovedItems: false,
+  staleThresholdHours: 24,
   animationLevel: 'normal',
   showHeaderToolButtons: true,
   visibleTools: ['home', 'drawings', 'submittals', 'rfis', 'directory'],
@@ -41,10 +55,23 @@ export const PREFERENCE_KEYS = {
   theme: 'theme',
   openInBackground: 'openInBackground',
   showRFIsTab: 'showRFIsTab',
+  showSubmittalsTab: 'showSubmittalsTab',
+  showPunchTab: 'showPunchTab',
   showCostTab: 'showCostTab',
   showSpecificationsTab: 'showSpecificationsTab',
+  showDirectoryTab: 'showDirectoryTab',
+  showDocumentsTab: 'showDocumentsTab',
+  showScheduleTab: 'showScheduleTab',
+  showRemovedItems: 'showRemovedItems',
+  staleThresholdHours: 'staleThresholdHours',
   recentsExpanded: 'recentsExpanded',
   favoritesExpanded: 'favoritesExpanded',
+  // Punch tab grouping: 'location' or 'assignee'
+  punchGroupBy: 'punchGroupBy',
+  // Schedule tab lookahead window in weeks (2, 3 or 6)
+  scheduleLookaheadWeeks: 'scheduleLookaheadWeeks',
+  // Global pinboard (pins from every project, see Pin)
+  pinboard: 'pinboard',
   animationLevel: 'animationLevel',
   // Quick Nav toolbar
   showHeaderToolButtons: 'showHeaderToolButtons',
@@ -55,5 +82,8 @@ export const PREFERENCE_KEYS = {
   settingsDataSyncExpanded: 'settingsDataSyncExpanded',
   settingsPreferencesExpanded: 'settingsPreferencesExpanded',
   settingsFavoritesExpanded: 'settingsFavoritesExpanded',
+  settingsStatusColorsExpanded: 'settingsStatusColorsExpanded',
   settingsQuickNavExpanded: 'settingsQuickNavExpanded',
+  settingsBackupExpanded: 'settingsBackupExpanded',
+  settingsCaptureInspectorExpanded: 'settingsCaptureInspectorExpanded',
 } as const